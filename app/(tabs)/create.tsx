@@ -14,31 +14,67 @@ import { router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { MarkdownToolbar } from '@/components/MarkdownToolbar';
+import { TagSuggestions } from '@/components/TagSuggestions';
+import { NotebookPicker } from '@/components/NotebookPicker';
+import { DraftRestore } from '@/components/DraftRestore';
 import { useTheme } from '@/contexts/_ThemeContext';
-import { createNote } from '@/services/notes';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import { createNote } from '@/services/localNotes';
+import { EMPTY_DRAFT_FIELDS, NEW_NOTE_DRAFT_ID } from '@/services/drafts';
 import { useHaptics } from '@/hooks/useHaptics';
+import { useMarkdownEditor } from '@/hooks/useMarkdownEditor';
+import { useExistingTags } from '@/hooks/useExistingTags';
+import { useNoteDraft } from '@/hooks/useNoteDraft';
+import { completeTypedTag, dedupeTags, getTagSuggestions, getTypedTag } from '@/utils/tags';
+import { MAX_TITLE_LENGTH, NoteValidationError, getNoteErrors } from '@/utils/noteValidation';
+import { getNotebookName } from '@/utils/notebooks';
 
 export default function CreateNoteScreen() {
     const { theme } = useTheme();
+    const { notebooks } = useNotebooks();
     const insets = useSafeAreaInsets();
     const [title, setTitle] = useState('');
     const [body, setBody] = useState('');
     const [tags, setTags] = useState('');
+    const [notebookId, setNotebookId] = useState<string | null>(null); // ✅ New notes go to the Inbox by default
+    const [showNotebookPicker, setShowNotebookPicker] = useState(false);
     const [creating, setCreating] = useState(false);
     const [isTagsFocused, setIsTagsFocused] = useState(false);
+    const markdown = useMarkdownEditor(body, setBody);
+    const existingTags = useExistingTags();
 
     const haptics = useHaptics();
 
     // Process tags for validation and display
-    const processedTags = tags
+    const processedTags = dedupeTags(tags
         .split(',')
         .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
+        .filter(tag => tag.length > 0));
+
+    // ✅ Same rules as the note services; an empty title just keeps the button disabled
+    const errors = getNoteErrors({ title, body, tags: processedTags });
+    const canCreate = !!title.trim() && Object.keys(errors).length === 0;
+
+    // ✅ What's typed here is kept on the device until the note is created
+    const noteDraft = useNoteDraft(
+        NEW_NOTE_DRAFT_ID,
+        { title, body, tags: processedTags, notebook_id: notebookId },
+        EMPTY_DRAFT_FIELDS
+    );
+
+    const handleRestoreDraft = () => {
+        const draft = noteDraft.restore();
+        if (!draft) return;
+        setTitle(draft.title);
+        setBody(draft.body);
+        setTags(draft.tags.join(', '));
+        setNotebookId(draft.notebook_id);
+    };
 
     const handleCreate = async () => {
-        if (!title.trim()) {
+        if (!canCreate) {
             haptics.error();
-            Alert.alert('Please enter a title');
             return;
         }
 
@@ -50,22 +86,28 @@ export default function CreateNoteScreen() {
                 title: title.trim(),
                 body: body.trim(),
                 tags: processedTags,
+                notebook_id: notebookId,
             };
 
             const newNote = await createNote(noteData);
+            await noteDraft.clear();
 
             haptics.success();
 
             setTitle('');
             setBody('');
             setTags('');
+            setNotebookId(null);
 
             router.push(`/note/${newNote.id}`);
 
         } catch (error) {
             console.error('Error creating note:', error);
             haptics.error();
-            Alert.alert('Error', 'Failed to create note. Please try again.');
+            Alert.alert(
+                'Error',
+                error instanceof NoteValidationError ? error.message : 'Failed to create note. Please try again.'
+            );
         } finally {
             setCreating(false);
         }
@@ -93,166 +135,229 @@ export default function CreateNoteScreen() {
                     </Text>
                 </View>
 
-                {/* ✅ FIXED: Scrollable content with proper bottom padding for fixed button */}
-                <ScrollView
-                    style={[styles.content, { backgroundColor: theme.colors.background }]}
-                    contentContainerStyle={[
-                        styles.contentContainer,
-                        { paddingBottom: 100 } // ✅ Space for fixed button + extra margin
-                    ]}
-                    showsVerticalScrollIndicator={false}
-                    keyboardShouldPersistTaps="handled"
-                >
-                    <View style={[styles.noteCard, { backgroundColor: theme.colors.surface }]}>
-                        {/* Title Input */}
-                        <TextInput
-                            style={[styles.titleInput, {
-                                color: theme.colors.textPrimary,
-                                borderBottomColor: theme.colors.border,
-                                backgroundColor: theme.colors.background
-                            }]}
-                            placeholder="Note title..."
-                            value={title}
-                            onChangeText={setTitle}
-                            placeholderTextColor={theme.colors.textSecondary}
-                            autoFocus
-                            multiline
-                            onFocus={() => haptics.selection()}
-                        />
-
-                        {/* Tags Section */}
-                        <View style={styles.tagsSection}>
-                            <View style={styles.tagsHeader}>
-                                <View style={styles.tagsHeaderLeft}>
+                {noteDraft.draft ? (
+                    <DraftRestore
+                        draft={noteDraft.draft}
+                        saved={EMPTY_DRAFT_FIELDS}
+                        onRestore={handleRestoreDraft}
+                        onDiscard={noteDraft.discard}
+                    />
+                ) : (
+                    <>
+                        {/* ✅ FIXED: Scrollable content with proper bottom padding for fixed button */}
+                        <ScrollView
+                            style={[styles.content, { backgroundColor: theme.colors.background }]}
+                            contentContainerStyle={[
+                                styles.contentContainer,
+                                { paddingBottom: 100 } // ✅ Space for fixed button + extra margin
+                            ]}
+                            showsVerticalScrollIndicator={false}
+                            keyboardShouldPersistTaps="handled"
+                        >
+                            <View style={[styles.noteCard, { backgroundColor: theme.colors.surface }]}>
+                                {/* Title Input */}
+                                <TextInput
+                                    style={[styles.titleInput, {
+                                        color: theme.colors.textPrimary,
+                                        borderBottomColor: theme.colors.border,
+                                        backgroundColor: theme.colors.background
+                                    }]}
+                                    placeholder="Note title..."
+                                    value={title}
+                                    onChangeText={setTitle}
+                                    placeholderTextColor={theme.colors.textSecondary}
+                                    autoFocus
+                                    multiline
+                                    maxLength={MAX_TITLE_LENGTH}
+                                    onFocus={() => haptics.selection()}
+                                />
+                                {errors.title && title.length > 0 && (
+                                    <Text style={[styles.fieldError, styles.titleError, { color: theme.colors.error }]}>{errors.title}</Text>
+                                )}
+
+                                {/* Notebook */}
+                                <Pressable
+                                    style={[styles.notebookRow, { borderColor: theme.colors.border, backgroundColor: theme.colors.background }]}
+                                    onPress={() => {
+                                        haptics.selection();
+                                        setShowNotebookPicker(true);
+                                    }}
+                                >
                                     <Ionicons
-                                        name="pricetag"
+                                        name={notebookId ? 'book' : 'file-tray'}
                                         size={16}
-                                        color={isTagsFocused || tags.trim() ? theme.colors.primary : theme.colors.textSecondary}
+                                        color={notebookId ? theme.colors.primary : theme.colors.textSecondary}
                                     />
-                                    <Text style={[
-                                        styles.tagsLabel,
-                                        { color: isTagsFocused || tags.trim() ? theme.colors.primary : theme.colors.textSecondary }
-                                    ]}>
-                                        Tags
+                                    <Text style={[styles.notebookLabel, { color: theme.colors.textSecondary }]}>Notebook</Text>
+                                    <Text style={[styles.notebookName, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                                        {getNotebookName(notebookId, notebooks)}
                                     </Text>
-                                </View>
-                                {processedTags.length > 0 && (
-                                    <View style={[styles.tagsBadge, { backgroundColor: theme.colors.primary }]}>
-                                        <Text style={styles.tagsBadgeText}>
-                                            {processedTags.length}
-                                        </Text>
+                                    <Ionicons name="chevron-down" size={16} color={theme.colors.textSecondary} />
+                                </Pressable>
+
+                                {/* Tags Section */}
+                                <View style={styles.tagsSection}>
+                                    <View style={styles.tagsHeader}>
+                                        <View style={styles.tagsHeaderLeft}>
+                                            <Ionicons
+                                                name="pricetag"
+                                                size={16}
+                                                color={isTagsFocused || tags.trim() ? theme.colors.primary : theme.colors.textSecondary}
+                                            />
+                                            <Text style={[
+                                                styles.tagsLabel,
+                                                { color: isTagsFocused || tags.trim() ? theme.colors.primary : theme.colors.textSecondary }
+                                            ]}>
+                                                Tags
+                                            </Text>
+                                        </View>
+                                        {processedTags.length > 0 && (
+                                            <View style={[styles.tagsBadge, { backgroundColor: theme.colors.primary }]}>
+                                                <Text style={styles.tagsBadgeText}>
+                                                    {processedTags.length}
+                                                </Text>
+                                            </View>
+                                        )}
                                     </View>
-                                )}
-                            </View>
 
-                            <View style={[
-                                styles.tagsInputContainer,
-                                {
-                                    borderColor: isTagsFocused ? theme.colors.primary : theme.colors.border,
-                                    backgroundColor: isTagsFocused || tags.trim() ? theme.colors.primaryLight : theme.colors.background,
-                                    borderWidth: isTagsFocused ? 2 : 1,
-                                }
-                            ]}>
+                                    <View style={[
+                                        styles.tagsInputContainer,
+                                        {
+                                            borderColor: isTagsFocused ? theme.colors.primary : theme.colors.border,
+                                            backgroundColor: isTagsFocused || tags.trim() ? theme.colors.primaryLight : theme.colors.background,
+                                            borderWidth: isTagsFocused ? 2 : 1,
+                                        }
+                                    ]}>
+                                        <TextInput
+                                            style={[styles.tagsInput, { color: theme.colors.textPrimary }]}
+                                            placeholder="Add tags separated by commas, nest with /"
+                                            value={tags}
+                                            onChangeText={setTags}
+                                            placeholderTextColor={theme.colors.textSecondary}
+                                            onFocus={() => {
+                                                setIsTagsFocused(true);
+                                                haptics.selection();
+                                            }}
+                                            onBlur={() => setIsTagsFocused(false)}
+                                            multiline
+                                        />
+                                        {tags.trim() && (
+                                            <Pressable
+                                                style={styles.clearTagsButton}
+                                                onPress={() => {
+                                                    haptics.impactLight();
+                                                    setTags('');
+                                                }}
+                                            >
+                                                <Ionicons name="close-circle" size={18} color={theme.colors.textSecondary} />
+                                            </Pressable>
+                                        )}
+                                    </View>
+
+                                    {errors.tags && (
+                                        <Text style={[styles.fieldError, { color: theme.colors.error }]}>{errors.tags}</Text>
+                                    )}
+
+                                    <TagSuggestions
+                                        suggestions={getTagSuggestions(getTypedTag(tags), existingTags, processedTags)}
+                                        onSelect={(tag) => {
+                                            haptics.selection();
+                                            setTags(completeTypedTag(tags, tag));
+                                        }}
+                                    />
+
+                                    {/* Tag Preview */}
+                                    {processedTags.length > 0 && (
+                                        <View style={[styles.tagPreviewContainer, { borderTopColor: theme.colors.border }]}>
+                                            <ScrollView
+                                                horizontal
+                                                showsHorizontalScrollIndicator={false}
+                                                contentContainerStyle={styles.tagPreviewScroll}
+                                            >
+                                                {processedTags.map((tag, index) => (
+                                                    <View key={index} style={[styles.tagPreviewChip, { backgroundColor: theme.colors.primaryLight }]}>
+                                                        <Text style={[styles.tagPreviewText, { color: theme.colors.primary }]}>
+                                                            #{tag}
+                                                        </Text>
+                                                        <Pressable
+                                                            style={styles.removeTagButton}
+                                                            onPress={() => removeTag(tag)}
+                                                            onPressIn={() => haptics.impactLight()}
+                                                        >
+                                                            <Ionicons name="close" size={14} color={theme.colors.textSecondary} />
+                                                        </Pressable>
+                                                    </View>
+                                                ))}
+                                            </ScrollView>
+                                        </View>
+                                    )}
+                                </View>
+
+                                {/* Body Input */}
+                                <MarkdownToolbar {...markdown.toolbarProps} />
                                 <TextInput
-                                    style={[styles.tagsInput, { color: theme.colors.textPrimary }]}
-                                    placeholder="Add tags separated by commas"
-                                    value={tags}
-                                    onChangeText={setTags}
+                                    style={[styles.bodyInput, {
+                                        color: theme.colors.textPrimary,
+                                        backgroundColor: theme.colors.background,
+                                        borderColor: theme.colors.border
+                                    }]}
+                                    placeholder="Start writing..."
+                                    value={body}
+                                    onChangeText={setBody}
+                                    {...markdown.inputProps}
                                     placeholderTextColor={theme.colors.textSecondary}
-                                    onFocus={() => {
-                                        setIsTagsFocused(true);
-                                        haptics.selection();
-                                    }}
-                                    onBlur={() => setIsTagsFocused(false)}
                                     multiline
+                                    textAlignVertical="top"
+                                    onFocus={() => haptics.selection()}
                                 />
-                                {tags.trim() && (
-                                    <Pressable
-                                        style={styles.clearTagsButton}
-                                        onPress={() => {
-                                            haptics.impactLight();
-                                            setTags('');
-                                        }}
-                                    >
-                                        <Ionicons name="close-circle" size={18} color={theme.colors.textSecondary} />
-                                    </Pressable>
+                                {errors.body && (
+                                    <Text style={[styles.fieldError, { color: theme.colors.error }]}>{errors.body}</Text>
                                 )}
                             </View>
+                        </ScrollView>
 
-                            {/* Tag Preview */}
-                            {processedTags.length > 0 && (
-                                <View style={[styles.tagPreviewContainer, { borderTopColor: theme.colors.border }]}>
-                                    <ScrollView
-                                        horizontal
-                                        showsHorizontalScrollIndicator={false}
-                                        contentContainerStyle={styles.tagPreviewScroll}
-                                    >
-                                        {processedTags.map((tag, index) => (
-                                            <View key={index} style={[styles.tagPreviewChip, { backgroundColor: theme.colors.primaryLight }]}>
-                                                <Text style={[styles.tagPreviewText, { color: theme.colors.primary }]}>
-                                                    #{tag}
-                                                </Text>
-                                                <Pressable
-                                                    style={styles.removeTagButton}
-                                                    onPress={() => removeTag(tag)}
-                                                    onPressIn={() => haptics.impactLight()}
-                                                >
-                                                    <Ionicons name="close" size={14} color={theme.colors.textSecondary} />
-                                                </Pressable>
-                                            </View>
-                                        ))}
-                                    </ScrollView>
-                                </View>
-                            )}
+                        {/* ✅ FIXED: Button positioned above keyboard, outside scroll area */}
+                        <View style={[styles.fixedButtonContainer, {
+                            backgroundColor: theme.colors.surface,
+                            borderTopColor: theme.colors.border,
+                            paddingBottom: insets.bottom || 20
+                        }]}>
+                            <Pressable
+                                style={[
+                                    styles.createButton,
+                                    {
+                                        backgroundColor: canCreate ? theme.colors.primary : theme.colors.textSecondary,
+                                        opacity: creating ? 0.7 : 1,
+                                    }
+                                ]}
+                                onPress={handleCreate}
+                                disabled={!canCreate || creating}
+                                onPressIn={() => haptics.impactLight()}
+                            >
+                                <Ionicons
+                                    name={creating ? "hourglass" : "checkmark"}
+                                    size={20}
+                                    color="white"
+                                />
+                                <Text style={styles.createButtonText}>
+                                    {creating ? 'Creating...' : 'Create Note'}
+                                </Text>
+                            </Pressable>
                         </View>
-
-                        {/* Body Input */}
-                        <TextInput
-                            style={[styles.bodyInput, {
-                                color: theme.colors.textPrimary,
-                                backgroundColor: theme.colors.background,
-                                borderColor: theme.colors.border
-                            }]}
-                            placeholder="Start writing..."
-                            value={body}
-                            onChangeText={setBody}
-                            placeholderTextColor={theme.colors.textSecondary}
-                            multiline
-                            textAlignVertical="top"
-                            onFocus={() => haptics.selection()}
-                        />
-                    </View>
-                </ScrollView>
-
-                {/* ✅ FIXED: Button positioned above keyboard, outside scroll area */}
-                <View style={[styles.fixedButtonContainer, {
-                    backgroundColor: theme.colors.surface,
-                    borderTopColor: theme.colors.border,
-                    paddingBottom: insets.bottom || 20
-                }]}>
-                    <Pressable
-                        style={[
-                            styles.createButton,
-                            {
-                                backgroundColor: title.trim() ? theme.colors.primary : theme.colors.textSecondary,
-                                opacity: creating ? 0.7 : 1,
-                            }
-                        ]}
-                        onPress={handleCreate}
-                        disabled={!title.trim() || creating}
-                        onPressIn={() => haptics.impactLight()}
-                    >
-                        <Ionicons
-                            name={creating ? "hourglass" : "checkmark"}
-                            size={20}
-                            color="white"
-                        />
-                        <Text style={styles.createButtonText}>
-                            {creating ? 'Creating...' : 'Create Note'}
-                        </Text>
-                    </Pressable>
-                </View>
+                    </>
+                )}
             </KeyboardAvoidingView>
+
+            <NotebookPicker
+                visible={showNotebookPicker}
+                value={notebookId}
+                title="Notebook"
+                onClose={() => setShowNotebookPicker(false)}
+                onSelect={(value) => {
+                    setNotebookId(value);
+                    setShowNotebookPicker(false);
+                }}
+            />
         </ScreenWrapper>
     );
 }
@@ -298,6 +403,28 @@ const styles = StyleSheet.create({
         borderBottomWidth: 2,
     },
 
+    // Notebook
+    notebookRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 24,
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    notebookLabel: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    notebookName: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '500',
+        textAlign: 'right',
+    },
+
     // Tags section
     tagsSection: {
         marginBottom: 24,
@@ -378,6 +505,16 @@ const styles = StyleSheet.create({
         backgroundColor: 'rgba(255,255,255,0.3)',
     },
 
+    fieldError: {
+        fontSize: 13,
+        lineHeight: 18,
+        marginTop: 8,
+    },
+    titleError: {
+        marginTop: -16,
+        marginBottom: 24,
+    },
+
     bodyInput: {
         fontSize: 16,
         lineHeight: 24,
@@ -1,34 +1,63 @@
-import React, { useState, useCallback } from 'react';
-import { View, Text, StyleSheet, FlatList, Pressable, TextInput, Alert, RefreshControl } from 'react-native';
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, SectionList, Pressable, Alert, RefreshControl, ActivityIndicator } from 'react-native';
 import { router, useFocusEffect } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { ScreenWrapper } from '@/components/ScreenWrapper';
-import { FilterModal, FilterOptions, type SortOption, type DateFilter } from '@/components/FilterModal';
+import { NoteCard } from '@/components/NoteCard';
+import { SearchBar } from '@/components/SearchBar';
+import { SavedViewsBar } from '@/components/SavedViewsBar';
+import { SavedViewModal } from '@/components/SavedViewModal';
+import { NotebooksBar } from '@/components/NotebooksBar';
+import { NotebookModal } from '@/components/NotebookModal';
+import { FilterModal, FilterOptions, DEFAULT_FILTERS } from '@/components/FilterModal';
 import { useTheme } from '@/contexts/_ThemeContext'; // ✅ Use dynamic theme
-import { listNotes, type Note } from '@/services/notes';
+import { useSync } from '@/contexts/_SyncContext';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import { countPendingChanges, updateNote } from '@/services/localNotes';
+import { searchNotes, NoteConflictError, type Note, type Notebook, type NoteSearchHit } from '@/services/notes';
 import { useHaptics } from '@/hooks/useHaptics';
+import { useSavedViews, getViewFilters, isViewActive } from '@/hooks/useSavedViews';
+import { useNotePages } from '@/hooks/useNotePages';
+import { useExistingTags } from '@/hooks/useExistingTags';
+import { useCachedQuery, useLocalNotes, useNoteCounts, usePendingNotes } from '@/hooks/useNotesCache';
+import { REMOTE_KEY_PREFIX } from '@/services/notesCache';
+import type { SavedView, SavedViewInput } from '@/services/savedViews';
+import { buildLocalSearchHit, mergePendingHits } from '@/utils/search';
+import { formatDateRange } from '@/utils/dates';
+import { describeTagFilter } from '@/utils/tagFilters';
+import { describeNotebookFilter } from '@/utils/notebooks';
+import { compareNotes, matchesNoteFilters } from '@/utils/notePages';
+import {
+    parseSearchQuery,
+    matchesSearchQuery,
+    toFullTextQuery,
+    getHighlightTerms,
+    SearchQueryError,
+    LONG_NOTE_LENGTH,
+    type SearchQuery,
+} from '@/utils/searchQuery';
 
 export default function HomeScreen() {
     const { theme } = useTheme(); // ✅ Get current theme (light/dark)
     const insets = useSafeAreaInsets();
-    const [notes, setNotes] = useState<Note[]>([]);
-    const [filteredNotes, setFilteredNotes] = useState<Note[]>([]);
-    const [loading, setLoading] = useState(true);
+    const { isOnline, status: syncStatus, pendingCount, syncNow, realtimeStatus } = useSync();
+    // Notes on the device back search while offline; the list and counts come from the server when online
+    const { notes, refresh: refreshNotes } = useLocalNotes();
     const [refreshing, setRefreshing] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    const [debouncedQuery, setDebouncedQuery] = useState('');
     const [showFilterModal, setShowFilterModal] = useState(false);
-    const [allTags, setAllTags] = useState<string[]>([]);
+    const [showViewModal, setShowViewModal] = useState(false);
+    const [editingView, setEditingView] = useState<SavedView | null>(null);
+    const [showNotebookModal, setShowNotebookModal] = useState(false);
+    const [editingNotebook, setEditingNotebook] = useState<Notebook | null>(null);
 
     const haptics = useHaptics();
+    const { views, reload: reloadViews, saveView, editView, removeView, moveView } = useSavedViews();
+    const { notebooks, reload: reloadNotebooks, addNotebook, editNotebook, removeNotebook } = useNotebooks();
 
-    const [filters, setFilters] = useState<FilterOptions>({
-        sortBy: 'recent',
-        dateFilter: 'all',
-        selectedTags: [],
-        withTagsOnly: false,
-        longNotesOnly: false,
-    });
+    const [filters, setFilters] = useState<FilterOptions>(DEFAULT_FILTERS);
 
     const getGreeting = () => {
         const hour = new Date().getHours();
@@ -37,178 +66,265 @@ export default function HomeScreen() {
         return 'Good evening';
     };
 
-    const calculateTagUsage = useCallback((notes: Note[]): Record<string, number> => {
-        const tagUsage: Record<string, number> = {};
+    const allTags = useExistingTags();
 
-        notes.forEach(note => {
-            if (note.tags && Array.isArray(note.tags)) {
-                note.tags.forEach(tag => {
-                    tagUsage[tag] = (tagUsage[tag] || 0) + 1;
-                });
-            }
-        });
-
-        return tagUsage;
-    }, []);
-
-    const fetchNotes = useCallback(async () => {
-        let mounted = true;
+    const getSyncText = () => {
+        if (!isOnline) {
+            return pendingCount > 0 ? `Offline • ${pendingCount} waiting to sync` : 'Offline';
+        }
+        if (syncStatus === 'syncing') return 'Syncing...';
+        if (syncStatus === 'error') return 'Sync failed • pull to retry';
+        if (pendingCount > 0) return `${pendingCount} waiting to sync`;
+        if (realtimeStatus === 'reconnecting') return 'Live updates paused • reconnecting';
+        return null;
+    };
 
+    // ✅ tag:, before:, is:long, "phrases" and OR are parsed out of the search text
+    const parsedSearch = useMemo((): { query: SearchQuery; error: string | null } => {
         try {
-            setLoading(true);
-            const data = await listNotes();
-
-            if (mounted) {
-                setNotes(data);
-
-                const tags = new Set<string>();
-                data.forEach(note => {
-                    if (note.tags && Array.isArray(note.tags)) {
-                        note.tags.forEach(tag => {
-                            if (tag && typeof tag === 'string') {
-                                tags.add(tag);
-                            }
-                        });
-                    }
-                });
-                setAllTags(Array.from(tags));
-            }
+            return { query: parseSearchQuery(debouncedQuery), error: null };
         } catch (error) {
-            if (mounted) {
-                console.error('Error fetching notes:', error);
-                haptics.error();
-                Alert.alert('Error', 'Failed to load notes. Please try again.');
-            }
-        } finally {
-            if (mounted) {
-                setLoading(false);
+            if (error instanceof SearchQueryError) {
+                return { query: [], error: error.message };
             }
+            throw error;
+        }
+    }, [debouncedQuery]);
+
+    const fullTextQuery = toFullTextQuery(parsedSearch.query);
+
+    // ✅ Ranked server-side search for the free text; structured terms are matched locally.
+    // Recent queries are answered from the cache while the server is asked again.
+    const remoteQuery = isOnline ? fullTextQuery : null;
+    const { includeArchived } = filters;
+    const { data: cachedHits } = useCachedQuery<NoteSearchHit[]>(
+        remoteQuery ? `${REMOTE_KEY_PREFIX}search:${includeArchived ? 'all' : 'live'}:${remoteQuery}` : null,
+        () => searchNotes(remoteQuery ?? '', { includeArchived }),
+        30 * 1000
+    );
+
+    // Edits not pushed yet are matched on the device and merged into the server's hits
+    const { pendingNotes } = usePendingNotes();
+    const searchHits = useMemo(() => {
+        if (!remoteQuery || !cachedHits) return null;
+        return mergePendingHits(cachedHits, pendingNotes.map(pending => pending.note), parsedSearch.query);
+    }, [remoteQuery, cachedHits, pendingNotes, parsedSearch]);
+
+    // ✅ Archived notes stay out of the list and search unless asked for
+    const visibleNotes = useMemo(
+        () => (filters.includeArchived ? notes : notes.filter(note => !note.archived_at)),
+        [notes, filters.includeArchived]
+    );
+
+    // ✅ Without search text the list is paged and filtered by the server (or the device while offline)
+    const searching = parsedSearch.query.length > 0;
+    const pages = useNotePages(filters, !searching);
+    const { reload: reloadPages } = pages;
+
+    // Ranked hits come from the server when online. Offline, and for queries full-text search can't
+    // express (OR, or no free text), the notes on the device are matched instead.
+    const searchResults = useMemo(() => {
+        if (!searching) return [];
+
+        let results = visibleNotes;
+        const { query } = parsedSearch;
+        const ranked = !!searchHits;
+
+        if (ranked) {
+            // Keep the server's ranking; hits carry the note as searched, or the newer local copy
+            results = searchHits
+                .map(hit => hit.note)
+                .filter(note => matchesSearchQuery(note, query, { skipText: true }));
+        } else {
+            results = results.filter(note => matchesSearchQuery(note, query));
         }
 
-        return () => {
-            mounted = false;
-        };
-    }, []);
+        results = results.filter(note => matchesNoteFilters(note, filters));
+
+        // Search results stay in relevance order unless another sort was picked
+        if (!(ranked && filters.sortBy === 'recent')) {
+            results = [...results].sort((a, b) => compareNotes(a, b, filters.sortBy));
+        }
+
+        return results;
+    }, [searching, visibleNotes, parsedSearch, searchHits, filters]);
+
+    const filteredNotes = searching ? searchResults : pages.notes;
+    const noteCount = searching ? searchResults.length : pages.total;
 
     const handleRefresh = useCallback(async () => {
         setRefreshing(true);
         haptics.selection();
-        await fetchNotes();
+        await syncNow();
+        await refreshNotes();
+        await reloadPages();
         setRefreshing(false);
         haptics.impactLight();
-    }, [fetchNotes]);
-
-    const sortNotes = (notesToSort: Note[], sortBy: SortOption): Note[] => {
-        const sorted = [...notesToSort];
-
-        switch (sortBy) {
-            case 'recent':
-                return sorted.sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
-            case 'alphabetical':
-                return sorted.sort((a, b) => a.title.localeCompare(b.title));
-            case 'mostEdited':
-                return sorted.sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
-            case 'oldest':
-                return sorted.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-            default:
-                return sorted;
+    }, [refreshNotes, syncNow, reloadPages]);
+
+    const { counts: { tagRollup, notebooks: notebookCounts } } = useNoteCounts(filters.includeArchived);
+
+    // ✅ Pinned notes form their own section above the rest, whatever the sort
+    const sections = useMemo((): { key: string; title: string | null; data: Note[] }[] => {
+        const pinned = filteredNotes.filter(note => note.pinned);
+        if (pinned.length === 0) {
+            return filteredNotes.length > 0 ? [{ key: 'notes', title: null, data: filteredNotes }] : [];
         }
-    };
 
-    const filterByDate = (notesToFilter: Note[], dateFilter: DateFilter): Note[] => {
-        if (dateFilter === 'all') return notesToFilter;
-
-        const now = new Date();
-        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-        return notesToFilter.filter(note => {
-            const noteDate = new Date(note.created_at);
-
-            switch (dateFilter) {
-                case 'today':
-                    return noteDate >= today;
-                case 'thisWeek':
-                    const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-                    return noteDate >= weekAgo;
-                case 'thisMonth':
-                    const monthAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
-                    return noteDate >= monthAgo;
-                default:
-                    return true;
-            }
-        });
+        const others = filteredNotes.filter(note => !note.pinned);
+        return [
+            { key: 'pinned', title: 'Pinned', data: pinned },
+            ...(others.length > 0 ? [{ key: 'notes', title: 'Notes', data: others }] : []),
+        ];
+    }, [filteredNotes]);
+
+    const highlightsById = useMemo(() => {
+        const terms = getHighlightTerms(parsedSearch.query);
+        if (terms.length === 0) return new Map<string, NoteSearchHit>();
+
+        const hits = searchHits ?? filteredNotes.map(note => buildLocalSearchHit(note, terms));
+        return new Map(hits.map(hit => [hit.id, hit]));
+    }, [parsedSearch, searchHits, filteredNotes]);
+
+    const clearAllFilters = () => {
+        haptics.impactMedium();
+        setSearchQuery('');
+        setDebouncedQuery('');
+        setFilters(DEFAULT_FILTERS);
     };
 
-    const applyFiltersAndSort = useCallback(() => {
-        let filtered = notes;
+    const activeView = views.find(view => isViewActive(view, searchQuery, filters)) ?? null;
+    const editingIndex = editingView ? views.findIndex(view => view.id === editingView.id) : -1;
 
-        if (searchQuery.trim()) {
-            filtered = filtered.filter(note =>
-                note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                (note.body && note.body.toLowerCase().includes(searchQuery.toLowerCase()))
-            );
+    const applyView = (view: SavedView) => {
+        setSearchQuery(view.query);
+        setDebouncedQuery(view.query);
+        setFilters(getViewFilters(view));
+    };
+
+    // ✅ Tapping the active view again clears it
+    const handleViewSelect = (view: SavedView) => {
+        if (view.id === activeView?.id) {
+            clearAllFilters();
+            return;
         }
+        haptics.selection();
+        applyView(view);
+    };
 
-        filtered = filterByDate(filtered, filters.dateFilter);
+    const openViewModal = (view: SavedView | null) => {
+        if (view) haptics.impactMedium();
+        else haptics.selection();
+        setEditingView(view);
+        setShowViewModal(true);
+    };
 
-        if (filters.selectedTags.length > 0) {
-            filtered = filtered.filter(note =>
-                note.tags && Array.isArray(note.tags) && filters.selectedTags.some(tag => note.tags!.includes(tag))
-            );
+    const handleViewSave = async (input: SavedViewInput) => {
+        const wasActive = !editingView || editingView.id === activeView?.id;
+        const saved = editingView ? await editView(editingView.id, input) : await saveView(input);
+        if (wasActive) {
+            applyView(saved);
         }
+    };
 
-        if (filters.withTagsOnly) {
-            filtered = filtered.filter(note => note.tags && Array.isArray(note.tags) && note.tags.length > 0);
-        }
+    const handleNotebookSelect = (notebook: string | null) => {
+        haptics.selection();
+        setFilters(prev => ({ ...prev, notebook }));
+    };
 
-        if (filters.longNotesOnly) {
-            filtered = filtered.filter(note => note.body && note.body.length >= 100);
+    const openNotebookModal = (notebook: Notebook | null) => {
+        if (notebook) haptics.impactMedium();
+        else haptics.selection();
+        setEditingNotebook(notebook);
+        setShowNotebookModal(true);
+    };
+
+    const handleNotebookSave = async (name: string) => {
+        if (editingNotebook) {
+            await editNotebook(editingNotebook.id, name);
+            return;
         }
+        const created = await addNotebook(name);
+        setFilters(prev => ({ ...prev, notebook: created.id }));
+    };
 
-        filtered = sortNotes(filtered, filters.sortBy);
+    // The server moves the notebook's notes to the Inbox, so local edits are pushed first and the moves pulled after
+    const handleNotebookDelete = async () => {
+        if (!editingNotebook) return;
+        if (!isOnline) {
+            throw new Error('You\'re offline. Notebooks are deleted on the server, so try again once you\'re connected.');
+        }
 
-        setFilteredNotes(filtered);
-    }, [notes, searchQuery, filters]);
+        await syncNow();
+        if (await countPendingChanges() > 0) {
+            throw new Error('Some edits haven\'t synced yet. Pull to refresh, then try again.');
+        }
 
-    const clearAllFilters = () => {
-        haptics.impactMedium();
-        setSearchQuery('');
-        setFilters({
-            sortBy: 'recent',
-            dateFilter: 'all',
-            selectedTags: [],
-            withTagsOnly: false,
-            longNotesOnly: false,
-        });
+        await removeNotebook(editingNotebook.id);
+        setFilters(prev => (prev.notebook === editingNotebook.id ? { ...prev, notebook: null } : prev));
+        await syncNow();
     };
 
     const hasActiveFilters = () => {
         return searchQuery.trim() !== '' ||
+            filters.notebook !== null ||
             filters.dateFilter !== 'all' ||
             filters.selectedTags.length > 0 ||
+            filters.excludedTags.length > 0 ||
             filters.withTagsOnly ||
             filters.longNotesOnly ||
+            filters.favoritesOnly ||
+            filters.includeArchived ||
             filters.sortBy !== 'recent';
     };
 
     const getActiveFiltersText = () => {
         const activeFilters = [];
 
+        const notebookText = describeNotebookFilter(filters.notebook, notebooks);
+        if (notebookText) {
+            activeFilters.push(`📓 ${notebookText}`);
+        }
+
         if (filters.sortBy !== 'recent') {
             const sortLabels = {
                 alphabetical: 'A-Z',
-                mostEdited: 'Recent',
+                mostEdited: 'Most Edited',
                 oldest: 'Oldest'
             };
             activeFilters.push(`📅 ${sortLabels[filters.sortBy] || filters.sortBy}`);
         }
 
-        if (filters.selectedTags.length > 0) {
-            activeFilters.push(`🏷️ ${filters.selectedTags.slice(0, 2).join(', ')}${filters.selectedTags.length > 2 ? '...' : ''}`);
+        const tagText = describeTagFilter(filters, 2);
+        if (tagText) {
+            activeFilters.push(`🏷️ ${tagText}`);
         }
 
         if (filters.dateFilter !== 'all') {
-            activeFilters.push(`📆 ${filters.dateFilter}`);
+            const dateLabels = {
+                today: 'Today',
+                thisWeek: 'This week',
+                thisMonth: 'This month',
+                custom: formatDateRange(filters.dateRange),
+            };
+            const field = filters.dateField === 'updated_at' ? 'updated' : 'created';
+            activeFilters.push(`📆 ${dateLabels[filters.dateFilter]} (${field})`);
+        }
+
+        if (filters.withTagsOnly) {
+            activeFilters.push('Tagged only');
+        }
+
+        if (filters.longNotesOnly) {
+            activeFilters.push(`${LONG_NOTE_LENGTH}+ characters`);
+        }
+
+        if (filters.favoritesOnly) {
+            activeFilters.push('⭐ Favorites');
+        }
+
+        if (filters.includeArchived) {
+            activeFilters.push('🗄️ With archived');
         }
 
         return activeFilters.join(' • ');
@@ -219,6 +335,32 @@ export default function HomeScreen() {
         router.push(`/note/${note.id}`);
     };
 
+    const toggleNoteFlag = async (note: Note, flag: 'pinned' | 'favorite') => {
+        try {
+            await updateNote(note.id, { [flag]: !note[flag] });
+            haptics.success();
+        } catch (error) {
+            console.error(`Error updating ${flag}:`, error);
+            haptics.error();
+            Alert.alert(
+                'Error',
+                error instanceof NoteConflictError
+                    ? 'This note was edited on another device. Open it to resolve the conflict first.'
+                    : 'Failed to update the note. Please try again.'
+            );
+        }
+    };
+
+    // ✅ Long press to pin or star a note without opening it
+    const handleNoteLongPress = (note: Note) => {
+        haptics.impactMedium();
+        Alert.alert(note.title, undefined, [
+            { text: note.pinned ? 'Unpin' : 'Pin to Top', onPress: () => toggleNoteFlag(note, 'pinned') },
+            { text: note.favorite ? 'Remove from Favorites' : 'Add to Favorites', onPress: () => toggleNoteFlag(note, 'favorite') },
+            { text: 'Cancel', style: 'cancel', onPress: () => haptics.impactLight() },
+        ]);
+    };
+
     const handleFilterPress = () => {
         haptics.selection();
         setShowFilterModal(true);
@@ -235,48 +377,34 @@ export default function HomeScreen() {
         setShowFilterModal(false);
     };
 
+    // ✅ Views and notebooks edited on another device show up when returning to the screen
     useFocusEffect(
         useCallback(() => {
-            fetchNotes();
-        }, [])
+            reloadViews();
+            reloadNotebooks();
+        }, [reloadViews, reloadNotebooks])
     );
 
-    React.useEffect(() => {
-        applyFiltersAndSort();
-    }, [applyFiltersAndSort]);
-
-    const renderNote = ({ item }: { item: Note }) => (
-        <Pressable
-            style={[styles.noteCard, { backgroundColor: theme.colors.surface }]} // ✅ Dynamic background
-            onPress={() => handleNotePress(item)}
-            onPressIn={() => haptics.selection()}
-        >
-            <Text style={[styles.noteTitle, { color: theme.colors.textPrimary }]} numberOfLines={2}>
-                {item.title}
-            </Text>
-
-            <Text style={[styles.notePreview, { color: theme.colors.textSecondary }]} numberOfLines={2}>
-                {item.body || 'No content'}
-            </Text>
-
-            {item.tags && Array.isArray(item.tags) && item.tags.length > 0 && (
-                <View style={styles.noteTags}>
-                    {item.tags.slice(0, 3).map((tag, index) => (
-                        <View key={index} style={[styles.noteTag, { backgroundColor: theme.colors.primaryLight }]}>
-                            <Text style={[styles.noteTagText, { color: theme.colors.primary }]}>
-                                #{tag}
-                            </Text>
-                        </View>
-                    ))}
-                    {item.tags.length > 3 && (
-                        <Text style={[styles.moreTagsText, { color: theme.colors.textSecondary }]}>
-                            +{item.tags.length - 3}
-                        </Text>
-                    )}
-                </View>
-            )}
-        </Pressable>
-    );
+    const renderNote = ({ item }: { item: Note }) => {
+        const hit = highlightsById.get(item.id);
+
+        return (
+            <NoteCard
+                title={item.title}
+                body={item.body}
+                tags={item.tags}
+                updatedAt={item.updated_at}
+                pinned={item.pinned}
+                favorite={item.favorite}
+                archived={!!item.archived_at}
+                onPress={() => handleNotePress(item)}
+                onLongPress={() => handleNoteLongPress(item)}
+                onPressIn={() => haptics.selection()}
+                highlightedTitle={hit?.title_highlight}
+                snippet={hit?.body_snippet}
+            />
+        );
+    };
 
     const renderEmptyState = () => (
         <View style={styles.emptyState}>
@@ -318,6 +446,21 @@ export default function HomeScreen() {
                         <Text style={[styles.appName, { color: theme.colors.textPrimary }]}>
                             SwiftNote
                         </Text>
+                        {getSyncText() && (
+                            <View style={styles.syncRow}>
+                                <Ionicons
+                                    name={isOnline ? 'cloud-upload-outline' : 'cloud-offline-outline'}
+                                    size={12}
+                                    color={syncStatus === 'error' ? theme.colors.error : theme.colors.textSecondary}
+                                />
+                                <Text style={[
+                                    styles.syncText,
+                                    { color: syncStatus === 'error' ? theme.colors.error : theme.colors.textSecondary }
+                                ]}>
+                                    {getSyncText()}
+                                </Text>
+                            </View>
+                        )}
                     </View>
                     <Text style={[
                         styles.notesCountTop,
@@ -326,35 +469,21 @@ export default function HomeScreen() {
                             backgroundColor: theme.colors.primaryLight
                         }
                     ]}>
-                        {filteredNotes.length} {filteredNotes.length === 1 ? 'note' : 'notes'}
+                        {noteCount} {noteCount === 1 ? 'note' : 'notes'}
                     </Text>
                 </View>
             </View>
 
             {/* ✅ Search section with dynamic theming */}
             <View style={[styles.searchSection, { backgroundColor: theme.colors.background }]}>
-                <View style={[styles.searchBar, { backgroundColor: theme.colors.surface }]}>
-                    <Ionicons name="search" size={18} color={theme.colors.textSecondary} />
-                    <TextInput
-                        style={[styles.searchInput, { color: theme.colors.textPrimary }]}
-                        placeholder="Search..."
-                        value={searchQuery}
-                        onChangeText={setSearchQuery}
-                        placeholderTextColor={theme.colors.textSecondary}
-                        onFocus={() => haptics.selection()}
-                        onSubmitEditing={() => haptics.impactLight()}
-                    />
-                    {searchQuery.trim() && (
-                        <Pressable
-                            onPress={() => {
-                                haptics.impactLight();
-                                setSearchQuery('');
-                            }}
-                            style={styles.clearButton}
-                        >
-                            <Ionicons name="close-circle" size={18} color={theme.colors.textSecondary} />
-                        </Pressable>
-                    )}
+                <SearchBar
+                    value={searchQuery}
+                    onChangeText={setSearchQuery}
+                    onDebouncedChange={setDebouncedQuery}
+                    placeholder="Search, or try tag:work is:long"
+                    onFocus={() => haptics.selection()}
+                    onClear={() => haptics.impactLight()}
+                >
                     <Pressable
                         onPress={handleFilterPress}
                         style={[styles.filterButton, hasActiveFilters() && styles.filterButtonActive]}
@@ -366,7 +495,25 @@ export default function HomeScreen() {
                             color={hasActiveFilters() ? theme.colors.primary : theme.colors.textSecondary}
                         />
                     </Pressable>
-                </View>
+                </SearchBar>
+
+                {parsedSearch.error && (
+                    <View style={styles.searchErrorRow}>
+                        <Ionicons name="alert-circle-outline" size={14} color={theme.colors.error} />
+                        <Text style={[styles.searchErrorText, { color: theme.colors.error }]}>
+                            {parsedSearch.error}
+                        </Text>
+                    </View>
+                )}
+
+                <NotebooksBar
+                    notebooks={notebooks}
+                    selected={filters.notebook}
+                    counts={notebookCounts}
+                    onSelect={handleNotebookSelect}
+                    onEdit={openNotebookModal}
+                    onAdd={() => openNotebookModal(null)}
+                />
 
                 {hasActiveFilters() && (
                     <View style={[styles.activeFiltersContainer, { backgroundColor: theme.colors.primaryLight }]}>
@@ -375,12 +522,27 @@ export default function HomeScreen() {
                         </Text>
                     </View>
                 )}
+
+                <SavedViewsBar
+                    views={views}
+                    activeViewId={activeView?.id ?? null}
+                    onSelect={handleViewSelect}
+                    onEdit={openViewModal}
+                    onAdd={hasActiveFilters() && !activeView ? () => openViewModal(null) : undefined}
+                />
             </View>
 
             {/* ✅ Notes list with dynamic theming */}
-            <FlatList
-                data={filteredNotes}
+            <SectionList
+                sections={sections}
                 renderItem={renderNote}
+                renderSectionHeader={({ section }) => section.title ? (
+                    <View style={[styles.sectionHeader, { backgroundColor: theme.colors.background }]}>
+                        {section.key === 'pinned' && <Ionicons name="pin" size={12} color={theme.colors.textSecondary} />}
+                        <Text style={[styles.sectionTitle, { color: theme.colors.textSecondary }]}>{section.title}</Text>
+                    </View>
+                ) : null}
+                stickySectionHeadersEnabled={false}
                 keyExtractor={(item) => item.id}
                 style={styles.list}
                 contentContainerStyle={[
@@ -397,7 +559,12 @@ export default function HomeScreen() {
                         colors={[theme.colors.primary]}
                     />
                 }
-                ListEmptyComponent={renderEmptyState}
+                onEndReached={searching ? undefined : () => pages.loadMore()}
+                onEndReachedThreshold={0.5}
+                ListFooterComponent={pages.loadingMore && !searching ? (
+                    <ActivityIndicator style={styles.listFooter} color={theme.colors.primary} />
+                ) : null}
+                ListEmptyComponent={pages.loading && !searching ? null : renderEmptyState}
                 ItemSeparatorComponent={() => <View style={styles.noteSeparator} />}
             />
 
@@ -407,7 +574,29 @@ export default function HomeScreen() {
                 onApply={handleFilterApply}
                 currentFilters={filters}
                 availableTags={allTags}
-                tagUsageCount={calculateTagUsage(notes)}
+                tagUsageCount={tagRollup}
+            />
+
+            <SavedViewModal
+                visible={showViewModal}
+                view={editingView}
+                currentQuery={searchQuery}
+                currentFilters={filters}
+                canMoveEarlier={editingIndex > 0}
+                canMoveLater={editingIndex !== -1 && editingIndex < views.length - 1}
+                onClose={() => setShowViewModal(false)}
+                onSave={handleViewSave}
+                onDelete={editingView ? () => removeView(editingView.id) : undefined}
+                onMove={editingView ? (offset) => moveView(editingView.id, offset) : undefined}
+            />
+
+            <NotebookModal
+                visible={showNotebookModal}
+                notebook={editingNotebook}
+                noteCount={editingNotebook ? notebookCounts[editingNotebook.id] ?? 0 : 0}
+                onClose={() => setShowNotebookModal(false)}
+                onSave={handleNotebookSave}
+                onDelete={editingNotebook ? handleNotebookDelete : undefined}
             />
         </ScreenWrapper>
     );
@@ -440,6 +629,17 @@ const styles = StyleSheet.create({
         lineHeight: 34,
         letterSpacing: -0.3,
     },
+    syncRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 2,
+    },
+    syncText: {
+        fontSize: 12,
+        fontWeight: '500',
+        lineHeight: 16,
+    },
     notesCountTop: {
         fontSize: 13,
         fontWeight: '600',
@@ -452,27 +652,17 @@ const styles = StyleSheet.create({
         paddingTop: 8,
         paddingBottom: 4,
     },
-    searchBar: {
+    searchErrorRow: {
         flexDirection: 'row',
         alignItems: 'center',
-        borderRadius: 10,
-        paddingHorizontal: 12,
-        paddingVertical: 8,
-        shadowColor: '#000',
-        shadowOffset: { width: 0, height: 1 },
-        shadowOpacity: 0.08,
-        shadowRadius: 3,
-        elevation: 2,
+        gap: 4,
+        marginTop: 6,
     },
-    searchInput: {
+    searchErrorText: {
         flex: 1,
-        fontSize: 15,
-        marginLeft: 8,
-        lineHeight: 18,
-    },
-    clearButton: {
-        padding: 3,
-        marginRight: 6,
+        fontSize: 12,
+        fontWeight: '500',
+        lineHeight: 16,
     },
     filterButton: {
         padding: 3,
@@ -502,50 +692,25 @@ const styles = StyleSheet.create({
     emptyListContainer: {
         flexGrow: 1,
     },
-    noteCard: {
-        padding: 12,
-        borderRadius: 12,
-        shadowColor: '#000',
-        shadowOffset: { width: 0, height: 1 },
-        shadowOpacity: 0.08,
-        shadowRadius: 3,
-        elevation: 2,
-    },
-    noteTitle: {
-        fontSize: 18,
-        fontWeight: '700',
-        lineHeight: 24,
-        marginBottom: 8,
+    listFooter: {
+        paddingVertical: 16,
     },
-    notePreview: {
-        fontSize: 15,
-        lineHeight: 20,
-        marginBottom: 8,
+    noteSeparator: {
+        height: 8,
     },
-    noteTags: {
+    sectionHeader: {
         flexDirection: 'row',
         alignItems: 'center',
-        flexWrap: 'wrap',
-        gap: 6,
-        marginBottom: 0,
-    },
-    noteTag: {
-        paddingHorizontal: 8,
-        paddingVertical: 2,
-        borderRadius: 10,
-    },
-    noteTagText: {
-        fontSize: 11,
-        fontWeight: '500',
-        lineHeight: 14,
-    },
-    moreTagsText: {
-        fontSize: 11,
-        fontWeight: '500',
-        lineHeight: 14,
+        gap: 4,
+        paddingTop: 8,
+        paddingBottom: 8,
     },
-    noteSeparator: {
-        height: 8,
+    sectionTitle: {
+        fontSize: 12,
+        fontWeight: '700',
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+        lineHeight: 16,
     },
     emptyState: {
         flex: 1,
@@ -1,17 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Alert, Switch } from 'react-native';
+import { router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ScreenWrapper } from '@/components/ScreenWrapper';
 import { useTheme } from '@/contexts/_ThemeContext';
+import { useAuth } from '@/contexts/_AuthContext';
 import { useHaptics } from '@/hooks/useHaptics';
-import { deleteAllNotes } from '@/services/notes'; // ✅ Import the delete function
+import { useSync } from '@/contexts/_SyncContext';
+import { UndoBar } from '@/components/UndoBar';
+import { useFailedChanges } from '@/hooks/useNotesCache';
+import { countPendingChanges } from '@/services/localNotes';
+import { deleteAllNotes, restoreNotes } from '@/services/notes'; // ✅ Import the delete function
 
 export default function SettingsScreen() {
     const insets = useSafeAreaInsets();
     const [hapticFeedback, setHapticFeedback] = useState(true);
     const { theme, isDark, setTheme, userPreference } = useTheme();
+    const { user, signOut } = useAuth();
+    const { isOnline, syncNow } = useSync();
+    const { changes: failedChanges } = useFailedChanges();
+    const [deletedBatch, setDeletedBatch] = useState<string[] | null>(null);
+    const [undoing, setUndoing] = useState(false);
 
     const haptics = useHaptics();
 
@@ -56,13 +67,44 @@ export default function SettingsScreen() {
         setTheme(themeOption);
     };
 
+    const handleSignOut = () => {
+        haptics.warning();
+
+        Alert.alert(
+            'Sign Out',
+            'You will need to sign in again to see your notes.',
+            [
+                {
+                    text: 'Cancel',
+                    style: 'cancel',
+                    onPress: () => haptics.impactLight(),
+                },
+                {
+                    text: 'Sign Out',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            haptics.impactMedium();
+                            // ✅ Auth gate in the root layout returns to sign-in
+                            await signOut();
+                        } catch (error) {
+                            console.error('Error signing out:', error);
+                            haptics.error();
+                            Alert.alert('Error', 'Failed to sign out. Please try again.');
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
     // ✅ FIXED: Single warning with actual delete functionality
     const handleDeleteAllNotes = () => {
         haptics.warning();
 
         Alert.alert(
             'Delete All Notes',
-            'This will permanently delete all your notes. This action cannot be undone.',
+            'All your notes will be moved to the Trash. You can undo this for a few seconds.',
             [
                 {
                     text: 'Cancel',
@@ -76,20 +118,28 @@ export default function SettingsScreen() {
                         try {
                             haptics.impactHeavy();
 
-                            // ✅ Actually delete all notes
-                            await deleteAllNotes();
+                            if (!isOnline) {
+                                throw new Error('Deleting all notes needs a connection');
+                            }
+
+                            // ✅ Push queued edits first so every note exists on the server
+                            await syncNow();
+
+                            // A note still waiting to sync would be left out, or come back after the delete
+                            if (await countPendingChanges() > 0) {
+                                haptics.error();
+                                Alert.alert(
+                                    'Not Synced Yet',
+                                    'Some edits haven\'t synced yet. Pull to refresh on the home screen, then try again.'
+                                );
+                                return;
+                            }
+
+                            const deletedIds = await deleteAllNotes();
+                            await syncNow();
 
                             haptics.success();
-                            Alert.alert(
-                                'Success',
-                                'All notes have been deleted successfully.',
-                                [
-                                    {
-                                        text: 'OK',
-                                        onPress: () => haptics.impactLight(),
-                                    }
-                                ]
-                            );
+                            setDeletedBatch(deletedIds);
                         } catch (error) {
                             console.error('Error deleting all notes:', error);
                             haptics.error();
@@ -110,6 +160,26 @@ export default function SettingsScreen() {
         );
     };
 
+    // ✅ Undo restores exactly the batch that was deleted
+    const handleUndoDelete = async () => {
+        if (!deletedBatch || undoing) return;
+
+        try {
+            setUndoing(true);
+            haptics.impactMedium();
+            await restoreNotes(deletedBatch);
+            await syncNow();
+            setDeletedBatch(null);
+            haptics.success();
+        } catch (error) {
+            console.error('Error restoring notes:', error);
+            haptics.error();
+            Alert.alert('Error', 'Failed to restore notes. You can still restore them from the Trash.');
+        } finally {
+            setUndoing(false);
+        }
+    };
+
     return (
         <ScreenWrapper>
             <View style={[styles.header, { backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border }]}>
@@ -124,6 +194,35 @@ export default function SettingsScreen() {
                 ]}
                 showsVerticalScrollIndicator={false}
             >
+                {/* Account Section */}
+                <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: theme.colors.textPrimary }]}>Account</Text>
+
+                    <View style={[styles.settingCard, { backgroundColor: theme.colors.surface }]}>
+                        <View style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}>
+                            <View style={styles.settingLeft}>
+                                <Ionicons name="person-circle" size={20} color={theme.colors.primary} />
+                                <View>
+                                    <Text style={[styles.settingTitle, { color: theme.colors.textPrimary }]}>Signed in as</Text>
+                                    <Text style={[styles.settingSubtitle, { color: theme.colors.textSecondary }]}>{user?.email ?? 'Unknown account'}</Text>
+                                </View>
+                            </View>
+                        </View>
+
+                        <Pressable
+                            style={[styles.settingItem, styles.lastSettingItem, { borderBottomColor: theme.colors.border }]}
+                            onPress={handleSignOut}
+                            onPressIn={() => haptics.impactLight()}
+                        >
+                            <View style={styles.settingLeft}>
+                                <Ionicons name="log-out-outline" size={20} color={theme.colors.textSecondary} />
+                                <Text style={[styles.settingTitle, { color: theme.colors.textPrimary }]}>Sign Out</Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                        </Pressable>
+                    </View>
+                </View>
+
                 {/* Appearance Section */}
                 <View style={styles.section}>
                     <Text style={[styles.sectionTitle, { color: theme.colors.textPrimary }]}>Appearance</Text>
@@ -187,11 +286,82 @@ export default function SettingsScreen() {
                     </View>
                 </View>
 
+                {/* Organize Section */}
+                <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: theme.colors.textPrimary }]}>Organize</Text>
+
+                    <View style={[styles.settingCard, { backgroundColor: theme.colors.surface }]}>
+                        <Pressable
+                            style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}
+                            onPress={() => router.push('/archive')}
+                            onPressIn={() => haptics.impactLight()}
+                        >
+                            <View style={styles.settingLeft}>
+                                <Ionicons name="archive-outline" size={20} color={theme.colors.textSecondary} />
+                                <View>
+                                    <Text style={[styles.settingTitle, { color: theme.colors.textPrimary }]}>Archive</Text>
+                                    <Text style={[styles.settingSubtitle, { color: theme.colors.textSecondary }]}>Notes put away from the home list</Text>
+                                </View>
+                            </View>
+                            <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                        </Pressable>
+
+                        <Pressable
+                            style={[styles.settingItem, styles.lastSettingItem, { borderBottomColor: theme.colors.border }]}
+                            onPress={() => router.push('/tags')}
+                            onPressIn={() => haptics.impactLight()}
+                        >
+                            <View style={styles.settingLeft}>
+                                <Ionicons name="pricetags-outline" size={20} color={theme.colors.textSecondary} />
+                                <View>
+                                    <Text style={[styles.settingTitle, { color: theme.colors.textPrimary }]}>Tags</Text>
+                                    <Text style={[styles.settingSubtitle, { color: theme.colors.textSecondary }]}>Rename, merge or delete tags across all notes</Text>
+                                </View>
+                            </View>
+                            <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                        </Pressable>
+                    </View>
+                </View>
+
                 {/* Storage Section */}
                 <View style={styles.section}>
                     <Text style={[styles.sectionTitle, { color: theme.colors.textPrimary }]}>Storage</Text>
 
                     <View style={[styles.settingCard, { backgroundColor: theme.colors.surface }]}>
+                        {failedChanges.length > 0 && (
+                            <Pressable
+                                style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}
+                                onPress={() => router.push('/unsaved')}
+                                onPressIn={() => haptics.impactLight()}
+                            >
+                                <View style={styles.settingLeft}>
+                                    <Ionicons name="cloud-offline-outline" size={20} color={theme.colors.warning} />
+                                    <View>
+                                        <Text style={[styles.settingTitle, { color: theme.colors.textPrimary }]}>Unsaved Changes</Text>
+                                        <Text style={[styles.settingSubtitle, { color: theme.colors.textSecondary }]}>
+                                            {failedChanges.length === 1 ? '1 change' : `${failedChanges.length} changes`} your account refused
+                                        </Text>
+                                    </View>
+                                </View>
+                                <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                            </Pressable>
+                        )}
+
+                        <Pressable
+                            style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}
+                            onPress={() => router.push('/trash')}
+                            onPressIn={() => haptics.impactLight()}
+                        >
+                            <View style={styles.settingLeft}>
+                                <Ionicons name="trash-bin-outline" size={20} color={theme.colors.textSecondary} />
+                                <View>
+                                    <Text style={[styles.settingTitle, { color: theme.colors.textPrimary }]}>Trash</Text>
+                                    <Text style={[styles.settingSubtitle, { color: theme.colors.textSecondary }]}>Restore or permanently remove deleted notes</Text>
+                                </View>
+                            </View>
+                            <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                        </Pressable>
+
                         <Pressable
                             style={[styles.settingItem, styles.lastSettingItem, { borderBottomColor: theme.colors.border }]}
                             onPress={handleDeleteAllNotes}
@@ -201,7 +371,7 @@ export default function SettingsScreen() {
                                 <Ionicons name="trash" size={20} color="#ef4444" />
                                 <View>
                                     <Text style={[styles.settingTitle, { color: '#ef4444' }]}>Delete All Notes</Text>
-                                    <Text style={[styles.settingSubtitle, { color: theme.colors.textSecondary }]}>Permanently remove all notes</Text>
+                                    <Text style={[styles.settingSubtitle, { color: theme.colors.textSecondary }]}>Move every note to the Trash</Text>
                                 </View>
                             </View>
                             <Ionicons name="chevron-forward" size={16} color="#ef4444" />
@@ -236,6 +406,14 @@ export default function SettingsScreen() {
                     </View>
                 </View>
             </ScrollView>
+
+            <UndoBar
+                visible={deletedBatch !== null}
+                message={`${deletedBatch?.length ?? 0} ${deletedBatch?.length === 1 ? 'note' : 'notes'} moved to Trash`}
+                onUndo={handleUndoDelete}
+                onExpire={() => setDeletedBatch(null)}
+                bottomOffset={insets.bottom + 20}
+            />
         </ScreenWrapper>
     );
 }
@@ -5,20 +5,54 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { ThemeProvider } from '@/contexts/_ThemeContext';
+import { AuthProvider, useAuth } from '@/contexts/_AuthContext';
+import { SyncProvider } from '@/contexts/_SyncContext';
+import { TagColorsProvider } from '@/contexts/_TagColorsContext';
+import { NotebooksProvider } from '@/contexts/_NotebooksContext';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
-export default function RootLayout() {
-    const [loaded] = useFonts({
-        SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
-    });
+function RootNavigator() {
+    const { isSignedIn, isLoaded } = useAuth();
 
     useEffect(() => {
-        if (loaded) {
+        if (isLoaded) {
             SplashScreen.hideAsync();
         }
-    }, [loaded]);
+    }, [isLoaded]);
+
+    // Keep the splash screen up until the persisted session has been restored
+    if (!isLoaded) {
+        return null;
+    }
+
+    return (
+        <Stack>
+            {/* ✅ Signed-out users never reach the notes screens */}
+            <Stack.Protected guard={isSignedIn}>
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                <Stack.Screen name="note/[id]" options={{ headerShown: false }} />
+                <Stack.Screen name="edit/[id]" options={{ headerShown: false }} />
+                <Stack.Screen name="history/[id]" options={{ headerShown: false }} />
+                <Stack.Screen name="modal/edit" options={{ headerShown: false }} />
+                <Stack.Screen name="trash" options={{ headerShown: false }} />
+                <Stack.Screen name="tags" options={{ headerShown: false }} />
+                <Stack.Screen name="archive" options={{ headerShown: false }} />
+                <Stack.Screen name="unsaved" options={{ headerShown: false }} />
+            </Stack.Protected>
+            <Stack.Protected guard={!isSignedIn}>
+                <Stack.Screen name="sign-in" options={{ headerShown: false }} />
+            </Stack.Protected>
+            <Stack.Screen name="+not-found" />
+        </Stack>
+    );
+}
+
+export default function RootLayout() {
+    const [loaded] = useFonts({
+        SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
+    });
 
     if (!loaded) {
         return null;
@@ -26,12 +60,17 @@ export default function RootLayout() {
 
     return (
         <ThemeProvider>
-            <SafeAreaProvider>
-                <Stack>
-                    <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                    <Stack.Screen name="+not-found" />
-                </Stack>
-            </SafeAreaProvider>
+            <AuthProvider>
+                <SyncProvider>
+                    <TagColorsProvider>
+                        <NotebooksProvider>
+                            <SafeAreaProvider>
+                                <RootNavigator />
+                            </SafeAreaProvider>
+                        </NotebooksProvider>
+                    </TagColorsProvider>
+                </SyncProvider>
+            </AuthProvider>
         </ThemeProvider>
     );
 }
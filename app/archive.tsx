@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, Alert, ActivityIndicator, RefreshControl } from 'react-native';
+import { router, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { NoteCard } from '@/components/NoteCard';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useSync } from '@/contexts/_SyncContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useArchivedNotes } from '@/hooks/useNotesCache';
+import { updateNote } from '@/services/localNotes';
+import { NoteConflictError, type Note } from '@/services/notes';
+
+// Listed from the server while online; offline, the archived notes on the device are shown
+export default function ArchiveScreen() {
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const { syncNow } = useSync();
+    // ✅ Notes archived or restored elsewhere show up without leaving the screen
+    const { notes, loading, refresh } = useArchivedNotes();
+    const [refreshing, setRefreshing] = useState(false);
+
+    const haptics = useHaptics();
+
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        haptics.selection();
+        await syncNow();
+        await refresh();
+        setRefreshing(false);
+    };
+
+    const handleUnarchive = async (note: Note) => {
+        try {
+            await updateNote(note.id, { archived_at: null });
+            haptics.success();
+        } catch (error) {
+            console.error('Error unarchiving note:', error);
+            haptics.error();
+            Alert.alert(
+                'Error',
+                error instanceof NoteConflictError
+                    ? 'This note was edited on another device. Open it to resolve the conflict first.'
+                    : 'Failed to unarchive the note. Please try again.'
+            );
+        }
+    };
+
+    const handleNoteLongPress = (note: Note) => {
+        haptics.impactMedium();
+        Alert.alert(note.title, undefined, [
+            { text: 'Unarchive', onPress: () => handleUnarchive(note) },
+            { text: 'Cancel', style: 'cancel', onPress: () => haptics.impactLight() },
+        ]);
+    };
+
+    const renderNote = ({ item }: { item: Note }) => (
+        <NoteCard
+            title={item.title}
+            body={item.body}
+            tags={item.tags}
+            updatedAt={item.updated_at}
+            favorite={item.favorite}
+            onPress={() => router.push(`/note/${item.id}`)}
+            onLongPress={() => handleNoteLongPress(item)}
+            onPressIn={() => haptics.selection()}
+        />
+    );
+
+    const renderEmptyState = () => (
+        <View style={styles.emptyState}>
+            <Ionicons name="archive-outline" size={48} color={theme.colors.textSecondary} />
+            <Text style={[styles.emptyTitle, { color: theme.colors.textPrimary }]}>Archive is empty</Text>
+            <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>
+                Archive a note to keep it without cluttering your home list. Archived notes are never removed automatically.
+            </Text>
+        </View>
+    );
+
+    return (
+        <>
+            <Stack.Screen options={{ headerShown: false }} />
+
+            <ScreenWrapper>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border
+                }]}>
+                    <Pressable
+                        onPress={() => {
+                            haptics.impactLight();
+                            router.back();
+                        }}
+                        style={styles.backButton}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
+                    </Pressable>
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>Archive</Text>
+                    {notes.length > 0 && (
+                        <Text style={[styles.headerCount, { color: theme.colors.textSecondary }]}>
+                            {notes.length} {notes.length === 1 ? 'note' : 'notes'}
+                        </Text>
+                    )}
+                </View>
+
+                {loading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={theme.colors.primary} />
+                    </View>
+                ) : (
+                    <FlatList
+                        data={notes}
+                        renderItem={renderNote}
+                        keyExtractor={(item) => item.id}
+                        ListHeaderComponent={notes.length > 0 ? (
+                            <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                                Long press a note to unarchive it.
+                            </Text>
+                        ) : null}
+                        ListEmptyComponent={renderEmptyState}
+                        contentContainerStyle={[
+                            styles.listContainer,
+                            notes.length === 0 && styles.emptyListContainer,
+                            { paddingBottom: insets.bottom + 40 }
+                        ]}
+                        showsVerticalScrollIndicator={false}
+                        refreshControl={
+                            <RefreshControl
+                                refreshing={refreshing}
+                                onRefresh={handleRefresh}
+                                tintColor={theme.colors.primary}
+                                colors={[theme.colors.primary]}
+                            />
+                        }
+                    />
+                )}
+            </ScreenWrapper>
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: 4,
+        marginRight: 12,
+        borderRadius: 8,
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        flex: 1,
+    },
+    headerCount: {
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    listContainer: {
+        paddingHorizontal: 20,
+        paddingTop: 16,
+    },
+    emptyListContainer: {
+        flexGrow: 1,
+    },
+    hint: {
+        fontSize: 13,
+        fontWeight: '500',
+        marginBottom: 12,
+    },
+    emptyState: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 40,
+        paddingVertical: 40,
+    },
+    emptyTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        textAlign: 'center',
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    emptySubtitle: {
+        fontSize: 14,
+        textAlign: 'center',
+        lineHeight: 20,
+    },
+});
@@ -4,30 +4,85 @@ import { router, useLocalSearchParams, useFocusEffect, Stack } from 'expo-router
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { ConflictResolver } from '@/components/ConflictResolver';
+import { MarkdownToolbar } from '@/components/MarkdownToolbar';
+import { TagSuggestions } from '@/components/TagSuggestions';
+import { NotebookPicker } from '@/components/NotebookPicker';
+import { DraftRestore } from '@/components/DraftRestore';
 import { useTheme } from '@/contexts/_ThemeContext'; // ✅ Dark mode
-import { getNote, updateNote, type Note } from '@/services/notes';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import {
+    getNote,
+    updateNote,
+    getConflict,
+    resolveConflict,
+    subscribeToNotes,
+    type ConflictResolution,
+} from '@/services/localNotes';
+import { NoteConflictError, type Note } from '@/services/notes';
+import type { DraftFields, NoteDraft } from '@/services/drafts';
 import { useHaptics } from '@/hooks/useHaptics';
+import { useMarkdownEditor } from '@/hooks/useMarkdownEditor';
+import { useExistingTags } from '@/hooks/useExistingTags';
+import { useNoteDraft } from '@/hooks/useNoteDraft';
+import { completeTypedTag, dedupeTags, getTagSuggestions, getTypedTag } from '@/utils/tags';
+import { MAX_TITLE_LENGTH, NoteValidationError, getNoteErrors } from '@/utils/noteValidation';
+import { getNotebookName } from '@/utils/notebooks';
 
 export default function EditNoteScreen() {
     const { id } = useLocalSearchParams<{ id: string }>();
     const { theme } = useTheme();
+    const { notebooks } = useNotebooks();
     const insets = useSafeAreaInsets();
     const [note, setNote] = useState<Note | null>(null);
     const [title, setTitle] = useState('');
     const [body, setBody] = useState('');
     const [tags, setTags] = useState<string[]>([]);
     const [tagsInput, setTagsInput] = useState('');
+    const [notebookId, setNotebookId] = useState<string | null>(null);
+    const [showNotebookPicker, setShowNotebookPicker] = useState(false);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
     const [isTagsFocused, setIsTagsFocused] = useState(false);
+    const [conflictNote, setConflictNote] = useState<Note | null>(null);
+    const [conflictBase, setConflictBase] = useState<Pick<Note, 'body'> | null>(null);
+    const [restoredDraft, setRestoredDraft] = useState<NoteDraft | null>(null);
+    const [resolving, setResolving] = useState(false);
+    const markdown = useMarkdownEditor(body, setBody);
+    const existingTags = useExistingTags();
 
     const haptics = useHaptics();
 
-    const processedTags = tagsInput
+    const processedTags = dedupeTags(tagsInput
         .split(',')
         .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
+        .filter(tag => tag.length > 0));
+
+    // ✅ Same rules as the note services, shown next to each field
+    const errors = getNoteErrors({ title, body, tags: processedTags });
+
+    const savedFields: DraftFields | null = note
+        ? { title: note.title, body: note.body, tags: note.tags ?? [], notebook_id: note.notebook_id ?? null }
+        : null;
+
+    // ✅ Edits are kept on the device until they're saved, so a crash doesn't lose them
+    const noteDraft = useNoteDraft(
+        id,
+        { title, body, tags: processedTags, notebook_id: notebookId },
+        savedFields,
+        note?.updated_at ?? null
+    );
+
+    const handleRestoreDraft = () => {
+        const draft = noteDraft.restore();
+        if (!draft) return;
+        setRestoredDraft(draft);
+        setTitle(draft.title);
+        setBody(draft.body);
+        setTagsInput(draft.tags.join(', '));
+        setNotebookId(draft.notebook_id);
+    };
 
     const fetchNote = useCallback(async () => {
         if (!id) return;
@@ -35,10 +90,14 @@ export default function EditNoteScreen() {
         try {
             setLoading(true);
             const noteData = await getNote(id);
+            const conflict = await getConflict(id);
             if (mounted) {
                 setNote(noteData);
+                setConflictNote(conflict?.serverNote ?? null);
+                setConflictBase(conflict?.baseNote ?? null);
                 setTitle(noteData.title);
                 setBody(noteData.body);
+                setNotebookId(noteData.notebook_id ?? null);
                 if (noteData.tags && Array.isArray(noteData.tags)) {
                     setTags(noteData.tags);
                     setTagsInput(noteData.tags.join(', '));
@@ -62,31 +121,68 @@ export default function EditNoteScreen() {
     }, [id]);
 
     const handleSave = async () => {
-        if (!title.trim()) {
+        if (Object.keys(errors).length > 0) {
             haptics.error();
-            Alert.alert('Error', 'Please enter a title for your note.');
             return;
         }
         try {
             setSaving(true);
             haptics.impactMedium();
+            // ✅ Send the version the edit started from so edits made elsewhere are not overwritten;
+            // for a restored draft that is the version it was written against, not the one loaded now
             await updateNote(id!, {
                 title: title.trim(),
                 body: body.trim(),
                 tags: processedTags,
-            });
+                notebook_id: notebookId,
+            }, { expectedUpdatedAt: restoredDraft?.base_updated_at ?? note?.updated_at });
+            await noteDraft.clear();
             setHasUnsavedChanges(false);
             haptics.success();
             router.back();
         } catch (error) {
+            if (error instanceof NoteConflictError) {
+                haptics.warning();
+                // Sync recorded where both sides started; otherwise the newer copy was saved on this device,
+                // on top of the one loaded here (or the one a restored draft was written against)
+                const conflict = await getConflict(id!);
+                const startedFrom = restoredDraft ? restoredDraft.base ?? null : note;
+                setConflictNote(error.serverNote);
+                setConflictBase(conflict ? conflict.baseNote ?? null : startedFrom);
+                return;
+            }
             console.error('Error saving note:', error);
             haptics.error();
-            Alert.alert('Error', 'Failed to save note. Please try again.');
+            Alert.alert(
+                'Error',
+                error instanceof NoteValidationError ? error.message : 'Failed to save note. Please try again.'
+            );
         } finally {
             setSaving(false);
         }
     };
 
+    const handleResolve = async (resolution: ConflictResolution) => {
+        try {
+            setResolving(true);
+            await resolveConflict(id!, resolution);
+            await noteDraft.clear();
+            setConflictNote(null);
+            setHasUnsavedChanges(false);
+            haptics.success();
+            router.back();
+        } catch (error) {
+            console.error('Error resolving conflict:', error);
+            haptics.error();
+            Alert.alert(
+                'Error',
+                error instanceof NoteValidationError ? error.message : 'Failed to resolve the conflict. Please try again.'
+            );
+        } finally {
+            setResolving(false);
+        }
+    };
+
     const handleBack = () => {
         if (hasUnsavedChanges) {
             haptics.warning();
@@ -95,7 +191,7 @@ export default function EditNoteScreen() {
                 'You have unsaved changes. What would you like to do?',
                 [
                     { text: 'Keep Editing', style: 'cancel', onPress: () => haptics.impactLight() },
-                    { text: 'Discard Changes', style: 'destructive', onPress: () => { haptics.impactMedium(); router.back(); } },
+                    { text: 'Discard Changes', style: 'destructive', onPress: () => { haptics.impactMedium(); noteDraft.clear(); router.back(); } },
                     { text: 'Save Changes', onPress: () => { haptics.impactLight(); handleSave(); } }
                 ]
             );
@@ -112,9 +208,10 @@ export default function EditNoteScreen() {
         const hasChanges =
             title.trim() !== note.title ||
             body.trim() !== note.body ||
+            notebookId !== (note.notebook_id ?? null) ||
             JSON.stringify(currentTags.sort()) !== JSON.stringify(originalTags.sort());
         setHasUnsavedChanges(hasChanges);
-    }, [title, body, processedTags, note]);
+    }, [title, body, notebookId, processedTags, note]);
 
     const removeTag = (tagToRemove: string) => {
         haptics.impactLight();
@@ -132,6 +229,22 @@ export default function EditNoteScreen() {
         checkForChanges();
     }, [checkForChanges]);
 
+    // ✅ Background sync may find that another device saved this note first
+    React.useEffect(() => {
+        if (!id) return;
+
+        return subscribeToNotes(() => {
+            getConflict(id)
+                .then(conflict => {
+                    if (conflict) {
+                        setConflictNote(conflict.serverNote);
+                        setConflictBase(conflict.baseNote ?? null);
+                    }
+                })
+                .catch(() => undefined);
+        });
+    }, [id]);
+
     if (loading) {
         return (
             <>
@@ -164,131 +277,208 @@ export default function EditNoteScreen() {
                         >
                             <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
                         </Pressable>
-                        <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>Edit Note</Text>
-                        <Pressable
-                            onPress={handleSave}
-                            style={[
-                                styles.saveHeaderButton,
-                                { backgroundColor: hasUnsavedChanges ? theme.colors.primary : 'transparent', opacity: saving ? 0.6 : 1 }
-                            ]}
-                            disabled={saving}
-                            onPressIn={() => haptics.impactMedium()}
-                        >
-                            {saving ? (
-                                <Text style={[styles.saveHeaderText, { color: 'white' }]}>Saving...</Text>
-                            ) : (
-                                <Text style={[styles.saveHeaderText, { color: hasUnsavedChanges ? 'white' : theme.colors.primary }]}>
-                                    Save
-                                </Text>
-                            )}
-                        </Pressable>
+                        <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>
+                            {noteDraft.draft ? 'Restore Draft' : conflictNote ? 'Resolve Conflict' : 'Edit Note'}
+                        </Text>
+                        {noteDraft.draft || conflictNote ? (
+                            <View style={styles.headerSpacer} />
+                        ) : (
+                            <Pressable
+                                onPress={handleSave}
+                                style={[
+                                    styles.saveHeaderButton,
+                                    { backgroundColor: hasUnsavedChanges ? theme.colors.primary : 'transparent', opacity: saving ? 0.6 : 1 }
+                                ]}
+                                disabled={saving}
+                                onPressIn={() => haptics.impactMedium()}
+                            >
+                                {saving ? (
+                                    <Text style={[styles.saveHeaderText, { color: 'white' }]}>Saving...</Text>
+                                ) : (
+                                    <Text style={[styles.saveHeaderText, { color: hasUnsavedChanges ? 'white' : theme.colors.primary }]}>
+                                        Save
+                                    </Text>
+                                )}
+                            </Pressable>
+                        )}
                     </View>
 
-                    <ScrollView
-                        style={[styles.content, { backgroundColor: theme.colors.background }]}
-                        contentContainerStyle={[styles.contentContainer, { paddingBottom: insets.bottom + 20 }]}
-                        showsVerticalScrollIndicator={false}
-                    >
-                        <View style={[styles.inputCard, { backgroundColor: theme.colors.surface }]}>
+                    {noteDraft.draft && savedFields ? (
+                        <DraftRestore
+                            draft={noteDraft.draft}
+                            saved={savedFields}
+                            savedUpdatedAt={note?.updated_at}
+                            onRestore={handleRestoreDraft}
+                            onDiscard={noteDraft.discard}
+                        />
+                    ) : conflictNote ? (
+                        <ConflictResolver
+                            mine={{ title: title.trim(), body: body.trim(), tags: processedTags }}
+                            theirs={conflictNote}
+                            base={conflictBase}
+                            onResolve={handleResolve}
+                            resolving={resolving}
+                        />
+                    ) : (
+                        <ScrollView
+                            style={[styles.content, { backgroundColor: theme.colors.background }]}
+                            contentContainerStyle={[styles.contentContainer, { paddingBottom: insets.bottom + 20 }]}
+                            showsVerticalScrollIndicator={false}
+                        >
+                            <View style={[styles.inputCard, { backgroundColor: theme.colors.surface }]}>
 
-                            {/* Title Section */}
-                            <View style={styles.inputSection}>
-                                <View style={styles.sectionHeader}>
-                                    <Ionicons name="create-outline" size={18} color={theme.colors.primary} />
-                                    <Text style={[styles.sectionLabel, { color: theme.colors.textPrimary }]}>Title</Text>
+                                {/* Title Section */}
+                                <View style={styles.inputSection}>
+                                    <View style={styles.sectionHeader}>
+                                        <Ionicons name="create-outline" size={18} color={theme.colors.primary} />
+                                        <Text style={[styles.sectionLabel, { color: theme.colors.textPrimary }]}>Title</Text>
+                                    </View>
+                                    <TextInput
+                                        style={[styles.titleInput, { color: theme.colors.textPrimary, backgroundColor: theme.colors.background, borderColor: errors.title ? theme.colors.error : theme.colors.border }]}
+                                        placeholder="Enter note title..."
+                                        value={title}
+                                        onChangeText={setTitle}
+                                        placeholderTextColor={theme.colors.textSecondary}
+                                        autoFocus
+                                        maxLength={MAX_TITLE_LENGTH}
+                                        onFocus={() => haptics.selection()}
+                                    />
+                                    {errors.title && (
+                                        <Text style={[styles.fieldError, { color: theme.colors.error }]}>{errors.title}</Text>
+                                    )}
                                 </View>
-                                <TextInput
-                                    style={[styles.titleInput, { color: theme.colors.textPrimary, backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
-                                    placeholder="Enter note title..."
-                                    value={title}
-                                    onChangeText={setTitle}
-                                    placeholderTextColor={theme.colors.textSecondary}
-                                    autoFocus
-                                    onFocus={() => haptics.selection()}
-                                />
-                            </View>
 
-                            {/* Tags Section */}
-                            <View style={styles.inputSection}>
-                                <View style={styles.sectionHeader}>
-                                    <View style={styles.sectionLeft}>
-                                        <Ionicons
-                                            name="pricetag"
-                                            size={18}
-                                            color={isTagsFocused || tagsInput.trim() ? theme.colors.primary : theme.colors.textSecondary}
-                                        />
-                                        <Text style={[styles.sectionLabel, { color: isTagsFocused || tagsInput.trim() ? theme.colors.primary : theme.colors.textSecondary }]}>
-                                            Tags
+                                {/* Notebook Section */}
+                                <View style={styles.inputSection}>
+                                    <View style={styles.sectionHeader}>
+                                        <View style={styles.sectionLeft}>
+                                            <Ionicons name="book-outline" size={18} color={theme.colors.primary} />
+                                            <Text style={[styles.sectionLabel, { color: theme.colors.textPrimary }]}>Notebook</Text>
+                                        </View>
+                                    </View>
+                                    <Pressable
+                                        style={[styles.notebookSelect, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
+                                        onPress={() => {
+                                            haptics.selection();
+                                            setShowNotebookPicker(true);
+                                        }}
+                                    >
+                                        <Text style={[styles.notebookSelectText, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                                            {getNotebookName(notebookId, notebooks)}
                                         </Text>
+                                        <Ionicons name="chevron-down" size={18} color={theme.colors.textSecondary} />
+                                    </Pressable>
+                                </View>
+
+                                {/* Tags Section */}
+                                <View style={styles.inputSection}>
+                                    <View style={styles.sectionHeader}>
+                                        <View style={styles.sectionLeft}>
+                                            <Ionicons
+                                                name="pricetag"
+                                                size={18}
+                                                color={isTagsFocused || tagsInput.trim() ? theme.colors.primary : theme.colors.textSecondary}
+                                            />
+                                            <Text style={[styles.sectionLabel, { color: isTagsFocused || tagsInput.trim() ? theme.colors.primary : theme.colors.textSecondary }]}>
+                                                Tags
+                                            </Text>
+                                        </View>
+                                        {processedTags.length > 0 && (
+                                            <View style={[styles.tagsBadge, { backgroundColor: theme.colors.primary }]}>
+                                                <Text style={styles.tagsBadgeText}>{processedTags.length}</Text>
+                                            </View>
+                                        )}
                                     </View>
+
+                                    <TextInput
+                                        style={[
+                                            styles.tagsInput,
+                                            { borderColor: isTagsFocused ? theme.colors.primary : theme.colors.border,
+                                                backgroundColor: isTagsFocused || tagsInput.trim() ? theme.colors.primaryLight : theme.colors.background,
+                                                borderWidth: isTagsFocused ? 2 : 1,
+                                                color: theme.colors.textPrimary
+                                            }
+                                        ]}
+                                        placeholder="Add tags separated by commas, nest with /"
+                                        value={tagsInput}
+                                        onChangeText={setTagsInput}
+                                        placeholderTextColor={theme.colors.textSecondary}
+                                        onFocus={() => { setIsTagsFocused(true); haptics.selection(); }}
+                                        onBlur={() => setIsTagsFocused(false)}
+                                    />
+                                    {errors.tags && (
+                                        <Text style={[styles.fieldError, { color: theme.colors.error }]}>{errors.tags}</Text>
+                                    )}
+
+                                    <TagSuggestions
+                                        suggestions={getTagSuggestions(getTypedTag(tagsInput), existingTags, processedTags)}
+                                        onSelect={(tag) => {
+                                            haptics.selection();
+                                            setTagsInput(completeTypedTag(tagsInput, tag));
+                                        }}
+                                    />
+
+                                    {/* Tag Preview */}
                                     {processedTags.length > 0 && (
-                                        <View style={[styles.tagsBadge, { backgroundColor: theme.colors.primary }]}>
-                                            <Text style={styles.tagsBadgeText}>{processedTags.length}</Text>
+                                        <View style={styles.tagPreviewContainer}>
+                                            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tagPreviewScroll}>
+                                                {processedTags.map((tag, index) => (
+                                                    <View key={index} style={[styles.tagPreviewChip, { backgroundColor: theme.colors.primaryLight }]}>
+                                                        <Text style={[styles.tagPreviewText, { color: theme.colors.primary }]}>#{tag}</Text>
+                                                        <Pressable
+                                                            style={styles.removeTagButton}
+                                                            onPress={() => removeTag(tag)}
+                                                            onPressIn={() => haptics.impactLight()}
+                                                        >
+                                                            <Ionicons name="close" size={14} color={theme.colors.textSecondary} />
+                                                        </Pressable>
+                                                    </View>
+                                                ))}
+                                            </ScrollView>
                                         </View>
                                     )}
                                 </View>
 
-                                <TextInput
-                                    style={[
-                                        styles.tagsInput,
-                                        { borderColor: isTagsFocused ? theme.colors.primary : theme.colors.border,
-                                            backgroundColor: isTagsFocused || tagsInput.trim() ? theme.colors.primaryLight : theme.colors.background,
-                                            borderWidth: isTagsFocused ? 2 : 1,
-                                            color: theme.colors.textPrimary
-                                        }
-                                    ]}
-                                    placeholder="Add tags separated by commas"
-                                    value={tagsInput}
-                                    onChangeText={setTagsInput}
-                                    placeholderTextColor={theme.colors.textSecondary}
-                                    onFocus={() => { setIsTagsFocused(true); haptics.selection(); }}
-                                    onBlur={() => setIsTagsFocused(false)}
-                                />
-
-                                {/* Tag Preview */}
-                                {processedTags.length > 0 && (
-                                    <View style={styles.tagPreviewContainer}>
-                                        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tagPreviewScroll}>
-                                            {processedTags.map((tag, index) => (
-                                                <View key={index} style={[styles.tagPreviewChip, { backgroundColor: theme.colors.primaryLight }]}>
-                                                    <Text style={[styles.tagPreviewText, { color: theme.colors.primary }]}>#{tag}</Text>
-                                                    <Pressable
-                                                        style={styles.removeTagButton}
-                                                        onPress={() => removeTag(tag)}
-                                                        onPressIn={() => haptics.impactLight()}
-                                                    >
-                                                        <Ionicons name="close" size={14} color={theme.colors.textSecondary} />
-                                                    </Pressable>
-                                                </View>
-                                            ))}
-                                        </ScrollView>
+                                {/* Content Section */}
+                                <View style={styles.inputSection}>
+                                    <View style={styles.sectionHeader}>
+                                        <Ionicons name="document-text-outline" size={18} color={theme.colors.primary} />
+                                        <Text style={[styles.sectionLabel, { color: theme.colors.textPrimary }]}>Content</Text>
+                                        <Text style={[styles.characterCount, { color: theme.colors.textSecondary, backgroundColor: theme.colors.background }]}>
+                                            {body.length} characters
+                                        </Text>
                                     </View>
-                                )}
-                            </View>
-
-                            {/* Content Section */}
-                            <View style={styles.inputSection}>
-                                <View style={styles.sectionHeader}>
-                                    <Ionicons name="document-text-outline" size={18} color={theme.colors.primary} />
-                                    <Text style={[styles.sectionLabel, { color: theme.colors.textPrimary }]}>Content</Text>
-                                    <Text style={[styles.characterCount, { color: theme.colors.textSecondary, backgroundColor: theme.colors.background }]}>
-                                        {body.length} characters
-                                    </Text>
+                                    <MarkdownToolbar {...markdown.toolbarProps} />
+                                    <TextInput
+                                        style={[styles.bodyInput, { color: theme.colors.textPrimary, backgroundColor: theme.colors.background, borderColor: errors.body ? theme.colors.error : theme.colors.border }]}
+                                        placeholder="Write your note content here..."
+                                        value={body}
+                                        onChangeText={setBody}
+                                        {...markdown.inputProps}
+                                        placeholderTextColor={theme.colors.textSecondary}
+                                        multiline
+                                        textAlignVertical="top"
+                                        onFocus={() => haptics.selection()}
+                                    />
+                                    {errors.body && (
+                                        <Text style={[styles.fieldError, { color: theme.colors.error }]}>{errors.body}</Text>
+                                    )}
                                 </View>
-                                <TextInput
-                                    style={[styles.bodyInput, { color: theme.colors.textPrimary, backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
-                                    placeholder="Write your note content here..."
-                                    value={body}
-                                    onChangeText={setBody}
-                                    placeholderTextColor={theme.colors.textSecondary}
-                                    multiline
-                                    textAlignVertical="top"
-                                    onFocus={() => haptics.selection()}
-                                />
                             </View>
-                        </View>
-                    </ScrollView>
+                        </ScrollView>
+                    )}
                 </KeyboardAvoidingView>
+
+                <NotebookPicker
+                    visible={showNotebookPicker}
+                    value={notebookId}
+                    title="Notebook"
+                    onClose={() => setShowNotebookPicker(false)}
+                    onSelect={(value) => {
+                        setNotebookId(value);
+                        setShowNotebookPicker(false);
+                    }}
+                />
             </ScreenWrapper>
         </>
     );
@@ -305,6 +495,7 @@ const styles = StyleSheet.create({
         backgroundColor: 'transparent', // ✅ No white background
     },
     headerTitle: { fontSize: 20, fontWeight: '700', flex: 1, textAlign: 'center', marginHorizontal: 16 },
+    headerSpacer: { minWidth: 80 },
     saveHeaderButton: { paddingHorizontal: 16, paddingVertical: 8, borderRadius: 20, minWidth: 80, alignItems: 'center' },
     saveHeaderText: { fontSize: 16, fontWeight: '600' },
     content: { flex: 1 },
@@ -316,6 +507,9 @@ const styles = StyleSheet.create({
     sectionLabel: { fontSize: 16, fontWeight: '600' },
     characterCount: { fontSize: 12, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10 },
     titleInput: { fontSize: 20, fontWeight: '600', paddingVertical: 16, paddingHorizontal: 16, borderRadius: 12, borderWidth: 1 },
+    notebookSelect: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 14, paddingHorizontal: 16, borderRadius: 12, borderWidth: 1 },
+    notebookSelectText: { flex: 1, fontSize: 16, fontWeight: '500' },
+    fieldError: { fontSize: 13, lineHeight: 18, marginTop: 8 },
     tagsInput: { fontSize: 16, paddingVertical: 12, paddingHorizontal: 16, borderRadius: 12, minHeight: 48 },
     bodyInput: { fontSize: 16, paddingVertical: 16, paddingHorizontal: 16, borderRadius: 12, borderWidth: 1, minHeight: 200, lineHeight: 24, textAlignVertical: 'top' },
     tagsBadge: { borderRadius: 12, paddingHorizontal: 8, paddingVertical: 2, minWidth: 24, alignItems: 'center' },
@@ -0,0 +1,532 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Alert, ActivityIndicator, RefreshControl } from 'react-native';
+import { router, useLocalSearchParams, useFocusEffect, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useSync } from '@/contexts/_SyncContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { getNote, updateNote } from '@/services/localNotes';
+import { NoteConflictError } from '@/services/notes';
+import { listRevisions, type NoteRevision } from '@/services/revisions';
+import { diffLines } from '@/utils/diff';
+
+export default function NoteHistoryScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const { syncNow } = useSync();
+    const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    const [restoring, setRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+    const haptics = useHaptics();
+
+    const fetchRevisions = useCallback(async (silent = false) => {
+        if (!id) return;
+
+        try {
+            if (!silent) setLoading(true);
+            setError(null);
+            const fetched = await listRevisions(id);
+            setRevisions(fetched);
+            // ✅ Start by comparing the current version with the one before it
+            setSelectedIds(fetched.slice(0, 2).map(revision => revision.id));
+        } catch (err) {
+            console.error('Error fetching history:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load history');
+        } finally {
+            setLoading(false);
+        }
+    }, [id]);
+
+    useFocusEffect(
+        useCallback(() => {
+            fetchRevisions();
+        }, [fetchRevisions])
+    );
+
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        haptics.selection();
+        await fetchRevisions(true);
+        setRefreshing(false);
+    };
+
+    // Tapping a third version replaces the oldest pick
+    const toggleSelected = (revisionId: string) => {
+        haptics.selection();
+        setSelectedIds(prev => {
+            if (prev.includes(revisionId)) {
+                return prev.filter(item => item !== revisionId);
+            }
+            return [...prev, revisionId].slice(-2);
+        });
+    };
+
+    // Older selection first so the diff reads forward in time
+    const comparison = useMemo(() => {
+        if (selectedIds.length !== 2) return null;
+
+        const [before, after] = revisions
+            .filter(revision => selectedIds.includes(revision.id))
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+        if (!before || !after) return null;
+
+        return {
+            before,
+            after,
+            lines: diffLines(before.body ?? '', after.body ?? ''),
+        };
+    }, [revisions, selectedIds]);
+
+    const handleRestore = (revision: NoteRevision) => {
+        haptics.warning();
+
+        Alert.alert(
+            'Restore Version',
+            `Restore the version from ${formatDate(revision.created_at)}? It will be saved as a new version, so nothing in the history is lost.`,
+            [
+                { text: 'Cancel', style: 'cancel', onPress: () => haptics.impactLight() },
+                {
+                    text: 'Restore',
+                    onPress: async () => {
+                        if (!id) return;
+
+                        try {
+                            setRestoring(true);
+                            const current = await getNote(id);
+                            await updateNote(id, {
+                                title: revision.title,
+                                body: revision.body ?? '',
+                                tags: revision.tags ?? [],
+                            }, { expectedUpdatedAt: current.updated_at });
+
+                            haptics.success();
+                            syncNow();
+                            router.back();
+                        } catch (err) {
+                            console.error('Error restoring version:', err);
+                            haptics.error();
+
+                            if (err instanceof NoteConflictError) {
+                                Alert.alert('Note Changed', 'This note was edited on another device. Resolve the conflict before restoring a version.');
+                            } else {
+                                Alert.alert('Error', 'Failed to restore this version. Please try again.');
+                            }
+                        } finally {
+                            setRestoring(false);
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    // Lines added and removed relative to the previous version
+    const getChangeSummary = (index: number) => {
+        const previous = revisions[index + 1];
+        if (!previous) return 'Created';
+
+        const revision = revisions[index];
+        const lines = diffLines(previous.body ?? '', revision.body ?? '');
+        const added = lines.filter(line => line.type === 'added').length;
+        const removed = lines.filter(line => line.type === 'removed').length;
+
+        const parts: string[] = [];
+        if (previous.title !== revision.title) parts.push('title');
+        if ((previous.tags ?? []).join(',') !== (revision.tags ?? []).join(',')) parts.push('tags');
+        if (added || removed) parts.push(`+${added} −${removed} lines`);
+
+        return parts.length > 0 ? parts.join(' • ') : 'No content changes';
+    };
+
+    const renderRevision = (revision: NoteRevision, index: number) => {
+        const isSelected = selectedIds.includes(revision.id);
+        const isCurrent = index === 0;
+
+        return (
+            <Pressable
+                key={revision.id}
+                style={[styles.revisionCard, {
+                    backgroundColor: theme.colors.surface,
+                    borderColor: isSelected ? theme.colors.primary : theme.colors.border,
+                }]}
+                onPress={() => toggleSelected(revision.id)}
+            >
+                <Ionicons
+                    name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={22}
+                    color={isSelected ? theme.colors.primary : theme.colors.textSecondary}
+                />
+                <View style={styles.revisionContent}>
+                    <View style={styles.revisionHeader}>
+                        <Text style={[styles.revisionDate, { color: theme.colors.textPrimary }]}>
+                            {formatDate(revision.created_at)}
+                        </Text>
+                        {isCurrent && (
+                            <View style={[styles.currentBadge, { backgroundColor: theme.colors.primaryLight }]}>
+                                <Text style={[styles.currentBadgeText, { color: theme.colors.primary }]}>Current</Text>
+                            </View>
+                        )}
+                    </View>
+                    <Text style={[styles.revisionTitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                        {revision.title}
+                    </Text>
+                    <Text style={[styles.revisionMeta, { color: theme.colors.textSecondary }]}>
+                        {getChangeSummary(index)}
+                    </Text>
+                </View>
+                {!isCurrent && (
+                    <Pressable
+                        style={[styles.restoreButton, { borderColor: theme.colors.border }, restoring && styles.restoreButtonDisabled]}
+                        onPress={() => handleRestore(revision)}
+                        disabled={restoring}
+                        hitSlop={8}
+                    >
+                        <Ionicons name="arrow-undo-outline" size={16} color={theme.colors.primary} />
+                        <Text style={[styles.restoreButtonText, { color: theme.colors.primary }]}>Restore</Text>
+                    </Pressable>
+                )}
+            </Pressable>
+        );
+    };
+
+    const renderComparison = () => {
+        if (!comparison) {
+            return (
+                <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                    Select two versions to compare them.
+                </Text>
+            );
+        }
+
+        const { before, after, lines } = comparison;
+        const titleChanged = before.title !== after.title;
+        const tagsBefore = (before.tags ?? []).map(tag => `#${tag}`).join(' ');
+        const tagsAfter = (after.tags ?? []).map(tag => `#${tag}`).join(' ');
+
+        return (
+            <View style={[styles.diffCard, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+                <View style={styles.diffHeader}>
+                    <Ionicons name="git-compare-outline" size={16} color={theme.colors.primary} />
+                    <Text style={[styles.diffHeaderText, { color: theme.colors.textPrimary }]}>
+                        {formatDate(before.created_at)} → {formatDate(after.created_at)}
+                    </Text>
+                </View>
+
+                {titleChanged && (
+                    <View style={styles.diffSection}>
+                        <Text style={[styles.diffLabel, { color: theme.colors.textSecondary }]}>Title</Text>
+                        <Text style={[styles.diffLine, styles.diffRemoved, { color: theme.colors.textPrimary }]}>- {before.title}</Text>
+                        <Text style={[styles.diffLine, styles.diffAdded, { color: theme.colors.textPrimary }]}>+ {after.title}</Text>
+                    </View>
+                )}
+
+                {tagsBefore !== tagsAfter && (
+                    <View style={styles.diffSection}>
+                        <Text style={[styles.diffLabel, { color: theme.colors.textSecondary }]}>Tags</Text>
+                        <Text style={[styles.diffLine, styles.diffRemoved, { color: theme.colors.textPrimary }]}>- {tagsBefore || 'No tags'}</Text>
+                        <Text style={[styles.diffLine, styles.diffAdded, { color: theme.colors.textPrimary }]}>+ {tagsAfter || 'No tags'}</Text>
+                    </View>
+                )}
+
+                <View style={styles.diffSection}>
+                    <Text style={[styles.diffLabel, { color: theme.colors.textSecondary }]}>Content</Text>
+                    {lines.every(line => line.type === 'equal') ? (
+                        <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>No changes to the content.</Text>
+                    ) : (
+                        lines.map((line, index) => (
+                            <Text
+                                key={index}
+                                style={[
+                                    styles.diffLine,
+                                    { color: line.type === 'equal' ? theme.colors.textSecondary : theme.colors.textPrimary },
+                                    line.type === 'added' && styles.diffAdded,
+                                    line.type === 'removed' && styles.diffRemoved,
+                                ]}
+                            >
+                                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                                {line.text}
+                            </Text>
+                        ))
+                    )}
+                </View>
+            </View>
+        );
+    };
+
+    const renderBody = () => {
+        if (loading) {
+            return (
+                <View style={styles.centerContainer}>
+                    <ActivityIndicator size="large" color={theme.colors.primary} />
+                </View>
+            );
+        }
+
+        if (error) {
+            return (
+                <View style={styles.centerContainer}>
+                    <Ionicons name="cloud-offline-outline" size={48} color={theme.colors.textSecondary} />
+                    <Text style={[styles.emptyTitle, { color: theme.colors.textPrimary }]}>
+                        History Unavailable
+                    </Text>
+                    <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>
+                        {error}
+                    </Text>
+                    <Pressable
+                        style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+                        onPress={() => fetchRevisions()}
+                        onPressIn={() => haptics.impactMedium()}
+                    >
+                        <Text style={styles.retryButtonText}>Try Again</Text>
+                    </Pressable>
+                </View>
+            );
+        }
+
+        if (revisions.length === 0) {
+            return (
+                <View style={styles.centerContainer}>
+                    <Ionicons name="time-outline" size={48} color={theme.colors.textSecondary} />
+                    <Text style={[styles.emptyTitle, { color: theme.colors.textPrimary }]}>
+                        No History Yet
+                    </Text>
+                    <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>
+                        Versions appear here once the note has synced.
+                    </Text>
+                </View>
+            );
+        }
+
+        return (
+            <>
+                {renderComparison()}
+                <Text style={[styles.sectionTitle, { color: theme.colors.textPrimary }]}>
+                    {revisions.length} {revisions.length === 1 ? 'version' : 'versions'}
+                </Text>
+                {revisions.map(renderRevision)}
+            </>
+        );
+    };
+
+    return (
+        <>
+            <Stack.Screen options={{ headerShown: false }} />
+
+            <ScreenWrapper>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border
+                }]}>
+                    <Pressable
+                        onPress={() => {
+                            haptics.impactLight();
+                            router.back();
+                        }}
+                        style={styles.backButton}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
+                    </Pressable>
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>History</Text>
+                    <View style={styles.headerSpacer} />
+                </View>
+
+                <ScrollView
+                    style={[styles.content, { backgroundColor: theme.colors.background }]}
+                    contentContainerStyle={[
+                        styles.contentContainer,
+                        { paddingBottom: insets.bottom + 40 }
+                    ]}
+                    showsVerticalScrollIndicator={false}
+                    refreshControl={
+                        <RefreshControl
+                            refreshing={refreshing}
+                            onRefresh={handleRefresh}
+                            tintColor={theme.colors.primary}
+                            colors={[theme.colors.primary]}
+                        />
+                    }
+                >
+                    {renderBody()}
+                </ScrollView>
+            </ScreenWrapper>
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: 4,
+        marginRight: 12,
+        borderRadius: 8,
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        flex: 1,
+    },
+    headerSpacer: {
+        width: 40,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        flexGrow: 1,
+        padding: 20,
+        gap: 12,
+    },
+    centerContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        gap: 12,
+    },
+    emptyTitle: {
+        fontSize: 20,
+        fontWeight: '600',
+        textAlign: 'center',
+    },
+    emptySubtitle: {
+        fontSize: 15,
+        textAlign: 'center',
+        lineHeight: 22,
+    },
+    retryButton: {
+        paddingHorizontal: 24,
+        paddingVertical: 12,
+        borderRadius: 8,
+        marginTop: 8,
+    },
+    retryButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: 'white',
+    },
+    hint: {
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        marginTop: 8,
+    },
+    revisionCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    revisionContent: {
+        flex: 1,
+        gap: 2,
+    },
+    revisionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    revisionDate: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    currentBadge: {
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        borderRadius: 8,
+    },
+    currentBadgeText: {
+        fontSize: 11,
+        fontWeight: '700',
+    },
+    revisionTitle: {
+        fontSize: 14,
+    },
+    revisionMeta: {
+        fontSize: 12,
+        fontWeight: '500',
+    },
+    restoreButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 8,
+        borderWidth: 1,
+    },
+    restoreButtonDisabled: {
+        opacity: 0.5,
+    },
+    restoreButtonText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    diffCard: {
+        borderRadius: 16,
+        borderWidth: 1,
+        padding: 16,
+        gap: 12,
+    },
+    diffHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    diffHeaderText: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    diffSection: {
+        gap: 2,
+    },
+    diffLabel: {
+        fontSize: 12,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        marginBottom: 4,
+    },
+    diffLine: {
+        fontSize: 14,
+        lineHeight: 20,
+        fontFamily: 'monospace',
+        paddingHorizontal: 6,
+        borderRadius: 4,
+    },
+    diffAdded: {
+        backgroundColor: 'rgba(16, 185, 129, 0.18)',
+    },
+    diffRemoved: {
+        backgroundColor: 'rgba(239, 68, 68, 0.18)',
+        textDecorationLine: 'line-through',
+    },
+});
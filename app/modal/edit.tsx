@@ -4,7 +4,8 @@ import { useLocalSearchParams, router } from 'expo-router';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { theme } from '@/config/theme';
 import { useHaptics } from '@/hooks/useHaptics';
-import { getNote, updateNote, type Note } from '@/services/notes';
+import { getNote, updateNote } from '@/services/localNotes';
+import type { Note } from '@/services/notes';
 import { NoteEditor } from '@/components/NoteEditor';
 
 export default function EditNoteModal() {
@@ -63,7 +64,7 @@ export default function EditNoteModal() {
     const onUpdate = async (payload: { title: string; body: string; tags: string[] }) => {
         if (!noteId || !payload.title.trim()) {
             Alert.alert('Title required', 'Please add a title for your note');
-            return;
+            return false;
         }
 
         try {
@@ -94,10 +95,12 @@ export default function EditNoteModal() {
                     }
                 ]
             );
+            return true;
         } catch (error: any) {
             console.error('Modal: Update error:', error);
             errorHaptic();
             Alert.alert('Error', error?.message ?? 'Failed to update note');
+            return false;
         } finally {
             setSaving(false);
         }
@@ -164,6 +167,8 @@ export default function EditNoteModal() {
                     onSubmit={onUpdate}
                     submitting={saving}
                     submitLabel="Update Note"
+                    draftId={note.id}
+                    baseUpdatedAt={note.updated_at}
                 />
             </View>
         </SafeAreaView>
@@ -1,22 +1,36 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Alert, ActivityIndicator } from 'react-native';
 import { router, useLocalSearchParams, useFocusEffect, Stack } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { MarkdownView } from '@/components/MarkdownView';
+import { NotebookPicker } from '@/components/NotebookPicker';
 import { useTheme } from '@/contexts/_ThemeContext'; // ✅ Add dark mode
-import { getNote, deleteNote, type Note } from '@/services/notes';
+import { useTagColors } from '@/contexts/_TagColorsContext';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import { getNote, updateNote, deleteNote, getConflict, subscribeToNotes } from '@/services/localNotes';
+import { NoteConflictError, type Note } from '@/services/notes';
+import { toggleChecklistItem } from '@/utils/markdown';
+import { getNotebookName } from '@/utils/notebooks';
 import { useHaptics } from '@/hooks/useHaptics';
 
 export default function NoteDetailScreen() {
     const { id } = useLocalSearchParams<{ id: string }>();
     const { theme } = useTheme(); // ✅ Get current theme
+    const { getTagColor } = useTagColors();
+    const { notebooks } = useNotebooks();
     const insets = useSafeAreaInsets();
     const [note, setNote] = useState<Note | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [hasConflict, setHasConflict] = useState(false);
+    const [showNotebookPicker, setShowNotebookPicker] = useState(false);
 
     const haptics = useHaptics();
+    const toggleQueue = useRef<Promise<void>>(Promise.resolve());
+    const [removedRemotely, setRemovedRemotely] = useState(false);
+    const deletingHere = useRef(false);
 
     const fetchNote = useCallback(async () => {
         if (!id) return;
@@ -27,9 +41,11 @@ export default function NoteDetailScreen() {
             setLoading(true);
             setError(null);
             const fetchedNote = await getNote(id);
+            const conflict = await getConflict(id);
 
             if (mounted) {
                 setNote(fetchedNote);
+                setHasConflict(!!conflict);
             }
         } catch (err) {
             if (mounted) {
@@ -54,6 +70,28 @@ export default function NoteDetailScreen() {
         }, [fetchNote])
     );
 
+    // ✅ Pick up changes pulled by background sync or streamed live without a loading flash
+    useEffect(() => {
+        if (!id) return;
+
+        return subscribeToNotes(() => {
+            getNote(id)
+                .then(current => {
+                    setNote(current);
+                    setRemovedRemotely(false);
+                })
+                .catch(() => {
+                    // Gone from the device without being deleted here: trashed on another device
+                    if (!deletingHere.current) {
+                        setRemovedRemotely(true);
+                    }
+                });
+            getConflict(id)
+                .then(conflict => setHasConflict(!!conflict))
+                .catch(() => undefined);
+        });
+    }, [id]);
+
     const handleEdit = () => {
         if (note) {
             haptics.impactLight();
@@ -62,6 +100,106 @@ export default function NoteDetailScreen() {
         }
     };
 
+    // ✅ Tick items off without opening the editor; saves run one after another
+    const handleToggleCheckbox = (line: number) => {
+        if (!id) return;
+
+        haptics.selection();
+        setNote(prev => (prev ? { ...prev, body: toggleChecklistItem(prev.body, line) } : prev));
+
+        toggleQueue.current = toggleQueue.current.then(async () => {
+            try {
+                const current = await getNote(id);
+                const saved = await updateNote(
+                    id,
+                    { body: toggleChecklistItem(current.body, line) },
+                    { expectedUpdatedAt: current.updated_at }
+                );
+                setNote(saved);
+            } catch (err) {
+                console.error('Error updating checklist:', err);
+                haptics.error();
+                if (err instanceof NoteConflictError) {
+                    setHasConflict(true);
+                    Alert.alert('Note Changed', 'This note was edited on another device. Resolve the conflict before ticking items off.');
+                } else {
+                    Alert.alert('Error', 'Failed to update the checklist. Please try again.');
+                }
+                getNote(id)
+                    .then(setNote)
+                    .catch(() => undefined);
+            }
+        });
+    };
+
+    const handleMove = async (notebookId: string | null) => {
+        setShowNotebookPicker(false);
+        if (!note || notebookId === (note.notebook_id ?? null)) return;
+
+        try {
+            const saved = await updateNote(note.id, { notebook_id: notebookId });
+            setNote(saved);
+            haptics.success();
+        } catch (err) {
+            console.error('Error moving note:', err);
+            haptics.error();
+            if (err instanceof NoteConflictError) {
+                setHasConflict(true);
+                Alert.alert('Note Changed', 'This note was edited on another device. Resolve the conflict before moving it.');
+            } else {
+                Alert.alert('Error', 'Failed to move the note. Please try again.');
+            }
+        }
+    };
+
+    const handleToggleFlag = async (flag: 'pinned' | 'favorite') => {
+        if (!note) return;
+
+        haptics.selection();
+        try {
+            const saved = await updateNote(note.id, { [flag]: !note[flag] });
+            setNote(saved);
+        } catch (err) {
+            console.error(`Error updating ${flag}:`, err);
+            haptics.error();
+            if (err instanceof NoteConflictError) {
+                setHasConflict(true);
+                Alert.alert('Note Changed', 'This note was edited on another device. Resolve the conflict first.');
+            } else {
+                Alert.alert('Error', 'Failed to update the note. Please try again.');
+            }
+        }
+    };
+
+    // ✅ Archiving hides the note from the home list without sending it to the Trash
+    const handleToggleArchive = async () => {
+        if (!note) return;
+
+        const archiving = !note.archived_at;
+        haptics.selection();
+        try {
+            const saved = await updateNote(note.id, { archived_at: archiving ? new Date().toISOString() : null });
+            setNote(saved);
+            haptics.success();
+        } catch (err) {
+            console.error('Error archiving note:', err);
+            haptics.error();
+            if (err instanceof NoteConflictError) {
+                setHasConflict(true);
+                Alert.alert('Note Changed', 'This note was edited on another device. Resolve the conflict first.');
+            } else {
+                Alert.alert('Error', `Failed to ${archiving ? 'archive' : 'unarchive'} the note. Please try again.`);
+            }
+        }
+    };
+
+    const handleHistory = () => {
+        if (note) {
+            haptics.impactLight();
+            router.push(`/history/${note.id}`);
+        }
+    };
+
     const handleDelete = () => {
         if (!note) return;
 
@@ -69,7 +207,7 @@ export default function NoteDetailScreen() {
 
         Alert.alert(
             'Delete Note',
-            `Are you sure you want to delete "${note.title}"? This action cannot be undone.`,
+            `"${note.title}" will be moved to the Trash. You can restore it from Settings → Trash.`,
             [
                 {
                     text: 'Cancel',
@@ -82,10 +220,12 @@ export default function NoteDetailScreen() {
                     onPress: async () => {
                         try {
                             haptics.impactHeavy();
+                            deletingHere.current = true;
                             await deleteNote(note.id);
                             haptics.success();
                             router.back();
                         } catch (error) {
+                            deletingHere.current = false;
                             console.error('Error deleting note:', error);
                             haptics.error();
                             Alert.alert('Error', 'Failed to delete note. Please try again.');
@@ -143,7 +283,7 @@ export default function NoteDetailScreen() {
         );
     }
 
-    if (error) {
+    if (error || removedRemotely) {
         return (
             <>
                 <Stack.Screen options={{ headerShown: false }} />
@@ -164,19 +304,25 @@ export default function NoteDetailScreen() {
                         <View style={styles.headerSpacer} />
                     </View>
                     <View style={styles.errorContainer}>
-                        <Ionicons name="alert-circle-outline" size={48} color={theme.colors.error} />
+                        <Ionicons
+                            name={removedRemotely ? 'trash-outline' : 'alert-circle-outline'}
+                            size={48}
+                            color={removedRemotely ? theme.colors.textSecondary : theme.colors.error}
+                        />
                         <Text style={[styles.errorTitle, { color: theme.colors.textPrimary }]}>
-                            Error Loading Note
+                            {removedRemotely ? 'Note Deleted' : 'Error Loading Note'}
                         </Text>
                         <Text style={[styles.errorMessage, { color: theme.colors.textSecondary }]}>
-                            {error}
+                            {removedRemotely
+                                ? 'This note was deleted on another device. You can restore it from Settings → Trash.'
+                                : error}
                         </Text>
                         <Pressable
                             style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
-                            onPress={fetchNote}
+                            onPress={removedRemotely ? handleBack : fetchNote}
                             onPressIn={() => haptics.impactMedium()}
                         >
-                            <Text style={styles.retryButtonText}>Try Again</Text>
+                            <Text style={styles.retryButtonText}>{removedRemotely ? 'Go Back' : 'Try Again'}</Text>
                         </Pressable>
                     </View>
                 </ScreenWrapper>
@@ -236,7 +382,49 @@ export default function NoteDetailScreen() {
                         <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
                     </Pressable>
                     <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>Note</Text>
-                    <View style={styles.headerSpacer} />
+                    <Pressable
+                        onPress={() => handleToggleFlag('pinned')}
+                        style={styles.headerButton}
+                        hitSlop={8}
+                        accessibilityLabel={note.pinned ? 'Unpin' : 'Pin to top'}
+                    >
+                        <Ionicons
+                            name={note.pinned ? 'pin' : 'pin-outline'}
+                            size={24}
+                            color={note.pinned ? theme.colors.primary : theme.colors.textPrimary}
+                        />
+                    </Pressable>
+                    <Pressable
+                        onPress={() => handleToggleFlag('favorite')}
+                        style={styles.headerButton}
+                        hitSlop={8}
+                        accessibilityLabel={note.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                        <Ionicons
+                            name={note.favorite ? 'star' : 'star-outline'}
+                            size={24}
+                            color={note.favorite ? theme.colors.warning : theme.colors.textPrimary}
+                        />
+                    </Pressable>
+                    <Pressable
+                        onPress={handleToggleArchive}
+                        style={styles.headerButton}
+                        hitSlop={8}
+                        accessibilityLabel={note.archived_at ? 'Unarchive' : 'Archive'}
+                    >
+                        <Ionicons
+                            name={note.archived_at ? 'archive' : 'archive-outline'}
+                            size={24}
+                            color={note.archived_at ? theme.colors.primary : theme.colors.textPrimary}
+                        />
+                    </Pressable>
+                    <Pressable
+                        onPress={handleHistory}
+                        style={styles.headerButton}
+                        hitSlop={8}
+                    >
+                        <Ionicons name="time-outline" size={24} color={theme.colors.textPrimary} />
+                    </Pressable>
                 </View>
 
                 <ScrollView
@@ -247,7 +435,51 @@ export default function NoteDetailScreen() {
                     ]}
                     showsVerticalScrollIndicator={false}
                 >
+                    {hasConflict && (
+                        <Pressable
+                            style={[styles.banner, { backgroundColor: theme.colors.surface, borderLeftColor: theme.colors.warning }]}
+                            onPress={handleEdit}
+                        >
+                            <Ionicons name="git-compare-outline" size={20} color={theme.colors.warning} />
+                            <Text style={[styles.bannerText, { color: theme.colors.textPrimary }]}>
+                                Edited on another device. Tap to choose a version.
+                            </Text>
+                            <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+                        </Pressable>
+                    )}
+
+                    {!!note.archived_at && (
+                        <Pressable
+                            style={[styles.banner, { backgroundColor: theme.colors.surface, borderLeftColor: theme.colors.textSecondary }]}
+                            onPress={handleToggleArchive}
+                        >
+                            <Ionicons name="archive-outline" size={20} color={theme.colors.textSecondary} />
+                            <Text style={[styles.bannerText, { color: theme.colors.textPrimary }]}>
+                                Archived on {formatDate(note.archived_at)}. Tap to move it back to your notes.
+                            </Text>
+                            <Ionicons name="arrow-undo-outline" size={16} color={theme.colors.textSecondary} />
+                        </Pressable>
+                    )}
+
                     <View style={[styles.noteContainer, { backgroundColor: theme.colors.surface }]}>
+                        <Pressable
+                            style={[styles.notebookPill, { backgroundColor: theme.colors.background }]}
+                            onPress={() => {
+                                haptics.selection();
+                                setShowNotebookPicker(true);
+                            }}
+                        >
+                            <Ionicons
+                                name={note.notebook_id ? 'book-outline' : 'file-tray-outline'}
+                                size={14}
+                                color={theme.colors.textSecondary}
+                            />
+                            <Text style={[styles.notebookText, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                                {getNotebookName(note.notebook_id, notebooks)}
+                            </Text>
+                            <Ionicons name="chevron-down" size={14} color={theme.colors.textSecondary} />
+                        </Pressable>
+
                         <Text style={[styles.noteTitle, { color: theme.colors.textPrimary }]}>
                             {note.title}
                         </Text>
@@ -261,6 +493,9 @@ export default function NoteDetailScreen() {
                                     Updated: {formatDate(note.updated_at)}
                                 </Text>
                             )}
+                            <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+                                Edited {note.edit_count ?? 0} {note.edit_count === 1 ? 'time' : 'times'}
+                            </Text>
                             <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
                                 {note.body.length} characters • {note.body.trim().split(/\s+/).filter(word => word.length > 0).length} words
                             </Text>
@@ -272,13 +507,18 @@ export default function NoteDetailScreen() {
                                     Tags
                                 </Text>
                                 <View style={styles.tagsGrid}>
-                                    {note.tags.map((tag, index) => (
-                                        <View key={index} style={[styles.tag, { backgroundColor: theme.colors.primaryLight }]}>
-                                            <Text style={[styles.tagText, { color: theme.colors.primary }]}>
-                                                #{tag}
-                                            </Text>
-                                        </View>
-                                    ))}
+                                    {note.tags.map((tag, index) => {
+                                        const tagColor = getTagColor(tag);
+                                        return (
+                                            <View key={index} style={[styles.tag, {
+                                                backgroundColor: tagColor ? `${tagColor}20` : theme.colors.primaryLight
+                                            }]}>
+                                                <Text style={[styles.tagText, { color: tagColor ?? theme.colors.primary }]}>
+                                                    #{tag}
+                                                </Text>
+                                            </View>
+                                        );
+                                    })}
                                 </View>
                             </View>
                         )}
@@ -287,9 +527,13 @@ export default function NoteDetailScreen() {
                             <Text style={[styles.bodyLabel, { color: theme.colors.textPrimary }]}>
                                 Content
                             </Text>
-                            <Text style={[styles.noteBody, { color: theme.colors.textPrimary }]}>
-                                {note.body}
-                            </Text>
+                            {note.body.trim() ? (
+                                <MarkdownView source={note.body} onToggleCheckbox={handleToggleCheckbox} />
+                            ) : (
+                                <Text style={[styles.noteBody, { color: theme.colors.textSecondary }]}>
+                                    No content
+                                </Text>
+                            )}
                         </View>
                     </View>
                 </ScrollView>
@@ -317,6 +561,13 @@ export default function NoteDetailScreen() {
                         <Text style={styles.deleteButtonText}>Delete</Text>
                     </Pressable>
                 </View>
+
+                <NotebookPicker
+                    visible={showNotebookPicker}
+                    value={note.notebook_id}
+                    onClose={() => setShowNotebookPicker(false)}
+                    onSelect={handleMove}
+                />
             </ScreenWrapper>
         </>
     );
@@ -343,6 +594,11 @@ const styles = StyleSheet.create({
     headerSpacer: {
         width: 40,
     },
+    headerButton: {
+        padding: 4,
+        marginLeft: 8,
+        borderRadius: 8,
+    },
     content: {
         flex: 1,
     },
@@ -350,10 +606,40 @@ const styles = StyleSheet.create({
         paddingHorizontal: 20,
         paddingTop: 20,
     },
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 16,
+        marginBottom: 16,
+        borderRadius: 12,
+        borderLeftWidth: 4,
+    },
+    bannerText: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '500',
+    },
     noteContainer: {
         borderRadius: 16,
         padding: 20,
     },
+    notebookPill: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        gap: 6,
+        maxWidth: '100%',
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+        borderRadius: 14,
+        marginBottom: 12,
+    },
+    notebookText: {
+        fontSize: 13,
+        fontWeight: '600',
+        flexShrink: 1,
+    },
     noteTitle: {
         fontSize: 24,
         fontWeight: '700',
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TextInput,
+    Pressable,
+    ScrollView,
+    Alert,
+    KeyboardAvoidingView,
+    Platform
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useAuth } from '@/contexts/_AuthContext';
+import { useHaptics } from '@/hooks/useHaptics';
+
+type AuthMode = 'signIn' | 'signUp';
+
+export default function SignInScreen() {
+    const { theme } = useTheme();
+    const { signIn, signUp } = useAuth();
+    const [mode, setMode] = useState<AuthMode>('signIn');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    const haptics = useHaptics();
+
+    const canSubmit = email.trim().length > 0 && password.length > 0 && !submitting;
+
+    const handleSubmit = async () => {
+        if (!canSubmit) return;
+
+        try {
+            setSubmitting(true);
+            haptics.impactMedium();
+
+            if (mode === 'signIn') {
+                // ✅ Auth gate in the root layout redirects once the session is set
+                await signIn({ email, password });
+                haptics.success();
+            } else {
+                const { needsConfirmation } = await signUp({ email, password });
+                haptics.success();
+
+                if (needsConfirmation) {
+                    Alert.alert(
+                        'Check your email',
+                        'We sent you a confirmation link. Confirm your address, then sign in.',
+                        [{ text: 'OK', onPress: () => setMode('signIn') }]
+                    );
+                }
+            }
+        } catch (error) {
+            console.error('Authentication error:', error);
+            haptics.error();
+            Alert.alert(
+                mode === 'signIn' ? 'Sign In Failed' : 'Sign Up Failed',
+                error instanceof Error ? error.message : 'Please try again.'
+            );
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const toggleMode = () => {
+        haptics.selection();
+        setMode(prev => (prev === 'signIn' ? 'signUp' : 'signIn'));
+    };
+
+    return (
+        <ScreenWrapper>
+            <KeyboardAvoidingView
+                style={styles.container}
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            >
+                <ScrollView
+                    style={[styles.content, { backgroundColor: theme.colors.background }]}
+                    contentContainerStyle={styles.contentContainer}
+                    showsVerticalScrollIndicator={false}
+                    keyboardShouldPersistTaps="handled"
+                >
+                    <View style={styles.brand}>
+                        <View style={[styles.brandIcon, { backgroundColor: theme.colors.primaryLight }]}>
+                            <Ionicons name="document-text" size={32} color={theme.colors.primary} />
+                        </View>
+                        <Text style={[styles.appName, { color: theme.colors.textPrimary }]}>SwiftNote</Text>
+                        <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+                            {mode === 'signIn' ? 'Sign in to see your notes' : 'Create an account to get started'}
+                        </Text>
+                    </View>
+
+                    <View style={[styles.formCard, { backgroundColor: theme.colors.surface }]}>
+                        <Text style={[styles.label, { color: theme.colors.textPrimary }]}>Email</Text>
+                        <TextInput
+                            style={[styles.input, {
+                                color: theme.colors.textPrimary,
+                                backgroundColor: theme.colors.background,
+                                borderColor: theme.colors.border
+                            }]}
+                            placeholder="you@example.com"
+                            value={email}
+                            onChangeText={setEmail}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            keyboardType="email-address"
+                            textContentType="emailAddress"
+                            onFocus={() => haptics.selection()}
+                        />
+
+                        <Text style={[styles.label, { color: theme.colors.textPrimary }]}>Password</Text>
+                        <TextInput
+                            style={[styles.input, {
+                                color: theme.colors.textPrimary,
+                                backgroundColor: theme.colors.background,
+                                borderColor: theme.colors.border
+                            }]}
+                            placeholder={mode === 'signUp' ? 'At least 6 characters' : 'Your password'}
+                            value={password}
+                            onChangeText={setPassword}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            secureTextEntry
+                            textContentType={mode === 'signUp' ? 'newPassword' : 'password'}
+                            onFocus={() => haptics.selection()}
+                            onSubmitEditing={handleSubmit}
+                        />
+
+                        <Pressable
+                            style={[
+                                styles.submitButton,
+                                {
+                                    backgroundColor: canSubmit ? theme.colors.primary : theme.colors.textSecondary,
+                                    opacity: submitting ? 0.7 : 1,
+                                }
+                            ]}
+                            onPress={handleSubmit}
+                            disabled={!canSubmit}
+                            onPressIn={() => haptics.impactLight()}
+                        >
+                            <Ionicons
+                                name={submitting ? 'hourglass' : mode === 'signIn' ? 'log-in-outline' : 'person-add-outline'}
+                                size={20}
+                                color="white"
+                            />
+                            <Text style={styles.submitButtonText}>
+                                {submitting
+                                    ? 'Please wait...'
+                                    : mode === 'signIn' ? 'Sign In' : 'Create Account'
+                                }
+                            </Text>
+                        </Pressable>
+                    </View>
+
+                    <Pressable style={styles.switchMode} onPress={toggleMode}>
+                        <Text style={[styles.switchModeText, { color: theme.colors.textSecondary }]}>
+                            {mode === 'signIn' ? "Don't have an account? " : 'Already have an account? '}
+                            <Text style={{ color: theme.colors.primary, fontWeight: '600' }}>
+                                {mode === 'signIn' ? 'Sign up' : 'Sign in'}
+                            </Text>
+                        </Text>
+                    </Pressable>
+                </ScrollView>
+            </KeyboardAvoidingView>
+        </ScreenWrapper>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        flexGrow: 1,
+        justifyContent: 'center',
+        padding: 20,
+    },
+    brand: {
+        alignItems: 'center',
+        marginBottom: 32,
+    },
+    brandIcon: {
+        width: 64,
+        height: 64,
+        borderRadius: 20,
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginBottom: 16,
+    },
+    appName: {
+        fontSize: 28,
+        fontWeight: '800',
+        letterSpacing: -0.3,
+    },
+    subtitle: {
+        fontSize: 15,
+        marginTop: 6,
+    },
+    formCard: {
+        borderRadius: 16,
+        padding: 20,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: '600',
+        marginBottom: 8,
+    },
+    input: {
+        fontSize: 16,
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        marginBottom: 20,
+    },
+    submitButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 16,
+        borderRadius: 12,
+        gap: 8,
+    },
+    submitButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: 'white',
+    },
+    switchMode: {
+        alignItems: 'center',
+        paddingVertical: 20,
+    },
+    switchModeText: {
+        fontSize: 14,
+    },
+});
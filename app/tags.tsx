@@ -0,0 +1,238 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, ActivityIndicator } from 'react-native';
+import { router, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { TagActionModal, type TagAction } from '@/components/TagActionModal';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useSync } from '@/contexts/_SyncContext';
+import { useTagColors } from '@/contexts/_TagColorsContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useCachedQuery, useLocalNotes, useNoteCounts } from '@/hooks/useNotesCache';
+import { countPendingChanges } from '@/services/localNotes';
+import { listNotesWithTag, type Note } from '@/services/notes';
+import { REMOTE_KEY_PREFIX } from '@/services/notesCache';
+import { deleteTag, mergeTags, renameTag } from '@/services/tags';
+import type { TagChange } from '@/utils/tags';
+
+export default function TagsScreen() {
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const { isOnline, syncNow } = useSync();
+    const { getTagColor, reload: reloadTagColors } = useTagColors();
+    // Renames and deletes reach archived notes too, so they are counted here.
+    // Counts come from the server while online and refresh as changes land.
+    const { counts: { tagUsage }, loading } = useNoteCounts(true);
+    const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+    // ✅ The preview needs every note a change would touch, which only the server has
+    const { notes: localNotes } = useLocalNotes();
+    const { data: taggedNotes } = useCachedQuery<Note[]>(
+        isOnline && selectedTag ? `${REMOTE_KEY_PREFIX}tagged:${selectedTag}` : null,
+        () => listNotesWithTag(selectedTag ?? '')
+    );
+    const previewNotes = isOnline ? taggedNotes ?? [] : localNotes;
+
+    const haptics = useHaptics();
+    const tags = useMemo(() =>
+        Object.keys(tagUsage).sort((a, b) => tagUsage[b] - tagUsage[a] || a.localeCompare(b)),
+    [tagUsage]);
+
+    // Bulk edits run on the server, so local edits are pushed first and the result pulled back after
+    const handleSubmit = async (action: TagAction, change: TagChange) => {
+        if (!isOnline) {
+            throw new Error('You\'re offline. Tag changes are made on the server, so try again once you\'re connected.');
+        }
+
+        await syncNow();
+        if (await countPendingChanges() > 0) {
+            throw new Error('Some edits haven\'t synced yet. Pull to refresh on the home screen, then try again.');
+        }
+
+        let count: number;
+        if (change.type === 'remove') {
+            count = await deleteTag(change.tags[0]);
+        } else if (action === 'merge') {
+            count = await mergeTags(change.from, change.to);
+        } else {
+            count = await renameTag(change.from[0], change.to);
+        }
+
+        await Promise.all([syncNow(), reloadTagColors()]);
+        return count;
+    };
+
+    const renderTag = ({ item }: { item: string }) => {
+        const color = getTagColor(item);
+        return (
+            <Pressable
+                style={({ pressed }) => [
+                    styles.tagRow,
+                    { backgroundColor: theme.colors.surface },
+                    pressed && styles.tagRowPressed
+                ]}
+                onPress={() => {
+                    haptics.impactLight();
+                    setSelectedTag(item);
+                }}
+            >
+                <Ionicons name={color ? 'pricetag' : 'pricetag-outline'} size={18} color={color ?? theme.colors.primary} />
+                <Text style={[styles.tagName, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                    #{item}
+                </Text>
+                <Text style={[styles.tagCount, { color: theme.colors.textSecondary }]}>
+                    {tagUsage[item]} {tagUsage[item] === 1 ? 'note' : 'notes'}
+                </Text>
+                <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+            </Pressable>
+        );
+    };
+
+    const renderEmptyState = () => (
+        <View style={styles.emptyState}>
+            <Ionicons name="pricetags-outline" size={48} color={theme.colors.textSecondary} />
+            <Text style={[styles.emptyTitle, { color: theme.colors.textPrimary }]}>No tags yet</Text>
+            <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>
+                Tags you add to notes show up here.
+            </Text>
+        </View>
+    );
+
+    return (
+        <>
+            <Stack.Screen options={{ headerShown: false }} />
+
+            <ScreenWrapper>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border
+                }]}>
+                    <Pressable
+                        onPress={() => {
+                            haptics.impactLight();
+                            router.back();
+                        }}
+                        style={styles.backButton}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
+                    </Pressable>
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>Tags</Text>
+                </View>
+
+                {loading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={theme.colors.primary} />
+                    </View>
+                ) : (
+                    <FlatList
+                        data={tags}
+                        renderItem={renderTag}
+                        keyExtractor={(item) => item}
+                        ListHeaderComponent={tags.length > 0 ? (
+                            <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                                Tap a tag to give it a color, rename it, merge it into another tag, or remove it from every note.
+                            </Text>
+                        ) : null}
+                        ListEmptyComponent={renderEmptyState}
+                        ItemSeparatorComponent={() => <View style={styles.tagSeparator} />}
+                        contentContainerStyle={[
+                            styles.listContainer,
+                            tags.length === 0 && styles.emptyListContainer,
+                            { paddingBottom: insets.bottom + 40 }
+                        ]}
+                        showsVerticalScrollIndicator={false}
+                    />
+                )}
+
+                <TagActionModal
+                    visible={selectedTag !== null}
+                    tag={selectedTag}
+                    tags={tags}
+                    notes={previewNotes}
+                    onClose={() => setSelectedTag(null)}
+                    onSubmit={handleSubmit}
+                />
+            </ScreenWrapper>
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: 4,
+        marginRight: 12,
+        borderRadius: 8,
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        flex: 1,
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    listContainer: {
+        paddingHorizontal: 20,
+        paddingTop: 16,
+    },
+    emptyListContainer: {
+        flexGrow: 1,
+    },
+    hint: {
+        fontSize: 13,
+        lineHeight: 18,
+        marginBottom: 12,
+    },
+    tagRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 14,
+        borderRadius: 12,
+    },
+    tagRowPressed: {
+        opacity: 0.8,
+    },
+    tagName: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    tagCount: {
+        fontSize: 13,
+        fontWeight: '500',
+    },
+    tagSeparator: {
+        height: 8,
+    },
+    emptyState: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 40,
+        paddingVertical: 40,
+    },
+    emptyTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        textAlign: 'center',
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    emptySubtitle: {
+        fontSize: 14,
+        textAlign: 'center',
+        lineHeight: 20,
+    },
+});
@@ -0,0 +1,530 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, Alert, ActivityIndicator, RefreshControl } from 'react-native';
+import { router, useFocusEffect, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useSync } from '@/contexts/_SyncContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { forgetNotes } from '@/services/localNotes';
+import {
+    listDeletedNotes,
+    restoreNotes,
+    permanentlyDeleteNotes,
+    purgeDeletedNotes,
+    type Note,
+} from '@/services/notes';
+import {
+    getTrashRetentionDays,
+    setTrashRetentionDays,
+    getPurgeDate,
+    purgeExpiredTrash,
+    TRASH_RETENTION_OPTIONS,
+} from '@/services/trash';
+
+export default function TrashScreen() {
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const { syncNow } = useSync();
+    const [notes, setNotes] = useState<Note[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    const [working, setWorking] = useState(false);
+    const [selectMode, setSelectMode] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+    const haptics = useHaptics();
+
+    const fetchTrash = useCallback(async (silent = false) => {
+        try {
+            if (!silent) setLoading(true);
+            const days = await getTrashRetentionDays();
+            setRetentionDays(days);
+
+            await purgeExpiredTrash();
+            setNotes(await listDeletedNotes());
+        } catch (error) {
+            console.error('Error fetching trash:', error);
+            Alert.alert('Error', 'Failed to load the trash. Please check your connection.');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            fetchTrash();
+        }, [fetchTrash])
+    );
+
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        haptics.selection();
+        await fetchTrash(true);
+        setRefreshing(false);
+    };
+
+    const exitSelectMode = () => {
+        setSelectMode(false);
+        setSelectedIds([]);
+    };
+
+    const toggleSelected = (id: string) => {
+        haptics.selection();
+        setSelectedIds(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]));
+    };
+
+    const handleRestore = async (ids: string[]) => {
+        try {
+            setWorking(true);
+            haptics.impactMedium();
+            const restored = await restoreNotes(ids);
+            const restoredIds = restored.map(note => note.id);
+
+            setNotes(prev => prev.filter(note => !restoredIds.includes(note.id)));
+            exitSelectMode();
+            haptics.success();
+            // ✅ Pull the restored notes back into the local store
+            syncNow();
+        } catch (error) {
+            console.error('Error restoring notes:', error);
+            haptics.error();
+            Alert.alert('Error', 'Failed to restore notes. Please try again.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const deleteForever = async (ids: string[] | 'all') => {
+        try {
+            setWorking(true);
+            haptics.impactHeavy();
+            const removedIds = ids === 'all' ? await purgeDeletedNotes() : await permanentlyDeleteNotes(ids);
+            await forgetNotes(removedIds);
+
+            setNotes(prev => prev.filter(note => !removedIds.includes(note.id)));
+            exitSelectMode();
+            haptics.success();
+        } catch (error) {
+            console.error('Error deleting notes:', error);
+            haptics.error();
+            Alert.alert('Error', 'Failed to delete notes. Please try again.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const confirmDeleteForever = (ids: string[] | 'all') => {
+        const count = ids === 'all' ? notes.length : ids.length;
+        haptics.warning();
+
+        Alert.alert(
+            ids === 'all' ? 'Empty Trash' : 'Delete Forever',
+            `${count} ${count === 1 ? 'note' : 'notes'} will be permanently deleted. This action cannot be undone.`,
+            [
+                { text: 'Cancel', style: 'cancel', onPress: () => haptics.impactLight() },
+                { text: 'Delete', style: 'destructive', onPress: () => deleteForever(ids) },
+            ]
+        );
+    };
+
+    const handleNotePress = (note: Note) => {
+        if (selectMode) {
+            toggleSelected(note.id);
+            return;
+        }
+
+        haptics.impactLight();
+        Alert.alert(note.title, 'What would you like to do with this note?', [
+            { text: 'Cancel', style: 'cancel', onPress: () => haptics.impactLight() },
+            { text: 'Restore', onPress: () => handleRestore([note.id]) },
+            { text: 'Delete Forever', style: 'destructive', onPress: () => confirmDeleteForever([note.id]) },
+        ]);
+    };
+
+    const handleRetentionChange = async (days: number) => {
+        haptics.selection();
+        setRetentionDays(days);
+        try {
+            await setTrashRetentionDays(days);
+            await fetchTrash(true);
+        } catch (error) {
+            console.log('Error saving trash retention:', error);
+        }
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+        });
+    };
+
+    const getPurgeText = (deletedAt: string) => {
+        if (retentionDays === null) return null;
+        const purgeDate = getPurgeDate(deletedAt, retentionDays);
+        if (!purgeDate) return null;
+
+        const daysLeft = Math.max(0, Math.ceil((purgeDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+        return daysLeft === 0 ? 'Removed today' : `Removed in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`;
+    };
+
+    const renderNote = ({ item }: { item: Note }) => {
+        const selected = selectedIds.includes(item.id);
+        const purgeText = item.deleted_at ? getPurgeText(item.deleted_at) : null;
+
+        return (
+            <Pressable
+                style={[
+                    styles.noteCard,
+                    { backgroundColor: theme.colors.surface },
+                    selected && { borderColor: theme.colors.primary, borderWidth: 2 }
+                ]}
+                onPress={() => handleNotePress(item)}
+                onLongPress={() => {
+                    if (!selectMode) {
+                        haptics.impactMedium();
+                        setSelectMode(true);
+                        setSelectedIds([item.id]);
+                    }
+                }}
+            >
+                <View style={styles.noteRow}>
+                    {selectMode && (
+                        <Ionicons
+                            name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                            size={22}
+                            color={selected ? theme.colors.primary : theme.colors.textSecondary}
+                        />
+                    )}
+                    <View style={styles.noteContent}>
+                        <Text style={[styles.noteTitle, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                            {item.title}
+                        </Text>
+                        <Text style={[styles.notePreview, { color: theme.colors.textSecondary }]} numberOfLines={2}>
+                            {item.body || 'No content'}
+                        </Text>
+                        <Text style={[styles.noteMeta, { color: theme.colors.textSecondary }]}>
+                            Deleted {item.deleted_at ? formatDate(item.deleted_at) : ''}
+                            {purgeText ? ` • ${purgeText}` : ''}
+                        </Text>
+                    </View>
+                </View>
+            </Pressable>
+        );
+    };
+
+    const renderHeader = () => (
+        <View style={styles.retentionSection}>
+            <Text style={[styles.retentionLabel, { color: theme.colors.textSecondary }]}>
+                Automatically delete after
+            </Text>
+            <View style={styles.retentionOptions}>
+                {TRASH_RETENTION_OPTIONS.map(days => (
+                    <Pressable
+                        key={days}
+                        style={[
+                            styles.retentionChip,
+                            retentionDays === days
+                                ? { backgroundColor: theme.colors.primary }
+                                : { backgroundColor: theme.colors.surface, borderColor: theme.colors.border, borderWidth: 1 }
+                        ]}
+                        onPress={() => handleRetentionChange(days)}
+                    >
+                        <Text style={[
+                            styles.retentionChipText,
+                            { color: retentionDays === days ? 'white' : theme.colors.textPrimary }
+                        ]}>
+                            {days === 0 ? 'Never' : `${days} days`}
+                        </Text>
+                    </Pressable>
+                ))}
+            </View>
+        </View>
+    );
+
+    const renderEmptyState = () => (
+        <View style={styles.emptyState}>
+            <Ionicons name="trash-outline" size={48} color={theme.colors.textSecondary} />
+            <Text style={[styles.emptyTitle, { color: theme.colors.textPrimary }]}>Trash is empty</Text>
+            <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>
+                Deleted notes show up here until they are restored or removed.
+            </Text>
+        </View>
+    );
+
+    return (
+        <>
+            <Stack.Screen options={{ headerShown: false }} />
+
+            <ScreenWrapper>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border
+                }]}>
+                    <Pressable
+                        onPress={() => {
+                            haptics.impactLight();
+                            router.back();
+                        }}
+                        style={styles.backButton}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
+                    </Pressable>
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>
+                        {selectMode ? `${selectedIds.length} selected` : 'Trash'}
+                    </Text>
+                    {notes.length > 0 && (
+                        <Pressable
+                            onPress={() => {
+                                haptics.selection();
+                                if (selectMode) {
+                                    exitSelectMode();
+                                } else {
+                                    setSelectMode(true);
+                                }
+                            }}
+                            style={styles.headerAction}
+                        >
+                            <Text style={[styles.headerActionText, { color: theme.colors.primary }]}>
+                                {selectMode ? 'Cancel' : 'Select'}
+                            </Text>
+                        </Pressable>
+                    )}
+                </View>
+
+                {loading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={theme.colors.primary} />
+                    </View>
+                ) : (
+                    <FlatList
+                        data={notes}
+                        renderItem={renderNote}
+                        keyExtractor={(item) => item.id}
+                        ListHeaderComponent={renderHeader}
+                        ListEmptyComponent={renderEmptyState}
+                        ItemSeparatorComponent={() => <View style={styles.noteSeparator} />}
+                        contentContainerStyle={[
+                            styles.listContainer,
+                            notes.length === 0 && styles.emptyListContainer,
+                            { paddingBottom: insets.bottom + 100 }
+                        ]}
+                        showsVerticalScrollIndicator={false}
+                        refreshControl={
+                            <RefreshControl
+                                refreshing={refreshing}
+                                onRefresh={handleRefresh}
+                                tintColor={theme.colors.primary}
+                                colors={[theme.colors.primary]}
+                            />
+                        }
+                    />
+                )}
+
+                {notes.length > 0 && (
+                    <View style={[styles.bottomActions, {
+                        paddingBottom: insets.bottom + 20,
+                        backgroundColor: theme.colors.surface,
+                        borderTopColor: theme.colors.border
+                    }]}>
+                        {selectMode ? (
+                            <>
+                                <Pressable
+                                    style={[
+                                        styles.actionButton,
+                                        { backgroundColor: theme.colors.primary, flex: 1 },
+                                        (working || selectedIds.length === 0) && styles.actionButtonDisabled
+                                    ]}
+                                    onPress={() => handleRestore(selectedIds)}
+                                    disabled={working || selectedIds.length === 0}
+                                >
+                                    <Ionicons name="arrow-undo-outline" size={20} color="white" />
+                                    <Text style={styles.actionButtonText}>Restore</Text>
+                                </Pressable>
+                                <Pressable
+                                    style={[
+                                        styles.actionButton,
+                                        styles.deleteButton,
+                                        (working || selectedIds.length === 0) && styles.actionButtonDisabled
+                                    ]}
+                                    onPress={() => confirmDeleteForever(selectedIds)}
+                                    disabled={working || selectedIds.length === 0}
+                                >
+                                    <Ionicons name="trash-outline" size={20} color="white" />
+                                    <Text style={styles.actionButtonText}>Delete</Text>
+                                </Pressable>
+                            </>
+                        ) : (
+                            <>
+                                <Pressable
+                                    style={[styles.actionButton, { backgroundColor: theme.colors.primary, flex: 1 }, working && styles.actionButtonDisabled]}
+                                    onPress={() => handleRestore(notes.map(note => note.id))}
+                                    disabled={working}
+                                >
+                                    <Ionicons name="arrow-undo-outline" size={20} color="white" />
+                                    <Text style={styles.actionButtonText}>Restore All</Text>
+                                </Pressable>
+                                <Pressable
+                                    style={[styles.actionButton, styles.deleteButton, working && styles.actionButtonDisabled]}
+                                    onPress={() => confirmDeleteForever('all')}
+                                    disabled={working}
+                                >
+                                    <Ionicons name="trash-outline" size={20} color="white" />
+                                    <Text style={styles.actionButtonText}>Empty Trash</Text>
+                                </Pressable>
+                            </>
+                        )}
+                    </View>
+                )}
+            </ScreenWrapper>
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: 4,
+        marginRight: 12,
+        borderRadius: 8,
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        flex: 1,
+    },
+    headerAction: {
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+    },
+    headerActionText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    listContainer: {
+        paddingHorizontal: 20,
+        paddingTop: 16,
+    },
+    emptyListContainer: {
+        flexGrow: 1,
+    },
+    retentionSection: {
+        marginBottom: 16,
+    },
+    retentionLabel: {
+        fontSize: 13,
+        fontWeight: '500',
+        marginBottom: 8,
+    },
+    retentionOptions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    retentionChip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+    },
+    retentionChipText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    noteCard: {
+        padding: 12,
+        borderRadius: 12,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.08,
+        shadowRadius: 3,
+        elevation: 2,
+    },
+    noteRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    noteContent: {
+        flex: 1,
+    },
+    noteTitle: {
+        fontSize: 17,
+        fontWeight: '700',
+        lineHeight: 22,
+        marginBottom: 4,
+    },
+    notePreview: {
+        fontSize: 14,
+        lineHeight: 20,
+        marginBottom: 6,
+    },
+    noteMeta: {
+        fontSize: 12,
+        fontWeight: '500',
+        lineHeight: 16,
+    },
+    noteSeparator: {
+        height: 8,
+    },
+    emptyState: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 40,
+        paddingVertical: 40,
+    },
+    emptyTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        textAlign: 'center',
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    emptySubtitle: {
+        fontSize: 14,
+        textAlign: 'center',
+        lineHeight: 20,
+    },
+    bottomActions: {
+        flexDirection: 'row',
+        paddingHorizontal: 20,
+        paddingTop: 16,
+        borderTopWidth: 1,
+        gap: 12,
+    },
+    actionButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 16,
+        paddingHorizontal: 20,
+        borderRadius: 12,
+        gap: 8,
+    },
+    actionButtonDisabled: {
+        opacity: 0.5,
+    },
+    deleteButton: {
+        backgroundColor: '#ef4444',
+    },
+    actionButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: 'white',
+    },
+});
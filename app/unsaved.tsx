@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, Alert, ActivityIndicator } from 'react-native';
+import { router, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ScreenWrapper } from '@/components/ScreenWrapper';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useFailedChanges } from '@/hooks/useNotesCache';
+import { discardFailedChange, recoverFailedChange, type FailedChange } from '@/services/localNotes';
+import { NoteValidationError } from '@/utils/noteValidation';
+
+const CHANGE_LABELS: Record<FailedChange['type'], string> = {
+    create: 'New note',
+    update: 'Edit',
+    delete: 'Move to Trash',
+};
+
+// ✅ Changes the server refused were undone on the device; what they carried is kept here
+// until it is saved again as a new note or discarded
+export default function UnsavedChangesScreen() {
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const { notebooks } = useNotebooks();
+    const { changes, loading } = useFailedChanges();
+    const [workingId, setWorkingId] = useState<string | null>(null);
+
+    const haptics = useHaptics();
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    const handleRecover = async (change: FailedChange) => {
+        // The notebook may be why the change was refused, so a deleted one falls back to the Inbox
+        const notebookId = change.rejectedCopy?.notebook_id ?? null;
+        const keepNotebook = notebooks.some(notebook => notebook.id === notebookId);
+
+        try {
+            setWorkingId(change.id);
+            const note = await recoverFailedChange(change.id, keepNotebook ? notebookId : null);
+            haptics.success();
+            router.push(`/note/${note.id}`);
+        } catch (error) {
+            console.error('Error recovering change:', error);
+            haptics.error();
+            Alert.alert(
+                'Error',
+                error instanceof NoteValidationError
+                    ? `${error.message}. Copy the text from here instead, then discard it.`
+                    : 'Failed to save the note. Please try again.'
+            );
+        } finally {
+            setWorkingId(null);
+        }
+    };
+
+    const handleDiscard = (change: FailedChange) => {
+        haptics.warning();
+        Alert.alert(
+            'Discard Change',
+            change.type === 'delete'
+                ? 'The note stays where it is.'
+                : 'The text shown here will be gone for good.',
+            [
+                { text: 'Cancel', style: 'cancel', onPress: () => haptics.impactLight() },
+                {
+                    text: 'Discard',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await discardFailedChange(change.id);
+                            haptics.success();
+                        } catch (error) {
+                            console.error('Error discarding change:', error);
+                            haptics.error();
+                            Alert.alert('Error', 'Failed to discard the change. Please try again.');
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const renderChange = ({ item }: { item: FailedChange }) => {
+        const copy = item.rejectedCopy;
+        const recoverable = item.type !== 'delete' && !!copy;
+        const working = workingId === item.id;
+
+        return (
+            <View style={[styles.changeCard, { backgroundColor: theme.colors.surface }]}>
+                <View style={styles.changeHeader}>
+                    <Ionicons name="cloud-offline-outline" size={16} color={theme.colors.warning} />
+                    <Text style={[styles.changeType, { color: theme.colors.textSecondary }]}>
+                        {CHANGE_LABELS[item.type]} • {formatDate(item.queuedAt)}
+                    </Text>
+                </View>
+                <Text style={[styles.changeTitle, { color: theme.colors.textPrimary }]} numberOfLines={2} selectable>
+                    {copy?.title || 'Untitled'}
+                </Text>
+                {item.type !== 'delete' && (
+                    <Text style={[styles.changeBody, { color: theme.colors.textSecondary }]} numberOfLines={8} selectable>
+                        {copy?.body || 'No content'}
+                    </Text>
+                )}
+                {!!item.lastError && (
+                    <Text style={[styles.changeError, { color: theme.colors.error }]}>{item.lastError}</Text>
+                )}
+                <View style={styles.actions}>
+                    {recoverable && (
+                        <Pressable
+                            style={[styles.actionButton, { backgroundColor: theme.colors.primary, opacity: working ? 0.7 : 1 }]}
+                            disabled={working}
+                            onPress={() => handleRecover(item)}
+                            onPressIn={() => haptics.impactMedium()}
+                        >
+                            {working ? (
+                                <ActivityIndicator size="small" color="white" />
+                            ) : (
+                                <>
+                                    <Ionicons name="document-text-outline" size={16} color="white" />
+                                    <Text style={styles.actionButtonText}>Save as New Note</Text>
+                                </>
+                            )}
+                        </Pressable>
+                    )}
+                    <Pressable
+                        style={[styles.actionButton, { backgroundColor: theme.colors.background, borderColor: theme.colors.border, borderWidth: 1 }]}
+                        disabled={working}
+                        onPress={() => handleDiscard(item)}
+                    >
+                        <Ionicons name="close" size={16} color={theme.colors.textPrimary} />
+                        <Text style={[styles.actionButtonText, { color: theme.colors.textPrimary }]}>Discard</Text>
+                    </Pressable>
+                </View>
+            </View>
+        );
+    };
+
+    const renderEmptyState = () => (
+        <View style={styles.emptyState}>
+            <Ionicons name="checkmark-done-outline" size={48} color={theme.colors.textSecondary} />
+            <Text style={[styles.emptyTitle, { color: theme.colors.textPrimary }]}>Everything is saved</Text>
+            <Text style={[styles.emptySubtitle, { color: theme.colors.textSecondary }]}>
+                Changes your account refuses to save show up here, so you can keep what they contained.
+            </Text>
+        </View>
+    );
+
+    return (
+        <>
+            <Stack.Screen options={{ headerShown: false }} />
+
+            <ScreenWrapper>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border
+                }]}>
+                    <Pressable
+                        onPress={() => {
+                            haptics.impactLight();
+                            router.back();
+                        }}
+                        style={styles.backButton}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.colors.textPrimary} />
+                    </Pressable>
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>Unsaved Changes</Text>
+                    {changes.length > 0 && (
+                        <Text style={[styles.headerCount, { color: theme.colors.textSecondary }]}>
+                            {changes.length}
+                        </Text>
+                    )}
+                </View>
+
+                {loading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={theme.colors.primary} />
+                    </View>
+                ) : (
+                    <FlatList
+                        data={changes}
+                        renderItem={renderChange}
+                        keyExtractor={(item) => item.id}
+                        ListHeaderComponent={changes.length > 0 ? (
+                            <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                                These changes could not be saved to your account and were undone on this device.
+                            </Text>
+                        ) : null}
+                        ListEmptyComponent={renderEmptyState}
+                        contentContainerStyle={[
+                            styles.listContainer,
+                            changes.length === 0 && styles.emptyListContainer,
+                            { paddingBottom: insets.bottom + 40 }
+                        ]}
+                        showsVerticalScrollIndicator={false}
+                    />
+                )}
+            </ScreenWrapper>
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: 4,
+        marginRight: 12,
+        borderRadius: 8,
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        flex: 1,
+    },
+    headerCount: {
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    listContainer: {
+        paddingHorizontal: 20,
+        paddingTop: 16,
+        gap: 12,
+    },
+    emptyListContainer: {
+        flexGrow: 1,
+    },
+    hint: {
+        fontSize: 13,
+        fontWeight: '500',
+    },
+    changeCard: {
+        padding: 16,
+        borderRadius: 12,
+        gap: 8,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.08,
+        shadowRadius: 3,
+        elevation: 2,
+    },
+    changeHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    changeType: {
+        fontSize: 12,
+        fontWeight: '500',
+    },
+    changeTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    changeBody: {
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    changeError: {
+        fontSize: 12,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: 8,
+        marginTop: 4,
+    },
+    actionButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 6,
+        paddingVertical: 10,
+        borderRadius: 10,
+    },
+    actionButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: 'white',
+    },
+    emptyState: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 40,
+        paddingVertical: 40,
+    },
+    emptyTitle: {
+        fontSize: 18,
+        fontWeight: '600',
+        textAlign: 'center',
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    emptySubtitle: {
+        fontSize: 14,
+        textAlign: 'center',
+        lineHeight: 20,
+    },
+});
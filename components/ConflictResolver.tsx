@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, Pressable, ScrollView } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import type { ConflictResolution } from '@/services/localNotes';
+import type { Note } from '@/services/notes';
+import { hasConflictMarkers, mergeLines } from '@/utils/diff';
+
+type Version = Pick<Note, 'title' | 'body' | 'tags'>;
+
+type Props = {
+    mine: Version;
+    theirs: Note;
+    base: Pick<Note, 'body'> | null; // the version both started from, when it is known
+    onResolve: (resolution: ConflictResolution) => void;
+    resolving: boolean;
+};
+
+export function ConflictResolver({ mine, theirs, base, onResolve, resolving }: Props) {
+    const { theme } = useTheme();
+    const haptics = useHaptics();
+    const [merging, setMerging] = useState(false);
+    const [merge] = useState(() => mergeLines(base?.body ?? null, theirs.body, mine.body));
+    const [mergedBody, setMergedBody] = useState(merge.text);
+
+    // ✅ Lines both versions changed are left marked; saving waits until they are settled
+    const unresolved = hasConflictMarkers(mergedBody);
+
+    const mergedTags = Array.from(new Set([...(theirs.tags ?? []), ...(mine.tags ?? [])]));
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    const renderVersion = (label: string, icon: 'phone-portrait-outline' | 'cloud-outline', version: Version, subtitle?: string) => (
+        <View style={[styles.versionCard, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+            <View style={styles.versionHeader}>
+                <Ionicons name={icon} size={16} color={theme.colors.primary} />
+                <Text style={[styles.versionLabel, { color: theme.colors.textPrimary }]}>{label}</Text>
+                {subtitle && (
+                    <Text style={[styles.versionSubtitle, { color: theme.colors.textSecondary }]}>{subtitle}</Text>
+                )}
+            </View>
+            <Text style={[styles.versionTitle, { color: theme.colors.textPrimary }]} numberOfLines={2}>
+                {version.title}
+            </Text>
+            <Text style={[styles.versionBody, { color: theme.colors.textSecondary }]} numberOfLines={6}>
+                {version.body || 'No content'}
+            </Text>
+            {version.tags && version.tags.length > 0 && (
+                <Text style={[styles.versionTags, { color: theme.colors.primary }]} numberOfLines={1}>
+                    {version.tags.map(tag => `#${tag}`).join(' ')}
+                </Text>
+            )}
+        </View>
+    );
+
+    return (
+        <ScrollView
+            style={[styles.container, { backgroundColor: theme.colors.background }]}
+            contentContainerStyle={styles.contentContainer}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+        >
+            <View style={[styles.banner, { backgroundColor: theme.colors.surface, borderLeftColor: theme.colors.warning }]}>
+                <Ionicons name="git-compare-outline" size={22} color={theme.colors.warning} />
+                <View style={styles.bannerText}>
+                    <Text style={[styles.bannerTitle, { color: theme.colors.textPrimary }]}>
+                        Edited on another device
+                    </Text>
+                    <Text style={[styles.bannerSubtitle, { color: theme.colors.textSecondary }]}>
+                        Choose which version to keep, or merge both.
+                    </Text>
+                </View>
+            </View>
+
+            {renderVersion('Your version', 'phone-portrait-outline', mine)}
+            {renderVersion('Their version', 'cloud-outline', theirs, formatDate(theirs.updated_at))}
+
+            {merging ? (
+                <View style={[styles.versionCard, { backgroundColor: theme.colors.surface, borderColor: theme.colors.primary }]}>
+                    <View style={styles.versionHeader}>
+                        <Ionicons name="git-merge-outline" size={16} color={theme.colors.primary} />
+                        <Text style={[styles.versionLabel, { color: theme.colors.textPrimary }]}>Merged body</Text>
+                    </View>
+                    <Text style={[styles.mergeHint, { color: unresolved ? theme.colors.warning : theme.colors.textSecondary }]}>
+                        {merge.conflicts === 0
+                            ? 'Changes from both versions were combined. Check the result before saving.'
+                            : unresolved
+                                ? `${merge.conflicts === 1 ? 'One part was' : `${merge.conflicts} parts were`} changed in both versions. Edit the text between the <<<<<<< and >>>>>>> lines, then remove the marker lines.`
+                                : 'All changed parts are settled. Check the result before saving.'}
+                    </Text>
+                    <TextInput
+                        style={[styles.mergeInput, {
+                            color: theme.colors.textPrimary,
+                            backgroundColor: theme.colors.background,
+                            borderColor: theme.colors.border
+                        }]}
+                        value={mergedBody}
+                        onChangeText={setMergedBody}
+                        multiline
+                        textAlignVertical="top"
+                        onFocus={() => haptics.selection()}
+                    />
+                    <Pressable
+                        style={[styles.actionButton, { backgroundColor: theme.colors.primary, opacity: resolving || unresolved ? 0.5 : 1 }]}
+                        disabled={resolving || unresolved}
+                        onPress={() => onResolve({ title: mine.title, body: mergedBody, tags: mergedTags })}
+                        onPressIn={() => haptics.impactMedium()}
+                    >
+                        <Ionicons name="checkmark" size={18} color="white" />
+                        <Text style={styles.actionButtonText}>Save Merged</Text>
+                    </Pressable>
+                </View>
+            ) : (
+                <View style={styles.actions}>
+                    <Pressable
+                        style={[styles.actionButton, { backgroundColor: theme.colors.primary, opacity: resolving ? 0.7 : 1 }]}
+                        disabled={resolving}
+                        onPress={() => onResolve({ title: mine.title, body: mine.body, tags: mine.tags })}
+                        onPressIn={() => haptics.impactMedium()}
+                    >
+                        <Ionicons name="phone-portrait-outline" size={18} color="white" />
+                        <Text style={styles.actionButtonText}>Keep Mine</Text>
+                    </Pressable>
+                    <Pressable
+                        style={[styles.actionButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border, borderWidth: 1 }]}
+                        disabled={resolving}
+                        onPress={() => onResolve('theirs')}
+                        onPressIn={() => haptics.impactMedium()}
+                    >
+                        <Ionicons name="cloud-outline" size={18} color={theme.colors.textPrimary} />
+                        <Text style={[styles.actionButtonText, { color: theme.colors.textPrimary }]}>Keep Theirs</Text>
+                    </Pressable>
+                    <Pressable
+                        style={[styles.actionButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border, borderWidth: 1 }]}
+                        disabled={resolving}
+                        onPress={() => {
+                            haptics.selection();
+                            setMerging(true);
+                        }}
+                    >
+                        <Ionicons name="git-merge-outline" size={18} color={theme.colors.textPrimary} />
+                        <Text style={[styles.actionButtonText, { color: theme.colors.textPrimary }]}>Merge</Text>
+                    </Pressable>
+                </View>
+            )}
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: 20,
+        gap: 16,
+    },
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 16,
+        borderRadius: 12,
+        borderLeftWidth: 4,
+    },
+    bannerText: {
+        flex: 1,
+    },
+    bannerTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    bannerSubtitle: {
+        fontSize: 14,
+        marginTop: 2,
+    },
+    versionCard: {
+        borderRadius: 16,
+        borderWidth: 1,
+        padding: 16,
+        gap: 8,
+    },
+    versionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    versionLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+        flex: 1,
+    },
+    versionSubtitle: {
+        fontSize: 12,
+    },
+    versionTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+        lineHeight: 24,
+    },
+    versionBody: {
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    versionTags: {
+        fontSize: 12,
+        fontWeight: '500',
+    },
+    mergeHint: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    mergeInput: {
+        fontSize: 15,
+        lineHeight: 22,
+        minHeight: 160,
+        padding: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    actions: {
+        gap: 12,
+    },
+    actionButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 14,
+        borderRadius: 12,
+        gap: 8,
+    },
+    actionButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: 'white',
+    },
+});
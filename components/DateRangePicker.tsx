@@ -0,0 +1,206 @@
+import { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import type { DateRange } from '@/components/FilterModal';
+import {
+    addDays,
+    addMonths,
+    formatDateRange,
+    getDeviceLocale,
+    getFirstDayOfWeek,
+    parseDayKey,
+    startOfMonth,
+    startOfWeek,
+    toDayKey,
+    type Weekday,
+} from '@/utils/dates';
+
+const DAY_WIDTH = `${100 / 7}%` as const;
+
+type Props = {
+    value: DateRange;
+    onChange: (range: DateRange) => void;
+    locale?: string;
+    firstDayOfWeek?: Weekday;
+};
+
+export function DateRangePicker({
+    value,
+    onChange,
+    locale = getDeviceLocale(),
+    firstDayOfWeek = getFirstDayOfWeek(locale),
+}: Props) {
+    const { theme } = useTheme();
+    const haptics = useHaptics();
+    const [month, setMonth] = useState(() => startOfMonth(value.start ? parseDayKey(value.start) : new Date()));
+
+    const todayKey = toDayKey(new Date());
+
+    // ✅ Six full weeks so the grid doesn't jump between months
+    const days = useMemo(() => {
+        const first = startOfWeek(month, firstDayOfWeek);
+        return Array.from({ length: 42 }, (_, index) => addDays(first, index));
+    }, [month, firstDayOfWeek]);
+
+    const weekdayLabels = useMemo(() =>
+        days.slice(0, 7).map(day => day.toLocaleDateString(locale, { weekday: 'narrow' })),
+    [days, locale]);
+
+    const monthLabel = month.toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+
+    // First tap sets the start, second tap the end (swapped if it's earlier)
+    const handleDayPress = (key: string) => {
+        haptics.selection();
+        if (!value.start || value.end) {
+            onChange({ start: key, end: null });
+        } else if (key < value.start) {
+            onChange({ start: key, end: value.start });
+        } else {
+            onChange({ start: value.start, end: key });
+        }
+    };
+
+    const isInRange = (key: string) =>
+        !!value.start && !!value.end && key > value.start && key < value.end;
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.summaryRow}>
+                <Text style={[styles.summaryText, { color: theme.colors.textPrimary }]}>
+                    {value.start || value.end ? formatDateRange(value, locale) : 'Tap a start and end date'}
+                </Text>
+                {(value.start || value.end) && (
+                    <Pressable
+                        onPress={() => {
+                            haptics.impactLight();
+                            onChange({ start: null, end: null });
+                        }}
+                        hitSlop={6}
+                    >
+                        <Text style={[styles.clearText, { color: theme.colors.primary }]}>Clear</Text>
+                    </Pressable>
+                )}
+            </View>
+
+            <View style={styles.monthRow}>
+                <Pressable onPress={() => setMonth(prev => addMonths(prev, -1))} hitSlop={8} style={styles.monthButton}>
+                    <Ionicons name="chevron-back" size={20} color={theme.colors.textPrimary} />
+                </Pressable>
+                <Text style={[styles.monthLabel, { color: theme.colors.textPrimary }]}>{monthLabel}</Text>
+                <Pressable onPress={() => setMonth(prev => addMonths(prev, 1))} hitSlop={8} style={styles.monthButton}>
+                    <Ionicons name="chevron-forward" size={20} color={theme.colors.textPrimary} />
+                </Pressable>
+            </View>
+
+            <View style={styles.week}>
+                {weekdayLabels.map((label, index) => (
+                    <Text key={index} style={[styles.weekday, { color: theme.colors.textSecondary }]}>
+                        {label}
+                    </Text>
+                ))}
+            </View>
+
+            <View style={styles.grid}>
+                {days.map(day => {
+                    const key = toDayKey(day);
+                    const selected = key === value.start || key === value.end;
+                    const inMonth = day.getMonth() === month.getMonth();
+
+                    return (
+                        <Pressable
+                            key={key}
+                            style={[styles.dayCell, isInRange(key) && { backgroundColor: theme.colors.primaryLight }]}
+                            onPress={() => handleDayPress(key)}
+                        >
+                            <View style={[
+                                styles.day,
+                                selected && { backgroundColor: theme.colors.primary },
+                                !selected && key === todayKey && { borderColor: theme.colors.primary, borderWidth: 1 },
+                            ]}>
+                                <Text style={[
+                                    styles.dayText,
+                                    { color: selected ? 'white' : theme.colors.textPrimary },
+                                    !inMonth && !selected && styles.outsideMonth,
+                                ]}>
+                                    {day.getDate()}
+                                </Text>
+                            </View>
+                        </Pressable>
+                    );
+                })}
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderRadius: 16,
+        padding: 12,
+        marginTop: 12,
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 4,
+        marginBottom: 8,
+    },
+    summaryText: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    clearText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    monthRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: 8,
+    },
+    monthButton: {
+        padding: 4,
+    },
+    monthLabel: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    week: {
+        flexDirection: 'row',
+    },
+    weekday: {
+        width: DAY_WIDTH,
+        textAlign: 'center',
+        fontSize: 12,
+        fontWeight: '600',
+        marginBottom: 4,
+    },
+    grid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+    },
+    dayCell: {
+        width: DAY_WIDTH,
+        aspectRatio: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    day: {
+        width: 34,
+        height: 34,
+        borderRadius: 17,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    dayText: {
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    outsideMonth: {
+        opacity: 0.35,
+    },
+});
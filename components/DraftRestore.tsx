@@ -0,0 +1,210 @@
+import { View, Text, StyleSheet, Pressable, ScrollView } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import type { DraftFields, NoteDraft } from '@/services/drafts';
+import { diffLines } from '@/utils/diff';
+import { getNotebookName } from '@/utils/notebooks';
+
+type Props = {
+    draft: NoteDraft;
+    saved: DraftFields;
+    // updated_at of the saved copy, to tell whether it changed after the draft was started
+    savedUpdatedAt?: string | null;
+    onRestore: () => void;
+    onDiscard: () => void;
+};
+
+// Shown when an editor opens on a draft left from a session that ended without saving
+export function DraftRestore({ draft, saved, savedUpdatedAt = null, onRestore, onDiscard }: Props) {
+    const { theme } = useTheme();
+    const { notebooks } = useNotebooks();
+    const haptics = useHaptics();
+
+    const lines = diffLines(saved.body.trim(), draft.body.trim());
+    const titleChanged = saved.title.trim() !== draft.title.trim();
+    const tagsBefore = saved.tags.map(tag => `#${tag}`).join(' ');
+    const tagsAfter = draft.tags.map(tag => `#${tag}`).join(' ');
+    const notebookChanged = saved.notebook_id !== draft.notebook_id;
+    const savedChangedSince = !!savedUpdatedAt && !!draft.base_updated_at && savedUpdatedAt !== draft.base_updated_at;
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <ScrollView
+            style={[styles.container, { backgroundColor: theme.colors.background }]}
+            contentContainerStyle={styles.contentContainer}
+            showsVerticalScrollIndicator={false}
+        >
+            <View style={[styles.banner, { backgroundColor: theme.colors.surface, borderLeftColor: theme.colors.primary }]}>
+                <Ionicons name="document-text-outline" size={22} color={theme.colors.primary} />
+                <View style={styles.bannerText}>
+                    <Text style={[styles.bannerTitle, { color: theme.colors.textPrimary }]}>
+                        Unsaved draft from {formatDate(draft.saved_at)}
+                    </Text>
+                    <Text style={[styles.bannerSubtitle, { color: theme.colors.textSecondary }]}>
+                        {savedChangedSince
+                            ? 'The note has been saved since this draft was written. If you restore it, saving lets you merge the two.'
+                            : 'These changes were never saved. Restore them to keep editing.'}
+                    </Text>
+                </View>
+            </View>
+
+            <View style={[styles.diffCard, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+                {titleChanged && (
+                    <View style={styles.diffSection}>
+                        <Text style={[styles.diffLabel, { color: theme.colors.textSecondary }]}>Title</Text>
+                        <Text style={[styles.diffLine, styles.diffRemoved, { color: theme.colors.textPrimary }]}>- {saved.title || 'Untitled'}</Text>
+                        <Text style={[styles.diffLine, styles.diffAdded, { color: theme.colors.textPrimary }]}>+ {draft.title || 'Untitled'}</Text>
+                    </View>
+                )}
+
+                {notebookChanged && (
+                    <View style={styles.diffSection}>
+                        <Text style={[styles.diffLabel, { color: theme.colors.textSecondary }]}>Notebook</Text>
+                        <Text style={[styles.diffLine, styles.diffRemoved, { color: theme.colors.textPrimary }]}>- {getNotebookName(saved.notebook_id, notebooks)}</Text>
+                        <Text style={[styles.diffLine, styles.diffAdded, { color: theme.colors.textPrimary }]}>+ {getNotebookName(draft.notebook_id, notebooks)}</Text>
+                    </View>
+                )}
+
+                {tagsBefore !== tagsAfter && (
+                    <View style={styles.diffSection}>
+                        <Text style={[styles.diffLabel, { color: theme.colors.textSecondary }]}>Tags</Text>
+                        <Text style={[styles.diffLine, styles.diffRemoved, { color: theme.colors.textPrimary }]}>- {tagsBefore || 'No tags'}</Text>
+                        <Text style={[styles.diffLine, styles.diffAdded, { color: theme.colors.textPrimary }]}>+ {tagsAfter || 'No tags'}</Text>
+                    </View>
+                )}
+
+                <View style={styles.diffSection}>
+                    <Text style={[styles.diffLabel, { color: theme.colors.textSecondary }]}>Content</Text>
+                    {lines.every(line => line.type === 'equal') ? (
+                        <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>No changes to the content.</Text>
+                    ) : (
+                        lines.map((line, index) => (
+                            <Text
+                                key={index}
+                                style={[
+                                    styles.diffLine,
+                                    { color: line.type === 'equal' ? theme.colors.textSecondary : theme.colors.textPrimary },
+                                    line.type === 'added' && styles.diffAdded,
+                                    line.type === 'removed' && styles.diffRemoved,
+                                ]}
+                            >
+                                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                                {line.text}
+                            </Text>
+                        ))
+                    )}
+                </View>
+            </View>
+
+            <View style={styles.actions}>
+                <Pressable
+                    style={[styles.actionButton, { backgroundColor: theme.colors.primary }]}
+                    onPress={() => {
+                        haptics.success();
+                        onRestore();
+                    }}
+                >
+                    <Ionicons name="arrow-undo-outline" size={18} color="white" />
+                    <Text style={styles.actionButtonText}>Restore Draft</Text>
+                </Pressable>
+                <Pressable
+                    style={[styles.actionButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border, borderWidth: 1 }]}
+                    onPress={() => {
+                        haptics.impactMedium();
+                        onDiscard();
+                    }}
+                >
+                    <Ionicons name="trash-outline" size={18} color={theme.colors.textPrimary} />
+                    <Text style={[styles.actionButtonText, { color: theme.colors.textPrimary }]}>Discard Draft</Text>
+                </Pressable>
+            </View>
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: 20,
+        gap: 16,
+    },
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 16,
+        borderRadius: 12,
+        borderLeftWidth: 4,
+    },
+    bannerText: {
+        flex: 1,
+    },
+    bannerTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    bannerSubtitle: {
+        fontSize: 14,
+        marginTop: 2,
+    },
+    diffCard: {
+        borderRadius: 16,
+        borderWidth: 1,
+        padding: 16,
+        gap: 12,
+    },
+    diffSection: {
+        gap: 2,
+    },
+    diffLabel: {
+        fontSize: 12,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        marginBottom: 4,
+    },
+    diffLine: {
+        fontSize: 14,
+        lineHeight: 20,
+        fontFamily: 'monospace',
+        paddingHorizontal: 6,
+        borderRadius: 4,
+    },
+    diffAdded: {
+        backgroundColor: 'rgba(16, 185, 129, 0.18)',
+    },
+    diffRemoved: {
+        backgroundColor: 'rgba(239, 68, 68, 0.18)',
+        textDecorationLine: 'line-through',
+    },
+    hint: {
+        fontSize: 14,
+    },
+    actions: {
+        gap: 12,
+    },
+    actionButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 14,
+        borderRadius: 12,
+        gap: 8,
+    },
+    actionButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: 'white',
+    },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
     View,
     Text,
@@ -13,28 +13,64 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { useTheme } from '@/contexts/_ThemeContext'; // ✅ Add dark mode
+import { useTagColors } from '@/contexts/_TagColorsContext';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
 import { useHaptics } from '@/hooks/useHaptics';
+import { DateRangePicker } from '@/components/DateRangePicker';
+import { INBOX_NAME } from '@/services/notes';
+import { buildTagTree, getTagAncestors, type TagTreeNode } from '@/utils/tags';
+import { INBOX_FILTER } from '@/utils/notebooks';
 
 const { height: screenHeight } = Dimensions.get('window');
 
 export type SortOption = 'recent' | 'alphabetical' | 'mostEdited' | 'oldest';
-export type DateFilter = 'all' | 'today' | 'thisWeek' | 'thisMonth';
+export type DateFilter = 'all' | 'today' | 'thisWeek' | 'thisMonth' | 'custom';
+export type DateField = 'created_at' | 'updated_at';
+export type TagMatchMode = 'any' | 'all' | 'none';
+
+// Inclusive calendar days as YYYY-MM-DD; null leaves that side open
+export type DateRange = {
+    start: string | null;
+    end: string | null;
+};
 
 export interface FilterOptions {
+    notebook: string | null; // a notebook id, INBOX_FILTER, or null for every notebook
     sortBy: SortOption;
     dateFilter: DateFilter;
+    dateField: DateField;
+    dateRange: DateRange; // used when dateFilter is 'custom'
     selectedTags: string[];
+    tagMatch: TagMatchMode; // how selectedTags combine
+    excludedTags: string[]; // notes with any of these are hidden
     withTagsOnly: boolean;
     longNotesOnly: boolean;
+    favoritesOnly: boolean;
+    includeArchived: boolean; // archived notes are hidden unless this is on
 }
 
+export const DEFAULT_FILTERS: FilterOptions = {
+    notebook: null,
+    sortBy: 'recent',
+    dateFilter: 'all',
+    dateField: 'created_at',
+    dateRange: { start: null, end: null },
+    selectedTags: [],
+    tagMatch: 'any',
+    excludedTags: [],
+    withTagsOnly: false,
+    longNotesOnly: false,
+    favoritesOnly: false,
+    includeArchived: false,
+};
+
 interface FilterModalProps {
     visible: boolean;
     onClose: () => void;
     onApply: (filters: FilterOptions) => void;
     currentFilters: FilterOptions;
     availableTags: string[];
-    tagUsageCount: Record<string, number>;
+    tagUsageCount: Record<string, number>; // per tag path, parents include their children
 }
 
 export function FilterModal({
@@ -46,66 +82,126 @@ export function FilterModal({
                                 tagUsageCount,
                             }: FilterModalProps) {
     const { theme, isDark } = useTheme(); // ✅ Get current theme
+    const { getTagColor } = useTagColors();
+    const { notebooks } = useNotebooks();
     const insets = useSafeAreaInsets();
     const haptics = useHaptics();
 
     const [localFilters, setLocalFilters] = useState<FilterOptions>(currentFilters);
+    const [expandedTags, setExpandedTags] = useState<string[]>([]);
 
     React.useEffect(() => {
         if (visible) {
             setLocalFilters(currentFilters);
+            // ✅ Open the branches that hold a selected or excluded tag
+            setExpandedTags(Array.from(new Set(
+                [...currentFilters.selectedTags, ...currentFilters.excludedTags].flatMap(getTagAncestors)
+            )));
         }
     }, [visible, currentFilters]);
 
+    const tagTree = useMemo(() => buildTagTree(availableTags, tagUsageCount), [availableTags, tagUsageCount]);
+
+    // Rows currently shown: roots, plus the children of expanded tags
+    const visibleTagNodes = useMemo(() => {
+        const rows: TagTreeNode[] = [];
+        const walk = (nodes: TagTreeNode[]) => nodes.forEach(node => {
+            rows.push(node);
+            if (expandedTags.includes(node.path)) walk(node.children);
+        });
+        walk(tagTree);
+        return rows;
+    }, [tagTree, expandedTags]);
+
+    const toggleExpanded = (path: string) => {
+        haptics.selection();
+        setExpandedTags(prev => (prev.includes(path) ? prev.filter(item => item !== path) : [...prev, path]));
+    };
+
     const handleApply = () => {
         haptics.success();
-        onApply(localFilters);
+        // A custom range with neither end picked doesn't filter anything
+        const { dateFilter, dateRange } = localFilters;
+        onApply(dateFilter === 'custom' && !dateRange.start && !dateRange.end
+            ? { ...localFilters, dateFilter: 'all' }
+            : localFilters);
     };
 
     const handleReset = () => {
         haptics.impactMedium();
-        const resetFilters: FilterOptions = {
-            sortBy: 'recent',
-            dateFilter: 'all',
-            selectedTags: [],
-            withTagsOnly: false,
-            longNotesOnly: false,
-        };
-        setLocalFilters(resetFilters);
+        setLocalFilters(DEFAULT_FILTERS);
     };
 
+    // ✅ Tapping a tag cycles it: included → excluded → off
     const toggleTag = (tag: string) => {
         haptics.impactLight();
-        setLocalFilters(prev => ({
-            ...prev,
-            selectedTags: prev.selectedTags.includes(tag)
-                ? prev.selectedTags.filter(t => t !== tag)
-                : [...prev.selectedTags, tag],
-        }));
+        setLocalFilters(prev => {
+            if (prev.selectedTags.includes(tag)) {
+                return {
+                    ...prev,
+                    selectedTags: prev.selectedTags.filter(t => t !== tag),
+                    excludedTags: [...prev.excludedTags, tag],
+                };
+            }
+            if (prev.excludedTags.includes(tag)) {
+                return { ...prev, excludedTags: prev.excludedTags.filter(t => t !== tag) };
+            }
+            return { ...prev, selectedTags: [...prev.selectedTags, tag] };
+        });
+    };
+
+    const getTagState = (tag: string) => {
+        if (localFilters.selectedTags.includes(tag)) return 'included';
+        if (localFilters.excludedTags.includes(tag)) return 'excluded';
+        return 'off';
     };
 
     const hasActiveFilters = () => {
         return (
+            localFilters.notebook !== null ||
             localFilters.sortBy !== 'recent' ||
             localFilters.dateFilter !== 'all' ||
             localFilters.selectedTags.length > 0 ||
+            localFilters.excludedTags.length > 0 ||
             localFilters.withTagsOnly ||
-            localFilters.longNotesOnly
+            localFilters.longNotesOnly ||
+            localFilters.favoritesOnly ||
+            localFilters.includeArchived
         );
     };
 
-    const sortOptions: { value: SortOption; label: string; icon: string; description: string }[] = [
+    const notebookOptions: { value: string | null; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+        { value: null, label: 'All Notebooks', icon: 'albums-outline' },
+        { value: INBOX_FILTER, label: INBOX_NAME, icon: 'file-tray-outline' },
+        ...notebooks.map(notebook => ({ value: notebook.id, label: notebook.name, icon: 'book-outline' as const })),
+    ];
+
+    const sortOptions: { value: SortOption; label: string; icon: keyof typeof Ionicons.glyphMap; description: string }[] = [
         { value: 'recent', label: 'Most Recent', icon: 'time', description: 'Recently updated notes first' },
         { value: 'alphabetical', label: 'A-Z', icon: 'text', description: 'Alphabetical by title' },
         { value: 'oldest', label: 'Oldest First', icon: 'calendar', description: 'Oldest notes first' },
-        { value: 'mostEdited', label: 'Most Edited', icon: 'create', description: 'Recently modified notes' },
+        { value: 'mostEdited', label: 'Most Edited', icon: 'create', description: 'Notes edited the most times' },
     ];
 
-    const dateOptions: { value: DateFilter; label: string; icon: string; description: string }[] = [
+    const dateOptions: { value: DateFilter; label: string; icon: keyof typeof Ionicons.glyphMap; description: string }[] = [
         { value: 'all', label: 'All Time', icon: 'infinite', description: 'Show all notes' },
         { value: 'today', label: 'Today', icon: 'today', description: 'Notes created today' },
-        { value: 'thisWeek', label: 'This Week', icon: 'calendar-outline', description: 'Notes from past 7 days' },
-        { value: 'thisMonth', label: 'This Month', icon: 'calendar', description: 'Notes from past 30 days' },
+        { value: 'thisWeek', label: 'This Week', icon: 'calendar-outline', description: 'Since the start of this week' },
+        { value: 'thisMonth', label: 'This Month', icon: 'calendar', description: 'Since the 1st of this month' },
+        { value: 'custom', label: 'Custom Range', icon: 'calendar-number-outline', description: 'Pick a start and end date' },
+    ];
+
+    const tagMatchOptions: { value: TagMatchMode; label: string; description: string }[] = [
+        { value: 'any', label: 'Any', description: 'Notes with at least one selected tag' },
+        { value: 'all', label: 'All', description: 'Notes with every selected tag' },
+        { value: 'none', label: 'None', description: 'Notes without any selected tag' },
+    ];
+
+    const tagFilterCount = localFilters.selectedTags.length + localFilters.excludedTags.length;
+
+    const dateFieldOptions: { value: DateField; label: string }[] = [
+        { value: 'created_at', label: 'Created' },
+        { value: 'updated_at', label: 'Updated' },
     ];
 
     return (
@@ -162,6 +258,67 @@ export function FilterModal({
                     ]}
                     showsVerticalScrollIndicator={false}
                 >
+                    {/* ✅ Notebook Section */}
+                    <View style={styles.section}>
+                        <View style={styles.sectionHeader}>
+                            <Ionicons name="book-outline" size={20} color={theme.colors.primary} />
+                            <Text style={[styles.sectionTitle, { color: theme.colors.textPrimary }]}>
+                                Notebook
+                            </Text>
+                        </View>
+
+                        <View style={[styles.optionsCard, { backgroundColor: theme.colors.surface }]}>
+                            {notebookOptions.map((option, index) => (
+                                <Pressable
+                                    key={option.value ?? 'all'}
+                                    style={[
+                                        styles.optionItem,
+                                        index === notebookOptions.length - 1 && styles.lastOptionItem,
+                                        localFilters.notebook === option.value && [
+                                            styles.selectedOption,
+                                            { backgroundColor: theme.colors.primaryLight }
+                                        ],
+                                        { borderBottomColor: theme.colors.border }
+                                    ]}
+                                    onPress={() => {
+                                        haptics.selection();
+                                        setLocalFilters(prev => ({ ...prev, notebook: option.value }));
+                                    }}
+                                >
+                                    <View style={styles.optionLeft}>
+                                        <View style={[
+                                            styles.optionIcon,
+                                            localFilters.notebook === option.value && {
+                                                backgroundColor: theme.colors.primary
+                                            }
+                                        ]}>
+                                            <Ionicons
+                                                name={option.icon}
+                                                size={18}
+                                                color={localFilters.notebook === option.value ? 'white' : theme.colors.textSecondary}
+                                            />
+                                        </View>
+                                        <View style={styles.optionText}>
+                                            <Text
+                                                style={[
+                                                    styles.optionLabel,
+                                                    { color: theme.colors.textPrimary },
+                                                    localFilters.notebook === option.value && { fontWeight: '600' }
+                                                ]}
+                                                numberOfLines={1}
+                                            >
+                                                {option.label}
+                                            </Text>
+                                        </View>
+                                    </View>
+                                    {localFilters.notebook === option.value && (
+                                        <Ionicons name="checkmark" size={20} color={theme.colors.primary} />
+                                    )}
+                                </Pressable>
+                            ))}
+                        </View>
+                    </View>
+
                     {/* ✅ Sort Section with enhanced design */}
                     <View style={styles.section}>
                         <View style={styles.sectionHeader}>
@@ -197,7 +354,7 @@ export function FilterModal({
                                             }
                                         ]}>
                                             <Ionicons
-                                                name={option.icon as any}
+                                                name={option.icon}
                                                 size={18}
                                                 color={localFilters.sortBy === option.value ? 'white' : theme.colors.textSecondary}
                                             />
@@ -232,6 +389,30 @@ export function FilterModal({
                             </Text>
                         </View>
 
+                        {/* ✅ Which timestamp the date range applies to */}
+                        <View style={[styles.segmentedControl, { backgroundColor: theme.colors.surface }]}>
+                            {dateFieldOptions.map(option => (
+                                <Pressable
+                                    key={option.value}
+                                    style={[
+                                        styles.segment,
+                                        localFilters.dateField === option.value && { backgroundColor: theme.colors.primary }
+                                    ]}
+                                    onPress={() => {
+                                        haptics.selection();
+                                        setLocalFilters(prev => ({ ...prev, dateField: option.value }));
+                                    }}
+                                >
+                                    <Text style={[
+                                        styles.segmentText,
+                                        { color: localFilters.dateField === option.value ? 'white' : theme.colors.textPrimary }
+                                    ]}>
+                                        {option.label}
+                                    </Text>
+                                </Pressable>
+                            ))}
+                        </View>
+
                         <View style={[styles.optionsCard, { backgroundColor: theme.colors.surface }]}>
                             {dateOptions.map((option, index) => (
                                 <Pressable
@@ -258,7 +439,7 @@ export function FilterModal({
                                             }
                                         ]}>
                                             <Ionicons
-                                                name={option.icon as any}
+                                                name={option.icon}
                                                 size={18}
                                                 color={localFilters.dateFilter === option.value ? 'white' : theme.colors.textSecondary}
                                             />
@@ -282,6 +463,13 @@ export function FilterModal({
                                 </Pressable>
                             ))}
                         </View>
+
+                        {localFilters.dateFilter === 'custom' && (
+                            <DateRangePicker
+                                value={localFilters.dateRange}
+                                onChange={(dateRange) => setLocalFilters(prev => ({ ...prev, dateRange }))}
+                            />
+                        )}
                     </View>
 
                     {/* ✅ Tags Section with enhanced design */}
@@ -292,70 +480,105 @@ export function FilterModal({
                                 <Text style={[styles.sectionTitle, { color: theme.colors.textPrimary }]}>
                                     Filter by Tags
                                 </Text>
-                                {localFilters.selectedTags.length > 0 && (
+                                {tagFilterCount > 0 && (
                                     <View style={[styles.tagsBadge, { backgroundColor: theme.colors.primary }]}>
                                         <Text style={styles.tagsBadgeText}>
-                                            {localFilters.selectedTags.length}
+                                            {tagFilterCount}
                                         </Text>
                                     </View>
                                 )}
                             </View>
 
+                            <View style={[styles.segmentedControl, { backgroundColor: theme.colors.surface }]}>
+                                {tagMatchOptions.map(option => (
+                                    <Pressable
+                                        key={option.value}
+                                        style={[
+                                            styles.segment,
+                                            localFilters.tagMatch === option.value && { backgroundColor: theme.colors.primary }
+                                        ]}
+                                        onPress={() => {
+                                            haptics.selection();
+                                            setLocalFilters(prev => ({ ...prev, tagMatch: option.value }));
+                                        }}
+                                    >
+                                        <Text style={[
+                                            styles.segmentText,
+                                            { color: localFilters.tagMatch === option.value ? 'white' : theme.colors.textPrimary }
+                                        ]}>
+                                            {option.label}
+                                        </Text>
+                                    </Pressable>
+                                ))}
+                            </View>
+                            <Text style={[styles.tagsHint, { color: theme.colors.textSecondary }]}>
+                                {tagMatchOptions.find(option => option.value === localFilters.tagMatch)?.description}.
+                                {' '}Tap a tag twice to exclude it; a parent tag includes the tags nested under it.
+                            </Text>
+
                             <View style={[styles.tagsContainer, { backgroundColor: theme.colors.surface }]}>
-                                <ScrollView
-                                    horizontal
-                                    showsHorizontalScrollIndicator={false}
-                                    contentContainerStyle={styles.tagsScrollContent}
-                                >
-                                    {availableTags
-                                        .sort((a, b) => (tagUsageCount[b] || 0) - (tagUsageCount[a] || 0))
-                                        .map((tag) => (
+                                {visibleTagNodes.map((node) => {
+                                    const state = getTagState(node.path);
+                                    const active = state !== 'off';
+                                    const tagColor = getTagColor(node.path);
+                                    const activeColor = state === 'excluded' ? theme.colors.error : tagColor ?? theme.colors.primary;
+                                    const expanded = expandedTags.includes(node.path);
+
+                                    return (
+                                        <View key={node.path} style={[styles.tagTreeRow, { paddingLeft: node.depth * 20 }]}>
+                                            {node.children.length > 0 ? (
+                                                <Pressable
+                                                    onPress={() => toggleExpanded(node.path)}
+                                                    style={styles.tagTreeToggle}
+                                                    hitSlop={6}
+                                                >
+                                                    <Ionicons
+                                                        name={expanded ? 'chevron-down' : 'chevron-forward'}
+                                                        size={16}
+                                                        color={theme.colors.textSecondary}
+                                                    />
+                                                </Pressable>
+                                            ) : (
+                                                <View style={styles.tagTreeToggle} />
+                                            )}
                                             <Pressable
-                                                key={tag}
                                                 style={[
                                                     styles.tagChip,
-                                                    localFilters.selectedTags.includes(tag) ? {
-                                                        backgroundColor: theme.colors.primary,
+                                                    active ? {
+                                                        backgroundColor: activeColor,
                                                     } : {
                                                         backgroundColor: theme.colors.background,
-                                                        borderColor: theme.colors.border,
+                                                        borderColor: tagColor ?? theme.colors.border,
                                                         borderWidth: 1,
                                                     }
                                                 ]}
-                                                onPress={() => toggleTag(tag)}
+                                                onPress={() => toggleTag(node.path)}
                                             >
+                                                {state === 'excluded' && (
+                                                    <Ionicons name="remove-circle" size={14} color="white" />
+                                                )}
                                                 <Text style={[
                                                     styles.tagChipText,
-                                                    {
-                                                        color: localFilters.selectedTags.includes(tag)
-                                                            ? 'white'
-                                                            : theme.colors.textPrimary
-                                                    }
+                                                    { color: active ? 'white' : theme.colors.textPrimary },
+                                                    state === 'excluded' && styles.excludedTagText
                                                 ]}>
-                                                    #{tag}
+                                                    {node.depth === 0 ? `#${node.name}` : node.name}
                                                 </Text>
                                                 <View style={[
                                                     styles.tagUsageCount,
-                                                    {
-                                                        backgroundColor: localFilters.selectedTags.includes(tag)
-                                                            ? 'rgba(255,255,255,0.3)'
-                                                            : theme.colors.primaryLight
-                                                    }
+                                                    { backgroundColor: active ? 'rgba(255,255,255,0.3)' : tagColor ? `${tagColor}20` : theme.colors.primaryLight }
                                                 ]}>
                                                     <Text style={[
                                                         styles.tagUsageText,
-                                                        {
-                                                            color: localFilters.selectedTags.includes(tag)
-                                                                ? 'white'
-                                                                : theme.colors.primary
-                                                        }
+                                                        { color: active ? 'white' : tagColor ?? theme.colors.primary }
                                                     ]}>
-                                                        {tagUsageCount[tag] || 0}
+                                                        {tagUsageCount[node.path] || 0}
                                                     </Text>
                                                 </View>
                                             </Pressable>
-                                        ))}
-                                </ScrollView>
+                                        </View>
+                                    );
+                                })}
                             </View>
                         </View>
                     )}
@@ -370,6 +593,29 @@ export function FilterModal({
                         </View>
 
                         <View style={[styles.optionsCard, { backgroundColor: theme.colors.surface }]}>
+                            <View style={[styles.switchItem, { borderBottomColor: theme.colors.border }]}>
+                                <View style={styles.switchLeft}>
+                                    <Ionicons name="star" size={18} color={theme.colors.textSecondary} />
+                                    <View style={styles.switchText}>
+                                        <Text style={[styles.switchLabel, { color: theme.colors.textPrimary }]}>
+                                            Favorites Only
+                                        </Text>
+                                        <Text style={[styles.switchDescription, { color: theme.colors.textSecondary }]}>
+                                            Show only notes you starred
+                                        </Text>
+                                    </View>
+                                </View>
+                                <Switch
+                                    value={localFilters.favoritesOnly}
+                                    onValueChange={(value) => {
+                                        haptics.selection();
+                                        setLocalFilters(prev => ({ ...prev, favoritesOnly: value }));
+                                    }}
+                                    trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                                    thumbColor="white"
+                                />
+                            </View>
+
                             <View style={[styles.switchItem, { borderBottomColor: theme.colors.border }]}>
                                 <View style={styles.switchLeft}>
                                     <Ionicons name="pricetag" size={18} color={theme.colors.textSecondary} />
@@ -393,7 +639,7 @@ export function FilterModal({
                                 />
                             </View>
 
-                            <View style={[styles.switchItem, styles.lastSwitchItem, { borderBottomColor: theme.colors.border }]}>
+                            <View style={[styles.switchItem, { borderBottomColor: theme.colors.border }]}>
                                 <View style={styles.switchLeft}>
                                     <Ionicons name="document-text" size={18} color={theme.colors.textSecondary} />
                                     <View style={styles.switchText}>
@@ -415,6 +661,29 @@ export function FilterModal({
                                     thumbColor="white"
                                 />
                             </View>
+
+                            <View style={[styles.switchItem, styles.lastSwitchItem, { borderBottomColor: theme.colors.border }]}>
+                                <View style={styles.switchLeft}>
+                                    <Ionicons name="archive" size={18} color={theme.colors.textSecondary} />
+                                    <View style={styles.switchText}>
+                                        <Text style={[styles.switchLabel, { color: theme.colors.textPrimary }]}>
+                                            Include Archived
+                                        </Text>
+                                        <Text style={[styles.switchDescription, { color: theme.colors.textSecondary }]}>
+                                            Show and search archived notes too
+                                        </Text>
+                                    </View>
+                                </View>
+                                <Switch
+                                    value={localFilters.includeArchived}
+                                    onValueChange={(value) => {
+                                        haptics.selection();
+                                        setLocalFilters(prev => ({ ...prev, includeArchived: value }));
+                                    }}
+                                    trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                                    thumbColor="white"
+                                />
+                            </View>
                         </View>
                     </View>
                 </ScrollView>
@@ -527,6 +796,22 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         color: 'white',
     },
+    segmentedControl: {
+        flexDirection: 'row',
+        borderRadius: 12,
+        padding: 4,
+        marginBottom: 12,
+    },
+    segment: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 9,
+    },
+    segmentText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
     optionsCard: {
         borderRadius: 16,
         shadowColor: '#000',
@@ -580,16 +865,23 @@ const styles = StyleSheet.create({
     },
     tagsContainer: {
         borderRadius: 16,
-        padding: 16,
+        paddingVertical: 12,
+        paddingHorizontal: 12,
         shadowColor: '#000',
         shadowOffset: { width: 0, height: 2 },
         shadowOpacity: 0.1,
         shadowRadius: 8,
         elevation: 4,
     },
-    tagsScrollContent: {
-        paddingRight: 20,
-        gap: 12,
+    tagTreeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 4,
+    },
+    tagTreeToggle: {
+        width: 24,
+        alignItems: 'center',
+        marginRight: 4,
     },
     tagChip: {
         flexDirection: 'row',
@@ -600,6 +892,14 @@ const styles = StyleSheet.create({
         borderRadius: 16,
         gap: 8,
     },
+    tagsHint: {
+        fontSize: 13,
+        lineHeight: 18,
+        marginBottom: 12,
+    },
+    excludedTagText: {
+        textDecorationLine: 'line-through',
+    },
     tagChipText: {
         fontSize: 14,
         fontWeight: '600',
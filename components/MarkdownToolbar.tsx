@@ -0,0 +1,101 @@
+import { ScrollView, Pressable, Text, StyleSheet } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { applyMarkdownFormat, type MarkdownFormat, type TextSelection } from '@/utils/markdown';
+
+type Props = {
+    value: string;
+    selection: TextSelection;
+    onChange: (value: string, selection: TextSelection) => void;
+};
+
+type ToolbarAction = {
+    format: MarkdownFormat;
+    label: string;
+    icon?: keyof typeof Ionicons.glyphMap;
+    text?: string;
+};
+
+const ACTIONS: ToolbarAction[] = [
+    { format: 'heading', label: 'Heading', text: 'H' },
+    { format: 'bold', label: 'Bold', text: 'B' },
+    { format: 'italic', label: 'Italic', text: 'I' },
+    { format: 'bulletList', label: 'Bulleted list', icon: 'list' },
+    { format: 'numberedList', label: 'Numbered list', text: '1.' },
+    { format: 'checkbox', label: 'Checklist', icon: 'checkbox-outline' },
+    { format: 'code', label: 'Code', icon: 'code-slash' },
+    { format: 'link', label: 'Link', icon: 'link' },
+];
+
+export function MarkdownToolbar({ value, selection, onChange }: Props) {
+    const { theme } = useTheme();
+    const haptics = useHaptics();
+
+    const handlePress = (format: MarkdownFormat) => {
+        haptics.selection();
+        const result = applyMarkdownFormat(value, selection, format);
+        onChange(result.text, result.selection);
+    };
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            keyboardShouldPersistTaps="always"
+            style={styles.toolbar}
+            contentContainerStyle={styles.container}
+        >
+            {ACTIONS.map(action => (
+                <Pressable
+                    key={action.format}
+                    style={[styles.button, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
+                    onPress={() => handlePress(action.format)}
+                    accessibilityRole="button"
+                    accessibilityLabel={action.label}
+                >
+                    {action.icon ? (
+                        <Ionicons name={action.icon} size={18} color={theme.colors.textPrimary} />
+                    ) : (
+                        <Text
+                            style={[
+                                styles.buttonText,
+                                { color: theme.colors.textPrimary },
+                                action.format === 'italic' && styles.italic,
+                            ]}
+                        >
+                            {action.text}
+                        </Text>
+                    )}
+                </Pressable>
+            ))}
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    toolbar: {
+        flexGrow: 0,
+        marginBottom: 8,
+    },
+    container: {
+        gap: 8,
+        paddingVertical: 4,
+    },
+    button: {
+        minWidth: 40,
+        height: 36,
+        paddingHorizontal: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    buttonText: {
+        fontSize: 16,
+        fontWeight: '700',
+    },
+    italic: {
+        fontStyle: 'italic',
+    },
+});
@@ -0,0 +1,201 @@
+import { useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Linking, Platform, type TextStyle } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/utils/markdown';
+
+type Props = {
+    source: string;
+    onToggleCheckbox?: (line: number) => void; // makes checklist items tappable
+};
+
+const monospace = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const HEADING_SIZES: Record<number, TextStyle> = {
+    1: { fontSize: 24, lineHeight: 32 },
+    2: { fontSize: 20, lineHeight: 28 },
+    3: { fontSize: 18, lineHeight: 26 },
+};
+
+export function MarkdownView({ source, onToggleCheckbox }: Props) {
+    const { theme } = useTheme();
+    const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+    const renderInline = (nodes: MarkdownInline[]) =>
+        nodes.map((node, index) => {
+            switch (node.type) {
+                case 'bold':
+                    return <Text key={index} style={styles.bold}>{renderInline(node.children)}</Text>;
+                case 'italic':
+                    return <Text key={index} style={styles.italic}>{renderInline(node.children)}</Text>;
+                case 'code':
+                    return (
+                        <Text key={index} style={[styles.inlineCode, { backgroundColor: theme.colors.background }]}>
+                            {node.text}
+                        </Text>
+                    );
+                case 'link':
+                    return (
+                        <Text
+                            key={index}
+                            style={[styles.link, { color: theme.colors.primary }]}
+                            onPress={() => Linking.openURL(node.href).catch(() => undefined)}
+                            accessibilityRole="link"
+                        >
+                            {renderInline(node.children)}
+                        </Text>
+                    );
+                default:
+                    return node.text;
+            }
+        });
+
+    const renderBlock = (block: MarkdownBlock, index: number) => {
+        switch (block.type) {
+            case 'heading':
+                return (
+                    <Text
+                        key={index}
+                        style={[styles.heading, HEADING_SIZES[block.level] ?? styles.paragraph, { color: theme.colors.textPrimary }]}
+                        accessibilityRole="header"
+                    >
+                        {renderInline(block.children)}
+                    </Text>
+                );
+            case 'paragraph':
+                return (
+                    <Text key={index} style={[styles.paragraph, { color: theme.colors.textPrimary }]}>
+                        {renderInline(block.children)}
+                    </Text>
+                );
+            case 'quote':
+                return (
+                    <View key={index} style={[styles.quote, { borderLeftColor: theme.colors.primary }]}>
+                        <Text style={[styles.paragraph, { color: theme.colors.textSecondary }]}>
+                            {renderInline(block.children)}
+                        </Text>
+                    </View>
+                );
+            case 'code':
+                return (
+                    <ScrollView
+                        key={index}
+                        horizontal
+                        style={[styles.codeBlock, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
+                        showsHorizontalScrollIndicator={false}
+                    >
+                        <Text style={[styles.codeText, { color: theme.colors.textPrimary }]}>{block.text}</Text>
+                    </ScrollView>
+                );
+            case 'rule':
+                return <View key={index} style={[styles.rule, { backgroundColor: theme.colors.border }]} />;
+            case 'list':
+                return (
+                    <View key={index} style={styles.list}>
+                        {block.items.map((item, itemIndex) => (
+                            <View key={item.line} style={[styles.listItem, { paddingLeft: item.depth * 20 }]}>
+                                {item.checked !== null ? (
+                                    <Pressable
+                                        onPress={() => onToggleCheckbox?.(item.line)}
+                                        disabled={!onToggleCheckbox}
+                                        hitSlop={8}
+                                        style={styles.checkbox}
+                                        accessibilityRole="checkbox"
+                                        accessibilityState={{ checked: item.checked }}
+                                    >
+                                        <Ionicons
+                                            name={item.checked ? 'checkbox' : 'square-outline'}
+                                            size={20}
+                                            color={item.checked ? theme.colors.primary : theme.colors.textSecondary}
+                                        />
+                                    </Pressable>
+                                ) : (
+                                    <Text style={[styles.listMarker, { color: theme.colors.textSecondary }]}>
+                                        {block.ordered ? `${block.start + itemIndex}.` : '•'}
+                                    </Text>
+                                )}
+                                <Text
+                                    style={[
+                                        styles.paragraph,
+                                        styles.listText,
+                                        { color: item.checked ? theme.colors.textSecondary : theme.colors.textPrimary },
+                                        item.checked === true && styles.checkedText,
+                                    ]}
+                                >
+                                    {renderInline(item.children)}
+                                </Text>
+                            </View>
+                        ))}
+                    </View>
+                );
+        }
+    };
+
+    return <View style={styles.container}>{blocks.map(renderBlock)}</View>;
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 12,
+    },
+    heading: {
+        fontWeight: '700',
+    },
+    paragraph: {
+        fontSize: 16,
+        lineHeight: 24,
+    },
+    bold: {
+        fontWeight: '700',
+    },
+    italic: {
+        fontStyle: 'italic',
+    },
+    inlineCode: {
+        fontFamily: monospace,
+        fontSize: 14,
+    },
+    link: {
+        textDecorationLine: 'underline',
+    },
+    quote: {
+        borderLeftWidth: 3,
+        paddingLeft: 12,
+    },
+    codeBlock: {
+        borderRadius: 8,
+        borderWidth: 1,
+        padding: 12,
+    },
+    codeText: {
+        fontFamily: monospace,
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    rule: {
+        height: 1,
+    },
+    list: {
+        gap: 6,
+    },
+    listItem: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 8,
+    },
+    listMarker: {
+        minWidth: 20,
+        fontSize: 16,
+        lineHeight: 24,
+        textAlign: 'right',
+    },
+    checkbox: {
+        marginTop: 2,
+    },
+    listText: {
+        flex: 1,
+    },
+    checkedText: {
+        textDecorationLine: 'line-through',
+    },
+});
@@ -1,16 +1,42 @@
 import { View, Text, StyleSheet, Pressable } from 'react-native';
-import { theme } from '../config/theme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useTagColors } from '@/contexts/_TagColorsContext';
+import { getChecklistProgress } from '@/utils/markdown';
+import { splitHighlights } from '@/utils/search';
 
 type Props = {
     title: string;
     body: string;
     tags?: string[] | null;
     updatedAt: string;
+    pinned?: boolean;
+    favorite?: boolean;
+    archived?: boolean;
     onPress: () => void;
-    onLongPress: () => void;
+    onLongPress?: () => void;
+    onPressIn?: () => void;
+    highlightedTitle?: string; // search matches wrapped in ⟦ ⟧
+    snippet?: string; // shown instead of the body preview while searching
 };
 
-export function NoteCard({ title, body, tags, updatedAt, onPress, onLongPress }: Props) {
+export function NoteCard({
+    title,
+    body,
+    tags,
+    updatedAt,
+    pinned = false,
+    favorite = false,
+    archived = false,
+    onPress,
+    onLongPress,
+    onPressIn,
+    highlightedTitle,
+    snippet,
+}: Props) {
+    const { theme } = useTheme();
+    const { getTagColor, getNoteAccent } = useTagColors();
+
     const formatDate = (dateString: string) => {
         const date = new Date(dateString);
         const now = new Date();
@@ -23,53 +49,85 @@ export function NoteCard({ title, body, tags, updatedAt, onPress, onLongPress }:
         return date.toLocaleDateString();
     };
 
-    // Generate a color based on title for variety
-    const getCardAccent = (title: string) => {
-        const colors = [
-            '#3b82f6', // Blue
-            '#8b5cf6', // Purple
-            '#06d6a0', // Teal
-            '#f59e0b', // Orange
-            '#ef4444', // Red
-            '#10b981', // Green
-            '#ec4899', // Pink
-            '#6366f1', // Indigo
-        ];
-        const index = title.length % colors.length;
-        return colors[index];
-    };
+    // ✅ The card takes its accent from the note's first colored tag
+    const accentColor = getNoteAccent(tags);
+    const checklist = getChecklistProgress(body);
+
+    // ✅ Matched words stand out in the title and snippet
+    const renderHighlighted = (text: string) =>
+        splitHighlights(text).map((segment, index) =>
+            segment.highlighted ? (
+                <Text
+                    key={index}
+                    style={[styles.highlight, { backgroundColor: theme.colors.primaryLight, color: theme.colors.primary }]}
+                >
+                    {segment.text}
+                </Text>
+            ) : (
+                segment.text
+            )
+        );
 
-    const accentColor = getCardAccent(title);
+    const preview = snippet !== undefined ? snippet.trim() : body;
 
     return (
         <Pressable
             onPress={onPress}
             onLongPress={onLongPress}
+            onPressIn={onPressIn}
             style={({ pressed }) => [
                 styles.card,
-                { borderLeftColor: accentColor },
+                { backgroundColor: theme.colors.surface, borderLeftColor: accentColor },
                 pressed && styles.cardPressed
             ]}
         >
             <View style={styles.content}>
-                <Text style={styles.title} numberOfLines={2}>{title}</Text>
-                {body && <Text style={styles.body} numberOfLines={3}>{body}</Text>}
+                <View style={styles.titleRow}>
+                    <Text style={[styles.title, { color: theme.colors.textPrimary }]} numberOfLines={2}>
+                        {highlightedTitle ? renderHighlighted(highlightedTitle) : title}
+                    </Text>
+                    {pinned && <Ionicons name="pin" size={16} color={theme.colors.textSecondary} />}
+                    {favorite && <Ionicons name="star" size={16} color={theme.colors.warning} />}
+                    {archived && <Ionicons name="archive" size={16} color={theme.colors.textSecondary} />}
+                </View>
+                {!!preview && (
+                    <Text style={[styles.body, { color: theme.colors.textSecondary }]} numberOfLines={3}>
+                        {snippet !== undefined ? renderHighlighted(preview) : preview}
+                    </Text>
+                )}
 
                 {tags && tags.length > 0 && (
                     <View style={styles.tagsContainer}>
-                        {tags.slice(0, 3).map((tag, index) => (
-                            <View key={index} style={[styles.tag, { backgroundColor: `${accentColor}15` }]}>
-                                <Text style={[styles.tagText, { color: accentColor }]}>{tag}</Text>
-                            </View>
-                        ))}
+                        {tags.slice(0, 3).map((tag, index) => {
+                            const tagColor = getTagColor(tag) ?? theme.colors.primary;
+                            return (
+                                <View key={index} style={[styles.tag, { backgroundColor: `${tagColor}15` }]}>
+                                    <Text style={[styles.tagText, { color: tagColor }]}>#{tag}</Text>
+                                </View>
+                            );
+                        })}
                         {tags.length > 3 && (
-                            <Text style={styles.moreTagsText}>+{tags.length - 3} more</Text>
+                            <Text style={[styles.moreTagsText, { color: theme.colors.textSecondary }]}>
+                                +{tags.length - 3} more
+                            </Text>
                         )}
                     </View>
                 )}
 
                 <View style={styles.footer}>
-                    <Text style={styles.date}>{formatDate(updatedAt)}</Text>
+                    <Text style={[styles.date, { color: theme.colors.textSecondary }]}>{formatDate(updatedAt)}</Text>
+                    {checklist.total > 0 && (
+                        <View style={styles.checklist}>
+                            <Ionicons
+                                name={checklist.done === checklist.total ? 'checkbox' : 'checkbox-outline'}
+                                size={14}
+                                color={accentColor}
+                            />
+                            <Text style={[styles.checklistText, { color: theme.colors.textSecondary }]}>
+                                {checklist.done}/{checklist.total} done
+                            </Text>
+                        </View>
+                    )}
                     <View style={[styles.statusDot, { backgroundColor: accentColor }]} />
                 </View>
             </View>
@@ -79,10 +137,9 @@ export function NoteCard({ title, body, tags, updatedAt, onPress, onLongPress }:
 
 const styles = StyleSheet.create({
     card: {
-        backgroundColor: theme.colors.surface,
-        borderRadius: theme.radius,
+        borderRadius: 12,
         borderLeftWidth: 4,
-        shadowColor: theme.colors.cardShadow,
+        shadowColor: '#000',
         shadowOffset: { width: 0, height: 2 },
         shadowOpacity: 0.1,
         shadowRadius: 4,
@@ -95,19 +152,26 @@ const styles = StyleSheet.create({
     content: {
         padding: 16,
     },
+    titleRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 6,
+        marginBottom: 8,
+    },
     title: {
+        flex: 1,
         fontSize: 18,
         fontWeight: '700',
-        color: theme.colors.textPrimary,
-        marginBottom: 8,
         lineHeight: 24, // Increased from 22
     },
     body: {
         fontSize: 14,
-        color: theme.colors.textSecondary,
         lineHeight: 22, // Increased from 20
         marginBottom: 12,
     },
+    highlight: {
+        fontWeight: '700',
+    },
     tagsContainer: {
         flexDirection: 'row',
         flexWrap: 'wrap',
@@ -127,7 +191,6 @@ const styles = StyleSheet.create({
     },
     moreTagsText: {
         fontSize: 11,
-        color: theme.colors.textSecondary,
         fontStyle: 'italic',
         lineHeight: 16, // Added proper line height
     },
@@ -138,9 +201,20 @@ const styles = StyleSheet.create({
     },
     date: {
         fontSize: 12,
-        color: theme.colors.textSecondary,
         lineHeight: 16, // Added proper line height
     },
+    checklist: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginLeft: 'auto',
+        marginRight: 8,
+    },
+    checklistText: {
+        fontSize: 12,
+        fontWeight: '600',
+        lineHeight: 16,
+    },
     statusDot: {
         width: 8,
         height: 8,
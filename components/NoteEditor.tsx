@@ -1,15 +1,29 @@
 import { useState } from 'react';
-import { View, Text, TextInput, StyleSheet, Pressable, ScrollView, Alert } from 'react-native';
+import { View, Text, TextInput, StyleSheet, Pressable, ScrollView } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
-import { theme } from '@/config/theme';
+import { tagPalette, theme } from '@/config/theme';
+import { MarkdownToolbar } from '@/components/MarkdownToolbar';
+import { TagSuggestions } from '@/components/TagSuggestions';
+import { DraftRestore } from '@/components/DraftRestore';
+import { useMarkdownEditor } from '@/hooks/useMarkdownEditor';
+import { useExistingTags } from '@/hooks/useExistingTags';
+import { useNoteDraft } from '@/hooks/useNoteDraft';
+import type { DraftFields } from '@/services/drafts';
+import { useTagColors } from '@/contexts/_TagColorsContext';
+import { MAX_TAG_PATH_LENGTH, getTagSuggestions, normalizeTagName } from '@/utils/tags';
+import { MAX_TAGS_PER_NOTE, MAX_TITLE_LENGTH, getNoteErrors } from '@/utils/noteValidation';
 
 type Props = {
     initialTitle?: string;
     initialBody?: string;
     initialTags?: string[];
-    onSubmit: (data: { title: string; body: string; tags: string[] }) => Promise<void>;
+    // Resolves true once the note is saved
+    onSubmit: (data: { title: string; body: string; tags: string[] }) => Promise<boolean>;
     submitting: boolean;
     submitLabel: string;
+    // Unsaved edits are kept on the device under this id until they're saved
+    draftId?: string;
+    baseUpdatedAt?: string | null;
 };
 
 export function NoteEditor({
@@ -18,7 +32,9 @@ export function NoteEditor({
                                initialTags = [],
                                onSubmit,
                                submitting,
-                               submitLabel
+                               submitLabel,
+                               draftId,
+                               baseUpdatedAt = null
                            }: Props) {
     const [title, setTitle] = useState(initialTitle);
     const [body, setBody] = useState(initialBody);
@@ -27,17 +43,45 @@ export function NoteEditor({
     const [titleFocused, setTitleFocused] = useState(false);
     const [bodyFocused, setBodyFocused] = useState(false);
     const [tagFocused, setTagFocused] = useState(false);
+    const [tagError, setTagError] = useState<string | null>(null);
+    const markdown = useMarkdownEditor(body, setBody);
+    const [savedCopy, setSavedCopy] = useState<DraftFields>({
+        title: initialTitle,
+        body: initialBody,
+        tags: initialTags,
+        notebook_id: null,
+    });
+    const noteDraft = useNoteDraft(
+        draftId,
+        { title, body, tags, notebook_id: null },
+        draftId ? savedCopy : null,
+        baseUpdatedAt
+    );
+
+    const existingTags = useExistingTags();
+    const { getColorName } = useTagColors();
+    const suggestions = getTagSuggestions(tagInput, existingTags, tags);
+    const errors = getNoteErrors({ title, body, tags });
+    const hasErrors = Object.keys(errors).length > 0;
+
+    const addTag = (value = tagInput) => {
+        if (!value.trim()) return;
 
-    const addTag = () => {
-        const newTag = tagInput.trim();
-        if (newTag && !tags.includes(newTag) && newTag.length <= 20) {
-            setTags([...tags, newTag]);
-            setTagInput('');
-        } else if (newTag.length > 20) {
-            Alert.alert('Tag too long', 'Tags must be 20 characters or less');
-        } else if (tags.includes(newTag)) {
-            Alert.alert('Duplicate tag', 'This tag already exists');
+        let newTag: string;
+        try {
+            newTag = normalizeTagName(value);
+        } catch (error: any) {
+            setTagError(error.message);
+            return;
         }
+
+        if (tags.some(tag => tag.toLowerCase() === newTag.toLowerCase())) {
+            setTagError('This tag is already on the note');
+            return;
+        }
+        setTags([...tags, newTag]);
+        setTagInput('');
+        setTagError(null);
     };
 
     const removeTag = (tagToRemove: string) => {
@@ -45,18 +89,40 @@ export function NoteEditor({
     };
 
     const handleSubmit = async () => {
-        if (!title.trim()) {
-            Alert.alert('Title Required', 'Please enter a title for your note');
-            return;
-        }
+        // ✅ Problems are shown next to their fields
+        if (hasErrors) return;
 
-        await onSubmit({
+        const payload = {
             title: title.trim(),
             body: body.trim(),
             tags: tags.filter(tag => tag.trim().length > 0)
-        });
+        };
+        if (await onSubmit(payload)) {
+            await noteDraft.clear();
+            setSavedCopy({ ...payload, notebook_id: null });
+        }
+    };
+
+    const handleRestoreDraft = () => {
+        const draft = noteDraft.restore();
+        if (!draft) return;
+        setTitle(draft.title);
+        setBody(draft.body);
+        setTags(draft.tags);
     };
 
+    if (noteDraft.draft) {
+        return (
+            <DraftRestore
+                draft={noteDraft.draft}
+                saved={savedCopy}
+                savedUpdatedAt={baseUpdatedAt}
+                onRestore={handleRestoreDraft}
+                onDiscard={noteDraft.discard}
+            />
+        );
+    }
+
     return (
         <ScrollView
             style={styles.container}
@@ -71,7 +137,7 @@ export function NoteEditor({
                         style={[
                             styles.titleInput,
                             titleFocused && styles.inputFocused,
-                            !title.trim() && styles.inputError
+                            !!errors.title && styles.inputError
                         ]}
                         value={title}
                         onChangeText={setTitle}
@@ -81,25 +147,29 @@ export function NoteEditor({
                         returnKeyType="next"
                         onFocus={() => setTitleFocused(true)}
                         onBlur={() => setTitleFocused(false)}
-                        maxLength={100}
+                        maxLength={MAX_TITLE_LENGTH}
                     />
-                    {title.length > 80 && (
+                    {title.length > MAX_TITLE_LENGTH - 20 && (
                         <Text style={styles.characterCount}>
-                            {title.length}/100
+                            {title.length}/{MAX_TITLE_LENGTH}
                         </Text>
                     )}
+                    {errors.title && title.length > 0 && <Text style={styles.fieldError}>{errors.title}</Text>}
                 </View>
 
                 {/* Body Input */}
                 <View style={styles.inputGroup}>
                     <Text style={styles.label}>Content</Text>
+                    <MarkdownToolbar {...markdown.toolbarProps} />
                     <TextInput
                         style={[
                             styles.bodyInput,
-                            bodyFocused && styles.inputFocused
+                            bodyFocused && styles.inputFocused,
+                            !!errors.body && styles.inputError
                         ]}
                         value={body}
                         onChangeText={setBody}
+                        {...markdown.inputProps}
                         placeholder="Write your thoughts here..."
                         placeholderTextColor={theme.colors.textSecondary}
                         multiline
@@ -109,6 +179,7 @@ export function NoteEditor({
                         onBlur={() => setBodyFocused(false)}
                         scrollEnabled={false}
                     />
+                    {errors.body && <Text style={styles.fieldError}>{errors.body}</Text>}
                 </View>
 
                 {/* Tags Section */}
@@ -116,7 +187,7 @@ export function NoteEditor({
                     <View style={styles.tagHeader}>
                         <Text style={styles.label}>Tags</Text>
                         <Text style={styles.tagCount}>
-                            {tags.length}/10
+                            {tags.length}/{MAX_TAGS_PER_NOTE}
                         </Text>
                     </View>
 
@@ -128,45 +199,60 @@ export function NoteEditor({
                                 tagFocused && styles.inputFocused
                             ]}
                             value={tagInput}
-                            onChangeText={setTagInput}
+                            onChangeText={(text) => {
+                                setTagInput(text);
+                                setTagError(null);
+                            }}
                             placeholder="Add a tag..."
                             placeholderTextColor={theme.colors.textSecondary}
                             returnKeyType="done"
-                            onSubmitEditing={addTag}
+                            onSubmitEditing={() => addTag()}
                             onFocus={() => setTagFocused(true)}
                             onBlur={() => setTagFocused(false)}
-                            maxLength={20}
-                            editable={tags.length < 10}
+                            maxLength={MAX_TAG_PATH_LENGTH}
+                            autoCapitalize="none"
+                            editable={tags.length < MAX_TAGS_PER_NOTE}
                         />
                         <Pressable
                             style={[
                                 styles.addTagButton,
-                                (!tagInput.trim() || tags.length >= 10) && styles.addTagButtonDisabled
+                                (!tagInput.trim() || tags.length >= MAX_TAGS_PER_NOTE) && styles.addTagButtonDisabled
                             ]}
-                            onPress={addTag}
-                            disabled={!tagInput.trim() || tags.length >= 10}
+                            onPress={() => addTag()}
+                            disabled={!tagInput.trim() || tags.length >= MAX_TAGS_PER_NOTE}
                         >
                             <Ionicons name="add" size={16} color="white" />
                         </Pressable>
                     </View>
 
+                    {tags.length < MAX_TAGS_PER_NOTE && <TagSuggestions suggestions={suggestions} onSelect={addTag} />}
+                    {(tagError || errors.tags) && <Text style={styles.fieldError}>{tagError ?? errors.tags}</Text>}
+
                     {/* Tags Display */}
                     {tags.length > 0 && (
                         <View style={styles.tagsContainer}>
-                            {tags.map((tag, index) => (
-                                <View key={index} style={styles.tag}>
-                                    <Text style={styles.tagText}>{tag}</Text>
-                                    <Pressable onPress={() => removeTag(tag)} style={styles.tagRemove}>
-                                        <Ionicons name="close" size={12} color={theme.colors.textSecondary} />
-                                    </Pressable>
-                                </View>
-                            ))}
+                            {tags.map((tag, index) => {
+                                // The editor is light-only, so colored tags use the light shade
+                                const colorName = getColorName(tag);
+                                const tagColor = colorName ? tagPalette[colorName].light : null;
+                                return (
+                                    <View
+                                        key={index}
+                                        style={[styles.tag, tagColor && { backgroundColor: `${tagColor}15`, borderColor: tagColor }]}
+                                    >
+                                        <Text style={[styles.tagText, tagColor && { color: tagColor }]}>{tag}</Text>
+                                        <Pressable onPress={() => removeTag(tag)} style={styles.tagRemove}>
+                                            <Ionicons name="close" size={12} color={theme.colors.textSecondary} />
+                                        </Pressable>
+                                    </View>
+                                );
+                            })}
                         </View>
                     )}
 
                     {tags.length === 0 && (
                         <Text style={styles.tagHint}>
-                            Add tags to organize and find your notes easily
+                            Add tags to organize and find your notes easily. Nest them with /, like clients/acme
                         </Text>
                     )}
                 </View>
@@ -196,10 +282,10 @@ export function NoteEditor({
                     style={[
                         styles.submitButton,
                         submitting && styles.submitButtonDisabled,
-                        !title.trim() && styles.submitButtonDisabled
+                        hasErrors && styles.submitButtonDisabled
                     ]}
                     onPress={handleSubmit}
-                    disabled={submitting || !title.trim()}
+                    disabled={submitting || hasErrors}
                 >
                     {submitting ? (
                         <>
@@ -292,6 +378,11 @@ const styles = StyleSheet.create({
         marginTop: 4,
         lineHeight: 16,
     },
+    fieldError: {
+        fontSize: 13,
+        color: theme.colors.error,
+        lineHeight: 18,
+    },
     tagHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
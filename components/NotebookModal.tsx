@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    StyleSheet,
+    Pressable,
+    ScrollView,
+    TextInput,
+    Alert,
+    ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { INBOX_NAME, MAX_NOTEBOOK_NAME_LENGTH, type Notebook } from '@/services/notes';
+
+type Props = {
+    visible: boolean;
+    notebook: Notebook | null; // null creates a new notebook
+    noteCount: number; // notes in the notebook, for the delete prompt
+    onClose: () => void;
+    onSave: (name: string) => Promise<unknown>;
+    onDelete?: () => Promise<unknown>;
+};
+
+export function NotebookModal({ visible, notebook, noteCount, onClose, onSave, onDelete }: Props) {
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const haptics = useHaptics();
+
+    const [name, setName] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        if (visible) {
+            setName(notebook?.name ?? '');
+            setBusy(false);
+        }
+    }, [visible, notebook]);
+
+    const run = async (action: () => Promise<unknown>, failureTitle: string) => {
+        setBusy(true);
+        try {
+            await action();
+            return true;
+        } catch (error: any) {
+            haptics.error();
+            Alert.alert(failureTitle, error.message);
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) {
+            haptics.warning();
+            Alert.alert('Name required', 'Give this notebook a name.');
+            return;
+        }
+
+        const saved = await run(() => onSave(name), 'Could not save notebook');
+        if (saved) {
+            haptics.success();
+            onClose();
+        }
+    };
+
+    const handleDelete = () => {
+        if (!notebook || !onDelete) return;
+
+        haptics.warning();
+        Alert.alert(
+            'Delete Notebook',
+            noteCount > 0
+                ? `Delete "${notebook.name}"? Its ${noteCount} ${noteCount === 1 ? 'note moves' : 'notes move'} to ${INBOX_NAME}.`
+                : `Delete "${notebook.name}"?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        const deleted = await run(onDelete, 'Could not delete notebook');
+                        if (deleted) {
+                            haptics.success();
+                            onClose();
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border,
+                }]}>
+                    <Pressable
+                        onPress={onClose}
+                        style={[styles.headerButton, { backgroundColor: theme.colors.background }]}
+                        onPressIn={() => haptics.impactLight()}
+                    >
+                        <Ionicons name="close" size={20} color={theme.colors.textPrimary} />
+                    </Pressable>
+
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>
+                        {notebook ? 'Edit Notebook' : 'New Notebook'}
+                    </Text>
+
+                    <Pressable
+                        onPress={handleSave}
+                        disabled={busy}
+                        style={[styles.headerButton, { backgroundColor: theme.colors.background }]}
+                        onPressIn={() => haptics.impactLight()}
+                    >
+                        {busy ? (
+                            <ActivityIndicator size="small" color={theme.colors.primary} />
+                        ) : (
+                            <Text style={[styles.saveText, { color: theme.colors.primary }]}>Save</Text>
+                        )}
+                    </Pressable>
+                </View>
+
+                <ScrollView
+                    contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+                    keyboardShouldPersistTaps="handled"
+                >
+                    <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Name</Text>
+                    <TextInput
+                        style={[styles.input, {
+                            backgroundColor: theme.colors.surface,
+                            borderColor: theme.colors.border,
+                            color: theme.colors.textPrimary,
+                        }]}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="e.g. Meetings"
+                        placeholderTextColor={theme.colors.textSecondary}
+                        maxLength={MAX_NOTEBOOK_NAME_LENGTH}
+                        autoFocus
+                        returnKeyType="done"
+                        onSubmitEditing={handleSave}
+                    />
+                    <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                        New notes go to {INBOX_NAME} until you move them into a notebook.
+                    </Text>
+
+                    {notebook && onDelete && (
+                        <Pressable
+                            style={[styles.deleteButton, { backgroundColor: theme.colors.surface }]}
+                            onPress={handleDelete}
+                            disabled={busy}
+                        >
+                            <Ionicons name="trash-outline" size={18} color={theme.colors.error} />
+                            <Text style={[styles.deleteText, { color: theme.colors.error }]}>Delete Notebook</Text>
+                        </Pressable>
+                    )}
+                </ScrollView>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    headerButton: {
+        minWidth: 40,
+        height: 40,
+        borderRadius: 20,
+        paddingHorizontal: 10,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+    },
+    saveText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    content: {
+        padding: 20,
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    input: {
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+        fontSize: 16,
+    },
+    hint: {
+        fontSize: 13,
+        lineHeight: 18,
+        marginTop: 8,
+    },
+    deleteButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        marginTop: 32,
+        paddingVertical: 14,
+        borderRadius: 12,
+    },
+    deleteText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
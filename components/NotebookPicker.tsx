@@ -0,0 +1,152 @@
+import { View, Text, Modal, StyleSheet, Pressable, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { INBOX_NAME } from '@/services/notes';
+
+type Props = {
+    visible: boolean;
+    value: string | null; // current notebook id; null is the Inbox
+    title?: string;
+    onClose: () => void;
+    onSelect: (notebookId: string | null) => void;
+};
+
+// Lists the Inbox and every notebook; picking one closes the sheet
+export function NotebookPicker({ visible, value, title = 'Move to Notebook', onClose, onSelect }: Props) {
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const haptics = useHaptics();
+    const { notebooks } = useNotebooks();
+
+    const options = [
+        { id: null, name: INBOX_NAME, icon: 'file-tray-outline' as const },
+        ...notebooks.map(notebook => ({ id: notebook.id, name: notebook.name, icon: 'book-outline' as const })),
+    ];
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border,
+                }]}>
+                    <Pressable
+                        onPress={onClose}
+                        style={[styles.headerButton, { backgroundColor: theme.colors.background }]}
+                        onPressIn={() => haptics.impactLight()}
+                    >
+                        <Ionicons name="close" size={20} color={theme.colors.textPrimary} />
+                    </Pressable>
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>{title}</Text>
+                    <View style={styles.headerButton} />
+                </View>
+
+                <ScrollView contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}>
+                    <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+                        {options.map((option, index) => {
+                            const selected = option.id === (value ?? null);
+                            return (
+                                <Pressable
+                                    key={option.id ?? 'inbox'}
+                                    style={[
+                                        styles.row,
+                                        index > 0 && { borderTopColor: theme.colors.border, borderTopWidth: 1 },
+                                        selected && { backgroundColor: theme.colors.primaryLight },
+                                    ]}
+                                    onPress={() => {
+                                        haptics.selection();
+                                        onSelect(option.id);
+                                    }}
+                                >
+                                    <Ionicons
+                                        name={option.icon}
+                                        size={20}
+                                        color={selected ? theme.colors.primary : theme.colors.textSecondary}
+                                    />
+                                    <Text
+                                        style={[
+                                            styles.rowText,
+                                            { color: theme.colors.textPrimary },
+                                            selected && styles.rowTextSelected,
+                                        ]}
+                                        numberOfLines={1}
+                                    >
+                                        {option.name}
+                                    </Text>
+                                    {selected && <Ionicons name="checkmark" size={20} color={theme.colors.primary} />}
+                                </Pressable>
+                            );
+                        })}
+                    </View>
+                    {notebooks.length === 0 && (
+                        <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                            Create notebooks from the home screen to sort notes out of {INBOX_NAME}.
+                        </Text>
+                    )}
+                </ScrollView>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    headerButton: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        flex: 1,
+        fontSize: 18,
+        fontWeight: '700',
+        textAlign: 'center',
+        marginHorizontal: 12,
+    },
+    content: {
+        padding: 20,
+    },
+    card: {
+        borderRadius: 12,
+        overflow: 'hidden',
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 14,
+    },
+    rowText: {
+        flex: 1,
+        fontSize: 16,
+    },
+    rowTextSelected: {
+        fontWeight: '600',
+    },
+    hint: {
+        fontSize: 13,
+        lineHeight: 18,
+        marginTop: 12,
+    },
+});
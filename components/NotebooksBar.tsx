@@ -0,0 +1,116 @@
+import { ScrollView, Text, StyleSheet, Pressable } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { INBOX_NAME, type Notebook } from '@/services/notes';
+import { INBOX_FILTER } from '@/utils/notebooks';
+
+type Props = {
+    notebooks: Notebook[];
+    selected: string | null; // FilterOptions.notebook
+    counts: Record<string, number>; // see countNotesByNotebook
+    onSelect: (notebook: string | null) => void;
+    onEdit: (notebook: Notebook) => void; // long press
+    onAdd: () => void;
+};
+
+export function NotebooksBar({ notebooks, selected, counts, onSelect, onEdit, onAdd }: Props) {
+    const { theme } = useTheme();
+
+    const options = [
+        { key: null, label: 'All Notes', icon: 'albums-outline' as const, notebook: null },
+        { key: INBOX_FILTER, label: INBOX_NAME, icon: 'file-tray-outline' as const, notebook: null },
+        ...notebooks.map(notebook => ({ key: notebook.id, label: notebook.name, icon: 'book-outline' as const, notebook })),
+    ];
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.container}
+            keyboardShouldPersistTaps="handled"
+        >
+            {options.map(option => {
+                const active = option.key === selected;
+                const count = option.key ? counts[option.key] : undefined;
+                return (
+                    <Pressable
+                        key={option.key ?? 'all'}
+                        onPress={() => onSelect(option.key)}
+                        onLongPress={option.notebook ? () => onEdit(option.notebook) : undefined}
+                        style={({ pressed }) => [
+                            styles.chip,
+                            active
+                                ? { backgroundColor: theme.colors.textPrimary, borderColor: theme.colors.textPrimary }
+                                : { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                            pressed && styles.chipPressed,
+                        ]}
+                    >
+                        <Ionicons
+                            name={option.icon}
+                            size={13}
+                            color={active ? theme.colors.background : theme.colors.textSecondary}
+                        />
+                        <Text
+                            style={[styles.chipText, { color: active ? theme.colors.background : theme.colors.textPrimary }]}
+                            numberOfLines={1}
+                        >
+                            {option.label}
+                        </Text>
+                        {!!count && (
+                            <Text style={[styles.countText, { color: active ? theme.colors.background : theme.colors.textSecondary }]}>
+                                {count}
+                            </Text>
+                        )}
+                    </Pressable>
+                );
+            })}
+
+            <Pressable
+                onPress={onAdd}
+                accessibilityLabel="New notebook"
+                style={({ pressed }) => [
+                    styles.chip,
+                    styles.addChip,
+                    { borderColor: theme.colors.border },
+                    pressed && styles.chipPressed,
+                ]}
+            >
+                <Ionicons name="add" size={14} color={theme.colors.textSecondary} />
+            </Pressable>
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 8,
+        paddingTop: 8,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 5,
+        maxWidth: 180,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    addChip: {
+        borderStyle: 'dashed',
+    },
+    chipPressed: {
+        opacity: 0.7,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+        lineHeight: 18,
+        flexShrink: 1,
+    },
+    countText: {
+        fontSize: 12,
+        fontWeight: '500',
+        lineHeight: 18,
+    },
+});
@@ -0,0 +1,400 @@
+import { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    StyleSheet,
+    Pressable,
+    ScrollView,
+    Switch,
+    TextInput,
+    Alert,
+    ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useNotebooks } from '@/contexts/_NotebooksContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { getViewFilters } from '@/hooks/useSavedViews';
+import { MAX_VIEW_NAME_LENGTH, type SavedView, type SavedViewInput } from '@/services/savedViews';
+import type { Notebook } from '@/services/notes';
+import type { FilterOptions } from '@/components/FilterModal';
+import { formatDateRange } from '@/utils/dates';
+import { describeTagFilter } from '@/utils/tagFilters';
+import { describeNotebookFilter } from '@/utils/notebooks';
+
+type Props = {
+    visible: boolean;
+    view: SavedView | null; // null saves the current search as a new view
+    currentQuery: string;
+    currentFilters: FilterOptions;
+    canMoveEarlier?: boolean;
+    canMoveLater?: boolean;
+    onClose: () => void;
+    onSave: (input: SavedViewInput) => Promise<unknown>;
+    onDelete?: () => Promise<unknown>;
+    onMove?: (offset: -1 | 1) => Promise<unknown>;
+};
+
+const SORT_LABELS: Record<FilterOptions['sortBy'], string> = {
+    recent: 'Most recent',
+    alphabetical: 'A-Z',
+    mostEdited: 'Most edited',
+    oldest: 'Oldest first',
+};
+
+const DATE_LABELS: Record<Exclude<FilterOptions['dateFilter'], 'custom'>, string> = {
+    all: 'Any date',
+    today: 'Today',
+    thisWeek: 'This week',
+    thisMonth: 'This month',
+};
+
+function describeFilters(filters: FilterOptions, notebooks: Notebook[]) {
+    const parts = [SORT_LABELS[filters.sortBy]];
+    const notebookText = describeNotebookFilter(filters.notebook, notebooks);
+    if (notebookText) parts.unshift(`Notebook: ${notebookText}`);
+    if (filters.dateFilter === 'all') {
+        parts.push(DATE_LABELS.all);
+    } else {
+        const date = filters.dateFilter === 'custom' ? formatDateRange(filters.dateRange) : DATE_LABELS[filters.dateFilter];
+        parts.push(`${filters.dateField === 'updated_at' ? 'Updated' : 'Created'}: ${date}`);
+    }
+    const tagText = describeTagFilter(filters);
+    if (tagText) parts.push(`Tags: ${tagText}`);
+    if (filters.withTagsOnly) parts.push('Tagged only');
+    if (filters.longNotesOnly) parts.push('Long notes only');
+    if (filters.favoritesOnly) parts.push('Favorites only');
+    if (filters.includeArchived) parts.push('Including archived');
+    return parts.join(' • ');
+}
+
+export function SavedViewModal({
+    visible,
+    view,
+    currentQuery,
+    currentFilters,
+    canMoveEarlier = false,
+    canMoveLater = false,
+    onClose,
+    onSave,
+    onDelete,
+    onMove,
+}: Props) {
+    const { theme } = useTheme();
+    const { notebooks } = useNotebooks();
+    const insets = useSafeAreaInsets();
+    const haptics = useHaptics();
+
+    const [name, setName] = useState('');
+    const [query, setQuery] = useState('');
+    const [useCurrentFilters, setUseCurrentFilters] = useState(true);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        if (visible) {
+            setName(view?.name ?? '');
+            setQuery(view ? view.query : currentQuery.trim());
+            setUseCurrentFilters(!view);
+            setBusy(false);
+        }
+    }, [visible, view, currentQuery]);
+
+    const filters = useCurrentFilters || !view ? currentFilters : getViewFilters(view);
+
+    const run = async (action: () => Promise<unknown>, failureTitle: string) => {
+        setBusy(true);
+        try {
+            await action();
+            return true;
+        } catch (error: any) {
+            haptics.error();
+            Alert.alert(failureTitle, error.message);
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) {
+            haptics.warning();
+            Alert.alert('Name required', 'Give this view a name so you can find it later.');
+            return;
+        }
+
+        const saved = await run(() => onSave({ name, query, filters }), 'Could not save view');
+        if (saved) {
+            haptics.success();
+            onClose();
+        }
+    };
+
+    const handleDelete = () => {
+        if (!view || !onDelete) return;
+
+        haptics.warning();
+        Alert.alert(
+            'Delete View',
+            `Delete "${view.name}"? Your notes won't be affected.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        const deleted = await run(onDelete, 'Could not delete view');
+                        if (deleted) {
+                            haptics.success();
+                            onClose();
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleMove = (offset: -1 | 1) => {
+        if (!onMove) return;
+        haptics.selection();
+        run(() => onMove(offset), 'Could not reorder views');
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border,
+                }]}>
+                    <Pressable
+                        onPress={onClose}
+                        style={[styles.headerButton, { backgroundColor: theme.colors.background }]}
+                        onPressIn={() => haptics.impactLight()}
+                    >
+                        <Ionicons name="close" size={20} color={theme.colors.textPrimary} />
+                    </Pressable>
+
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>
+                        {view ? 'Edit View' : 'Save View'}
+                    </Text>
+
+                    <Pressable
+                        onPress={handleSave}
+                        disabled={busy}
+                        style={[styles.headerButton, { backgroundColor: theme.colors.background }]}
+                        onPressIn={() => haptics.impactLight()}
+                    >
+                        {busy ? (
+                            <ActivityIndicator size="small" color={theme.colors.primary} />
+                        ) : (
+                            <Text style={[styles.saveText, { color: theme.colors.primary }]}>Save</Text>
+                        )}
+                    </Pressable>
+                </View>
+
+                <ScrollView
+                    contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+                    keyboardShouldPersistTaps="handled"
+                >
+                    <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Name</Text>
+                    <TextInput
+                        style={[styles.input, {
+                            backgroundColor: theme.colors.surface,
+                            borderColor: theme.colors.border,
+                            color: theme.colors.textPrimary,
+                        }]}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="e.g. Work in progress"
+                        placeholderTextColor={theme.colors.textSecondary}
+                        maxLength={MAX_VIEW_NAME_LENGTH}
+                        autoFocus={!view}
+                        returnKeyType="done"
+                    />
+
+                    <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Search</Text>
+                    <TextInput
+                        style={[styles.input, {
+                            backgroundColor: theme.colors.surface,
+                            borderColor: theme.colors.border,
+                            color: theme.colors.textPrimary,
+                        }]}
+                        value={query}
+                        onChangeText={setQuery}
+                        placeholder="Optional, e.g. tag:work is:long"
+                        placeholderTextColor={theme.colors.textSecondary}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+
+                    <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Filters</Text>
+                    <View style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+                        <Text style={[styles.filtersText, { color: theme.colors.textPrimary }]}>
+                            {describeFilters(filters, notebooks)}
+                        </Text>
+                        {view && (
+                            <View style={[styles.switchRow, { borderTopColor: theme.colors.border }]}>
+                                <Text style={[styles.switchLabel, { color: theme.colors.textPrimary }]}>
+                                    Replace with current filters
+                                </Text>
+                                <Switch
+                                    value={useCurrentFilters}
+                                    onValueChange={(value) => {
+                                        haptics.selection();
+                                        setUseCurrentFilters(value);
+                                    }}
+                                    trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                                    thumbColor="white"
+                                />
+                            </View>
+                        )}
+                    </View>
+
+                    {view && onMove && (
+                        <>
+                            <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Position</Text>
+                            <View style={styles.moveRow}>
+                                <Pressable
+                                    style={[styles.moveButton, { backgroundColor: theme.colors.surface }, !canMoveEarlier && styles.disabled]}
+                                    onPress={() => handleMove(-1)}
+                                    disabled={!canMoveEarlier || busy}
+                                >
+                                    <Ionicons name="chevron-back" size={18} color={theme.colors.textPrimary} />
+                                    <Text style={[styles.moveText, { color: theme.colors.textPrimary }]}>Move earlier</Text>
+                                </Pressable>
+                                <Pressable
+                                    style={[styles.moveButton, { backgroundColor: theme.colors.surface }, !canMoveLater && styles.disabled]}
+                                    onPress={() => handleMove(1)}
+                                    disabled={!canMoveLater || busy}
+                                >
+                                    <Text style={[styles.moveText, { color: theme.colors.textPrimary }]}>Move later</Text>
+                                    <Ionicons name="chevron-forward" size={18} color={theme.colors.textPrimary} />
+                                </Pressable>
+                            </View>
+                        </>
+                    )}
+
+                    {view && onDelete && (
+                        <Pressable
+                            style={[styles.deleteButton, { backgroundColor: theme.colors.surface }]}
+                            onPress={handleDelete}
+                            disabled={busy}
+                        >
+                            <Ionicons name="trash-outline" size={18} color={theme.colors.error} />
+                            <Text style={[styles.deleteText, { color: theme.colors.error }]}>Delete View</Text>
+                        </Pressable>
+                    )}
+                </ScrollView>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    headerButton: {
+        minWidth: 40,
+        height: 40,
+        borderRadius: 20,
+        paddingHorizontal: 10,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+    },
+    saveText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    content: {
+        padding: 20,
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    input: {
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+        fontSize: 16,
+    },
+    card: {
+        borderRadius: 12,
+        overflow: 'hidden',
+    },
+    filtersText: {
+        fontSize: 15,
+        lineHeight: 21,
+        padding: 14,
+    },
+    switchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderTopWidth: 1,
+    },
+    switchLabel: {
+        fontSize: 15,
+        fontWeight: '500',
+    },
+    moveRow: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    moveButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 6,
+        paddingVertical: 12,
+        borderRadius: 12,
+    },
+    moveText: {
+        fontSize: 15,
+        fontWeight: '500',
+    },
+    disabled: {
+        opacity: 0.4,
+    },
+    deleteButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        marginTop: 32,
+        paddingVertical: 14,
+        borderRadius: 12,
+    },
+    deleteText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
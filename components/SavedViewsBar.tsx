@@ -0,0 +1,102 @@
+import { ScrollView, Text, StyleSheet, Pressable } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import type { SavedView } from '@/services/savedViews';
+
+type Props = {
+    views: SavedView[];
+    activeViewId: string | null;
+    onSelect: (view: SavedView) => void;
+    onEdit: (view: SavedView) => void; // long press
+    onAdd?: () => void; // shows a "Save view" chip when set
+};
+
+export function SavedViewsBar({ views, activeViewId, onSelect, onEdit, onAdd }: Props) {
+    const { theme } = useTheme();
+
+    if (views.length === 0 && !onAdd) {
+        return null;
+    }
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.container}
+            keyboardShouldPersistTaps="handled"
+        >
+            {views.map(view => {
+                const active = view.id === activeViewId;
+                return (
+                    <Pressable
+                        key={view.id}
+                        onPress={() => onSelect(view)}
+                        onLongPress={() => onEdit(view)}
+                        style={({ pressed }) => [
+                            styles.chip,
+                            active
+                                ? { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary }
+                                : { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                            pressed && styles.chipPressed,
+                        ]}
+                    >
+                        <Ionicons
+                            name={active ? 'bookmark' : 'bookmark-outline'}
+                            size={13}
+                            color={active ? 'white' : theme.colors.textSecondary}
+                        />
+                        <Text
+                            style={[styles.chipText, { color: active ? 'white' : theme.colors.textPrimary }]}
+                            numberOfLines={1}
+                        >
+                            {view.name}
+                        </Text>
+                    </Pressable>
+                );
+            })}
+
+            {onAdd && (
+                <Pressable
+                    onPress={onAdd}
+                    style={({ pressed }) => [
+                        styles.chip,
+                        styles.addChip,
+                        { borderColor: theme.colors.primary },
+                        pressed && styles.chipPressed,
+                    ]}
+                >
+                    <Ionicons name="add" size={14} color={theme.colors.primary} />
+                    <Text style={[styles.chipText, { color: theme.colors.primary }]}>Save view</Text>
+                </Pressable>
+            )}
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 8,
+        paddingTop: 8,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 5,
+        maxWidth: 180,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    addChip: {
+        borderStyle: 'dashed',
+    },
+    chipPressed: {
+        opacity: 0.7,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+        lineHeight: 18,
+    },
+});
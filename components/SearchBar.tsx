@@ -1,52 +1,85 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState, type ReactNode } from 'react';
 import { View, TextInput, StyleSheet, Pressable } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
-import { theme } from '../config/theme';
+import { useTheme } from '@/contexts/_ThemeContext';
 
 type Props = {
     value: string;
     onChangeText: (text: string) => void;
+    onDebouncedChange?: (text: string) => void; // fires once typing pauses
+    debounceMs?: number;
     placeholder?: string;
+    onFocus?: () => void;
+    onClear?: () => void;
+    children?: ReactNode; // extra buttons after the clear button
 };
 
-export function SearchBar({ value, onChangeText, placeholder = 'Search notes...' }: Props) {
+export function SearchBar({
+    value,
+    onChangeText,
+    onDebouncedChange,
+    debounceMs = 300,
+    placeholder = 'Search notes...',
+    onFocus,
+    onClear,
+    children,
+}: Props) {
+    const { theme } = useTheme();
     const [isFocused, setIsFocused] = useState(false);
 
+    // Keep the latest callback without restarting the timer
+    const onDebouncedChangeRef = useRef(onDebouncedChange);
+    onDebouncedChangeRef.current = onDebouncedChange;
+
+    useEffect(() => {
+        const timer = setTimeout(() => onDebouncedChangeRef.current?.(value), value ? debounceMs : 0);
+        return () => clearTimeout(timer);
+    }, [value, debounceMs]);
+
     const handleClear = () => {
+        onClear?.();
         onChangeText('');
     };
 
     return (
         <View style={styles.container}>
-            <View style={[styles.searchWrapper, isFocused && styles.searchWrapperFocused]}>
+            <View style={[
+                styles.searchWrapper,
+                { backgroundColor: theme.colors.surface, borderColor: isFocused ? theme.colors.primary : 'transparent' }
+            ]}>
                 <Ionicons
                     name="search"
                     size={18}
                     color={isFocused ? theme.colors.primary : theme.colors.textSecondary}
-                    style={styles.searchIcon}
                 />
 
                 <TextInput
-                    style={styles.input}
+                    style={[styles.input, { color: theme.colors.textPrimary }]}
                     value={value}
                     onChangeText={onChangeText}
                     placeholder={placeholder}
                     placeholderTextColor={theme.colors.textSecondary}
-                    onFocus={() => setIsFocused(true)}
+                    onFocus={() => {
+                        setIsFocused(true);
+                        onFocus?.();
+                    }}
                     onBlur={() => setIsFocused(false)}
                     returnKeyType="search"
                     clearButtonMode="never"
+                    autoCorrect={false}
                 />
 
                 {value.length > 0 && (
-                    <Pressable onPress={handleClear} style={styles.clearButton}>
+                    <Pressable onPress={handleClear} style={styles.clearButton} hitSlop={6}>
                         <Ionicons
                             name="close-circle"
-                            size={16}
+                            size={18}
                             color={theme.colors.textSecondary}
                         />
                     </Pressable>
                 )}
+
+                {children}
             </View>
         </View>
     );
@@ -59,36 +92,24 @@ const styles = StyleSheet.create({
     searchWrapper: {
         flexDirection: 'row',
         alignItems: 'center',
-        backgroundColor: 'white',
-        borderRadius: 14,
+        borderRadius: 10,
         borderWidth: 1,
-        borderColor: '#e5e7eb',
-        paddingHorizontal: 16,
-        paddingVertical: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
         shadowColor: '#000',
         shadowOffset: { width: 0, height: 1 },
-        shadowOpacity: 0.05,
-        shadowRadius: 4,
-        elevation: 1,
-    },
-    searchWrapperFocused: {
-        borderColor: theme.colors.primary,
-        shadowOpacity: 0.1,
-        shadowRadius: 8,
-        elevation: 3,
-    },
-    searchIcon: {
-        marginRight: 12,
+        shadowOpacity: 0.08,
+        shadowRadius: 3,
+        elevation: 2,
     },
     input: {
         flex: 1,
-        fontSize: 16,
-        color: theme.colors.textPrimary,
-        paddingVertical: 4, // Increased from 0 to give more space
-        lineHeight: 22, // Added proper line height
+        fontSize: 15,
+        marginLeft: 8,
+        lineHeight: 18,
     },
     clearButton: {
-        marginLeft: 8,
-        padding: 4,
+        padding: 3,
+        marginRight: 6,
     },
 });
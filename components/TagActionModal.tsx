@@ -0,0 +1,481 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    StyleSheet,
+    Pressable,
+    ScrollView,
+    TextInput,
+    Alert,
+    ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { TagColorPicker } from '@/components/TagColorPicker';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { useTagColors } from '@/contexts/_TagColorsContext';
+import type { TagColorName } from '@/config/theme';
+import { useHaptics } from '@/hooks/useHaptics';
+import type { Note } from '@/services/notes';
+import {
+    MAX_TAG_PATH_LENGTH,
+    TAG_SEPARATOR,
+    applyTagChange,
+    isAffectedByTagChange,
+    normalizeTagName,
+    tagMatches,
+    type TagChange,
+} from '@/utils/tags';
+
+export type TagAction = 'rename' | 'merge' | 'delete';
+
+type Props = {
+    visible: boolean;
+    tag: string | null;
+    tags: string[]; // every tag, for picking a merge target
+    notes: Note[]; // local copies used for the preview
+    onClose: () => void;
+    onSubmit: (action: TagAction, change: TagChange) => Promise<number>; // resolves to notes changed
+};
+
+const PREVIEW_LIMIT = 20;
+
+export function TagActionModal({ visible, tag, tags, notes, onClose, onSubmit }: Props) {
+    const { theme } = useTheme();
+    const insets = useSafeAreaInsets();
+    const haptics = useHaptics();
+    const { colors, updateColor } = useTagColors();
+
+    const [action, setAction] = useState<TagAction>('rename');
+    const [newName, setNewName] = useState('');
+    const [mergeTarget, setMergeTarget] = useState<string | null>(null);
+    const [working, setWorking] = useState(false);
+
+    useEffect(() => {
+        if (visible) {
+            setAction('rename');
+            setNewName(tag ?? '');
+            setMergeTarget(null);
+            setWorking(false);
+        }
+    }, [visible, tag]);
+
+    // ✅ Renaming onto an existing tag is a merge
+    const change = useMemo((): TagChange | null => {
+        if (!tag) return null;
+
+        if (action === 'delete') return { type: 'remove', tags: [tag] };
+        if (action === 'merge') return mergeTarget ? { type: 'replace', from: [tag], to: mergeTarget } : null;
+
+        const to = newName.trim().replace(/^#+/, '');
+        return to && to !== tag ? { type: 'replace', from: [tag], to } : null;
+    }, [tag, action, newName, mergeTarget]);
+
+    const affectedNotes = useMemo(() =>
+        change ? notes.filter(note => isAffectedByTagChange(note.tags ?? [], change)) : [],
+    [notes, change]);
+
+    // Nested tags are renamed and merged along with their parent
+    const nestedTags = tag ? tags.filter(item => item.startsWith(tag + TAG_SEPARATOR)) : [];
+
+    const renameTarget = action === 'rename' && change?.type === 'replace' ? change.to : null;
+    const renameMerges = !!renameTarget && tags.includes(renameTarget);
+
+    const handleSubmit = async () => {
+        if (!tag || !change) return;
+
+        try {
+            if (change.type === 'replace') {
+                normalizeTagName(change.to);
+                if (nestedTags.some(item => tagMatches(change.to, item))) {
+                    throw new Error(`#${tag} can't be moved inside one of its own nested tags.`);
+                }
+                affectedNotes.forEach(note => applyTagChange(note.tags ?? [], change).forEach(normalizeTagName));
+            }
+        } catch (error: any) {
+            haptics.warning();
+            Alert.alert('Invalid tag', error.message);
+            return;
+        }
+
+        setWorking(true);
+        try {
+            haptics.impactMedium();
+            const count = await onSubmit(action, change);
+            haptics.success();
+            onClose();
+            Alert.alert('Tags updated', `${count} ${count === 1 ? 'note was' : 'notes were'} updated.`);
+        } catch (error: any) {
+            console.error('Error updating tags:', error);
+            haptics.error();
+            Alert.alert('Error', error.message || 'Failed to update tags. Please try again.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    // ✅ Colors apply straight away, separate from the rename/merge/delete action
+    const handleColorChange = async (color: TagColorName | null) => {
+        if (!tag) return;
+
+        haptics.selection();
+        try {
+            await updateColor(tag, color);
+        } catch (error: any) {
+            console.error('Error updating tag color:', error);
+            haptics.error();
+            Alert.alert('Error', error.message || 'Failed to update the tag color. Please try again.');
+        }
+    };
+
+    const confirmSubmit = () => {
+        if (action !== 'delete') {
+            handleSubmit();
+            return;
+        }
+
+        haptics.warning();
+        Alert.alert(
+            'Delete Tag',
+            `Remove #${tag} from ${affectedNotes.length} ${affectedNotes.length === 1 ? 'note' : 'notes'}? The notes themselves are kept.`,
+            [
+                { text: 'Cancel', style: 'cancel', onPress: () => haptics.impactLight() },
+                { text: 'Delete', style: 'destructive', onPress: handleSubmit },
+            ]
+        );
+    };
+
+    const actions: { value: TagAction; label: string }[] = [
+        { value: 'rename', label: 'Rename' },
+        { value: 'merge', label: 'Merge' },
+        { value: 'delete', label: 'Delete' },
+    ];
+
+    const submitLabels: Record<TagAction, string> = {
+        rename: renameMerges ? 'Rename & Merge' : 'Rename',
+        merge: 'Merge',
+        delete: 'Delete Tag',
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+                <View style={[styles.header, {
+                    backgroundColor: theme.colors.surface,
+                    borderBottomColor: theme.colors.border,
+                }]}>
+                    <Pressable
+                        onPress={onClose}
+                        style={[styles.headerButton, { backgroundColor: theme.colors.background }]}
+                        onPressIn={() => haptics.impactLight()}
+                    >
+                        <Ionicons name="close" size={20} color={theme.colors.textPrimary} />
+                    </Pressable>
+                    <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                        #{tag}
+                    </Text>
+                    <View style={styles.headerButton} />
+                </View>
+
+                <ScrollView
+                    contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 120 }]}
+                    keyboardShouldPersistTaps="handled"
+                >
+                    <Text style={[styles.label, styles.firstLabel, { color: theme.colors.textSecondary }]}>Color</Text>
+                    <TagColorPicker value={tag ? colors[tag] ?? null : null} onChange={handleColorChange} />
+                    {tag && !colors[tag] && tag.includes(TAG_SEPARATOR) && (
+                        <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                            Without a color of its own, this tag uses the color of its parent.
+                        </Text>
+                    )}
+
+                    <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Change</Text>
+                    <View style={[styles.segmentedControl, { backgroundColor: theme.colors.surface }]}>
+                        {actions.map(option => (
+                            <Pressable
+                                key={option.value}
+                                style={[
+                                    styles.segment,
+                                    action === option.value && {
+                                        backgroundColor: option.value === 'delete' ? theme.colors.error : theme.colors.primary
+                                    }
+                                ]}
+                                onPress={() => {
+                                    haptics.selection();
+                                    setAction(option.value);
+                                }}
+                            >
+                                <Text style={[
+                                    styles.segmentText,
+                                    { color: action === option.value ? 'white' : theme.colors.textPrimary }
+                                ]}>
+                                    {option.label}
+                                </Text>
+                            </Pressable>
+                        ))}
+                    </View>
+
+                    {action === 'rename' && (
+                        <>
+                            <Text style={[styles.label, { color: theme.colors.textSecondary }]}>New name</Text>
+                            <TextInput
+                                style={[styles.input, {
+                                    backgroundColor: theme.colors.surface,
+                                    borderColor: theme.colors.border,
+                                    color: theme.colors.textPrimary,
+                                }]}
+                                value={newName}
+                                onChangeText={setNewName}
+                                placeholder="Tag name"
+                                placeholderTextColor={theme.colors.textSecondary}
+                                maxLength={MAX_TAG_PATH_LENGTH}
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                            />
+                            {renameMerges && (
+                                <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                                    #{renameTarget} already exists, so the two tags will be merged.
+                                </Text>
+                            )}
+                            {nestedTags.length > 0 && (
+                                <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                                    Nested tags such as #{nestedTags[0]} are renamed too.
+                                </Text>
+                            )}
+                        </>
+                    )}
+
+                    {action === 'merge' && (
+                        <>
+                            <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Merge into</Text>
+                            <View style={styles.targetList}>
+                                {tags.filter(item => item !== tag && !nestedTags.includes(item)).map(item => (
+                                    <Pressable
+                                        key={item}
+                                        style={[
+                                            styles.targetChip,
+                                            mergeTarget === item
+                                                ? { backgroundColor: theme.colors.primary }
+                                                : { backgroundColor: theme.colors.surface, borderColor: theme.colors.border, borderWidth: 1 }
+                                        ]}
+                                        onPress={() => {
+                                            haptics.selection();
+                                            setMergeTarget(item);
+                                        }}
+                                    >
+                                        <Text style={[
+                                            styles.targetChipText,
+                                            { color: mergeTarget === item ? 'white' : theme.colors.textPrimary }
+                                        ]}>
+                                            #{item}
+                                        </Text>
+                                    </Pressable>
+                                ))}
+                            </View>
+                            {nestedTags.length > 0 && (
+                                <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                                    Nested tags such as #{nestedTags[0]} move into the merged tag too.
+                                </Text>
+                            )}
+                        </>
+                    )}
+
+                    {/* ✅ What each affected note's tags will look like afterwards */}
+                    <Text style={[styles.label, { color: theme.colors.textSecondary }]}>
+                        {change
+                            ? `${affectedNotes.length} ${affectedNotes.length === 1 ? 'note' : 'notes'} affected`
+                            : 'Preview'}
+                    </Text>
+                    <View style={[styles.previewCard, { backgroundColor: theme.colors.surface }]}>
+                        {!change ? (
+                            <Text style={[styles.previewEmpty, { color: theme.colors.textSecondary }]}>
+                                {action === 'merge' ? 'Pick a tag to merge into.' : 'Type a new name to see the changes.'}
+                            </Text>
+                        ) : (
+                            affectedNotes.slice(0, PREVIEW_LIMIT).map((note, index) => {
+                                const nextTags = applyTagChange(note.tags ?? [], change);
+                                return (
+                                    <View
+                                        key={note.id}
+                                        style={[
+                                            styles.previewRow,
+                                            index > 0 && { borderTopColor: theme.colors.border, borderTopWidth: 1 }
+                                        ]}
+                                    >
+                                        <Text style={[styles.previewTitle, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                                            {note.title}
+                                        </Text>
+                                        <Text style={[styles.previewTags, { color: theme.colors.textSecondary }]} numberOfLines={2}>
+                                            {nextTags.length > 0 ? nextTags.map(item => `#${item}`).join(' ') : 'No tags'}
+                                        </Text>
+                                    </View>
+                                );
+                            })
+                        )}
+                        {change && affectedNotes.length > PREVIEW_LIMIT && (
+                            <Text style={[styles.previewMore, { color: theme.colors.textSecondary }]}>
+                                and {affectedNotes.length - PREVIEW_LIMIT} more
+                            </Text>
+                        )}
+                    </View>
+                </ScrollView>
+
+                <View style={[styles.bottomActions, {
+                    backgroundColor: theme.colors.surface,
+                    borderTopColor: theme.colors.border,
+                    paddingBottom: insets.bottom + 20,
+                }]}>
+                    <Pressable
+                        style={[
+                            styles.submitButton,
+                            { backgroundColor: action === 'delete' ? theme.colors.error : theme.colors.primary },
+                            (!change || working) && styles.submitButtonDisabled
+                        ]}
+                        onPress={confirmSubmit}
+                        disabled={!change || working}
+                    >
+                        {working ? (
+                            <ActivityIndicator size="small" color="white" />
+                        ) : (
+                            <Text style={styles.submitButtonText}>{submitLabels[action]}</Text>
+                        )}
+                    </Pressable>
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+    },
+    headerButton: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        flex: 1,
+        fontSize: 18,
+        fontWeight: '700',
+        textAlign: 'center',
+        marginHorizontal: 12,
+    },
+    content: {
+        padding: 20,
+    },
+    segmentedControl: {
+        flexDirection: 'row',
+        borderRadius: 12,
+        padding: 4,
+    },
+    segment: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 9,
+    },
+    segmentText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+        marginTop: 20,
+        marginBottom: 8,
+    },
+    firstLabel: {
+        marginTop: 0,
+    },
+    input: {
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+        fontSize: 16,
+    },
+    hint: {
+        fontSize: 13,
+        lineHeight: 18,
+        marginTop: 8,
+    },
+    targetList: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    targetChip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+    },
+    targetChipText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    previewCard: {
+        borderRadius: 12,
+        overflow: 'hidden',
+    },
+    previewEmpty: {
+        fontSize: 14,
+        padding: 14,
+    },
+    previewRow: {
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+    },
+    previewTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        marginBottom: 2,
+    },
+    previewTags: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    previewMore: {
+        fontSize: 13,
+        fontStyle: 'italic',
+        padding: 14,
+    },
+    bottomActions: {
+        paddingHorizontal: 20,
+        paddingTop: 16,
+        borderTopWidth: 1,
+    },
+    submitButton: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 16,
+        borderRadius: 12,
+    },
+    submitButtonDisabled: {
+        opacity: 0.5,
+    },
+    submitButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: 'white',
+    },
+});
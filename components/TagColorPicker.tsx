@@ -0,0 +1,61 @@
+import { View, Pressable, StyleSheet } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { tagPalette, type TagColorName } from '@/config/theme';
+
+type Props = {
+    value: TagColorName | null;
+    onChange: (color: TagColorName | null) => void;
+};
+
+const COLOR_NAMES = Object.keys(tagPalette) as TagColorName[];
+
+// A row of palette swatches; the first clears the color
+export function TagColorPicker({ value, onChange }: Props) {
+    const { theme, isDark } = useTheme();
+
+    return (
+        <View style={styles.container}>
+            <Pressable
+                accessibilityLabel="No color"
+                onPress={() => onChange(null)}
+                style={[
+                    styles.swatch,
+                    { backgroundColor: theme.colors.surface, borderColor: theme.colors.border, borderWidth: 1 },
+                    value === null && { borderColor: theme.colors.textPrimary, borderWidth: 2 },
+                ]}
+            >
+                <Ionicons name="close" size={16} color={theme.colors.textSecondary} />
+            </Pressable>
+            {COLOR_NAMES.map(name => (
+                <Pressable
+                    key={name}
+                    accessibilityLabel={name}
+                    onPress={() => onChange(name)}
+                    style={[
+                        styles.swatch,
+                        { backgroundColor: tagPalette[name][isDark ? 'dark' : 'light'] },
+                        value === name && { borderColor: theme.colors.textPrimary, borderWidth: 2 },
+                    ]}
+                >
+                    {value === name && <Ionicons name="checkmark" size={16} color="white" />}
+                </Pressable>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 10,
+    },
+    swatch: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+});
@@ -0,0 +1,66 @@
+import { ScrollView, Text, StyleSheet, Pressable } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+
+type Props = {
+    suggestions: string[];
+    onSelect: (tag: string) => void;
+};
+
+// Existing tag paths offered while a tag is being typed
+export function TagSuggestions({ suggestions, onSelect }: Props) {
+    const { theme } = useTheme();
+
+    if (suggestions.length === 0) {
+        return null;
+    }
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.container}
+            keyboardShouldPersistTaps="always"
+        >
+            {suggestions.map(tag => (
+                <Pressable
+                    key={tag}
+                    onPress={() => onSelect(tag)}
+                    style={({ pressed }) => [
+                        styles.chip,
+                        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                        pressed && styles.chipPressed,
+                    ]}
+                >
+                    <Ionicons name="pricetag-outline" size={12} color={theme.colors.primary} />
+                    <Text style={[styles.chipText, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                        {tag}
+                    </Text>
+                </Pressable>
+            ))}
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 6,
+        paddingVertical: 8,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+        borderRadius: 14,
+        borderWidth: 1,
+    },
+    chipPressed: {
+        opacity: 0.7,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '500',
+    },
+});
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { Animated, Text, StyleSheet, Pressable } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTheme } from '@/contexts/_ThemeContext';
+
+type Props = {
+    visible: boolean;
+    message: string;
+    onUndo: () => void;
+    onExpire: () => void;
+    duration?: number; // milliseconds the undo stays available
+    bottomOffset?: number;
+};
+
+export function UndoBar({ visible, message, onUndo, onExpire, duration = 8000, bottomOffset = 20 }: Props) {
+    const { theme, isDark } = useTheme();
+    const [secondsLeft, setSecondsLeft] = useState(Math.ceil(duration / 1000));
+    const opacity = useRef(new Animated.Value(0)).current;
+
+    // Keep the latest callback without restarting the countdown
+    const onExpireRef = useRef(onExpire);
+    onExpireRef.current = onExpire;
+
+    useEffect(() => {
+        Animated.timing(opacity, {
+            toValue: visible ? 1 : 0,
+            duration: 200,
+            useNativeDriver: true,
+        }).start();
+
+        if (!visible) return;
+
+        const expiresAt = Date.now() + duration;
+        setSecondsLeft(Math.ceil(duration / 1000));
+
+        const interval = setInterval(() => {
+            const remaining = expiresAt - Date.now();
+            if (remaining <= 0) {
+                clearInterval(interval);
+                onExpireRef.current();
+            } else {
+                setSecondsLeft(Math.ceil(remaining / 1000));
+            }
+        }, 250);
+
+        return () => clearInterval(interval);
+    }, [visible, duration, opacity]);
+
+    if (!visible) {
+        return null;
+    }
+
+    return (
+        <Animated.View
+            style={[
+                styles.container,
+                {
+                    opacity,
+                    bottom: bottomOffset,
+                    backgroundColor: isDark ? theme.colors.surface : theme.colors.textPrimary,
+                }
+            ]}
+        >
+            <Ionicons name="trash-outline" size={18} color="white" />
+            <Text style={styles.message} numberOfLines={2}>
+                {message}
+            </Text>
+            <Pressable onPress={onUndo} style={styles.undoButton} hitSlop={8}>
+                <Text style={[styles.undoText, { color: theme.colors.primary }]}>
+                    Undo ({secondsLeft})
+                </Text>
+            </Pressable>
+        </Animated.View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        left: 20,
+        right: 20,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.2,
+        shadowRadius: 8,
+        elevation: 6,
+    },
+    message: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '500',
+        color: 'white',
+    },
+    undoButton: {
+        paddingHorizontal: 4,
+    },
+    undoText: {
+        fontSize: 14,
+        fontWeight: '700',
+    },
+});
@@ -35,3 +35,18 @@ export const getTheme = (isDark: boolean) => isDark ? darkTheme : lightTheme;
 
 // Keep original theme export for backward compatibility
 export const theme = lightTheme;
+
+// Colors a user can give a tag, with a brighter shade for dark backgrounds
+export const tagPalette = {
+    blue: { light: '#3b82f6', dark: '#60a5fa' },
+    purple: { light: '#8b5cf6', dark: '#a78bfa' },
+    teal: { light: '#0d9488', dark: '#2dd4bf' },
+    orange: { light: '#f59e0b', dark: '#fbbf24' },
+    red: { light: '#ef4444', dark: '#f87171' },
+    green: { light: '#10b981', dark: '#34d399' },
+    pink: { light: '#ec4899', dark: '#f472b6' },
+    indigo: { light: '#6366f1', dark: '#818cf8' },
+    gray: { light: '#6b7280', dark: '#9ca3af' },
+};
+
+export type TagColorName = keyof typeof tagPalette;
@@ -0,0 +1,28 @@
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useAuthSession } from '@/hooks/useAuthSession';
+
+type AuthContextType = ReturnType<typeof useAuthSession>;
+
+const _AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+    const authValue = useAuthSession();
+
+    return (
+        <_AuthContext.Provider value={authValue}>
+            {children}
+        </_AuthContext.Provider>
+    );
+};
+
+export const useAuth = () => {
+    const context = useContext(_AuthContext);
+    if (!context) {
+        throw new Error('useAuth must be used within AuthProvider');
+    }
+    return context;
+};
+
+export default function AuthContextFile() {
+    return null; // This component will never be rendered as a route
+}
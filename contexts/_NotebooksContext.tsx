@@ -0,0 +1,30 @@
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useNotebookStore } from '@/hooks/useNotebookStore';
+import { useAuth } from '@/contexts/_AuthContext';
+
+type NotebooksContextType = ReturnType<typeof useNotebookStore>;
+
+const _NotebooksContext = createContext<NotebooksContextType | undefined>(undefined);
+
+export const NotebooksProvider = ({ children }: { children: ReactNode }) => {
+    const { user } = useAuth();
+    const notebooksValue = useNotebookStore(user?.id ?? null);
+
+    return (
+        <_NotebooksContext.Provider value={notebooksValue}>
+            {children}
+        </_NotebooksContext.Provider>
+    );
+};
+
+export const useNotebooks = () => {
+    const context = useContext(_NotebooksContext);
+    if (!context) {
+        throw new Error('useNotebooks must be used within NotebooksProvider');
+    }
+    return context;
+};
+
+export default function NotebooksContextFile() {
+    return null; // This component will never be rendered as a route
+}
@@ -0,0 +1,36 @@
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useNoteSync } from '@/hooks/useNoteSync';
+import { useNoteRealtime } from '@/hooks/useNoteRealtime';
+import { useAuth } from '@/contexts/_AuthContext';
+import type { RealtimeStatus } from '@/services/realtime';
+
+type SyncContextType = ReturnType<typeof useNoteSync> & {
+    realtimeStatus: RealtimeStatus;
+};
+
+const _SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const SyncProvider = ({ children }: { children: ReactNode }) => {
+    const { isSignedIn, user } = useAuth();
+    const syncValue = useNoteSync(isSignedIn);
+    // ✅ Each (re)subscribe runs a sync to pick up changes made while the stream was down
+    const realtimeStatus = useNoteRealtime(isSignedIn ? user?.id : null, syncValue.syncNow);
+
+    return (
+        <_SyncContext.Provider value={{ ...syncValue, realtimeStatus }}>
+            {children}
+        </_SyncContext.Provider>
+    );
+};
+
+export const useSync = () => {
+    const context = useContext(_SyncContext);
+    if (!context) {
+        throw new Error('useSync must be used within SyncProvider');
+    }
+    return context;
+};
+
+export default function SyncContextFile() {
+    return null; // This component will never be rendered as a route
+}
@@ -0,0 +1,61 @@
+import React, { createContext, useContext, useCallback, ReactNode } from 'react';
+import { useTagColorStore } from '@/hooks/useTagColorStore';
+import { useAuth } from '@/contexts/_AuthContext';
+import { useTheme } from '@/contexts/_ThemeContext';
+import { tagPalette, type TagColorName } from '@/config/theme';
+import { getTagAncestors } from '@/utils/tags';
+
+type TagColorsContextType = ReturnType<typeof useTagColorStore>;
+
+const _TagColorsContext = createContext<TagColorsContextType | undefined>(undefined);
+
+export const TagColorsProvider = ({ children }: { children: ReactNode }) => {
+    const { user } = useAuth();
+    const tagColorsValue = useTagColorStore(user?.id ?? null);
+
+    return (
+        <_TagColorsContext.Provider value={tagColorsValue}>
+            {children}
+        </_TagColorsContext.Provider>
+    );
+};
+
+export const useTagColors = () => {
+    const context = useContext(_TagColorsContext);
+    if (!context) {
+        throw new Error('useTagColors must be used within TagColorsProvider');
+    }
+
+    const { isDark, theme } = useTheme();
+    const { colors } = context;
+
+    // Nested tags without a color of their own take the nearest parent's
+    const getColorName = useCallback((tag: string): TagColorName | null => {
+        if (colors[tag]) {
+            return colors[tag];
+        }
+        const parent = getTagAncestors(tag).reverse().find(ancestor => colors[ancestor]);
+        return parent ? colors[parent] : null;
+    }, [colors]);
+
+    // Hex for the current theme, or null when the tag has no color
+    const getTagColor = useCallback((tag: string) => {
+        const name = getColorName(tag);
+        return name ? tagPalette[name][isDark ? 'dark' : 'light'] : null;
+    }, [getColorName, isDark]);
+
+    // A note's accent comes from its first colored tag
+    const getNoteAccent = useCallback((tags: string[] | null | undefined) => {
+        for (const tag of tags ?? []) {
+            const color = getTagColor(tag);
+            if (color) return color;
+        }
+        return theme.colors.primary;
+    }, [getTagColor, theme.colors.primary]);
+
+    return { ...context, getColorName, getTagColor, getNoteAccent };
+};
+
+export default function TagColorsContextFile() {
+    return null; // This component will never be rendered as a route
+}
@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { getSession, onAuthStateChange, signIn, signOut, signUp } from '@/services/auth';
+
+export const useAuthSession = () => {
+    const [session, setSession] = useState<Session | null>(null);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    // Restore persisted session, then follow sign-in / sign-out / token refresh events
+    useEffect(() => {
+        let mounted = true;
+
+        const restoreSession = async () => {
+            try {
+                const restored = await getSession();
+                if (mounted) {
+                    setSession(restored);
+                }
+            } catch (error) {
+                console.log('Error restoring session:', error);
+            } finally {
+                if (mounted) {
+                    setIsLoaded(true);
+                }
+            }
+        };
+
+        restoreSession();
+
+        const unsubscribe = onAuthStateChange((nextSession) => {
+            if (mounted) {
+                setSession(nextSession);
+                setIsLoaded(true);
+            }
+        });
+
+        return () => {
+            mounted = false;
+            unsubscribe();
+        };
+    }, []);
+
+    return {
+        session,
+        user: session?.user ?? null,
+        isSignedIn: !!session,
+        isLoaded,
+        signIn,
+        signUp,
+        signOut,
+    };
+};
@@ -0,0 +1,8 @@
+import { useMemo } from 'react';
+import { useNoteCounts } from '@/hooks/useNotesCache';
+
+// Every tag in use, archived notes included, kept current as notes change
+export const useExistingTags = () => {
+    const { counts } = useNoteCounts(true);
+    return useMemo(() => Object.keys(counts.tagUsage), [counts]);
+};
@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import type { NativeSyntheticEvent, TextInputSelectionChangeEventData } from 'react-native';
+import type { TextSelection } from '@/utils/markdown';
+
+// Wires a body TextInput to the MarkdownToolbar.
+// The input's selection is only controlled right after a toolbar action, so typing is never fought over.
+export function useMarkdownEditor(value: string, onChangeValue: (value: string) => void) {
+    const [selection, setSelection] = useState<TextSelection>({ start: value.length, end: value.length });
+    const [forcedSelection, setForcedSelection] = useState<TextSelection | undefined>(undefined);
+
+    const onToolbarChange = (nextValue: string, nextSelection: TextSelection) => {
+        onChangeValue(nextValue);
+        setSelection(nextSelection);
+        setForcedSelection(nextSelection);
+    };
+
+    const onSelectionChange = (event: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+        setSelection(event.nativeEvent.selection);
+        setForcedSelection(undefined);
+    };
+
+    return {
+        toolbarProps: { value, selection, onChange: onToolbarChange },
+        inputProps: { selection: forcedSelection, onSelectionChange },
+    };
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import {
+    clearDraft,
+    getDraft,
+    isDraftUnchanged,
+    saveDraft,
+    type DraftFields,
+    type NoteDraft,
+} from '@/services/drafts';
+
+// Typing is written out after a short pause, and at once when the app leaves the foreground
+const SAVE_DELAY_MS = 500;
+
+// Keeps an editor's unsaved text on the device so it survives the app being killed.
+// `saved` is the copy the editor started from (null while it loads); a draft left over from
+// last time is returned as `draft` until the screen restores or discards it.
+export const useNoteDraft = (
+    noteId: string | undefined,
+    current: DraftFields,
+    saved: DraftFields | null,
+    baseUpdatedAt: string | null = null
+) => {
+    const [draft, setDraft] = useState<NoteDraft | null>(null);
+    const [checked, setChecked] = useState(false);
+
+    const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const pendingWrite = useRef<(() => Promise<void>) | null>(null);
+
+    // Compared by value, so callers can pass fresh objects on every render
+    const currentKey = JSON.stringify(current);
+    const savedKey = saved ? JSON.stringify(saved) : null;
+    const ready = !!noteId && savedKey !== null;
+
+    // The saved copy only matters for the first check; later reloads must not bring the prompt back
+    const savedKeyRef = useRef(savedKey);
+    savedKeyRef.current = savedKey;
+
+    const cancel = useCallback(() => {
+        if (timer.current) {
+            clearTimeout(timer.current);
+            timer.current = null;
+        }
+        pendingWrite.current = null;
+    }, []);
+
+    const flush = useCallback(() => {
+        const write = pendingWrite.current;
+        cancel();
+        write?.().catch(error => console.log('Error saving draft:', error));
+    }, [cancel]);
+
+    // ✅ Offer what was left from last time before anything is written over it
+    useEffect(() => {
+        setChecked(false);
+        setDraft(null);
+        if (!noteId || !ready) return;
+
+        let active = true;
+        getDraft(noteId)
+            .then(found => {
+                if (!active) return;
+                const savedCopy = savedKeyRef.current;
+                if (found && savedCopy && !isDraftUnchanged(found, JSON.parse(savedCopy))) {
+                    setDraft(found);
+                }
+                setChecked(true);
+            })
+            .catch(error => {
+                console.log('Error checking for a draft:', error);
+                if (active) setChecked(true);
+            });
+
+        return () => {
+            active = false;
+        };
+    }, [noteId, ready]);
+
+    useEffect(() => {
+        if (!noteId || !checked || draft || !savedKey) return;
+
+        const fields: DraftFields = JSON.parse(currentKey);
+        pendingWrite.current = isDraftUnchanged(fields, JSON.parse(savedKey))
+            ? () => clearDraft(noteId)
+            : () => saveDraft(noteId, {
+                ...fields,
+                saved_at: new Date().toISOString(),
+                base_updated_at: baseUpdatedAt,
+                base: JSON.parse(savedKey),
+            });
+
+        if (timer.current) clearTimeout(timer.current);
+        timer.current = setTimeout(flush, SAVE_DELAY_MS);
+    }, [noteId, checked, draft, currentKey, savedKey, baseUpdatedAt, flush]);
+
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', nextState => {
+            if (nextState !== 'active') flush();
+        });
+        return () => {
+            subscription.remove();
+            flush();
+        };
+    }, [flush]);
+
+    // Hands the leftover draft to the screen, which puts it back in the fields
+    const restore = useCallback(() => {
+        const restored = draft;
+        setDraft(null);
+        return restored;
+    }, [draft]);
+
+    const discard = useCallback(async () => {
+        setDraft(null);
+        if (!noteId) return;
+        await clearDraft(noteId).catch(error => console.log('Error discarding draft:', error));
+    }, [noteId]);
+
+    // After a successful save, or when the user chooses to throw their changes away
+    const clear = useCallback(async () => {
+        cancel();
+        if (!noteId) return;
+        await clearDraft(noteId).catch(error => console.log('Error clearing draft:', error));
+    }, [noteId, cancel]);
+
+    return { draft, restore, discard, clear };
+};
@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { FilterOptions } from '@/components/FilterModal';
+import { useAuth } from '@/contexts/_AuthContext';
+import { useSync } from '@/contexts/_SyncContext';
+import { listNotesPage as listLocalNotesPage, listPendingNotes, subscribeToNotes } from '@/services/localNotes';
+import { listNotesPage as listRemoteNotesPage, type Note } from '@/services/notes';
+import { getNotesCache } from '@/services/notesCache';
+import { mergePendingPage, NOTES_PAGE_SIZE, type NotesCursor, type NotesPage } from '@/utils/notePages';
+
+// The notes list, one page at a time. Pages come from the server while online, with local edits that
+// wait to be pushed laid over them; offline, the notes on the device are paged the same way.
+export const useNotePages = (filters: FilterOptions, enabled = true) => {
+    const { isOnline } = useSync();
+    const remote = isOnline;
+    const userId = useAuth().user?.id;
+    const cache = useMemo(() => (userId ? getNotesCache(userId) : null), [userId]);
+
+    // The first page of each filter set is cached, so coming back to a filter shows it at once
+    const firstPageKey = `page:${remote ? 'remote' : 'local'}:${JSON.stringify(filters)}`;
+
+    const [notes, setNotes] = useState<Note[]>([]);
+    const [total, setTotal] = useState(0);
+    const [cursor, setCursor] = useState<NotesCursor | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Responses to a request that has since been replaced are dropped
+    const requestId = useRef(0);
+    const loadedCount = useRef(0);
+
+    const fetchPage = useCallback(async (from: NotesCursor | null, limit: number) => {
+        if (!remote) return listLocalNotesPage(filters, from, limit);
+
+        const [page, pending] = await Promise.all([listRemoteNotesPage(filters, from, limit), listPendingNotes()]);
+        return mergePendingPage(page, pending, filters, from);
+    }, [remote, filters]);
+
+    const showPage = useCallback((page: NotesPage) => {
+        loadedCount.current = page.notes.length;
+        setNotes(page.notes);
+        setCursor(page.nextCursor);
+        setTotal(page.total ?? page.notes.length);
+    }, []);
+
+    // New filters start over from the first page, showing any cached copy while it reloads
+    useEffect(() => {
+        loadedCount.current = 0;
+        const cached = cache?.peek<NotesPage>(firstPageKey);
+        if (cached) {
+            showPage(cached);
+            setLoading(false);
+        }
+    }, [cache, firstPageKey, showPage]);
+
+    // Reloads from the top, keeping as many notes as were already loaded so the list doesn't shrink
+    const reload = useCallback(async () => {
+        if (!enabled) return;
+
+        const request = ++requestId.current;
+        const limit = Math.max(NOTES_PAGE_SIZE, loadedCount.current);
+        try {
+            // Only a plain first page is shared; a longer reload is particular to this list
+            const page = cache && limit === NOTES_PAGE_SIZE
+                ? await cache.fetch(firstPageKey, () => fetchPage(null, limit))
+                : await fetchPage(null, limit);
+            if (request !== requestId.current) return;
+
+            showPage(page);
+            setError(null);
+        } catch (err) {
+            console.error('Error loading notes:', err);
+            if (request === requestId.current) {
+                setError(err instanceof Error ? err.message : 'Failed to load notes');
+            }
+        } finally {
+            if (request === requestId.current) {
+                setLoading(false);
+            }
+        }
+    }, [enabled, cache, firstPageKey, fetchPage, showPage]);
+
+    const loadMore = useCallback(async () => {
+        if (!enabled || !cursor || loadingMore) return;
+
+        const request = requestId.current;
+        setLoadingMore(true);
+        try {
+            const page = await fetchPage(cursor, NOTES_PAGE_SIZE);
+            if (request !== requestId.current) return;
+
+            setNotes(prev => {
+                const seen = new Set(prev.map(note => note.id));
+                const next = [...prev, ...page.notes.filter(note => !seen.has(note.id))];
+                loadedCount.current = next.length;
+                return next;
+            });
+            setCursor(page.nextCursor);
+            if (page.total !== null) setTotal(page.total);
+        } catch (err) {
+            console.error('Error loading more notes:', err);
+        } finally {
+            setLoadingMore(false);
+        }
+    }, [enabled, cursor, loadingMore, fetchPage]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    // ✅ Local writes and pulled changes refresh the loaded pages in place
+    useEffect(() => {
+        if (!enabled) return;
+        return subscribeToNotes(() => {
+            reload();
+        });
+    }, [enabled, reload]);
+
+    return {
+        notes,
+        total,
+        loading,
+        loadingMore,
+        hasMore: cursor !== null,
+        error,
+        reload,
+        loadMore,
+    };
+};
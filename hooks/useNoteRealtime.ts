@@ -0,0 +1,52 @@
+import { useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { createNoteRealtime, type RealtimeStatus } from '@/services/realtime';
+
+// Live note changes while the app is in the foreground. The subscription is dropped in the
+// background and made again on return; `onSubscribed` catches up on what was missed meanwhile.
+export const useNoteRealtime = (userId: string | null | undefined, onSubscribed: () => void) => {
+    const [status, setStatus] = useState<RealtimeStatus>('idle');
+
+    const onSubscribedRef = useRef(onSubscribed);
+    onSubscribedRef.current = onSubscribed;
+
+    useEffect(() => {
+        if (!userId) return;
+
+        const realtime = createNoteRealtime(userId, {
+            onStatus: setStatus,
+            onSubscribed: () => onSubscribedRef.current(),
+        });
+
+        if (AppState.currentState !== 'background') {
+            realtime.start();
+        }
+
+        const appStateSubscription = AppState.addEventListener('change', nextState => {
+            if (nextState === 'active') {
+                realtime.start();
+            } else if (nextState === 'background') {
+                realtime.stop();
+            }
+        });
+
+        // ✅ Don't sit out the backoff once the network is back
+        let wasOnline = true;
+        const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+            const online = !!state.isConnected && state.isInternetReachable !== false;
+            if (online && !wasOnline) {
+                realtime.reconnect();
+            }
+            wasOnline = online;
+        });
+
+        return () => {
+            appStateSubscription.remove();
+            unsubscribeNetInfo();
+            realtime.stop();
+        };
+    }, [userId]);
+
+    return status;
+};
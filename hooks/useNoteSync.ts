@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Alert, AppState } from 'react-native';
+import { router } from 'expo-router';
+import NetInfo from '@react-native-community/netinfo';
+import { countPendingChanges, subscribeToNotes } from '@/services/localNotes';
+import { syncNotes } from '@/services/sync';
+import { purgeExpiredTrash } from '@/services/trash';
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+// Local writes are batched briefly before they are pushed
+const PUSH_DELAY_MS = 1000;
+
+export const useNoteSync = (enabled: boolean) => {
+    const [isOnline, setIsOnline] = useState(true);
+    const [status, setStatus] = useState<SyncStatus>('idle');
+    const [pendingCount, setPendingCount] = useState(0);
+    const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+    const [lastError, setLastError] = useState<string | null>(null);
+
+    const isOnlineRef = useRef(true);
+    const pushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const hasPurgedTrash = useRef(false);
+
+    const syncNow = useCallback(async () => {
+        if (!enabled) return;
+
+        if (!isOnlineRef.current) {
+            setStatus('offline');
+            return;
+        }
+
+        setStatus('syncing');
+        const result = await syncNotes().catch((error: Error) => ({
+            pushed: 0,
+            pulled: 0,
+            pending: 0,
+            conflicts: 0,
+            rolledBack: 0,
+            error: error.message,
+        }));
+
+        setPendingCount(result.pending);
+
+        // ✅ Optimistic edits the server refused have been undone; say so rather than let them vanish
+        if (result.rolledBack > 0) {
+            Alert.alert(
+                'Changes Not Saved',
+                result.rolledBack === 1
+                    ? 'A change could not be saved to your account and was undone on this device.'
+                    : `${result.rolledBack} changes could not be saved to your account and were undone on this device.`,
+                [
+                    { text: 'OK', style: 'cancel' },
+                    { text: 'Review', onPress: () => router.push('/unsaved') },
+                ]
+            );
+        }
+        setLastError(result.error);
+        if (result.error) {
+            setStatus(isOnlineRef.current ? 'error' : 'offline');
+        } else {
+            setStatus('idle');
+            setLastSyncedAt(new Date().toISOString());
+
+            // ✅ Once per session, drop trashed notes past the retention period
+            if (!hasPurgedTrash.current) {
+                hasPurgedTrash.current = true;
+                purgeExpiredTrash().catch(error => console.log('Error purging trash:', error));
+            }
+        }
+    }, [enabled]);
+
+    // A new sign-in gets its own purge pass
+    useEffect(() => {
+        if (!enabled) {
+            hasPurgedTrash.current = false;
+        }
+    }, [enabled]);
+
+    // ✅ Sync when connectivity returns
+    useEffect(() => {
+        if (!enabled) return;
+
+        const unsubscribe = NetInfo.addEventListener(state => {
+            const online = !!state.isConnected && state.isInternetReachable !== false;
+            const cameOnline = online && !isOnlineRef.current;
+
+            isOnlineRef.current = online;
+            setIsOnline(online);
+
+            if (!online) {
+                setStatus('offline');
+            } else if (cameOnline) {
+                syncNow();
+            }
+        });
+
+        return unsubscribe;
+    }, [enabled, syncNow]);
+
+    // ✅ Sync on launch and whenever the app comes back to the foreground
+    useEffect(() => {
+        if (!enabled) return;
+
+        syncNow();
+
+        const subscription = AppState.addEventListener('change', nextState => {
+            if (nextState === 'active') {
+                syncNow();
+            }
+        });
+
+        return () => subscription.remove();
+    }, [enabled, syncNow]);
+
+    // ✅ Push local writes shortly after they happen
+    useEffect(() => {
+        if (!enabled) return;
+
+        const unsubscribe = subscribeToNotes(async () => {
+            const pending = await countPendingChanges().catch(() => 0);
+            setPendingCount(pending);
+
+            if (pending > 0 && isOnlineRef.current) {
+                if (pushTimer.current) clearTimeout(pushTimer.current);
+                pushTimer.current = setTimeout(syncNow, PUSH_DELAY_MS);
+            }
+        });
+
+        return () => {
+            unsubscribe();
+            if (pushTimer.current) clearTimeout(pushTimer.current);
+        };
+    }, [enabled, syncNow]);
+
+    return {
+        isOnline,
+        status,
+        pendingCount,
+        lastSyncedAt,
+        lastError,
+        syncNow,
+    };
+};
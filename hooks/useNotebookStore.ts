@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    listNotebooks,
+    createNotebook,
+    renameNotebook,
+    deleteNotebook,
+    type Notebook,
+} from '@/services/notes';
+
+const cacheKey = (userId: string) => `notebooks:${userId}`;
+
+// Notebooks for the signed-in user, cached on the device so navigation works offline
+export const useNotebookStore = (userId: string | null) => {
+    const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+
+    const applyNotebooks = useCallback((next: Notebook[]) => {
+        setNotebooks(next);
+        if (userId) {
+            AsyncStorage.setItem(cacheKey(userId), JSON.stringify(next))
+                .catch(error => console.log('Error caching notebooks:', error));
+        }
+    }, [userId]);
+
+    const reload = useCallback(async () => {
+        if (!userId) return;
+        try {
+            applyNotebooks(await listNotebooks());
+        } catch (error) {
+            // Keep the cached list, e.g. while offline
+            console.log('Error loading notebooks:', error);
+        }
+    }, [userId, applyNotebooks]);
+
+    useEffect(() => {
+        setNotebooks([]);
+        if (!userId) return;
+
+        let cancelled = false;
+        (async () => {
+            try {
+                const cached = await AsyncStorage.getItem(cacheKey(userId));
+                if (cached && !cancelled) {
+                    setNotebooks(JSON.parse(cached));
+                }
+            } catch (error) {
+                console.log('Error reading cached notebooks:', error);
+            }
+            if (!cancelled) {
+                reload();
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, reload]);
+
+    const addNotebook = useCallback(async (name: string) => {
+        const created = await createNotebook(name, notebooks.length);
+        applyNotebooks([...notebooks, created]);
+        return created;
+    }, [notebooks, applyNotebooks]);
+
+    const editNotebook = useCallback(async (id: string, name: string) => {
+        const updated = await renameNotebook(id, name);
+        applyNotebooks(notebooks.map(notebook => (notebook.id === id ? updated : notebook)));
+        return updated;
+    }, [notebooks, applyNotebooks]);
+
+    const removeNotebook = useCallback(async (id: string) => {
+        await deleteNotebook(id);
+        applyNotebooks(notebooks.filter(notebook => notebook.id !== id));
+    }, [notebooks, applyNotebooks]);
+
+    return { notebooks, reload, addNotebook, editNotebook, removeNotebook };
+};
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAuth } from '@/contexts/_AuthContext';
+import { useSync } from '@/contexts/_SyncContext';
+import { listArchivedNotes, listFailedChanges, listNotes, listPendingNotes, type FailedChange, type PendingNote } from '@/services/localNotes';
+import { getNotesCache, LOCAL_KEY_PREFIX, REMOTE_KEY_PREFIX } from '@/services/notesCache';
+import { getNoteCounts, listArchivedNotes as listRemoteArchivedNotes, type Note } from '@/services/notes';
+import { applyPendingCounts, countNotes, type NoteCounts } from '@/utils/noteCounts';
+
+// Cached data for `key` right away, refetched when missing, invalidated or older than maxAgeMs.
+// A null key reads nothing.
+export const useCachedQuery = <T>(key: string | null, fetcher: () => Promise<T>, maxAgeMs = Infinity) => {
+    const userId = useAuth().user?.id;
+    const cache = useMemo(() => (userId ? getNotesCache(userId) : null), [userId]);
+
+    const [data, setData] = useState<T | undefined>(() => (cache && key ? cache.peek<T>(key) : undefined));
+    const [error, setError] = useState<string | null>(null);
+
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
+
+    const refresh = useCallback(async () => {
+        if (!cache || !key) return undefined;
+        try {
+            const result = await cache.fetch(key, () => fetcherRef.current());
+            setError(null);
+            return result;
+        } catch (err) {
+            console.error(`Error loading ${key}:`, err);
+            setError(err instanceof Error ? err.message : 'Failed to load');
+            return undefined;
+        }
+    }, [cache, key]);
+
+    useEffect(() => {
+        if (!cache || !key) {
+            setData(undefined);
+            return;
+        }
+
+        setData(cache.peek<T>(key));
+        const revalidate = () => {
+            setData(cache.peek<T>(key));
+            if (cache.isStale(key, maxAgeMs)) {
+                refresh();
+            }
+        };
+
+        const unsubscribe = cache.subscribe(key, revalidate);
+        revalidate();
+        return unsubscribe;
+    }, [cache, key, maxAgeMs, refresh]);
+
+    return {
+        data,
+        loading: data === undefined && !error && !!key,
+        error,
+        refresh,
+    };
+};
+
+// ✅ Every live note on the device, archived ones included; one copy shared by all screens.
+// That is the recent notes plus any opened since, not the whole account.
+export const useLocalNotes = () => {
+    const query = useCachedQuery<Note[]>(`${LOCAL_KEY_PREFIX}notes`, () => listNotes({ includeArchived: true }));
+    const notes = useMemo(() => query.data ?? [], [query.data]);
+    return { ...query, notes };
+};
+
+// Notes with changes the server hasn't seen yet
+export const usePendingNotes = () => {
+    const query = useCachedQuery<PendingNote[]>(`${LOCAL_KEY_PREFIX}pending`, listPendingNotes);
+    const pendingNotes = useMemo(() => query.data ?? [], [query.data]);
+    return { ...query, pendingNotes };
+};
+
+// ✅ From the server while online, with archives and restores not pushed yet applied on top;
+// offline, the archived notes on the device
+export const useArchivedNotes = () => {
+    const { isOnline } = useSync();
+    const { pendingNotes } = usePendingNotes();
+    const query = useCachedQuery<Note[]>(
+        isOnline ? `${REMOTE_KEY_PREFIX}archived` : `${LOCAL_KEY_PREFIX}archived`,
+        isOnline ? listRemoteArchivedNotes : listArchivedNotes
+    );
+
+    const notes = useMemo(() => {
+        const fetched = query.data ?? [];
+        if (!isOnline || pendingNotes.length === 0) return fetched;
+
+        const pendingIds = new Set(pendingNotes.map(pending => pending.note.id));
+        const archived = pendingNotes.map(pending => pending.note).filter(note => !note.deleted_at && !!note.archived_at);
+        return [...fetched.filter(note => !pendingIds.has(note.id)), ...archived]
+            .sort((a, b) => new Date(b.archived_at!).getTime() - new Date(a.archived_at!).getTime());
+    }, [query.data, isOnline, pendingNotes]);
+
+    return { ...query, notes };
+};
+
+// ✅ Tag and notebook counts over the whole account while online, counting edits not pushed yet
+// as they are on the device; offline, over the notes the device holds
+export const useNoteCounts = (includeArchived = false) => {
+    const { isOnline } = useSync();
+    const { notes, loading: localLoading } = useLocalNotes();
+    const { pendingNotes } = usePendingNotes();
+    const { data: serverCounts, loading: serverLoading } = useCachedQuery<NoteCounts>(
+        isOnline ? `${REMOTE_KEY_PREFIX}counts:${includeArchived ? 'all' : 'live'}` : null,
+        () => getNoteCounts({ includeArchived }),
+        30 * 1000
+    );
+
+    const counts = useMemo(() => {
+        if (isOnline && serverCounts) return applyPendingCounts(serverCounts, pendingNotes, includeArchived);
+        return countNotes(includeArchived ? notes : notes.filter(note => !note.archived_at));
+    }, [isOnline, serverCounts, pendingNotes, includeArchived, notes]);
+
+    return { counts, loading: isOnline ? serverLoading : localLoading };
+};
+
+// Changes the server refused, with the copies they carried
+export const useFailedChanges = () => {
+    const query = useCachedQuery<FailedChange[]>(`${LOCAL_KEY_PREFIX}failed`, listFailedChanges);
+    const changes = useMemo(() => query.data ?? [], [query.data]);
+    return { ...query, changes };
+};
+
@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import { DEFAULT_FILTERS, type FilterOptions } from '@/components/FilterModal';
+import {
+    listSavedViews,
+    createSavedView,
+    updateSavedView,
+    deleteSavedView,
+    reorderSavedViews,
+    type SavedView,
+    type SavedViewInput,
+} from '@/services/savedViews';
+
+// Fields added to FilterOptions after a view was saved fall back to their defaults
+export const getViewFilters = (view: SavedView): FilterOptions => ({ ...DEFAULT_FILTERS, ...view.filters });
+
+// Order of keys and of selected tags doesn't matter
+const filtersKey = (filters: FilterOptions) =>
+    JSON.stringify(
+        Object.entries(filters)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+    );
+
+export const isViewActive = (view: SavedView, query: string, filters: FilterOptions) =>
+    view.query === query.trim() && filtersKey(getViewFilters(view)) === filtersKey(filters);
+
+export const useSavedViews = () => {
+    const [views, setViews] = useState<SavedView[]>([]);
+
+    const reload = useCallback(async () => {
+        try {
+            setViews(await listSavedViews());
+        } catch (error) {
+            // Keep the chips we already have, e.g. while offline
+            console.log('Error loading saved views:', error);
+        }
+    }, []);
+
+    const saveView = useCallback(async (input: SavedViewInput) => {
+        const created = await createSavedView(input, views.length);
+        setViews(prev => [...prev, created]);
+        return created;
+    }, [views.length]);
+
+    const editView = useCallback(async (id: string, patch: Partial<SavedViewInput>) => {
+        const updated = await updateSavedView(id, patch);
+        setViews(prev => prev.map(view => (view.id === id ? updated : view)));
+        return updated;
+    }, []);
+
+    const removeView = useCallback(async (id: string) => {
+        await deleteSavedView(id);
+        setViews(prev => prev.filter(view => view.id !== id));
+    }, []);
+
+    // ✅ Reorder right away and put it back if the server rejects it
+    const moveView = useCallback(async (id: string, offset: -1 | 1) => {
+        const index = views.findIndex(view => view.id === id);
+        const target = index + offset;
+        if (index === -1 || target < 0 || target >= views.length) return;
+
+        const previous = views;
+        const reordered = [...views];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setViews(reordered.map((view, position) => ({ ...view, position })));
+
+        try {
+            await reorderSavedViews(reordered.map(view => view.id));
+        } catch (error) {
+            setViews(previous);
+            throw error;
+        }
+    }, [views]);
+
+    return { views, reload, saveView, editView, removeView, moveView };
+};
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { TagColorName } from '@/config/theme';
+import { listTagColors, setTagColor, type TagColors } from '@/services/tagColors';
+
+const cacheKey = (userId: string) => `tagColors:${userId}`;
+
+// Tag colors for the signed-in user, cached on the device so they show offline
+export const useTagColorStore = (userId: string | null) => {
+    const [colors, setColors] = useState<TagColors>({});
+    const colorsRef = useRef<TagColors>({});
+
+    const applyColors = useCallback(async (next: TagColors) => {
+        colorsRef.current = next;
+        setColors(next);
+        if (userId) {
+            await AsyncStorage.setItem(cacheKey(userId), JSON.stringify(next))
+                .catch(error => console.log('Error caching tag colors:', error));
+        }
+    }, [userId]);
+
+    const reload = useCallback(async () => {
+        if (!userId) return;
+        try {
+            await applyColors(await listTagColors());
+        } catch (error) {
+            console.log('Error loading tag colors:', error);
+        }
+    }, [userId, applyColors]);
+
+    useEffect(() => {
+        colorsRef.current = {};
+        setColors({});
+        if (!userId) return;
+
+        let cancelled = false;
+        (async () => {
+            try {
+                const cached = await AsyncStorage.getItem(cacheKey(userId));
+                if (cached && !cancelled) {
+                    colorsRef.current = JSON.parse(cached);
+                    setColors(colorsRef.current);
+                }
+            } catch (error) {
+                console.log('Error reading cached tag colors:', error);
+            }
+            if (!cancelled) {
+                reload();
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, reload]);
+
+    // ✅ Optimistic; the previous colors come back if the server rejects the change
+    const updateColor = useCallback(async (tag: string, color: TagColorName | null) => {
+        const previous = colorsRef.current;
+        const next = { ...previous };
+        if (color) {
+            next[tag] = color;
+        } else {
+            delete next[tag];
+        }
+
+        await applyColors(next);
+        try {
+            await setTagColor(tag, color);
+        } catch (error) {
+            await applyColors(previous);
+            throw error;
+        }
+    }, [applyColors]);
+
+    return { colors, reload, updateColor };
+};
@@ -0,0 +1,151 @@
+import { createLocalNoteStore, type KeyValueStorage } from '../localNotes';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+const createMemoryStorage = (): KeyValueStorage => {
+    const items = new Map<string, string>();
+    return {
+        getItem: async (key) => items.get(key) ?? null,
+        setItem: async (key, value) => {
+            items.set(key, value);
+        },
+    };
+};
+
+// Storage whose reads wait until the test lets them finish, latest first
+function createSlowStorage() {
+    const items = new Map<string, string>();
+    const pendingReads: (() => void)[] = [];
+
+    const storage: KeyValueStorage = {
+        getItem: (key) => new Promise(resolve => {
+            pendingReads.push(() => resolve(items.get(key) ?? null));
+        }),
+        setItem: async (key, value) => {
+            items.set(key, value);
+        },
+    };
+
+    return {
+        storage,
+        finishReads() {
+            pendingReads.splice(0).reverse().forEach(finish => finish());
+        },
+    };
+}
+
+describe('createLocalNoteStore', () => {
+    it('loads once when the first reads overlap a write', async () => {
+        const { storage, finishReads } = createSlowStorage();
+        const getItem = jest.spyOn(storage, 'getItem');
+        const store = createLocalNoteStore(storage, 'user-1');
+
+        const listing = store.listNotes();
+        const created = store.createNote({ title: 'Early', body: '' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        finishReads();
+
+        const note = await created;
+        await listing;
+
+        expect(getItem).toHaveBeenCalledTimes(1);
+        expect(await store.listNotes()).toEqual([note]);
+        expect(await store.getPendingChanges()).toHaveLength(1);
+    });
+
+    it('retries a load that failed', async () => {
+        const storage: KeyValueStorage = {
+            getItem: jest.fn()
+                .mockRejectedValueOnce(new Error('Storage unavailable'))
+                .mockResolvedValue(null),
+            setItem: jest.fn(async () => undefined),
+        };
+        const store = createLocalNoteStore(storage, 'user-1');
+
+        await expect(store.listNotes()).rejects.toThrow('Storage unavailable');
+        await expect(store.listNotes()).resolves.toEqual([]);
+    });
+
+    it('leaves notes and the outbox as they were when a write fails', async () => {
+        const storage = createMemoryStorage();
+        const store = createLocalNoteStore(storage, 'user-1');
+        const note = await store.createNote({ title: 'Saved', body: '' });
+
+        jest.spyOn(storage, 'setItem').mockRejectedValueOnce(new Error('Disk full'));
+
+        await expect(store.updateNote(note.id, { title: 'Lost' })).rejects.toThrow('Disk full');
+        expect(await store.getNote(note.id)).toMatchObject({ title: 'Saved' });
+        expect(await store.getPendingChanges()).toEqual([expect.objectContaining({ type: 'create', revision: 0 })]);
+
+        // ✅ A fresh store over the same storage sees the same thing
+        const reopened = createLocalNoteStore(storage, 'user-1');
+        expect(await reopened.getNote(note.id)).toMatchObject({ title: 'Saved' });
+    });
+
+    it('keeps a trashed note archived', async () => {
+        const store = createLocalNoteStore(createMemoryStorage(), 'user-1');
+        const note = await store.createNote({ title: 'Old', body: '' });
+        const archived = await store.updateNote(note.id, { archived_at: '2026-01-01T00:00:00.000Z' });
+        // Pretend it reached the server, so deleting it is a soft delete
+        await store.resolveChange((await store.getPendingChanges())[0].id, 1, archived);
+
+        await store.deleteNote(note.id);
+
+        expect(await store.getStoredNote(note.id)).toMatchObject({
+            archived_at: '2026-01-01T00:00:00.000Z',
+            deleted_at: expect.any(String),
+        });
+        expect(await store.listArchivedNotes()).toEqual([]);
+    });
+
+    it('does not count ticking a checklist item off as an edit', async () => {
+        const store = createLocalNoteStore(createMemoryStorage(), 'user-1');
+        const note = await store.createNote({ title: 'Shopping', body: '- [ ] milk\n- [ ] eggs' });
+
+        const ticked = await store.updateNote(note.id, { body: '- [x] milk\n- [ ] eggs' });
+        const edited = await store.updateNote(note.id, { body: '- [x] oat milk\n- [ ] eggs' });
+
+        expect(ticked.edit_count).toBe(0);
+        expect(edited.edit_count).toBe(1);
+    });
+
+    it('keeps notes read from the server, but never over a newer copy or a pending edit', async () => {
+        const store = createLocalNoteStore(createMemoryStorage(), 'user-1');
+        const listener = jest.fn();
+        store.subscribe(listener);
+
+        const mine = await store.createNote({ title: 'Mine', body: '' });
+        const pushed = { ...mine, title: 'Pushed', updated_at: '2026-03-02T09:00:00.000Z' };
+        const fetched = { ...mine, id: 'from-server', title: 'Older note', updated_at: '2026-03-01T09:00:00.000Z' };
+        listener.mockClear();
+
+        expect(await store.cacheNotes([pushed, fetched])).toBe(1);
+        expect(await store.getNote('from-server')).toMatchObject({ title: 'Older note' });
+        expect(await store.getNote(mine.id)).toMatchObject({ title: 'Mine' });
+
+        // ✅ The same notes again change nothing, so nobody is told to reload
+        listener.mockClear();
+        expect(await store.cacheNotes([{ ...fetched, title: 'Stale' }])).toBe(0);
+        expect(listener).not.toHaveBeenCalled();
+        expect(await store.getNote('from-server')).toMatchObject({ title: 'Older note' });
+    });
+
+    it('lists notes with pending changes next to the server copy they started from', async () => {
+        const store = createLocalNoteStore(createMemoryStorage(), 'user-1');
+        const note = await store.createNote({ title: 'Synced', body: '' });
+        const saved = { ...note, updated_at: '2026-03-02T09:00:00.000Z' };
+        await store.resolveChange((await store.getPendingChanges())[0].id, 0, saved);
+        const created = await store.createNote({ title: 'New', body: '' });
+
+        await store.updateNote(note.id, { title: 'Renamed' });
+        await store.updateNote(note.id, { body: 'and edited' });
+
+        expect(await store.listPendingNotes()).toEqual([
+            { note: created, serverCopy: null },
+            { note: expect.objectContaining({ title: 'Renamed', body: 'and edited' }), serverCopy: saved },
+        ]);
+    });
+});
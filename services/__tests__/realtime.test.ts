@@ -0,0 +1,94 @@
+import { createNoteRealtime } from '../realtime';
+import { supabase } from '../supabase';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase', () => ({
+    supabase: {
+        channel: jest.fn(),
+        removeChannel: jest.fn(),
+    },
+}));
+
+type StatusCallback = (status: string, error?: Error) => void;
+
+const channel = supabase.channel as jest.Mock;
+const removeChannel = supabase.removeChannel as jest.Mock;
+
+// Each channel() call hands out a fake channel whose subscribe callback the test drives
+function fakeChannels() {
+    const callbacks: StatusCallback[] = [];
+    channel.mockImplementation(() => {
+        const fake = {
+            on: () => fake,
+            subscribe: (callback: StatusCallback) => {
+                callbacks.push(callback);
+                return fake;
+            },
+        };
+        return fake;
+    });
+    return callbacks;
+}
+
+const flush = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    channel.mockReset();
+    removeChannel.mockReset();
+});
+
+describe('createNoteRealtime', () => {
+    it('waits for the old channel to be removed before subscribing again', async () => {
+        const callbacks = fakeChannels();
+        let finishRemoval: () => void = () => undefined;
+        removeChannel.mockImplementation(() => new Promise<void>(resolve => {
+            finishRemoval = resolve;
+        }));
+        const onStatus = jest.fn();
+        const realtime = createNoteRealtime('user-1', { onStatus, onSubscribed: jest.fn() });
+
+        realtime.start();
+        await flush();
+        expect(channel).toHaveBeenCalledTimes(1);
+
+        callbacks[0]('CHANNEL_ERROR');
+        expect(removeChannel).toHaveBeenCalledTimes(1);
+        expect(onStatus).toHaveBeenLastCalledWith('reconnecting');
+
+        jest.runOnlyPendingTimers();
+        await flush();
+        expect(channel).toHaveBeenCalledTimes(1);
+
+        finishRemoval();
+        await flush();
+        expect(channel).toHaveBeenCalledTimes(2);
+
+        callbacks[1]('SUBSCRIBED');
+        expect(onStatus).toHaveBeenLastCalledWith('live');
+
+        realtime.stop();
+    });
+
+    it('does not subscribe after being stopped while the old channel was leaving', async () => {
+        fakeChannels();
+        removeChannel.mockResolvedValue('ok');
+        const realtime = createNoteRealtime('user-1', { onStatus: jest.fn(), onSubscribed: jest.fn() });
+
+        realtime.start();
+        await flush();
+        realtime.reconnect();
+        realtime.stop();
+        await flush();
+
+        expect(channel).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,353 @@
+import { createLocalNoteStore, type KeyValueStorage } from '../localNotes';
+import { NoteConflictError, NoteRejectedError, type Note } from '../notes';
+import { createSyncEngine, INITIAL_PULL_LIMIT, PULL_OVERLAP_MS, PULL_PAGE_SIZE, type SyncBackend } from '../sync';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+const USER_ID = 'user-1';
+
+const createMemoryStorage = (): KeyValueStorage => {
+    const items = new Map<string, string>();
+    return {
+        getItem: async (key) => items.get(key) ?? null,
+        setItem: async (key, value) => {
+            items.set(key, value);
+        },
+    };
+};
+
+// The notes table in memory: every write gets a later updated_at, like the database trigger
+function createMemoryBackend() {
+    const notes = new Map<string, Note>();
+    const refused = new Set<string>();
+    let clock = Date.now();
+    let online = true;
+
+    const stamp = () => new Date(++clock).toISOString();
+
+    const reach = (id?: string) => {
+        if (!online) throw new Error('Network request failed');
+        if (id && refused.has(id)) throw new NoteRejectedError('new row violates row-level security policy', '42501');
+    };
+
+    const backend: SyncBackend = {
+        createNote: jest.fn(async (note: Note) => {
+            reach(note.id);
+            const saved = { ...note, created_at: stamp(), updated_at: new Date(clock).toISOString() };
+            notes.set(note.id, saved);
+            return saved;
+        }),
+        updateNote: jest.fn(async (id, patch, options) => {
+            reach(id);
+            const current = notes.get(id);
+            if (!current) throw new NoteRejectedError('Note not found', 'PGRST116');
+            if (options.expectedUpdatedAt && options.expectedUpdatedAt !== current.updated_at) {
+                throw new NoteConflictError(current);
+            }
+            const saved = { ...current, ...patch, edit_count: options.editCount ?? current.edit_count + 1, updated_at: stamp() };
+            notes.set(id, saved);
+            return saved;
+        }),
+        deleteNote: jest.fn(async (id) => {
+            reach(id);
+            const current = notes.get(id);
+            if (current) notes.set(id, { ...current, deleted_at: stamp(), updated_at: new Date(clock).toISOString() });
+        }),
+        listChangesSince: jest.fn(async (since, after, limit) => {
+            reach();
+            return [...notes.values()]
+                .filter(note => note.updated_at > since)
+                .sort((a, b) => a.updated_at.localeCompare(b.updated_at) || a.id.localeCompare(b.id))
+                .filter(note => !after || note.updated_at > after.updated_at || (note.updated_at === after.updated_at && note.id > after.id))
+                .slice(0, limit);
+        }),
+        listRecentNotes: jest.fn(async (limit) => {
+            reach();
+            return [...notes.values()]
+                .filter(note => !note.deleted_at)
+                .sort((a, b) => b.updated_at.localeCompare(a.updated_at) || b.id.localeCompare(a.id))
+                .slice(0, limit);
+        }),
+    };
+
+    return {
+        backend,
+        notes,
+        setOnline(value: boolean) {
+            online = value;
+        },
+        refuse(id: string) {
+            refused.add(id);
+        },
+        // A save made on another device
+        edit(id: string, patch: Partial<Note>) {
+            const saved = { ...notes.get(id)!, ...patch, updated_at: stamp() };
+            notes.set(id, saved);
+            return saved;
+        },
+    };
+}
+
+// A note saved on another device before this one signed in
+const makeServerNote = (id: string): Note => ({
+    id,
+    user_id: USER_ID,
+    title: id,
+    body: '',
+    tags: null,
+    created_at: '2026-03-01T09:00:00.000Z',
+    updated_at: '2026-03-01T09:00:00.000Z',
+    deleted_at: null,
+    edit_count: 0,
+    notebook_id: null,
+    pinned: false,
+    favorite: false,
+    archived_at: null,
+});
+
+function setup(storage = createMemoryStorage()) {
+    const server = createMemoryBackend();
+    const store = createLocalNoteStore(storage, USER_ID);
+    const engine = createSyncEngine(store, server.backend);
+    return { server, store, engine, storage };
+}
+
+beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('createSyncEngine', () => {
+    it('queues changes made offline and pushes them once back online', async () => {
+        const { server, store, engine } = setup();
+        server.setOnline(false);
+
+        const note = await store.createNote({ title: 'Offline', body: 'written on the train' });
+        const offline = await engine.sync();
+
+        expect(offline).toMatchObject({ pushed: 0, pending: 1, error: 'Network request failed' });
+        expect(server.notes.size).toBe(0);
+        expect(await store.getNote(note.id)).toMatchObject({ title: 'Offline' });
+
+        server.setOnline(true);
+        const online = await engine.sync();
+
+        expect(online).toMatchObject({ pushed: 1, pending: 0, error: null });
+        expect(server.notes.get(note.id)).toMatchObject({ title: 'Offline', body: 'written on the train' });
+    });
+
+    it('folds edits to an unpushed note into its create', async () => {
+        const { server, store, engine } = setup();
+
+        const note = await store.createNote({ title: 'Draft', body: 'first' });
+        await store.updateNote(note.id, { body: 'second' });
+
+        expect(await store.getPendingChanges()).toEqual([expect.objectContaining({ type: 'create', revision: 1 })]);
+
+        await engine.sync();
+
+        expect(server.backend.createNote).toHaveBeenCalledTimes(1);
+        expect(server.backend.updateNote).not.toHaveBeenCalled();
+        expect(server.notes.get(note.id)).toMatchObject({ title: 'Draft', body: 'second' });
+    });
+
+    it('drops a note deleted before it was ever pushed', async () => {
+        const { server, store, engine } = setup();
+
+        const note = await store.createNote({ title: 'Oops', body: '' });
+        await store.deleteNote(note.id);
+
+        expect(await store.getPendingChanges()).toEqual([]);
+
+        const result = await engine.sync();
+
+        expect(result).toMatchObject({ pushed: 0, pending: 0 });
+        expect(server.backend.createNote).not.toHaveBeenCalled();
+        expect(server.backend.deleteNote).not.toHaveBeenCalled();
+    });
+
+    it('marks a conflict when the note changed on the server since the edit began', async () => {
+        const { server, store, engine } = setup();
+
+        const note = await store.createNote({ title: 'Shared', body: 'v1' });
+        await engine.sync();
+
+        const theirs = server.edit(note.id, { body: 'their v2' });
+        await store.updateNote(note.id, { body: 'my v2' });
+        const result = await engine.sync();
+
+        expect(server.backend.updateNote).toHaveBeenCalledWith(
+            note.id,
+            { body: 'my v2' },
+            expect.objectContaining({ expectedUpdatedAt: expect.any(String) })
+        );
+        expect(result).toMatchObject({ conflicts: 1, pending: 0 });
+        expect(await store.getConflict(note.id)).toMatchObject({ serverNote: theirs, baseNote: { body: 'v1' } });
+        expect(server.notes.get(note.id)).toMatchObject({ body: 'their v2' });
+        expect(await store.getNote(note.id)).toMatchObject({ body: 'my v2' });
+    });
+
+    it('rolls back a change the server refuses', async () => {
+        const { server, store, engine } = setup();
+
+        const note = await store.createNote({ title: 'Kept', body: 'original' });
+        await engine.sync();
+
+        server.refuse(note.id);
+        await store.updateNote(note.id, { title: 'Refused' });
+        const result = await engine.sync();
+
+        expect(result).toMatchObject({ rolledBack: 1, pending: 0, error: null });
+        expect(await store.getNote(note.id)).toMatchObject({ title: 'Kept', body: 'original' });
+    });
+
+    it('rolls back a refused create by removing the note', async () => {
+        const { server, store, engine } = setup();
+
+        const note = await store.createNote({ title: 'Never saved', body: '' });
+        server.refuse(note.id);
+        const result = await engine.sync();
+
+        expect(result).toMatchObject({ rolledBack: 1, pending: 0 });
+        await expect(store.getNote(note.id)).rejects.toThrow('Note not found');
+    });
+
+    it('keeps a refused change so its content can be saved as a new note or discarded', async () => {
+        const { server, store, engine } = setup();
+
+        const first = await store.createNote({ title: 'Kept', body: 'original', tags: ['work'] });
+        const second = await store.createNote({ title: 'Other', body: '' });
+        await engine.sync();
+
+        server.refuse(first.id);
+        server.refuse(second.id);
+        await store.updateNote(first.id, { body: 'my refused edit' });
+        await store.updateNote(second.id, { title: 'Refused too' });
+        await engine.sync();
+
+        const failed = await store.getFailedChanges();
+        expect(failed).toEqual([
+            expect.objectContaining({ noteId: first.id, rejectedCopy: expect.objectContaining({ body: 'my refused edit' }) }),
+            expect.objectContaining({ noteId: second.id, rejectedCopy: expect.objectContaining({ title: 'Refused too' }) }),
+        ]);
+
+        const recovered = await store.recoverFailedChange(failed[0].id, null);
+
+        expect(recovered.id).not.toBe(first.id);
+        expect(recovered).toMatchObject({ title: 'Kept', body: 'my refused edit', tags: ['work'] });
+        expect(await store.getNote(first.id)).toMatchObject({ body: 'original' });
+
+        await store.discardFailedChange(failed[1].id);
+
+        expect(await store.getFailedChanges()).toEqual([]);
+        await engine.sync();
+        expect(server.notes.get(recovered.id)).toMatchObject({ body: 'my refused edit' });
+    });
+
+    it('pulls only what changed since the last pull, across restarts', async () => {
+        const storage = createMemoryStorage();
+        const first = setup(storage);
+
+        const note = await first.store.createNote({ title: 'Mine', body: '' });
+        await first.engine.sync();
+        const lastPulledAt = await first.store.getLastPulledAt();
+
+        expect(lastPulledAt).toBe(first.server.notes.get(note.id)!.updated_at);
+
+        // ✅ A fresh store and engine over the same storage, as after an app restart
+        const store = createLocalNoteStore(storage, USER_ID);
+        const engine = createSyncEngine(store, first.server.backend);
+        first.server.edit(note.id, { title: 'Renamed elsewhere' });
+
+        const result = await engine.sync();
+
+        expect(first.server.backend.listChangesSince).toHaveBeenLastCalledWith(
+            new Date(new Date(lastPulledAt!).getTime() - PULL_OVERLAP_MS).toISOString(),
+            null,
+            PULL_PAGE_SIZE
+        );
+        expect(result.pulled).toBe(1);
+        expect(await store.getNote(note.id)).toMatchObject({ title: 'Renamed elsewhere' });
+        expect(await store.getLastPulledAt()).toBe(first.server.notes.get(note.id)!.updated_at);
+    });
+
+    it('picks up a save that landed just behind the last pull, and skips notes it already has', async () => {
+        const { server, store, engine } = setup();
+
+        const note = await store.createNote({ title: 'Seen', body: '' });
+        await engine.sync();
+        const lastPulledAt = await store.getLastPulledAt();
+
+        // ✅ Committed late, with an updated_at from before the last pull
+        const late = {
+            ...server.notes.get(note.id)!,
+            id: 'late-note',
+            title: 'Late',
+            updated_at: new Date(new Date(lastPulledAt!).getTime() - 1000).toISOString(),
+        };
+        server.notes.set(late.id, late);
+
+        const result = await engine.sync();
+
+        expect(result.pulled).toBe(1);
+        expect(await store.getNote(late.id)).toMatchObject({ title: 'Late' });
+        expect(await store.getLastPulledAt()).toBe(lastPulledAt);
+    });
+
+    it('starts a new device with the most recently changed notes only', async () => {
+        const { server, store, engine } = setup();
+        const older = { ...makeServerNote('older'), updated_at: '2026-03-01T09:00:00.000Z' };
+        server.notes.set(older.id, older);
+        for (let i = 0; i < INITIAL_PULL_LIMIT; i++) {
+            const note = makeServerNote(`recent-${String(i).padStart(3, '0')}`);
+            server.notes.set(note.id, { ...note, updated_at: new Date(Date.UTC(2026, 3, 1, 0, 0, i)).toISOString() });
+        }
+
+        const result = await engine.sync();
+
+        expect(server.backend.listChangesSince).not.toHaveBeenCalled();
+        expect(result.pulled).toBe(INITIAL_PULL_LIMIT);
+        expect(await store.getStoredNote(older.id)).toBeUndefined();
+        expect(await store.getLastPulledAt()).toBe(new Date(Date.UTC(2026, 3, 1, 0, 0, INITIAL_PULL_LIMIT - 1)).toISOString());
+
+        // ✅ Later pulls pick up changes to notes the device skipped
+        server.edit(older.id, { title: 'Edited elsewhere' });
+        await engine.sync();
+
+        expect(await store.getStoredNote(older.id)).toMatchObject({ title: 'Edited elsewhere' });
+    });
+
+    it('pulls a page at a time, without skipping notes saved together', async () => {
+        const { server, store, engine } = setup();
+
+        const note = await store.createNote({ title: 'First', body: '' });
+        await engine.sync();
+
+        // ✅ One bulk save on the server: every note gets the same updated_at
+        const savedAt = new Date(new Date(server.notes.get(note.id)!.updated_at).getTime() + 1000).toISOString();
+        const count = PULL_PAGE_SIZE * 2 + 1;
+        for (let i = 0; i < count; i++) {
+            const bulk = makeServerNote(`bulk-${String(i).padStart(3, '0')}`);
+            server.notes.set(bulk.id, { ...bulk, updated_at: savedAt });
+        }
+
+        const result = await engine.sync();
+
+        // The note pushed above comes back in the overlap, so the pages end at bulk-098 and bulk-198
+        expect(server.backend.listChangesSince).toHaveBeenCalledTimes(3);
+        expect(server.backend.listChangesSince).toHaveBeenLastCalledWith(
+            expect.any(String),
+            { updated_at: savedAt, id: 'bulk-198' },
+            PULL_PAGE_SIZE
+        );
+        expect(result.pulled).toBe(count);
+        expect(await store.getStoredNote('bulk-200')).toBeDefined();
+        expect(await store.getLastPulledAt()).toBe(savedAt);
+    });
+});
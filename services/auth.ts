@@ -0,0 +1,95 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type Credentials = {
+    email: string;
+    password: string;
+};
+
+function normalizeCredentials(input: Credentials) {
+    const email = input.email.trim().toLowerCase();
+    const password = input.password;
+
+    if (!email) {
+        throw new Error('Email is required');
+    }
+    if (!password) {
+        throw new Error('Password is required');
+    }
+
+    return { email, password };
+}
+
+export async function signUp(input: Credentials) {
+    const credentials = normalizeCredentials(input);
+
+    if (credentials.password.length < 6) {
+        throw new Error('Password must be at least 6 characters');
+    }
+
+    const { data, error } = await supabase.auth.signUp(credentials);
+
+    if (error) {
+        console.error('signUp error:', error);
+        throw new Error(error.message || 'Failed to create account');
+    }
+
+    // When email confirmation is enabled Supabase returns a user without a session
+    return { session: data.session, needsConfirmation: !data.session };
+}
+
+export async function signIn(input: Credentials) {
+    const credentials = normalizeCredentials(input);
+
+    const { data, error } = await supabase.auth.signInWithPassword(credentials);
+
+    if (error) {
+        console.error('signIn error:', error);
+        throw new Error(error.message || 'Failed to sign in');
+    }
+
+    return data.session;
+}
+
+export async function signOut() {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+        console.error('signOut error:', error);
+        throw new Error(error.message || 'Failed to sign out');
+    }
+
+    return true;
+}
+
+// Restores the session persisted in AsyncStorage by the Supabase client
+export async function getSession(): Promise<Session | null> {
+    const { data, error } = await supabase.auth.getSession();
+
+    if (error) {
+        console.error('getSession error:', error);
+        throw new Error(error.message || 'Failed to restore session');
+    }
+
+    return data.session;
+}
+
+export function onAuthStateChange(callback: (session: Session | null) => void) {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+        callback(session);
+    });
+
+    return () => data.subscription.unsubscribe();
+}
+
+// Every notes query is scoped to the signed-in user
+export async function requireUserId() {
+    const session = await getSession();
+    const userId = session?.user.id;
+
+    if (!userId) {
+        throw new Error('You must be signed in');
+    }
+
+    return userId;
+}
@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { requireUserId } from './auth';
+
+// The parts of a note an editor can change
+export type DraftFields = {
+    title: string;
+    body: string;
+    tags: string[];
+    notebook_id: string | null;
+};
+
+export type NoteDraft = DraftFields & {
+    saved_at: string;
+    // updated_at of the note when editing started; null for a new note
+    base_updated_at: string | null;
+    // The saved fields at that updated_at, to merge against if the note changed since (missing in older drafts)
+    base?: DraftFields | null;
+};
+
+// Drafts for notes that haven't been created yet share this id
+export const NEW_NOTE_DRAFT_ID = 'new';
+
+export const EMPTY_DRAFT_FIELDS: DraftFields = { title: '', body: '', tags: [], notebook_id: null };
+
+const draftKey = (userId: string, noteId: string) => `noteDraft:${userId}:${noteId}`;
+
+// Whitespace at either end is trimmed on save, so it doesn't make a draft worth keeping
+export function isDraftUnchanged(draft: DraftFields, saved: DraftFields) {
+    return (
+        draft.title.trim() === saved.title.trim() &&
+        draft.body.trim() === saved.body.trim() &&
+        draft.notebook_id === saved.notebook_id &&
+        [...draft.tags].sort().join('\n') === [...saved.tags].sort().join('\n')
+    );
+}
+
+export async function getDraft(noteId: string) {
+    const userId = await requireUserId();
+
+    try {
+        const saved = await AsyncStorage.getItem(draftKey(userId, noteId));
+        return saved ? (JSON.parse(saved) as NoteDraft) : null;
+    } catch (error) {
+        console.log('Error loading draft:', error);
+        return null;
+    }
+}
+
+export async function saveDraft(noteId: string, draft: NoteDraft) {
+    const userId = await requireUserId();
+    await AsyncStorage.setItem(draftKey(userId, noteId), JSON.stringify(draft));
+}
+
+export async function clearDraft(noteId: string) {
+    const userId = await requireUserId();
+    await AsyncStorage.removeItem(draftKey(userId, noteId));
+}
@@ -0,0 +1,626 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { requireUserId } from './auth';
+import { getNote as fetchNote, NoteConflictError, type ListNotesOptions, type Note, type UpdateOptions } from './notes';
+import type { FilterOptions } from '@/components/FilterModal';
+import { isChecklistOnlyChange } from '@/utils/markdown';
+import { NOTES_PAGE_SIZE, paginateNotes, type NotesCursor } from '@/utils/notePages';
+import { normalizeNoteInput } from '@/utils/noteValidation';
+
+// Minimal storage contract so the store can run on AsyncStorage or an in-memory map
+export type KeyValueStorage = {
+    getItem: (key: string) => Promise<string | null>;
+    setItem: (key: string, value: string) => Promise<void>;
+};
+
+export type ContentField = 'title' | 'body' | 'tags';
+export type NoteField = ContentField | 'notebook_id' | 'pinned' | 'favorite' | 'archived_at';
+
+const CONTENT_FIELDS: NoteField[] = ['title', 'body', 'tags'];
+const NOTE_FIELDS: NoteField[] = [...CONTENT_FIELDS, 'notebook_id', 'pinned', 'favorite', 'archived_at'];
+
+export type PendingChange = {
+    id: string;
+    type: 'create' | 'update' | 'delete';
+    noteId: string;
+    fields?: NoteField[]; // Only for updates: which fields to push
+    baseUpdatedAt?: string; // Only for updates: server version the edit started from
+    base?: Note; // Only for updates: that server version itself, for a three-way merge if it conflicts
+    serverCopy?: Note | null; // Latest known server version, put back if the server refuses the change; null before the first push
+    revision: number; // Bumped whenever later edits are folded into this change
+    queuedAt: string;
+    attempts: number;
+    lastError?: string;
+};
+
+// A change the server refused (or that kept failing); the local copy it carried is kept so nothing is lost
+export type FailedChange = PendingChange & {
+    rejectedCopy?: Note;
+};
+
+export type NoteConflict = {
+    serverNote: Note;
+    baseNote?: Note; // The version both sides started from; missing for conflicts recorded without one
+    detectedAt: string;
+};
+
+export type LocalNotesState = {
+    notes: Record<string, Note>;
+    outbox: PendingChange[];
+    failed: FailedChange[];
+    conflicts: Record<string, NoteConflict>;
+    lastPulledAt: string | null;
+};
+
+// A note with changes still waiting to be pushed, next to the server's copy it started from
+export type PendingNote = {
+    note: Note; // soft-deleted when the pending change is a delete
+    serverCopy: Note | null; // null for notes the server has never seen
+};
+
+export type NewNoteInput = { title: string; body: string; tags?: string[] | null; notebook_id?: string | null };
+
+export type ConflictResolution = 'theirs' | Pick<Note, ContentField>;
+
+const emptyState = (): LocalNotesState => ({
+    notes: {},
+    outbox: [],
+    failed: [],
+    conflicts: {},
+    lastPulledAt: null,
+});
+
+// RFC 4122 v4 id so offline creates can be inserted into the UUID primary key as-is
+export function createId() {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+        const random = (Math.random() * 16) | 0;
+        const value = char === 'x' ? random : (random & 0x3) | 0x8;
+        return value.toString(16);
+    });
+}
+
+export function createLocalNoteStore(storage: KeyValueStorage, userId: string) {
+    const storageKey = `notesStore:${userId}`;
+    const listeners = new Set<() => void>();
+    let loading: Promise<LocalNotesState> | null = null;
+    let writeQueue: Promise<unknown> = Promise.resolve();
+
+    // Every caller shares one read, so a slow first load can't overwrite a write made meanwhile
+    const load = () => {
+        loading ??= storage.getItem(storageKey).then(
+            saved => (saved ? { ...emptyState(), ...JSON.parse(saved) } : emptyState()),
+            error => {
+                loading = null; // try again next time
+                throw error;
+            }
+        );
+        return loading;
+    };
+
+    // Writes run one at a time so UI edits and sync passes never interleave
+    const mutate = <T>(apply: (current: LocalNotesState) => T): Promise<T> => {
+        const run = writeQueue.then(async () => {
+            // ✅ Work on a copy and swap it in only once it is stored, so a failed write changes nothing
+            const next: LocalNotesState = JSON.parse(JSON.stringify(await load()));
+            const result = apply(next);
+            await storage.setItem(storageKey, JSON.stringify(next));
+            loading = Promise.resolve(next);
+            listeners.forEach(listener => listener());
+            return result;
+        });
+        writeQueue = run.catch(() => undefined);
+        return run;
+    };
+
+    const enqueue = (current: LocalNotesState, change: Omit<PendingChange, 'id' | 'queuedAt' | 'attempts' | 'revision'>) => {
+        current.outbox.push({
+            ...change,
+            id: createId(),
+            revision: 0,
+            queuedAt: new Date().toISOString(),
+            attempts: 0,
+        });
+    };
+
+    // The server copy recorded by an earlier change to the note, if any is still queued
+    const findServerCopy = (current: LocalNotesState, noteId: string) =>
+        current.outbox.find(change => change.noteId === noteId && change.serverCopy !== undefined)?.serverCopy;
+
+    // Server copies of notes; returns how many notes changed on the device
+    const storeRemoteNotes = (current: LocalNotesState, remoteNotes: Note[]) => {
+        let applied = 0;
+
+        remoteNotes.forEach(remote => {
+            // Keep the other side of an open conflict current
+            if (current.conflicts[remote.id]) {
+                current.conflicts[remote.id].serverNote = remote;
+                return;
+            }
+
+            // Already have this version, from the overlap with the previous pull
+            if (current.notes[remote.id]?.updated_at === remote.updated_at) {
+                return;
+            }
+
+            // Local edits that are still queued win until they are pushed;
+            // the server copy is kept in case one of them is refused
+            const pending = current.outbox.filter(change => change.noteId === remote.id);
+            if (pending.length > 0) {
+                pending.forEach(change => {
+                    if (change.serverCopy !== undefined) change.serverCopy = remote;
+                });
+            } else {
+                current.notes[remote.id] = remote;
+                applied += 1;
+            }
+        });
+
+        return applied;
+    };
+
+    // ✅ Drop a change for good. Its optimistic edit is rolled back to the server copy,
+    // unless later changes to the same note still build on it.
+    const setAside = (current: LocalNotesState, change: PendingChange, message: string) => {
+        current.outbox = current.outbox.filter(item => item.id !== change.id);
+        current.failed.push({ ...change, lastError: message, rejectedCopy: current.notes[change.noteId] });
+
+        const stillPending = current.outbox.some(item => item.noteId === change.noteId);
+        if (stillPending || change.serverCopy === undefined) return;
+
+        if (change.serverCopy === null) {
+            delete current.notes[change.noteId];
+        } else {
+            current.notes[change.noteId] = change.serverCopy;
+        }
+    };
+
+    const applyUpdate = (current: LocalNotesState, note: Note, patch: Partial<Pick<Note, NoteField>>) => {
+        const fields = NOTE_FIELDS.filter(field => patch[field] !== undefined);
+        const checklistOnly = fields.length === 1 && patch.body !== undefined && isChecklistOnlyChange(note.body, patch.body.trim());
+        const contentChanged = !checklistOnly && fields.some(field => CONTENT_FIELDS.includes(field));
+
+        const updated: Note = {
+            ...note,
+            ...(patch.title !== undefined && { title: patch.title.trim() }),
+            ...(patch.body !== undefined && { body: patch.body.trim() }),
+            ...(patch.tags !== undefined && { tags: patch.tags }),
+            ...(patch.notebook_id !== undefined && { notebook_id: patch.notebook_id }),
+            ...(patch.pinned !== undefined && { pinned: patch.pinned }),
+            ...(patch.favorite !== undefined && { favorite: patch.favorite }),
+            ...(patch.archived_at !== undefined && { archived_at: patch.archived_at }),
+            // Moving, pinning, starring, archiving or ticking off a checklist item isn't an edit
+            ...(contentChanged && { edit_count: (note.edit_count ?? 0) + 1 }),
+            updated_at: new Date().toISOString(),
+        };
+        current.notes[note.id] = updated;
+
+        // ✅ Coalesce with a change that has not been pushed yet
+        const pending = current.outbox.find(change => change.noteId === note.id && change.type !== 'delete');
+        if (pending?.type === 'update') {
+            pending.fields = Array.from(new Set([...(pending.fields ?? []), ...fields]));
+            pending.revision += 1;
+        } else if (pending) {
+            pending.revision += 1;
+        } else {
+            // Nothing queued, so the stored copy is the server version this edit builds on
+            enqueue(current, { type: 'update', noteId: note.id, fields, baseUpdatedAt: note.updated_at, base: note, serverCopy: note });
+        }
+
+        return updated;
+    };
+
+    // A new note, queued for its first push
+    const insertNote = (current: LocalNotesState, input: NewNoteInput) => {
+        // ✅ Same rules as the server, so a note that could never sync is refused here
+        const values = normalizeNoteInput(input);
+        const now = new Date().toISOString();
+        const note: Note = {
+            id: createId(),
+            user_id: userId,
+            title: values.title,
+            body: values.body,
+            tags: values.tags ?? null,
+            created_at: now,
+            updated_at: now,
+            deleted_at: null,
+            edit_count: 0,
+            notebook_id: input.notebook_id ?? null,
+            pinned: false,
+            favorite: false,
+            archived_at: null,
+        };
+
+        current.notes[note.id] = note;
+        enqueue(current, { type: 'create', noteId: note.id, serverCopy: null });
+        return note;
+    };
+
+    const requireLiveNote = (current: LocalNotesState, id: string) => {
+        if (!id) {
+            throw new Error('Note ID is required');
+        }
+        const note = current.notes[id];
+        if (!note || note.deleted_at) {
+            throw new Error('Note not found');
+        }
+        return note;
+    };
+
+    return {
+        async listNotes(options: ListNotesOptions = {}) {
+            const current = await load();
+            return Object.values(current.notes)
+                .filter(note => !note.deleted_at && (options.includeArchived || !note.archived_at))
+                .sort((a, b) =>
+                    Number(!!b.pinned) - Number(!!a.pinned) ||
+                    new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+                );
+        },
+
+        async listNotesPage(filters: FilterOptions, cursor: NotesCursor | null = null, limit = NOTES_PAGE_SIZE) {
+            const current = await load();
+            const live = Object.values(current.notes).filter(note => !note.deleted_at);
+            return paginateNotes(live, filters, cursor, limit);
+        },
+
+        async listArchivedNotes() {
+            const current = await load();
+            return Object.values(current.notes)
+                .filter(note => !note.deleted_at && !!note.archived_at)
+                .sort((a, b) => new Date(b.archived_at!).getTime() - new Date(a.archived_at!).getTime());
+        },
+
+        async getNote(id: string) {
+            return requireLiveNote(await load(), id);
+        },
+
+        // Includes soft-deleted notes; used by the sync engine
+        async getStoredNote(id: string): Promise<Note | undefined> {
+            return (await load()).notes[id];
+        },
+
+        createNote(input: NewNoteInput) {
+            return mutate(current => insertNote(current, input));
+        },
+
+        updateNote(id: string, patch: Partial<Pick<Note, NoteField>>, options: UpdateOptions = {}) {
+            return mutate(current => {
+                const values = normalizeNoteInput(patch);
+                const note = requireLiveNote(current, id);
+
+                // ✅ Reject edits made against a copy that has since changed or is already in conflict
+                const conflict = current.conflicts[id];
+                if (conflict) {
+                    throw new NoteConflictError(conflict.serverNote);
+                }
+                if (options.expectedUpdatedAt && options.expectedUpdatedAt !== note.updated_at) {
+                    throw new NoteConflictError(note);
+                }
+
+                return applyUpdate(current, note, values);
+            });
+        },
+
+        deleteNote(id: string) {
+            return mutate(current => {
+                const note = requireLiveNote(current, id);
+                const pendingCreate = current.outbox.find(change => change.noteId === id && change.type === 'create');
+
+                // A note that never reached the server can simply be forgotten
+                if (pendingCreate) {
+                    current.outbox = current.outbox.filter(change => change.noteId !== id);
+                    delete current.notes[id];
+                    return true;
+                }
+
+                // archived_at is kept, so restoring the note puts it back in the archive
+                const serverCopy = findServerCopy(current, id);
+                current.notes[id] = { ...note, deleted_at: new Date().toISOString() };
+                enqueue(current, { type: 'delete', noteId: id, serverCopy: serverCopy !== undefined ? serverCopy : note });
+                return true;
+            });
+        },
+
+        async getPendingChanges() {
+            return [...(await load()).outbox];
+        },
+
+        // ✅ Notes the server doesn't have as they are on the device yet, so server results can be patched with them
+        async listPendingNotes(): Promise<PendingNote[]> {
+            const current = await load();
+            const noteIds = [...new Set(current.outbox.map(change => change.noteId))];
+            return noteIds
+                .filter(noteId => current.notes[noteId])
+                .map(noteId => ({ note: current.notes[noteId], serverCopy: findServerCopy(current, noteId) ?? null }));
+        },
+
+        async getLastPulledAt() {
+            return (await load()).lastPulledAt;
+        },
+
+        async getConflict(id: string): Promise<NoteConflict | null> {
+            return (await load()).conflicts[id] ?? null;
+        },
+
+        // Called by the sync engine once the server accepted a change
+        resolveChange(changeId: string, pushedRevision: number, serverNote?: Note) {
+            return mutate(current => {
+                const change = current.outbox.find(item => item.id === changeId);
+                if (!change) return;
+
+                // Edits folded in while the push was in flight still need to go out
+                if (change.revision !== pushedRevision && change.type !== 'delete' && serverNote) {
+                    change.type = 'update';
+                    change.fields = [...NOTE_FIELDS];
+                    change.baseUpdatedAt = serverNote.updated_at;
+                    change.base = serverNote;
+                    change.serverCopy = serverNote;
+                    change.attempts = 0;
+                    return;
+                }
+
+                current.outbox = current.outbox.filter(item => item.id !== changeId);
+
+                const stillPending = current.outbox.some(item => item.noteId === change.noteId);
+                if (serverNote && !stillPending) {
+                    current.notes[serverNote.id] = serverNote;
+                }
+            });
+        },
+
+        // The server rejected an update because another device saved first
+        markConflict(changeId: string, serverNote: Note) {
+            return mutate(current => {
+                const change = current.outbox.find(item => item.id === changeId);
+                if (!change) return;
+
+                current.outbox = current.outbox.filter(item => item.id !== changeId);
+                current.conflicts[change.noteId] = {
+                    serverNote,
+                    baseNote: change.base,
+                    detectedAt: new Date().toISOString(),
+                };
+            });
+        },
+
+        resolveConflict(id: string, resolution: ConflictResolution) {
+            return mutate(current => {
+                const chosen = resolution === 'theirs' ? resolution : normalizeNoteInput(resolution);
+                const conflict = current.conflicts[id];
+
+                // The newer copy came from this device, so there is nothing to reconcile with the server
+                if (!conflict) {
+                    const note = requireLiveNote(current, id);
+                    return chosen === 'theirs' ? note : applyUpdate(current, note, chosen);
+                }
+                delete current.conflicts[id];
+
+                if (chosen === 'theirs') {
+                    current.notes[id] = conflict.serverNote;
+                    return conflict.serverNote;
+                }
+
+                // Keep mine or merged: write it on top of the server version we now know about.
+                // A move, pin, star or archive made on this device is kept along with the content.
+                const local = current.notes[id];
+                const resolved: Note = {
+                    ...conflict.serverNote,
+                    title: chosen.title,
+                    body: chosen.body,
+                    tags: chosen.tags,
+                    notebook_id: local?.notebook_id ?? conflict.serverNote.notebook_id ?? null,
+                    pinned: local?.pinned ?? conflict.serverNote.pinned ?? false,
+                    favorite: local?.favorite ?? conflict.serverNote.favorite ?? false,
+                    archived_at: local ? local.archived_at ?? null : conflict.serverNote.archived_at ?? null,
+                    edit_count: (conflict.serverNote.edit_count ?? 0) + 1,
+                };
+                current.notes[id] = resolved;
+                enqueue(current, {
+                    type: 'update',
+                    noteId: id,
+                    fields: [...NOTE_FIELDS],
+                    baseUpdatedAt: conflict.serverNote.updated_at,
+                    base: conflict.serverNote,
+                    serverCopy: conflict.serverNote,
+                });
+                return resolved;
+            });
+        },
+
+        // Returns true once the change has used up its attempts and was set aside
+        failChange(changeId: string, message: string, maxAttempts: number) {
+            return mutate(current => {
+                const change = current.outbox.find(item => item.id === changeId);
+                if (!change) return false;
+
+                change.attempts += 1;
+                change.lastError = message;
+
+                if (change.attempts >= maxAttempts) {
+                    setAside(current, change, message);
+                    return true;
+                }
+                return false;
+            });
+        },
+
+        // The server refused the change, so retrying won't help
+        rollbackChange(changeId: string, message: string) {
+            return mutate(current => {
+                const change = current.outbox.find(item => item.id === changeId);
+                if (change) {
+                    setAside(current, change, message);
+                }
+            });
+        },
+
+        applyRemoteChanges(remoteNotes: Note[], pulledAt: string | null) {
+            return mutate(current => {
+                const applied = storeRemoteNotes(current, remoteNotes);
+                if (pulledAt) {
+                    current.lastPulledAt = pulledAt;
+                }
+                return applied;
+            });
+        },
+
+        // ✅ Keeps notes read from the server once they are opened, so they open offline later.
+        // Only notes new to the device or newer than its copy are written; anything else changes nothing.
+        async cacheNotes(remoteNotes: Note[]) {
+            const fresh = (current: LocalNotesState) => remoteNotes.filter(remote => {
+                const stored = current.notes[remote.id];
+                if (current.conflicts[remote.id] || current.outbox.some(change => change.noteId === remote.id)) return false;
+                return !stored || new Date(remote.updated_at) > new Date(stored.updated_at);
+            });
+
+            if (fresh(await load()).length === 0) return 0;
+            return mutate(current => storeRemoteNotes(current, fresh(current)));
+        },
+
+        async getFailedChanges() {
+            return [...(await load()).failed];
+        },
+
+        // ✅ Brings back what a refused change carried, as a new note so it can't clash with the server's copy
+        recoverFailedChange(changeId: string, notebookId: string | null) {
+            return mutate(current => {
+                const failed = current.failed.find(item => item.id === changeId);
+                if (!failed?.rejectedCopy) {
+                    throw new Error('Nothing to recover');
+                }
+
+                const { title, body, tags } = failed.rejectedCopy;
+                const note = insertNote(current, { title, body, tags, notebook_id: notebookId });
+                current.failed = current.failed.filter(item => item.id !== changeId);
+                return note;
+            });
+        },
+
+        discardFailedChange(changeId: string) {
+            return mutate(current => {
+                current.failed = current.failed.filter(item => item.id !== changeId);
+            });
+        },
+
+        // Drop local copies of notes that no longer exist on the server
+        forgetNotes(ids: string[]) {
+            return mutate(current => {
+                ids.forEach(id => {
+                    delete current.notes[id];
+                    delete current.conflicts[id];
+                });
+                current.outbox = current.outbox.filter(change => !ids.includes(change.noteId));
+            });
+        },
+
+        subscribe(listener: () => void) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
+
+export type LocalNoteStore = ReturnType<typeof createLocalNoteStore>;
+
+const stores = new Map<string, LocalNoteStore>();
+const changeListeners = new Set<() => void>();
+
+export function getLocalNoteStore(userId: string) {
+    let store = stores.get(userId);
+    if (!store) {
+        store = createLocalNoteStore(AsyncStorage, userId);
+        store.subscribe(() => changeListeners.forEach(listener => listener()));
+        stores.set(userId, store);
+    }
+    return store;
+}
+
+async function currentStore() {
+    return getLocalNoteStore(await requireUserId());
+}
+
+// ✅ Same surface as services/notes.ts, served from the device first
+
+export async function listNotes(options: ListNotesOptions = {}) {
+    return (await currentStore()).listNotes(options);
+}
+
+export async function listNotesPage(filters: FilterOptions, cursor: NotesCursor | null = null, limit = NOTES_PAGE_SIZE) {
+    return (await currentStore()).listNotesPage(filters, cursor, limit);
+}
+
+export async function listArchivedNotes() {
+    return (await currentStore()).listArchivedNotes();
+}
+
+// ✅ Only recent notes are pulled onto the device; one listed from the server is fetched once and kept
+async function storeWithNote(id: string) {
+    const store = await currentStore();
+    if (id && !(await store.getStoredNote(id))) {
+        await store.cacheNotes([await fetchNote(id)]);
+    }
+    return store;
+}
+
+export async function getNote(id: string) {
+    return (await storeWithNote(id)).getNote(id);
+}
+
+export async function cacheNotes(notes: Note[]) {
+    if (notes.length === 0) return 0;
+    return (await currentStore()).cacheNotes(notes);
+}
+
+export async function createNote(input: NewNoteInput) {
+    return (await currentStore()).createNote(input);
+}
+
+export async function updateNote(id: string, patch: Partial<Pick<Note, NoteField>>, options: UpdateOptions = {}) {
+    return (await storeWithNote(id)).updateNote(id, patch, options);
+}
+
+export async function deleteNote(id: string) {
+    return (await storeWithNote(id)).deleteNote(id);
+}
+
+export async function getConflict(id: string) {
+    return (await currentStore()).getConflict(id);
+}
+
+export async function resolveConflict(id: string, resolution: ConflictResolution) {
+    return (await currentStore()).resolveConflict(id, resolution);
+}
+
+export async function forgetNotes(ids: string[]) {
+    if (ids.length === 0) return;
+    return (await currentStore()).forgetNotes(ids);
+}
+
+export async function listFailedChanges() {
+    return (await currentStore()).getFailedChanges();
+}
+
+export async function recoverFailedChange(changeId: string, notebookId: string | null) {
+    return (await currentStore()).recoverFailedChange(changeId, notebookId);
+}
+
+export async function discardFailedChange(changeId: string) {
+    return (await currentStore()).discardFailedChange(changeId);
+}
+
+export async function listPendingNotes() {
+    return (await currentStore()).listPendingNotes();
+}
+
+export async function countPendingChanges() {
+    return (await (await currentStore()).getPendingChanges()).length;
+}
+
+// Notifies on every local write and every batch of pulled changes
+export function subscribeToNotes(listener: () => void) {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+}
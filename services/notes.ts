@@ -1,20 +1,96 @@
 import { supabase } from './supabase';
+import { requireUserId } from './auth';
+import type { FilterOptions } from '@/components/FilterModal';
+import { getDateFilterBounds } from '@/utils/dates';
+import { INBOX_FILTER } from '@/utils/notebooks';
+import { createCursor, getSortKeys, NOTES_PAGE_SIZE, type NotesCursor, type NotesPage, type SortValue } from '@/utils/notePages';
+import type { NoteCounts } from '@/utils/noteCounts';
+import { normalizeNoteInput } from '@/utils/noteValidation';
+import { LONG_NOTE_LENGTH } from '@/utils/searchQuery';
 
 export type Note = {
     id: string;
+    user_id: string;
     title: string;
     body: string;
     tags: string[] | null;
     created_at: string;
     updated_at: string;
     deleted_at: string | null; // ✅ Add this line
+    edit_count: number; // ✅ Content saves, counted by the database
+    notebook_id: string | null; // ✅ null is the Inbox
+    pinned: boolean; // ✅ Shown above every other note
+    favorite: boolean;
+    archived_at: string | null; // ✅ Hidden from the default list, but not trash
 };
 
-export async function listNotes() {
-    const { data, error } = await supabase
+export type Notebook = {
+    id: string;
+    user_id: string;
+    name: string;
+    position: number;
+    created_at: string;
+    updated_at: string;
+};
+
+export const INBOX_NAME = 'Inbox';
+export const MAX_NOTEBOOK_NAME_LENGTH = 40;
+
+// ✅ Thrown when a write was based on an outdated copy of the note
+export class NoteConflictError extends Error {
+    serverNote: Note;
+
+    constructor(serverNote: Note) {
+        super('This note was changed on another device');
+        this.name = 'NoteConflictError';
+        this.serverNote = serverNote;
+    }
+}
+
+// ✅ Thrown when the server answered and refused a write, as opposed to not being reached
+export class NoteRejectedError extends Error {
+    code: string;
+
+    constructor(message: string, code: string) {
+        super(message);
+        this.name = 'NoteRejectedError';
+        this.code = code;
+    }
+}
+
+// PostgREST and Postgres errors carry a code; a request that never reached the server has none
+function noteWriteError(error: { code?: string; message?: string }, fallback: string) {
+    return error.code
+        ? new NoteRejectedError(error.message || fallback, error.code)
+        : new Error(error.message || fallback);
+}
+
+export type UpdateOptions = {
+    // updated_at of the copy the edit started from; stale writes are rejected
+    expectedUpdatedAt?: string;
+    // Edit count after this save; the database adds one when it is omitted
+    editCount?: number;
+};
+
+export type ListNotesOptions = {
+    includeArchived?: boolean;
+};
+
+export async function listNotes(options: ListNotesOptions = {}) {
+    const userId = await requireUserId();
+
+    let query = supabase
         .from('notes')
         .select('*')
-        .is('deleted_at', null) // ✅ Only get non-deleted notes
+        .eq('user_id', userId)
+        .is('deleted_at', null); // ✅ Only get non-deleted notes
+
+    if (!options.includeArchived) {
+        query = query.is('archived_at', null);
+    }
+
+    const { data, error } = await query
+        .order('pinned', { ascending: false }) // ✅ Pinned notes first
         .order('updated_at', { ascending: false });
 
     if (error) {
@@ -25,15 +101,214 @@ export async function listNotes() {
     return (data ?? []) as Note[];
 }
 
+// PostgREST filter values are quoted so commas, dots and parentheses in titles or timestamps stay literal
+function toFilterValue(value: SortValue) {
+    return typeof value === 'string' ? `"${value.replace(/["\\]/g, '\\$&')}"` : String(value);
+}
+
+function toArrayLiteral(values: string[]) {
+    return `{${values.map(toFilterValue).join(',')}}`;
+}
+
+// Rows after the cursor: (k1 past v1) or (k1 = v1 and k2 past v2) or ...
+function buildCursorFilter(cursor: NotesCursor) {
+    const keys = getSortKeys(cursor.sortBy);
+
+    return keys.map((key, index) => {
+        const equal = keys.slice(0, index).map((previous, i) => `${previous.column}.eq.${toFilterValue(cursor.values[i])}`);
+        const past = `${key.column}.${key.ascending ? 'gt' : 'lt'}.${toFilterValue(cursor.values[index])}`;
+        return equal.length > 0 ? `and(${[...equal, past].join(',')})` : past;
+    }).join(',');
+}
+
+// ✅ One page of the notes list, filtered and sorted by the database.
+// Pass the previous page's nextCursor to continue; the total is only counted for the first page.
+export async function listNotesPage(filters: FilterOptions, cursor: NotesCursor | null = null, limit = NOTES_PAGE_SIZE): Promise<NotesPage> {
+    const userId = await requireUserId();
+    const { sortBy } = filters;
+
+    let query = supabase
+        .from('notes')
+        .select('*', cursor ? undefined : { count: 'exact' })
+        .eq('user_id', userId)
+        .is('deleted_at', null);
+
+    if (!filters.includeArchived) {
+        query = query.is('archived_at', null);
+    }
+
+    if (filters.notebook === INBOX_FILTER) {
+        query = query.is('notebook_id', null);
+    } else if (filters.notebook !== null) {
+        query = query.eq('notebook_id', filters.notebook);
+    }
+
+    if (filters.dateFilter !== 'all') {
+        const bounds = getDateFilterBounds(filters.dateFilter, filters.dateRange);
+        if (bounds.start) query = query.gte(filters.dateField, bounds.start.toISOString());
+        if (bounds.end) query = query.lt(filters.dateField, bounds.end.toISOString());
+    }
+
+    // tag_paths holds every tag and its parents, so a parent tag matches the tags nested under it
+    if (filters.selectedTags.length > 0) {
+        if (filters.tagMatch === 'all') {
+            query = query.contains('tag_paths', filters.selectedTags);
+        } else if (filters.tagMatch === 'none') {
+            query = query.not('tag_paths', 'ov', toArrayLiteral(filters.selectedTags));
+        } else {
+            query = query.overlaps('tag_paths', filters.selectedTags);
+        }
+    }
+    if (filters.excludedTags.length > 0) {
+        query = query.not('tag_paths', 'ov', toArrayLiteral(filters.excludedTags));
+    }
+
+    if (filters.withTagsOnly) {
+        query = query.neq('tag_paths', '{}');
+    }
+    if (filters.longNotesOnly) {
+        query = query.gte('body_length', LONG_NOTE_LENGTH);
+    }
+    if (filters.favoritesOnly) {
+        query = query.eq('favorite', true);
+    }
+
+    if (cursor && cursor.sortBy === sortBy) {
+        query = query.or(buildCursorFilter(cursor));
+    }
+
+    getSortKeys(sortBy).forEach(key => {
+        query = query.order(key.column, { ascending: key.ascending });
+    });
+
+    // One extra row tells us whether another page follows
+    const { data, error, count } = await query.limit(limit + 1);
+
+    if (error) {
+        console.error('listNotesPage error:', error);
+        throw new Error(error.message || 'Failed to fetch notes');
+    }
+
+    const rows = (data ?? []) as Note[];
+    const notes = rows.slice(0, limit);
+
+    return {
+        notes,
+        nextCursor: rows.length > limit ? createCursor(notes[notes.length - 1], sortBy) : null,
+        total: count ?? null,
+    };
+}
+
+// ✅ Most recently archived first
+export async function listArchivedNotes() {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notes')
+        .select('*')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .not('archived_at', 'is', null)
+        .order('archived_at', { ascending: false });
+
+    if (error) {
+        console.error('listArchivedNotes error:', error);
+        throw new Error(error.message || 'Failed to fetch archived notes');
+    }
+
+    return (data ?? []) as Note[];
+}
+
+// Live notes carrying the tag or anything nested under it, archived ones included
+export async function listNotesWithTag(tag: string) {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notes')
+        .select('*')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .contains('tag_paths', [tag]);
+
+    if (error) {
+        console.error('listNotesWithTag error:', error);
+        throw new Error(error.message || 'Failed to fetch notes');
+    }
+
+    return (data ?? []) as Note[];
+}
+
+// ✅ Tag and notebook counts worked out by the database, so they cover notes the device doesn't hold
+export async function getNoteCounts(options: ListNotesOptions = {}): Promise<NoteCounts> {
+    await requireUserId();
+
+    const params = { include_archived: !!options.includeArchived };
+    const [tagResult, notebookResult] = await Promise.all([
+        supabase.rpc('note_tag_counts', params),
+        supabase.rpc('note_notebook_counts', params),
+    ]);
+
+    const error = tagResult.error ?? notebookResult.error;
+    if (error) {
+        console.error('getNoteCounts error:', error);
+        throw new Error(error.message || 'Failed to count notes');
+    }
+
+    const counts: NoteCounts = { tagUsage: {}, tagRollup: {}, notebooks: {} };
+    (tagResult.data ?? []).forEach((row: { tag: string; note_count: number; tag_count: number }) => {
+        counts.tagRollup[row.tag] = Number(row.note_count);
+        if (Number(row.tag_count) > 0) counts.tagUsage[row.tag] = Number(row.tag_count);
+    });
+    (notebookResult.data ?? []).forEach((row: { notebook_id: string | null; note_count: number }) => {
+        counts.notebooks[row.notebook_id ?? INBOX_FILTER] = Number(row.note_count);
+    });
+    return counts;
+}
+
+// ✅ Highlighted parts of title and snippet are wrapped in ⟦ ⟧ (see utils/search.ts)
+export type NoteSearchHit = {
+    id: string;
+    rank: number;
+    title_highlight: string;
+    body_snippet: string;
+    note: Note; // the matching note as it was searched
+};
+
+// Ranked full-text search over title, tags and body, best match first; archived notes only when asked
+export async function searchNotes(query: string, options: ListNotesOptions = {}, limit = 50) {
+    const searchQuery = query.trim();
+    if (!searchQuery) {
+        return [];
+    }
+
+    await requireUserId();
+
+    const { data, error } = await supabase.rpc('search_notes', {
+        search_query: searchQuery,
+        result_limit: limit,
+        include_archived: !!options.includeArchived,
+    });
+
+    if (error) {
+        console.error('searchNotes error:', error);
+        throw new Error(error.message || 'Failed to search notes');
+    }
+
+    return (data ?? []) as NoteSearchHit[];
+}
+
 export async function getNote(id: string) {
     if (!id) {
         throw new Error('Note ID is required');
     }
 
+    const userId = await requireUserId();
+
     const { data, error } = await supabase
         .from('notes')
         .select('*')
         .eq('id', id)
+        .eq('user_id', userId)
         .is('deleted_at', null) // ✅ Only get non-deleted notes
         .single();
 
@@ -48,18 +323,34 @@ export async function getNote(id: string) {
     return data as Note;
 }
 
-export async function createNote(input: { title: string; body: string; tags?: string[] | null }) {
+export async function createNote(input: {
+    id?: string;
+    title: string;
+    body: string;
+    tags?: string[] | null;
+    edit_count?: number;
+    notebook_id?: string | null;
+    pinned?: boolean;
+    favorite?: boolean;
+    archived_at?: string | null;
+}) {
+    const values = normalizeNoteInput(input);
+    const userId = await requireUserId();
+
     const payload = {
-        title: input.title.trim(),
-        body: input.body.trim(),
-        tags: input.tags ?? null,
+        ...(input.id && { id: input.id }), // ✅ Client-generated id for offline creates
+        user_id: userId,
+        title: values.title,
+        body: values.body,
+        tags: values.tags ?? null,
+        notebook_id: input.notebook_id ?? null, // ✅ No notebook means the Inbox
+        pinned: input.pinned ?? false,
+        favorite: input.favorite ?? false,
+        archived_at: input.archived_at ?? null,
+        ...(input.edit_count !== undefined && { edit_count: input.edit_count }), // ✅ Edits made before the first sync
         deleted_at: null, // ✅ Explicitly set as not deleted
     };
 
-    if (!payload.title) {
-        throw new Error('Title is required');
-    }
-
     const { data, error } = await supabase
         .from('notes')
         .insert([payload])
@@ -68,41 +359,61 @@ export async function createNote(input: { title: string; body: string; tags?: st
 
     if (error) {
         console.error('createNote error:', error);
-        throw new Error(error.message || 'Failed to create note');
+        throw noteWriteError(error, 'Failed to create note');
     }
 
     return data as Note;
 }
 
-export async function updateNote(id: string, patch: Partial<Pick<Note, 'title' | 'body' | 'tags'>>) {
+export async function updateNote(
+    id: string,
+    patch: Partial<Pick<Note, 'title' | 'body' | 'tags' | 'notebook_id' | 'pinned' | 'favorite' | 'archived_at'>>,
+    options: UpdateOptions = {}
+) {
     if (!id) {
         throw new Error('Note ID is required');
     }
 
+    const values = normalizeNoteInput(patch);
     const updateData = {
-        ...(patch.title !== undefined && { title: patch.title.trim() }),
-        ...(patch.body !== undefined && { body: patch.body.trim() }),
-        ...(patch.tags !== undefined && { tags: patch.tags }),
+        ...(values.title !== undefined && { title: values.title }),
+        ...(values.body !== undefined && { body: values.body }),
+        ...(values.tags !== undefined && { tags: values.tags }),
+        ...(patch.notebook_id !== undefined && { notebook_id: patch.notebook_id }),
+        ...(patch.pinned !== undefined && { pinned: patch.pinned }),
+        ...(patch.favorite !== undefined && { favorite: patch.favorite }),
+        ...(patch.archived_at !== undefined && { archived_at: patch.archived_at }),
+        ...(options.editCount !== undefined && { edit_count: options.editCount }),
     };
 
-    if (updateData.title === '') {
-        throw new Error('Title cannot be empty');
-    }
+    const userId = await requireUserId();
 
-    const { data, error } = await supabase
+    let query = supabase
         .from('notes')
         .update(updateData)
         .eq('id', id)
-        .is('deleted_at', null) // ✅ Only update non-deleted notes
-        .select()
-        .single();
+        .eq('user_id', userId)
+        .is('deleted_at', null); // ✅ Only update non-deleted notes
+
+    if (options.expectedUpdatedAt) {
+        query = query.eq('updated_at', options.expectedUpdatedAt); // ✅ Optimistic concurrency
+    }
+
+    const { data, error } = await query.select().single();
 
     if (error) {
         console.error('updateNote error:', error);
         if (error.code === 'PGRST116') {
-            throw new Error('Note not found');
+            // No row matched: either the note is gone or someone saved after we loaded it
+            if (options.expectedUpdatedAt) {
+                const current = await getNote(id).catch(() => null);
+                if (current && current.updated_at !== options.expectedUpdatedAt) {
+                    throw new NoteConflictError(current);
+                }
+            }
+            throw new NoteRejectedError('Note not found', error.code);
         }
-        throw new Error(error.message || 'Failed to update note');
+        throw noteWriteError(error, 'Failed to update note');
     }
 
     return data as Note;
@@ -114,30 +425,55 @@ export async function deleteNote(id: string) {
         throw new Error('Note ID is required');
     }
 
+    const userId = await requireUserId();
+
     const { error } = await supabase
         .from('notes')
-        .update({ deleted_at: new Date().toISOString() }) // ✅ Soft delete
+        .update({ deleted_at: new Date().toISOString() }) // ✅ Soft delete; archived_at is kept for a restore
         .eq('id', id)
+        .eq('user_id', userId)
         .is('deleted_at', null); // ✅ Only delete if not already deleted
 
     if (error) {
         console.error('deleteNote error:', error);
-        throw new Error(error.message || 'Failed to delete note');
+        throw noteWriteError(error, 'Failed to delete note');
     }
 
     return true;
 }
 
+// ✅ Soft delete every live note of the current user in one request; returns the affected ids
+export async function deleteAllNotes() {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notes')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .select('id');
+
+    if (error) {
+        console.error('deleteAllNotes error:', error);
+        throw new Error(error.message || 'Failed to delete notes');
+    }
+
+    return (data ?? []).map(row => row.id as string);
+}
+
 // ✅ Optional: Add function to permanently delete
 export async function permanentlyDeleteNote(id: string) {
     if (!id) {
         throw new Error('Note ID is required');
     }
 
+    const userId = await requireUserId();
+
     const { error } = await supabase
         .from('notes')
         .delete()
-        .eq('id', id);
+        .eq('id', id)
+        .eq('user_id', userId);
 
     if (error) {
         console.error('permanentlyDeleteNote error:', error);
@@ -153,28 +489,109 @@ export async function restoreNote(id: string) {
         throw new Error('Note ID is required');
     }
 
+    const userId = await requireUserId();
+
     const { data, error } = await supabase
         .from('notes')
         .update({ deleted_at: null })
         .eq('id', id)
-        .is('deleted_at', 'not.null') // Only restore if actually deleted
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null) // Only restore if actually deleted
         .select()
         .single();
 
     if (error) {
         console.error('restoreNote error:', error);
+        if (error.code === 'PGRST116') {
+            throw new Error('Note not found in trash');
+        }
         throw new Error(error.message || 'Failed to restore note');
     }
 
     return data as Note;
 }
 
+// ✅ Restore several trashed notes in one request
+export async function restoreNotes(ids: string[]) {
+    if (ids.length === 0) {
+        return [] as Note[];
+    }
+
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notes')
+        .update({ deleted_at: null })
+        .in('id', ids)
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .select();
+
+    if (error) {
+        console.error('restoreNotes error:', error);
+        throw new Error(error.message || 'Failed to restore notes');
+    }
+
+    return (data ?? []) as Note[];
+}
+
+// ✅ Permanently delete trashed notes; returns the ids that were removed
+export async function permanentlyDeleteNotes(ids: string[]) {
+    if (ids.length === 0) {
+        return [] as string[];
+    }
+
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notes')
+        .delete()
+        .in('id', ids)
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null) // Live notes are never removed from here
+        .select('id');
+
+    if (error) {
+        console.error('permanentlyDeleteNotes error:', error);
+        throw new Error(error.message || 'Failed to permanently delete notes');
+    }
+
+    return (data ?? []).map(row => row.id as string);
+}
+
+// ✅ Empty the trash, or only notes deleted before `deletedBefore` when given
+export async function purgeDeletedNotes(deletedBefore?: string) {
+    const userId = await requireUserId();
+
+    let query = supabase
+        .from('notes')
+        .delete()
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null);
+
+    if (deletedBefore) {
+        query = query.lt('deleted_at', deletedBefore);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+        console.error('purgeDeletedNotes error:', error);
+        throw new Error(error.message || 'Failed to empty trash');
+    }
+
+    return (data ?? []).map(row => row.id as string);
+}
+
 // ✅ Optional: Add function to list deleted notes
 export async function listDeletedNotes() {
+    const userId = await requireUserId();
+
     const { data, error } = await supabase
         .from('notes')
         .select('*')
-        .is('deleted_at', 'not.null')
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
         .order('deleted_at', { ascending: false });
 
     if (error) {
@@ -184,3 +601,163 @@ export async function listDeletedNotes() {
 
     return (data ?? []) as Note[];
 }
+
+// ✅ Every row (including soft-deleted ones) changed after `since`, oldest first, for the sync engine
+// Position in a pull: the last note received, in (updated_at, id) order
+export type NoteVersion = Pick<Note, 'updated_at' | 'id'>;
+
+// ✅ Notes changed after `since`, oldest first, one page at a time; deleted ones included.
+// Pass the last note of the previous page as `after` to continue.
+export async function listNoteChangesSince(since: string, after: NoteVersion | null, limit: number) {
+    const userId = await requireUserId();
+
+    let query = supabase
+        .from('notes')
+        .select('*')
+        .eq('user_id', userId)
+        .gt('updated_at', since);
+
+    // Notes saved together share updated_at, so the id keeps the place within them
+    if (after) {
+        const updatedAt = toFilterValue(after.updated_at);
+        query = query.or(`updated_at.gt.${updatedAt},and(updated_at.eq.${updatedAt},id.gt.${toFilterValue(after.id)})`);
+    }
+
+    const { data, error } = await query
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error('listNoteChangesSince error:', error);
+        throw new Error(error.message || 'Failed to fetch note changes');
+    }
+
+    return (data ?? []) as Note[];
+}
+
+// The most recently changed live notes, newest first; what a new device starts with
+export async function listRecentNotes(limit: number) {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notes')
+        .select('*')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('updated_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('listRecentNotes error:', error);
+        throw new Error(error.message || 'Failed to fetch notes');
+    }
+
+    return (data ?? []) as Note[];
+}
+
+function validateNotebookName(name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error('Name is required');
+    }
+    if (trimmed.length > MAX_NOTEBOOK_NAME_LENGTH) {
+        throw new Error(`Names must be ${MAX_NOTEBOOK_NAME_LENGTH} characters or less`);
+    }
+    if (trimmed.toLowerCase() === INBOX_NAME.toLowerCase()) {
+        throw new Error(`${INBOX_NAME} is already a notebook`);
+    }
+    return trimmed;
+}
+
+// Notebook names are unique per user, ignoring case
+function notebookError(fn: string, error: { code?: string; message?: string }, fallback: string) {
+    console.error(`${fn} error:`, error);
+    if (error.code === '23505') {
+        return new Error('A notebook with this name already exists');
+    }
+    return new Error(error.message || fallback);
+}
+
+export async function listNotebooks() {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notebooks')
+        .select('*')
+        .eq('user_id', userId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('listNotebooks error:', error);
+        throw new Error(error.message || 'Failed to fetch notebooks');
+    }
+
+    return (data ?? []) as Notebook[];
+}
+
+// New notebooks go to the end of the list
+export async function createNotebook(name: string, position: number) {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notebooks')
+        .insert([{ user_id: userId, name: validateNotebookName(name), position }])
+        .select()
+        .single();
+
+    if (error) {
+        throw notebookError('createNotebook', error, 'Failed to create notebook');
+    }
+
+    return data as Notebook;
+}
+
+export async function renameNotebook(id: string, name: string) {
+    if (!id) {
+        throw new Error('Notebook ID is required');
+    }
+
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('notebooks')
+        .update({ name: validateNotebookName(name) })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+    if (error) {
+        if (error.code === 'PGRST116') {
+            throw new Error('Notebook not found');
+        }
+        throw notebookError('renameNotebook', error, 'Failed to rename notebook');
+    }
+
+    return data as Notebook;
+}
+
+// ✅ The notebook's notes move to the Inbox rather than being deleted
+export async function deleteNotebook(id: string) {
+    if (!id) {
+        throw new Error('Notebook ID is required');
+    }
+
+    const userId = await requireUserId();
+
+    const { error } = await supabase
+        .from('notebooks')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('deleteNotebook error:', error);
+        throw new Error(error.message || 'Failed to delete notebook');
+    }
+
+    return true;
+}
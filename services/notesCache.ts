@@ -0,0 +1,114 @@
+import { getLocalNoteStore } from './localNotes';
+
+type CacheEntry = {
+    data?: unknown;
+    fetchedAt: number; // 0 until the first response, and again once invalidated
+    promise?: Promise<unknown>;
+};
+
+// Keys starting with this are read from the device and go stale whenever a note changes there
+export const LOCAL_KEY_PREFIX = 'local:';
+
+// Keys starting with this are read from the server; they go stale on the same changes, since pushed
+// edits and pulled notes change what the server answers
+export const REMOTE_KEY_PREFIX = 'remote:';
+
+// ✅ Reads shared by every screen: one request per key at a time, and whatever is cached is
+// served straight away while a fresher copy is fetched (stale-while-revalidate)
+export function createQueryCache() {
+    const entries = new Map<string, CacheEntry>();
+    const listeners = new Map<string, Set<() => void>>();
+
+    const getEntry = (key: string) => {
+        let entry = entries.get(key);
+        if (!entry) {
+            entry = { fetchedAt: 0 };
+            entries.set(key, entry);
+        }
+        return entry;
+    };
+
+    const notify = (key: string) => {
+        listeners.get(key)?.forEach(listener => listener());
+    };
+
+    return {
+        peek<T>(key: string): T | undefined {
+            return entries.get(key)?.data as T | undefined;
+        },
+
+        isStale(key: string, maxAgeMs = 0) {
+            const entry = entries.get(key);
+            if (!entry || !entry.fetchedAt) return true;
+            return maxAgeMs !== Infinity && Date.now() - entry.fetchedAt > maxAgeMs;
+        },
+
+        // Callers asking for a key that is already being fetched share that request
+        fetch<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+            const entry = getEntry(key);
+            if (entry.promise) {
+                return entry.promise as Promise<T>;
+            }
+
+            const request = fetcher()
+                .then(data => {
+                    // An invalidation while this was in flight means the answer may already be outdated
+                    if (entry.promise === request) {
+                        entry.data = data;
+                        entry.fetchedAt = Date.now();
+                        notify(key);
+                    }
+                    return data;
+                })
+                .finally(() => {
+                    if (entry.promise === request) {
+                        entry.promise = undefined;
+                    }
+                });
+
+            entry.promise = request;
+            return request;
+        },
+
+        // Marks matching keys stale (their data stays readable) and lets subscribers refetch
+        invalidate(prefix = '') {
+            entries.forEach((entry, key) => {
+                if (!key.startsWith(prefix)) return;
+                entry.fetchedAt = 0;
+                entry.promise = undefined;
+                notify(key);
+            });
+        },
+
+        subscribe(key: string, listener: () => void) {
+            let keyListeners = listeners.get(key);
+            if (!keyListeners) {
+                keyListeners = new Set();
+                listeners.set(key, keyListeners);
+            }
+            keyListeners.add(listener);
+            return () => {
+                keyListeners.delete(listener);
+            };
+        },
+    };
+}
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
+
+const caches = new Map<string, QueryCache>();
+
+export function getNotesCache(userId: string) {
+    let cache = caches.get(userId);
+    if (!cache) {
+        const created = createQueryCache();
+        // Local writes, pulled changes and live updates all land in the store first
+        getLocalNoteStore(userId).subscribe(() => {
+            created.invalidate(LOCAL_KEY_PREFIX);
+            created.invalidate(REMOTE_KEY_PREFIX);
+        });
+        caches.set(userId, created);
+        cache = created;
+    }
+    return cache;
+}
@@ -0,0 +1,129 @@
+import type { RealtimeChannel, RealtimePostgresInsertPayload, RealtimePostgresUpdatePayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { getLocalNoteStore } from './localNotes';
+import type { Note } from './notes';
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'live' | 'reconnecting';
+
+// Reconnects wait 1s, 2s, 4s … up to 30s, with jitter so devices don't retry in step
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+export function getRetryDelay(attempt: number) {
+    const base = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt);
+    return Math.round(base / 2 + Math.random() * (base / 2));
+}
+
+type RealtimeOptions = {
+    onStatus: (status: RealtimeStatus) => void;
+    // Called on every successful (re)subscribe; changes made while disconnected are not replayed
+    onSubscribed: () => void;
+};
+
+// ✅ Streams the user's note changes from other devices into the local store,
+// whose listeners refresh the list and any open note
+export function createNoteRealtime(userId: string, { onStatus, onSubscribed }: RealtimeOptions) {
+    const store = getLocalNoteStore(userId);
+    let channel: RealtimeChannel | null = null;
+    let closing: Promise<unknown> = Promise.resolve();
+    let connection = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let running = false;
+
+    const handleChange = (payload: RealtimePostgresInsertPayload<Note> | RealtimePostgresUpdatePayload<Note>) => {
+        store.applyRemoteChanges([payload.new], null).catch(error => console.error('realtime apply error:', error));
+    };
+
+    const closeChannel = () => {
+        const current = channel;
+        channel = null;
+        if (current) {
+            // Until the old channel has left, supabase.channel() hands it back for the same topic
+            // and subscribing to it never reports back, so the next connect waits for this
+            closing = supabase.removeChannel(current).catch(error => console.error('removeChannel error:', error));
+        }
+    };
+
+    const clearRetry = () => {
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+    };
+
+    const scheduleRetry = () => {
+        if (!running || retryTimer) return;
+
+        closeChannel();
+        onStatus('reconnecting');
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            connect();
+        }, getRetryDelay(attempt));
+        attempt += 1;
+    };
+
+    const connect = async () => {
+        if (!running) return;
+
+        closeChannel();
+        onStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+
+        const current = ++connection;
+        await closing;
+
+        // Stopped, or a newer connect took over, while the old channel was leaving
+        if (!running || current !== connection) return;
+
+        // ✅ Soft deletes arrive as updates. Rows removed for good (emptying the trash) are not streamed:
+        // with the default replica identity a DELETE carries only the id, so the user_id filter never matches it,
+        // and the device that emptied the trash forgets those notes itself.
+        const filter = `user_id=eq.${userId}`;
+        const next = supabase
+            .channel(`notes:${userId}`)
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notes', filter }, handleChange)
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'notes', filter }, handleChange);
+
+        channel = next;
+        next.subscribe((status, error) => {
+            // A channel we already replaced may still report that it closed
+            if (next !== channel) return;
+
+            if (status === 'SUBSCRIBED') {
+                attempt = 0;
+                onStatus('live');
+                onSubscribed();
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+                if (error) console.log('Realtime channel error:', error.message);
+                scheduleRetry();
+            }
+        });
+    };
+
+    return {
+        start() {
+            if (running) return;
+            running = true;
+            attempt = 0;
+            connect();
+        },
+
+        // Skips any pending backoff, e.g. when the connection comes back
+        reconnect() {
+            if (!running) return;
+            clearRetry();
+            attempt = 0;
+            connect();
+        },
+
+        stop() {
+            running = false;
+            clearRetry();
+            closeChannel();
+            onStatus('idle');
+        },
+    };
+}
+
+export type NoteRealtime = ReturnType<typeof createNoteRealtime>;
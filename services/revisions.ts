@@ -0,0 +1,33 @@
+import { supabase } from './supabase';
+import { requireUserId } from './auth';
+import type { Note } from './notes';
+
+export type NoteRevision = Pick<Note, 'title' | 'body' | 'tags'> & {
+    id: string;
+    note_id: string;
+    user_id: string;
+    created_at: string;
+};
+
+// Newest first; a snapshot is written by the database on every save
+export async function listRevisions(noteId: string) {
+    if (!noteId) {
+        throw new Error('Note ID is required');
+    }
+
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('note_revisions')
+        .select('*')
+        .eq('note_id', noteId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('listRevisions error:', error);
+        throw new Error(error.message || 'Failed to fetch note history');
+    }
+
+    return (data ?? []) as NoteRevision[];
+}
@@ -0,0 +1,140 @@
+import { supabase } from './supabase';
+import { requireUserId } from './auth';
+import type { FilterOptions } from '@/components/FilterModal';
+
+export type SavedView = {
+    id: string;
+    user_id: string;
+    name: string;
+    query: string;
+    filters: Partial<FilterOptions>; // views saved by older versions may lack newer fields
+    position: number;
+    created_at: string;
+    updated_at: string;
+};
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'query'> & { filters: FilterOptions };
+
+export const MAX_VIEW_NAME_LENGTH = 40;
+
+function validateName(name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error('Name is required');
+    }
+    if (trimmed.length > MAX_VIEW_NAME_LENGTH) {
+        throw new Error(`Names must be ${MAX_VIEW_NAME_LENGTH} characters or less`);
+    }
+    return trimmed;
+}
+
+export async function listSavedViews() {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('saved_views')
+        .select('*')
+        .eq('user_id', userId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('listSavedViews error:', error);
+        throw new Error(error.message || 'Failed to fetch saved views');
+    }
+
+    return (data ?? []) as SavedView[];
+}
+
+// New views go to the end of the row
+export async function createSavedView(input: SavedViewInput, position: number) {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('saved_views')
+        .insert([{
+            user_id: userId,
+            name: validateName(input.name),
+            query: input.query.trim(),
+            filters: input.filters,
+            position,
+        }])
+        .select()
+        .single();
+
+    if (error) {
+        console.error('createSavedView error:', error);
+        throw new Error(error.message || 'Failed to save view');
+    }
+
+    return data as SavedView;
+}
+
+export async function updateSavedView(id: string, patch: Partial<SavedViewInput>) {
+    if (!id) {
+        throw new Error('View ID is required');
+    }
+
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('saved_views')
+        .update({
+            ...(patch.name !== undefined && { name: validateName(patch.name) }),
+            ...(patch.query !== undefined && { query: patch.query.trim() }),
+            ...(patch.filters !== undefined && { filters: patch.filters }),
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('updateSavedView error:', error);
+        throw new Error(error.message || 'Failed to update view');
+    }
+
+    return data as SavedView;
+}
+
+export async function deleteSavedView(id: string) {
+    if (!id) {
+        throw new Error('View ID is required');
+    }
+
+    const userId = await requireUserId();
+
+    const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('deleteSavedView error:', error);
+        throw new Error(error.message || 'Failed to delete view');
+    }
+
+    return true;
+}
+
+// Stores the given order; ids not listed keep their position
+export async function reorderSavedViews(ids: string[]) {
+    const userId = await requireUserId();
+
+    const results = await Promise.all(ids.map((id, position) =>
+        supabase
+            .from('saved_views')
+            .update({ position })
+            .eq('id', id)
+            .eq('user_id', userId)
+    ));
+
+    const failed = results.find(result => result.error);
+    if (failed?.error) {
+        console.error('reorderSavedViews error:', failed.error);
+        throw new Error(failed.error.message || 'Failed to reorder views');
+    }
+
+    return true;
+}
@@ -0,0 +1,204 @@
+import { requireUserId } from './auth';
+import { getLocalNoteStore, type LocalNoteStore, type NoteField } from './localNotes';
+import {
+    createNote,
+    deleteNote,
+    listNoteChangesSince,
+    listRecentNotes,
+    updateNote,
+    NoteConflictError,
+    NoteRejectedError,
+    type Note,
+    type NoteVersion,
+    type UpdateOptions,
+} from './notes';
+import { NoteValidationError } from '@/utils/noteValidation';
+
+// Remote side of the sync engine; swap in an in-memory implementation to exercise the engine
+export interface SyncBackend {
+    createNote(note: Note): Promise<Note>;
+    // Must reject with NoteConflictError when expectedUpdatedAt is stale
+    updateNote(id: string, patch: Partial<Pick<Note, NoteField>>, options: UpdateOptions): Promise<Note>;
+    deleteNote(id: string): Promise<void>;
+    // Oldest first, at most `limit`, continuing after the given note
+    listChangesSince(since: string, after: NoteVersion | null, limit: number): Promise<Note[]>;
+    // Newest first, live notes only
+    listRecentNotes(limit: number): Promise<Note[]>;
+}
+
+export const supabaseSyncBackend: SyncBackend = {
+    createNote: (note) => createNote({
+        id: note.id,
+        title: note.title,
+        body: note.body,
+        tags: note.tags,
+        edit_count: note.edit_count,
+        notebook_id: note.notebook_id,
+        pinned: note.pinned,
+        favorite: note.favorite,
+        archived_at: note.archived_at,
+    }),
+    updateNote: (id, patch, options) => updateNote(id, patch, options),
+    deleteNote: async (id) => {
+        await deleteNote(id);
+    },
+    listChangesSince: (since, after, limit) => listNoteChangesSince(since, after, limit),
+    listRecentNotes: (limit) => listRecentNotes(limit),
+};
+
+export type SyncResult = {
+    pushed: number;
+    pulled: number;
+    pending: number;
+    conflicts: number;
+    rolledBack: number; // local changes undone because the server refused them
+    error: string | null;
+};
+
+// A change that keeps failing is set aside (and rolled back) so it cannot block the rest of the queue
+export const MAX_PUSH_ATTEMPTS = 5;
+
+// updated_at is stamped when a transaction starts, so a slow save can land just behind the last pull.
+// Each pull reaches back this far; notes the device already has are skipped.
+export const PULL_OVERLAP_MS = 60 * 1000;
+
+// Changes are pulled this many at a time, each page stored before the next is asked for
+export const PULL_PAGE_SIZE = 100;
+
+// ✅ A new device only takes the most recently changed notes. Lists and counts come from the server
+// while online, and an older note is kept on the device once it is opened or edited (services/localNotes.ts).
+export const INITIAL_PULL_LIMIT = 200;
+
+export function createSyncEngine(store: LocalNoteStore, backend: SyncBackend) {
+    let inFlight: Promise<SyncResult> | null = null;
+
+    const push = async () => {
+        let pushed = 0;
+        let conflicts = 0;
+        let rolledBack = 0;
+
+        for (const change of await store.getPendingChanges()) {
+            const note = await store.getStoredNote(change.noteId);
+
+            try {
+                let serverNote: Note | undefined;
+
+                if (change.type === 'create' && note) {
+                    serverNote = await backend.createNote(note);
+                } else if (change.type === 'update' && note) {
+                    const fields = change.fields ?? [];
+                    const patch = Object.fromEntries(fields.map(field => [field, note[field]]));
+                    serverNote = fields.length > 0
+                        ? await backend.updateNote(note.id, patch, { expectedUpdatedAt: change.baseUpdatedAt, editCount: note.edit_count })
+                        : undefined;
+                } else if (change.type === 'delete') {
+                    await backend.deleteNote(change.noteId);
+                }
+
+                await store.resolveChange(change.id, change.revision, serverNote);
+                pushed += 1;
+            } catch (error) {
+                // ✅ Stale write: park it for the user to resolve and keep going
+                if (error instanceof NoteConflictError) {
+                    await store.markConflict(change.id, error.serverNote);
+                    conflicts += 1;
+                    continue;
+                }
+
+                // ✅ Refused outright: undo the optimistic change on the device and keep going.
+                // A change that breaks the note rules would be refused every time, so it goes the same way.
+                if (error instanceof NoteRejectedError || error instanceof NoteValidationError) {
+                    await store.rollbackChange(change.id, error.message);
+                    rolledBack += 1;
+                    continue;
+                }
+
+                const message = error instanceof Error ? error.message : 'Failed to push change';
+                const setAside = await store.failChange(change.id, message, MAX_PUSH_ATTEMPTS);
+
+                // Keep queue order: later changes may depend on this one
+                if (!setAside) {
+                    throw error;
+                }
+                rolledBack += 1;
+            }
+        }
+
+        return { pushed, conflicts, rolledBack };
+    };
+
+    const pull = async () => {
+        const lastPulledAt = await store.getLastPulledAt();
+        if (!lastPulledAt) {
+            const recent = await backend.listRecentNotes(INITIAL_PULL_LIMIT);
+            return store.applyRemoteChanges(recent, recent.length > 0 ? recent[0].updated_at : null);
+        }
+
+        const since = new Date(new Date(lastPulledAt).getTime() - PULL_OVERLAP_MS).toISOString();
+        let pulledAt = lastPulledAt;
+        let after: NoteVersion | null = null;
+        let pulled = 0;
+
+        // ✅ Page by page, so an interrupted pull keeps what it already stored
+        for (;;) {
+            const changes = await backend.listChangesSince(since, after, PULL_PAGE_SIZE);
+            const last = changes[changes.length - 1];
+
+            // Never move the mark back: the overlap can return nothing newer than it
+            if (last && new Date(last.updated_at) > new Date(pulledAt)) {
+                pulledAt = last.updated_at;
+            }
+            pulled += await store.applyRemoteChanges(changes, pulledAt);
+
+            if (changes.length < PULL_PAGE_SIZE) return pulled;
+            after = { updated_at: last.updated_at, id: last.id };
+        }
+    };
+
+    const run = async (): Promise<SyncResult> => {
+        let pushed = 0;
+        let conflicts = 0;
+        let rolledBack = 0;
+        let pulled = 0;
+        let error: string | null = null;
+
+        try {
+            ({ pushed, conflicts, rolledBack } = await push());
+            pulled = await pull();
+        } catch (err) {
+            console.error('sync error:', err);
+            error = err instanceof Error ? err.message : 'Failed to sync notes';
+        }
+
+        const pending = (await store.getPendingChanges()).length;
+        return { pushed, pulled, pending, conflicts, rolledBack, error };
+    };
+
+    return {
+        // Concurrent callers share the pass that is already running
+        sync() {
+            if (!inFlight) {
+                inFlight = run().finally(() => {
+                    inFlight = null;
+                });
+            }
+            return inFlight;
+        },
+    };
+}
+
+export type SyncEngine = ReturnType<typeof createSyncEngine>;
+
+const engines = new Map<string, SyncEngine>();
+
+export async function syncNotes() {
+    const userId = await requireUserId();
+
+    let engine = engines.get(userId);
+    if (!engine) {
+        engine = createSyncEngine(getLocalNoteStore(userId), supabaseSyncBackend);
+        engines.set(userId, engine);
+    }
+
+    return engine.sync();
+}
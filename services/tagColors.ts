@@ -0,0 +1,47 @@
+import { supabase } from './supabase';
+import { requireUserId } from './auth';
+import { tagPalette, type TagColorName } from '@/config/theme';
+
+export type TagColors = Record<string, TagColorName>;
+
+export async function listTagColors() {
+    const userId = await requireUserId();
+
+    const { data, error } = await supabase
+        .from('tag_colors')
+        .select('tag, color')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('listTagColors error:', error);
+        throw new Error(error.message || 'Failed to fetch tag colors');
+    }
+
+    const colors: TagColors = {};
+    (data ?? []).forEach(({ tag, color }) => {
+        if (color in tagPalette) {
+            colors[tag] = color as TagColorName;
+        }
+    });
+    return colors;
+}
+
+// Passing null clears the tag's color
+export async function setTagColor(tag: string, color: TagColorName | null) {
+    const userId = await requireUserId();
+
+    const { error } = color
+        ? await supabase
+            .from('tag_colors')
+            .upsert({ user_id: userId, tag, color }, { onConflict: 'user_id,tag' })
+        : await supabase
+            .from('tag_colors')
+            .delete()
+            .eq('user_id', userId)
+            .eq('tag', tag);
+
+    if (error) {
+        console.error('setTagColor error:', error);
+        throw new Error(error.message || 'Failed to update tag color');
+    }
+}
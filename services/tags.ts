@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+import { requireUserId } from './auth';
+import { normalizeTagName } from '@/utils/tags';
+
+// Each operation is a single UPDATE on the server; they resolve to the number of notes changed
+
+export async function renameTag(from: string, to: string) {
+    return replaceTags([from], to);
+}
+
+// Every source tag becomes `into`; notes that had several of them keep one copy
+export async function mergeTags(sources: string[], into: string) {
+    return replaceTags(sources.filter(tag => tag !== into), into);
+}
+
+async function replaceTags(fromTags: string[], toTag: string) {
+    const target = normalizeTagName(toTag);
+    if (fromTags.length === 0) {
+        return 0;
+    }
+
+    await requireUserId();
+
+    const { data, error } = await supabase.rpc('replace_note_tags', {
+        from_tags: fromTags,
+        to_tag: target,
+    });
+
+    if (error) {
+        console.error('replaceTags error:', error);
+        throw new Error(error.message || 'Failed to update tags');
+    }
+
+    return (data ?? 0) as number;
+}
+
+export async function deleteTag(tag: string) {
+    await requireUserId();
+
+    const { data, error } = await supabase.rpc('remove_note_tags', {
+        tags_to_remove: [tag],
+    });
+
+    if (error) {
+        console.error('deleteTag error:', error);
+        throw new Error(error.message || 'Failed to delete tag');
+    }
+
+    return (data ?? 0) as number;
+}
@@ -0,0 +1,47 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { forgetNotes } from './localNotes';
+import { purgeDeletedNotes } from './notes';
+
+const RETENTION_KEY = 'trashRetentionDays';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 0 keeps deleted notes until the trash is emptied by hand
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function getTrashRetentionDays() {
+    try {
+        const saved = await AsyncStorage.getItem(RETENTION_KEY);
+        const days = saved !== null ? Number(saved) : NaN;
+        return TRASH_RETENTION_OPTIONS.includes(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+    } catch (error) {
+        console.log('Error loading trash retention:', error);
+        return DEFAULT_TRASH_RETENTION_DAYS;
+    }
+}
+
+export async function setTrashRetentionDays(days: number) {
+    if (!TRASH_RETENTION_OPTIONS.includes(days)) {
+        throw new Error('Unsupported retention period');
+    }
+    await AsyncStorage.setItem(RETENTION_KEY, days.toString());
+}
+
+// When a trashed note will be removed for good, or null if it is kept indefinitely
+export function getPurgeDate(deletedAt: string, retentionDays: number) {
+    if (!retentionDays) return null;
+    return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+export async function purgeExpiredTrash() {
+    const retentionDays = await getTrashRetentionDays();
+    if (!retentionDays) return [];
+
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+    const purgedIds = await purgeDeletedNotes(cutoff);
+    await forgetNotes(purgedIds);
+
+    return purgedIds;
+}
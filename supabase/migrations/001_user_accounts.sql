@@ -0,0 +1,21 @@
+-- Per-user notes: every row belongs to the auth user that created it
+ALTER TABLE notes
+    ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid();
+
+-- Rows created before accounts existed have no owner and stay hidden
+CREATE INDEX IF NOT EXISTS notes_user_id_updated_at_idx ON notes (user_id, updated_at DESC);
+
+-- Replace the public policies with owner-only access
+DROP POLICY IF EXISTS "Allow anyone to view notes" ON notes;
+DROP POLICY IF EXISTS "Allow anyone to create notes" ON notes;
+DROP POLICY IF EXISTS "Allow anyone to update notes" ON notes;
+DROP POLICY IF EXISTS "Allow anyone to delete notes" ON notes;
+
+CREATE POLICY "Users can view their own notes"
+ON notes FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own notes"
+ON notes FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own notes"
+ON notes FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own notes"
+ON notes FOR DELETE TO authenticated USING (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- Keep updated_at current on every write so clients can pull changes incrementally
+CREATE OR REPLACE FUNCTION set_notes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notes_set_updated_at ON notes;
+CREATE TRIGGER notes_set_updated_at
+BEFORE UPDATE ON notes
+FOR EACH ROW EXECUTE FUNCTION set_notes_updated_at();
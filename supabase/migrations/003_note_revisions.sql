@@ -0,0 +1,37 @@
+-- Snapshot of a note's content, taken every time its title, body or tags are saved
+CREATE TABLE IF NOT EXISTS note_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    note_id UUID NOT NULL REFERENCES notes (id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    body TEXT DEFAULT '',
+    tags TEXT[] DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS note_revisions_note_id_created_at_idx ON note_revisions (note_id, created_at DESC);
+
+ALTER TABLE note_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own note revisions"
+ON note_revisions FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- Revisions are written by the trigger below, never directly by clients
+CREATE OR REPLACE FUNCTION snapshot_note_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT'
+        OR NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.body IS DISTINCT FROM OLD.body
+        OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+        INSERT INTO note_revisions (note_id, user_id, title, body, tags)
+        VALUES (NEW.id, NEW.user_id, NEW.title, NEW.body, NEW.tags);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notes_snapshot_revision ON notes;
+CREATE TRIGGER notes_snapshot_revision
+AFTER INSERT OR UPDATE ON notes
+FOR EACH ROW EXECUTE FUNCTION snapshot_note_revision();
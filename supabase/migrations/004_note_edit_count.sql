@@ -0,0 +1,25 @@
+-- Number of times a note's title, body or tags have been saved
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS edit_count INTEGER NOT NULL DEFAULT 0;
+
+-- Every content save counts at least once. Offline clients send the count their
+-- queued edits add up to, which is safe because those writes are conditional on updated_at.
+CREATE OR REPLACE FUNCTION count_note_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.edit_count = GREATEST(COALESCE(NEW.edit_count, 0), 0);
+    ELSIF NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.body IS DISTINCT FROM OLD.body
+        OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+        NEW.edit_count = GREATEST(COALESCE(NEW.edit_count, 0), OLD.edit_count + 1);
+    ELSE
+        NEW.edit_count = OLD.edit_count;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notes_count_edits ON notes;
+CREATE TRIGGER notes_count_edits
+BEFORE INSERT OR UPDATE ON notes
+FOR EACH ROW EXECUTE FUNCTION count_note_edits();
@@ -0,0 +1,29 @@
+-- Weighted full-text document: title ranks above tags, tags above body
+CREATE OR REPLACE FUNCTION note_search_document(title TEXT, body TEXT, tags TEXT[])
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('english', coalesce(title, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B')
+        || setweight(to_tsvector('english', coalesce(body, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS notes_search_idx ON notes USING GIN (note_search_document(title, body, tags));
+
+-- Ranked matches for the signed-in user. Highlights are wrapped in ⟦ ⟧ for the app to style.
+CREATE OR REPLACE FUNCTION search_notes(search_query TEXT, result_limit INTEGER DEFAULT 50)
+RETURNS TABLE (id UUID, rank REAL, title_highlight TEXT, body_snippet TEXT) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    )
+    SELECT
+        n.id,
+        ts_rank_cd(note_search_document(n.title, n.body, n.tags), query.q) AS rank,
+        ts_headline('english', n.title, query.q, 'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+        ts_headline('english', coalesce(n.body, ''), query.q,
+            'StartSel=⟦, StopSel=⟧, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "')
+    FROM notes n, query
+    WHERE n.user_id = auth.uid()
+        AND n.deleted_at IS NULL
+        AND note_search_document(n.title, n.body, n.tags) @@ query.q
+    ORDER BY rank DESC, n.updated_at DESC
+    LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,33 @@
+-- Named search + filter combinations shown as chips on the home screen
+CREATE TABLE IF NOT EXISTS saved_views (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+    query TEXT NOT NULL DEFAULT '',
+    filters JSONB NOT NULL DEFAULT '{}',
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS saved_views_user_id_position_idx ON saved_views (user_id, position);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved views"
+ON saved_views FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved views"
+ON saved_views FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved views"
+ON saved_views FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved views"
+ON saved_views FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Same trigger function the notes table uses
+DROP TRIGGER IF EXISTS saved_views_set_updated_at ON saved_views;
+CREATE TRIGGER saved_views_set_updated_at
+BEFORE UPDATE ON saved_views
+FOR EACH ROW EXECUTE FUNCTION set_notes_updated_at();
@@ -0,0 +1,58 @@
+-- Bulk tag edits run as one UPDATE each, so every affected note changes together or not at all.
+-- They run with the caller's rights: row level security keeps them to the caller's notes.
+
+-- Drops repeated tags, keeping each one where it first appeared
+CREATE OR REPLACE FUNCTION dedupe_tags(tags TEXT[])
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(array_agg(tag ORDER BY first_position), '{}')
+    FROM (
+        SELECT tag, MIN(position) AS first_position
+        FROM unnest(tags) WITH ORDINALITY AS item (tag, position)
+        GROUP BY tag
+    ) deduped;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Rename (one source tag) and merge (several): every tag in from_tags becomes to_tag
+CREATE OR REPLACE FUNCTION replace_note_tags(from_tags TEXT[], to_tag TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    target TEXT := btrim(to_tag);
+    affected INTEGER;
+BEGIN
+    IF target IS NULL OR target = '' THEN
+        RAISE EXCEPTION 'Tag name is required';
+    END IF;
+
+    UPDATE notes
+    SET tags = dedupe_tags(ARRAY(
+        SELECT CASE WHEN tag = ANY (from_tags) THEN target ELSE tag END
+        FROM unnest(notes.tags) WITH ORDINALITY AS item (tag, position)
+        ORDER BY position
+    ))
+    WHERE user_id = auth.uid()
+      AND tags && from_tags;
+
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    RETURN affected;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION remove_note_tags(tags_to_remove TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+    affected INTEGER;
+BEGIN
+    UPDATE notes
+    SET tags = ARRAY(
+        SELECT tag
+        FROM unnest(notes.tags) WITH ORDINALITY AS item (tag, position)
+        WHERE tag <> ALL (tags_to_remove)
+        ORDER BY position
+    )
+    WHERE user_id = auth.uid()
+      AND tags && tags_to_remove;
+
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    RETURN affected;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,88 @@
+-- Color each user picked for a tag; values are palette names the app maps to light/dark shades
+CREATE TABLE IF NOT EXISTS tag_colors (
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    color TEXT NOT NULL CHECK (color IN ('blue', 'purple', 'teal', 'orange', 'red', 'green', 'pink', 'indigo', 'gray')),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, tag)
+);
+
+ALTER TABLE tag_colors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tag colors"
+ON tag_colors FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tag colors"
+ON tag_colors FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tag colors"
+ON tag_colors FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tag colors"
+ON tag_colors FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS tag_colors_set_updated_at ON tag_colors;
+CREATE TRIGGER tag_colors_set_updated_at
+BEFORE UPDATE ON tag_colors
+FOR EACH ROW EXECUTE FUNCTION set_notes_updated_at();
+
+-- Renames and merges keep the color: the target keeps its own, or takes the first source's
+CREATE OR REPLACE FUNCTION replace_note_tags(from_tags TEXT[], to_tag TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    target TEXT := btrim(to_tag);
+    affected INTEGER;
+BEGIN
+    IF target IS NULL OR target = '' THEN
+        RAISE EXCEPTION 'Tag name is required';
+    END IF;
+
+    UPDATE notes
+    SET tags = dedupe_tags(ARRAY(
+        SELECT CASE WHEN tag = ANY (from_tags) THEN target ELSE tag END
+        FROM unnest(notes.tags) WITH ORDINALITY AS item (tag, position)
+        ORDER BY position
+    ))
+    WHERE user_id = auth.uid()
+      AND tags && from_tags;
+
+    GET DIAGNOSTICS affected = ROW_COUNT;
+
+    INSERT INTO tag_colors (user_id, tag, color)
+    SELECT auth.uid(), target, color
+    FROM tag_colors
+    WHERE user_id = auth.uid() AND tag = ANY (from_tags)
+    ORDER BY array_position(from_tags, tag)
+    LIMIT 1
+    ON CONFLICT (user_id, tag) DO NOTHING;
+
+    DELETE FROM tag_colors
+    WHERE user_id = auth.uid() AND tag = ANY (from_tags) AND tag <> target;
+
+    RETURN affected;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION remove_note_tags(tags_to_remove TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+    affected INTEGER;
+BEGIN
+    UPDATE notes
+    SET tags = ARRAY(
+        SELECT tag
+        FROM unnest(notes.tags) WITH ORDINALITY AS item (tag, position)
+        WHERE tag <> ALL (tags_to_remove)
+        ORDER BY position
+    )
+    WHERE user_id = auth.uid()
+      AND tags && tags_to_remove;
+
+    GET DIAGNOSTICS affected = ROW_COUNT;
+
+    DELETE FROM tag_colors
+    WHERE user_id = auth.uid() AND tag = ANY (tags_to_remove);
+
+    RETURN affected;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
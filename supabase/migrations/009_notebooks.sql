@@ -0,0 +1,42 @@
+-- Notebooks group notes into separate spaces. Notes without one are in the Inbox,
+-- which is not a row: new notes and notes from deleted notebooks land there.
+CREATE TABLE IF NOT EXISTS notebooks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40 AND lower(btrim(name)) <> 'inbox'),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (id, user_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS notebooks_user_id_name_idx ON notebooks (user_id, lower(btrim(name)));
+
+ALTER TABLE notebooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notebooks"
+ON notebooks FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notebooks"
+ON notebooks FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notebooks"
+ON notebooks FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notebooks"
+ON notebooks FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS notebooks_set_updated_at ON notebooks;
+CREATE TRIGGER notebooks_set_updated_at
+BEFORE UPDATE ON notebooks
+FOR EACH ROW EXECUTE FUNCTION set_notes_updated_at();
+
+-- The pair key keeps notes out of other users' notebooks; deleting a notebook
+-- clears only notebook_id, and the updated_at trigger lets clients pull the move
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS notebook_id UUID;
+
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_notebook_fkey;
+ALTER TABLE notes ADD CONSTRAINT notes_notebook_fkey
+FOREIGN KEY (notebook_id, user_id) REFERENCES notebooks (id, user_id) ON DELETE SET NULL (notebook_id);
+
+CREATE INDEX IF NOT EXISTS notes_notebook_id_idx ON notes (notebook_id);
@@ -0,0 +1,7 @@
+-- Pinned notes stay at the top of the list; favorites get their own filter.
+-- Neither counts as an edit: the edit counter and revision triggers only look at title, body and tags.
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS favorite BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS notes_user_id_pinned_idx ON notes (user_id, pinned) WHERE pinned;
+CREATE INDEX IF NOT EXISTS notes_user_id_favorite_idx ON notes (user_id, favorite) WHERE favorite;
@@ -0,0 +1,12 @@
+-- Archived notes leave the default list but are not trash: they keep deleted_at NULL,
+-- so retention purges and "empty trash" never touch them.
+-- Like moving or pinning, archiving is not an edit (the triggers only look at title, body and tags).
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- A note is either archived or in the trash; deleting an archived note clears the archive state
+UPDATE notes SET archived_at = NULL WHERE archived_at IS NOT NULL AND deleted_at IS NOT NULL;
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_archived_not_deleted;
+ALTER TABLE notes ADD CONSTRAINT notes_archived_not_deleted
+    CHECK (archived_at IS NULL OR deleted_at IS NULL);
+
+CREATE INDEX IF NOT EXISTS notes_user_id_archived_at_idx ON notes (user_id, archived_at DESC) WHERE archived_at IS NOT NULL;
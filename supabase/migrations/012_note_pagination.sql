@@ -0,0 +1,24 @@
+-- Server-side filtering and keyset pagination for the notes list.
+
+-- Every tag plus the parents of nested tags: clients/acme → {clients/acme, clients}.
+-- Lets a filter on a parent tag match its children with plain array operators.
+CREATE OR REPLACE FUNCTION note_tag_paths(tags TEXT[])
+RETURNS TEXT[] AS $$
+    SELECT coalesce(array_agg(DISTINCT path), '{}')
+    FROM unnest(coalesce(tags, '{}')) AS tag,
+        LATERAL generate_series(1, array_length(string_to_array(tag, '/'), 1)) AS depth,
+        LATERAL array_to_string((string_to_array(tag, '/'))[1:depth], '/') AS path;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS tag_paths TEXT[]
+    GENERATED ALWAYS AS (note_tag_paths(tags)) STORED;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS body_length INTEGER
+    GENERATED ALWAYS AS (char_length(coalesce(body, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS notes_tag_paths_idx ON notes USING GIN (tag_paths);
+
+-- One index per sort order; pinned notes lead every order and the id breaks ties
+CREATE INDEX IF NOT EXISTS notes_page_recent_idx ON notes (user_id, pinned DESC, updated_at DESC, id DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS notes_page_title_idx ON notes (user_id, pinned DESC, title, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS notes_page_oldest_idx ON notes (user_id, pinned DESC, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS notes_page_edited_idx ON notes (user_id, pinned DESC, edit_count DESC, updated_at DESC, id DESC) WHERE deleted_at IS NULL;
@@ -0,0 +1,11 @@
+-- Stream note changes to signed-in clients. Realtime applies the notes RLS policies,
+-- so each user only receives their own rows.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notes'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notes;
+    END IF;
+END $$;
@@ -0,0 +1,51 @@
+-- The note rules from utils/noteValidation.ts, enforced by the table as well:
+-- titles of 1–100 characters, bodies up to 50,000, and at most 10 valid tags with no repeats ignoring case.
+
+-- Repeats are now dropped ignoring case, keeping the first spelling,
+-- so renaming or merging a tag can't leave both "Work" and "work" on a note
+CREATE OR REPLACE FUNCTION dedupe_tags(tags TEXT[])
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(array_agg(tag ORDER BY position), '{}')
+    FROM (
+        SELECT DISTINCT ON (lower(tag)) tag, position
+        FROM unnest(tags) WITH ORDINALITY AS item (tag, position)
+        ORDER BY lower(tag), position
+    ) deduped;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Mirrors normalizeTagName: trimmed, no leading # or commas, 1–20 characters per level and 60 in all
+CREATE OR REPLACE FUNCTION is_valid_tag(tag TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT tag IS NOT NULL
+        AND char_length(tag) BETWEEN 1 AND 60
+        AND left(tag, 1) <> '#'
+        AND position(',' IN tag) = 0
+        AND NOT EXISTS (
+            SELECT 1
+            FROM unnest(string_to_array(tag, '/')) AS segment
+            WHERE char_length(segment) NOT BETWEEN 1 AND 20 OR segment <> btrim(segment)
+        );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION are_valid_note_tags(tags TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(cardinality(tags), 0) <= 10
+        AND NOT EXISTS (SELECT 1 FROM unnest(tags) AS tag WHERE NOT is_valid_tag(tag))
+        AND (SELECT count(DISTINCT lower(tag)) FROM unnest(tags) AS tag) = coalesce(cardinality(tags), 0);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Existing notes are left as they are: the constraints are added NOT VALID, so they hold for every
+-- insert and update from now on without cutting or dropping anything already saved. A note that breaks
+-- the rules is brought within them when it is next edited, where the editor shows what is over the limit;
+-- until then any update to the row is refused, and the app keeps the refused change for the user.
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_title_length;
+ALTER TABLE notes ADD CONSTRAINT notes_title_length
+    CHECK (char_length(btrim(title)) BETWEEN 1 AND 100) NOT VALID;
+
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_body_length;
+ALTER TABLE notes ADD CONSTRAINT notes_body_length
+    CHECK (char_length(body) <= 50000) NOT VALID;
+
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_tags_valid;
+ALTER TABLE notes ADD CONSTRAINT notes_tags_valid
+    CHECK (are_valid_note_tags(tags)) NOT VALID;
@@ -0,0 +1,8 @@
+-- Trashed notes now keep archived_at, so restoring one (or undoing Delete All)
+-- puts it back in the archive instead of the main list.
+-- Archive queries already skip trashed notes by deleted_at; retention purges still only look at deleted_at.
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_archived_not_deleted;
+
+DROP INDEX IF EXISTS notes_user_id_archived_at_idx;
+CREATE INDEX IF NOT EXISTS notes_user_id_archived_at_idx ON notes (user_id, archived_at DESC)
+    WHERE archived_at IS NOT NULL AND deleted_at IS NULL;
@@ -0,0 +1,36 @@
+-- Ticking checklist items off isn't editing: a save that only flips "[ ]" / "[x]" markers
+-- neither counts as an edit nor writes a revision. Mirrors isChecklistOnlyChange in utils/markdown.ts.
+CREATE OR REPLACE FUNCTION untick_checklists(body TEXT)
+RETURNS TEXT AS $$
+    SELECT regexp_replace(body, '^(\s*(?:[-*+]|\d+[.)])\s+)\[[ xX]\]', '\1[ ]', 'gn');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION snapshot_note_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT'
+        OR NEW.title IS DISTINCT FROM OLD.title
+        OR untick_checklists(NEW.body) IS DISTINCT FROM untick_checklists(OLD.body)
+        OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+        INSERT INTO note_revisions (note_id, user_id, title, body, tags)
+        VALUES (NEW.id, NEW.user_id, NEW.title, NEW.body, NEW.tags);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION count_note_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.edit_count = GREATEST(COALESCE(NEW.edit_count, 0), 0);
+    ELSIF NEW.title IS DISTINCT FROM OLD.title
+        OR untick_checklists(NEW.body) IS DISTINCT FROM untick_checklists(OLD.body)
+        OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+        NEW.edit_count = GREATEST(COALESCE(NEW.edit_count, 0), OLD.edit_count + 1);
+    ELSE
+        NEW.edit_count = OLD.edit_count;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,53 @@
+-- Renaming or merging a tag takes its nested tags along: "work" → "job" also turns "work/acme"
+-- into "job/acme", on notes and in tag colors. Mirrors applyTagChange in utils/tags.ts.
+
+-- The new path of `tag`, or NULL when none of from_tags is the tag or one of its parents.
+-- The longest match wins, so merging "a" and "a/b" moves "a/b/c" by its closest parent.
+CREATE OR REPLACE FUNCTION renamed_tag(tag TEXT, from_tags TEXT[], target TEXT)
+RETURNS TEXT AS $$
+    SELECT target || substr(tag, char_length(source) + 1)
+    FROM unnest(from_tags) AS source
+    WHERE tag = source OR starts_with(tag, source || '/')
+    ORDER BY char_length(source) DESC
+    LIMIT 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION replace_note_tags(from_tags TEXT[], to_tag TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    target TEXT := btrim(to_tag);
+    affected INTEGER;
+BEGIN
+    IF target IS NULL OR target = '' THEN
+        RAISE EXCEPTION 'Tag name is required';
+    END IF;
+
+    UPDATE notes
+    SET tags = dedupe_tags(ARRAY(
+        SELECT COALESCE(renamed_tag(tag, from_tags, target), tag)
+        FROM unnest(notes.tags) WITH ORDINALITY AS item (tag, position)
+        ORDER BY position
+    ))
+    WHERE user_id = auth.uid()
+      AND EXISTS (SELECT 1 FROM unnest(notes.tags) AS tag WHERE renamed_tag(tag, from_tags, target) IS NOT NULL);
+
+    GET DIAGNOSTICS affected = ROW_COUNT;
+
+    -- Each renamed tag keeps its color: the target keeps its own, or takes the first source's
+    INSERT INTO tag_colors (user_id, tag, color)
+    SELECT DISTINCT ON (renamed) auth.uid(), renamed, color
+    FROM (
+        SELECT renamed_tag(tag, from_tags, target) AS renamed, tag, color
+        FROM tag_colors
+        WHERE user_id = auth.uid()
+    ) moved
+    WHERE renamed IS NOT NULL AND renamed <> tag
+    ORDER BY renamed, array_position(from_tags, tag) NULLS LAST, tag
+    ON CONFLICT (user_id, tag) DO NOTHING;
+
+    DELETE FROM tag_colors
+    WHERE user_id = auth.uid() AND renamed_tag(tag, from_tags, target) <> tag;
+
+    RETURN affected;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
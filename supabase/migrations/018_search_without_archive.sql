@@ -0,0 +1,25 @@
+-- Archived notes are left out of search unless asked for, so they can't use up the result limit
+-- and leave live matches behind. Each hit also carries its row, so the app can show a note as
+-- the server has it. The return type changes, so the old function goes first.
+DROP FUNCTION IF EXISTS search_notes(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_notes(search_query TEXT, result_limit INTEGER DEFAULT 50, include_archived BOOLEAN DEFAULT false)
+RETURNS TABLE (id UUID, rank REAL, title_highlight TEXT, body_snippet TEXT, note notes) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    )
+    SELECT
+        n.id,
+        ts_rank_cd(note_search_document(n.title, n.body, n.tags), query.q) AS rank,
+        ts_headline('english', n.title, query.q, 'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+        ts_headline('english', coalesce(n.body, ''), query.q,
+            'StartSel=⟦, StopSel=⟧, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "'),
+        n
+    FROM notes n, query
+    WHERE n.user_id = auth.uid()
+        AND n.deleted_at IS NULL
+        AND (include_archived OR n.archived_at IS NULL)
+        AND note_search_document(n.title, n.body, n.tags) @@ query.q
+    ORDER BY rank DESC, n.updated_at DESC
+    LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,24 @@
+-- Counts behind the tag and notebook lists, so the app can show them without holding every note.
+
+-- Notes per tag path: note_count includes notes tagged with anything nested under the path,
+-- tag_count only those tagged with the path itself.
+CREATE OR REPLACE FUNCTION note_tag_counts(include_archived BOOLEAN DEFAULT false)
+RETURNS TABLE (tag TEXT, note_count BIGINT, tag_count BIGINT) AS $$
+    SELECT path, count(*), count(*) FILTER (WHERE path = ANY(n.tags))
+    FROM notes n, unnest(n.tag_paths) AS path
+    WHERE n.user_id = auth.uid()
+        AND n.deleted_at IS NULL
+        AND (include_archived OR n.archived_at IS NULL)
+    GROUP BY path;
+$$ LANGUAGE sql STABLE;
+
+-- Notes per notebook; a null notebook_id is the Inbox
+CREATE OR REPLACE FUNCTION note_notebook_counts(include_archived BOOLEAN DEFAULT false)
+RETURNS TABLE (notebook_id UUID, note_count BIGINT) AS $$
+    SELECT n.notebook_id, count(*)
+    FROM notes n
+    WHERE n.user_id = auth.uid()
+        AND n.deleted_at IS NULL
+        AND (include_archived OR n.archived_at IS NULL)
+    GROUP BY n.notebook_id;
+$$ LANGUAGE sql STABLE;
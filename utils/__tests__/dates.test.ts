@@ -0,0 +1,113 @@
+import { getDateFilterBounds, getFirstDayOfWeek, isWithinBounds, startOfWeek, toDayKey } from '../dates';
+
+const noRange = { start: null, end: null };
+
+// Engines without Intl Locale Info (older Hermes) only tell us the region
+function withoutWeekInfo(run: () => void) {
+    const NativeLocale = Intl.Locale;
+    class RegionOnlyLocale extends NativeLocale {
+        getWeekInfo = undefined;
+        weekInfo = undefined;
+    }
+    const spy = jest.spyOn(Intl, 'Locale').mockImplementation(tag => new RegionOnlyLocale(tag));
+    try {
+        run();
+    } finally {
+        spy.mockRestore();
+    }
+}
+
+describe('getFirstDayOfWeek', () => {
+    it('uses the week info the engine knows for the locale', () => {
+        expect(getFirstDayOfWeek('en-US')).toBe(0);
+        expect(getFirstDayOfWeek('en-GB')).toBe(1);
+        expect(getFirstDayOfWeek('ar-EG')).toBe(6);
+    });
+
+    it('falls back to the region when the engine has no week info', () => {
+        withoutWeekInfo(() => {
+            expect(getFirstDayOfWeek('en-US')).toBe(0);
+            expect(getFirstDayOfWeek('ja')).toBe(0); // region filled in as JP
+            expect(getFirstDayOfWeek('ar-EG')).toBe(6);
+            expect(getFirstDayOfWeek('de')).toBe(1);
+        });
+    });
+
+    it('starts on Monday for a locale it cannot read', () => {
+        expect(getFirstDayOfWeek('not a locale')).toBe(1);
+    });
+});
+
+describe('startOfWeek', () => {
+    // Wednesday 11 March 2026
+    const wednesday = new Date(2026, 2, 11, 15, 30);
+
+    it.each([
+        [0, 8],
+        [1, 9],
+        [6, 7],
+    ] as const)('goes back to the week starting on day %i', (firstDay, date) => {
+        expect(startOfWeek(wednesday, firstDay)).toEqual(new Date(2026, 2, date));
+    });
+
+    it('keeps a date that is already the first day', () => {
+        expect(startOfWeek(new Date(2026, 2, 9), 1)).toEqual(new Date(2026, 2, 9));
+    });
+
+    it('crosses into the previous month and year', () => {
+        expect(startOfWeek(new Date(2026, 0, 1), 1)).toEqual(new Date(2025, 11, 29));
+    });
+});
+
+describe('getDateFilterBounds', () => {
+    const now = new Date(2026, 2, 11, 15, 30);
+
+    it('covers the whole of today', () => {
+        expect(getDateFilterBounds('today', noRange, now, 1)).toEqual({
+            start: new Date(2026, 2, 11),
+            end: new Date(2026, 2, 12),
+        });
+    });
+
+    it('covers the calendar week from its first day', () => {
+        expect(getDateFilterBounds('thisWeek', noRange, now, 1)).toEqual({
+            start: new Date(2026, 2, 9),
+            end: new Date(2026, 2, 16),
+        });
+        expect(getDateFilterBounds('thisWeek', noRange, now, 0).start).toEqual(new Date(2026, 2, 8));
+    });
+
+    it('covers the calendar month, into the next year from December', () => {
+        expect(getDateFilterBounds('thisMonth', noRange, now, 1)).toEqual({
+            start: new Date(2026, 2, 1),
+            end: new Date(2026, 3, 1),
+        });
+        expect(getDateFilterBounds('thisMonth', noRange, new Date(2026, 11, 31), 1).end).toEqual(new Date(2027, 0, 1));
+    });
+
+    it('includes the whole last day of a custom range', () => {
+        const bounds = getDateFilterBounds('custom', { start: '2026-03-01', end: '2026-03-05' }, now, 1);
+
+        expect(bounds).toEqual({ start: new Date(2026, 2, 1), end: new Date(2026, 2, 6) });
+        expect(isWithinBounds(new Date(2026, 2, 5, 23, 59), bounds)).toBe(true);
+        expect(isWithinBounds(new Date(2026, 2, 6), bounds)).toBe(false);
+        expect(isWithinBounds(new Date(2026, 1, 28, 23, 59), bounds)).toBe(false);
+    });
+
+    it('leaves a side of a custom range open when it is not set', () => {
+        const bounds = getDateFilterBounds('custom', { start: '2026-03-01', end: null }, now, 1);
+
+        expect(bounds.end).toBeNull();
+        expect(isWithinBounds(new Date(2030, 0, 1), bounds)).toBe(true);
+    });
+
+    it('has no bounds for all dates', () => {
+        expect(getDateFilterBounds('all', noRange, now, 1)).toEqual({ start: null, end: null });
+    });
+});
+
+describe('toDayKey', () => {
+    it('pads the local calendar day', () => {
+        expect(toDayKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    });
+});
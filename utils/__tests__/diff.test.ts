@@ -0,0 +1,125 @@
+import { CONFLICT_MARKERS, diffLines, hasConflictMarkers, mergeLines } from '../diff';
+
+const lines = (...items: string[]) => items.join('\n');
+
+// Length of the longest common subsequence, the slow way
+function lcsLength(a: string[], b: string[]) {
+    let previous = new Array<number>(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [0];
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], row[j - 1]);
+        }
+        previous = row;
+    }
+    return previous[b.length];
+}
+
+describe('diffLines', () => {
+    it('marks added, removed and unchanged lines', () => {
+        expect(diffLines(lines('a', 'b', 'c'), lines('a', 'c', 'd'))).toEqual([
+            { type: 'equal', text: 'a' },
+            { type: 'removed', text: 'b' },
+            { type: 'equal', text: 'c' },
+            { type: 'added', text: 'd' },
+        ]);
+    });
+
+    it('handles texts with nothing in common', () => {
+        expect(diffLines('a', 'b')).toEqual([
+            { type: 'removed', text: 'a' },
+            { type: 'added', text: 'b' },
+        ]);
+    });
+
+    it('finds a shortest diff that rebuilds both texts', () => {
+        let seed = 42;
+        const random = (max: number) => {
+            seed = (seed * 1103515245 + 12345) % 2 ** 31;
+            return seed % max;
+        };
+
+        for (let run = 0; run < 200; run++) {
+            const a = Array.from({ length: 1 + random(30) }, () => 'xyzw'[random(4)]);
+            const b = Array.from({ length: 1 + random(30) }, () => 'xyzw'[random(4)]);
+            const diff = diffLines(a.join('\n'), b.join('\n'));
+
+            expect(diff.filter(line => line.type !== 'added').map(line => line.text)).toEqual(a);
+            expect(diff.filter(line => line.type !== 'removed').map(line => line.text)).toEqual(b);
+            expect(diff.filter(line => line.type === 'equal')).toHaveLength(lcsLength(a, b));
+        }
+    });
+
+    it('copes with long notes', () => {
+        const before = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+        const after = [...before];
+        after.splice(10000, 1, 'changed');
+
+        const diff = diffLines(before.join('\n'), after.join('\n'));
+
+        expect(diff.filter(line => line.type !== 'equal')).toEqual([
+            { type: 'removed', text: 'line 10000' },
+            { type: 'added', text: 'changed' },
+        ]);
+    });
+});
+
+describe('mergeLines', () => {
+    const base = lines('title', 'one', 'two', 'three', 'four');
+
+    it('takes changes made on either side', () => {
+        const theirs = lines('title', 'ONE', 'two', 'three', 'four');
+        const mine = lines('title', 'one', 'two', 'three', 'four', 'five');
+
+        expect(mergeLines(base, theirs, mine)).toEqual({
+            text: lines('title', 'ONE', 'two', 'three', 'four', 'five'),
+            conflicts: 0,
+        });
+    });
+
+    it('keeps a deletion instead of bringing the line back', () => {
+        const theirs = lines('title', 'one', 'three', 'four');
+        const mine = lines('title', 'one', 'two', 'three', 'four', 'five');
+
+        expect(mergeLines(base, theirs, mine).text).toBe(lines('title', 'one', 'three', 'four', 'five'));
+    });
+
+    it('takes the same change made on both sides once', () => {
+        const both = lines('title', 'one', 'TWO', 'three', 'four');
+
+        expect(mergeLines(base, both, lines(both, 'five'))).toEqual({ text: lines(both, 'five'), conflicts: 0 });
+    });
+
+    it('marks lines both sides changed differently', () => {
+        const theirs = lines('title', 'one', 'their two', 'three', 'four');
+        const mine = lines('title', 'one', 'my two', 'three', 'FOUR');
+
+        const merged = mergeLines(base, theirs, mine);
+
+        expect(merged).toEqual({
+            text: lines(
+                'title', 'one',
+                CONFLICT_MARKERS.theirs, 'their two', CONFLICT_MARKERS.separator, 'my two', CONFLICT_MARKERS.mine,
+                'three', 'FOUR'
+            ),
+            conflicts: 1,
+        });
+        expect(hasConflictMarkers(merged.text)).toBe(true);
+    });
+
+    it('marks lines both sides added in the same place', () => {
+        expect(mergeLines(lines('a', 'b'), lines('a', 'x', 'b'), lines('a', 'y', 'b')).conflicts).toBe(1);
+    });
+
+    it('marks the whole text when there is no base to compare with', () => {
+        expect(mergeLines(null, 'theirs', 'mine')).toEqual({
+            text: lines(CONFLICT_MARKERS.theirs, 'theirs', CONFLICT_MARKERS.separator, 'mine', CONFLICT_MARKERS.mine),
+            conflicts: 1,
+        });
+    });
+
+    it('returns identical versions as they are', () => {
+        expect(mergeLines(null, 'same', 'same')).toEqual({ text: 'same', conflicts: 0 });
+        expect(hasConflictMarkers('same')).toBe(false);
+    });
+});
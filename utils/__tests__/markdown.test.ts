@@ -0,0 +1,224 @@
+import {
+    applyMarkdownFormat,
+    getChecklistProgress,
+    inlineToPlainText,
+    isChecklistOnlyChange,
+    parseInline,
+    parseMarkdown,
+    toggleChecklistItem,
+} from '../markdown';
+
+describe('parseInline', () => {
+    it('keeps plain text as a single node', () => {
+        expect(parseInline('just words')).toEqual([{ type: 'text', text: 'just words' }]);
+    });
+
+    it('parses bold and italic with either marker', () => {
+        expect(parseInline('**bold** and _italic_ and *also*')).toEqual([
+            { type: 'bold', children: [{ type: 'text', text: 'bold' }] },
+            { type: 'text', text: ' and ' },
+            { type: 'italic', children: [{ type: 'text', text: 'italic' }] },
+            { type: 'text', text: ' and ' },
+            { type: 'italic', children: [{ type: 'text', text: 'also' }] },
+        ]);
+    });
+
+    it('nests italic inside bold', () => {
+        expect(parseInline('**very _important_ note**')).toEqual([
+            {
+                type: 'bold',
+                children: [
+                    { type: 'text', text: 'very ' },
+                    { type: 'italic', children: [{ type: 'text', text: 'important' }] },
+                    { type: 'text', text: ' note' },
+                ],
+            },
+        ]);
+    });
+
+    it('nests bold inside italic', () => {
+        expect(parseInline('*an **inner** word*')).toEqual([
+            {
+                type: 'italic',
+                children: [
+                    { type: 'text', text: 'an ' },
+                    { type: 'bold', children: [{ type: 'text', text: 'inner' }] },
+                    { type: 'text', text: ' word' },
+                ],
+            },
+        ]);
+    });
+
+    it('leaves unclosed markers as text', () => {
+        expect(parseInline('**not bold')).toEqual([{ type: 'text', text: '**not bold' }]);
+        expect(parseInline('a * b * c')).toEqual([{ type: 'text', text: 'a * b * c' }]);
+        expect(parseInline('`open code')).toEqual([{ type: 'text', text: '`open code' }]);
+    });
+
+    it('ignores underscores inside words', () => {
+        expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+    });
+
+    it('does not parse markers inside code spans', () => {
+        expect(parseInline('run `**not bold**` now')).toEqual([
+            { type: 'text', text: 'run ' },
+            { type: 'code', text: '**not bold**' },
+            { type: 'text', text: ' now' },
+        ]);
+    });
+
+    it('honours backslash escapes', () => {
+        expect(parseInline('\\*literal\\*')).toEqual([{ type: 'text', text: '*literal*' }]);
+    });
+
+    it('parses safe links and bare urls', () => {
+        expect(parseInline('[docs](https://example.com) or https://example.org.')).toEqual([
+            { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+            { type: 'text', text: ' or ' },
+            { type: 'link', href: 'https://example.org', children: [{ type: 'text', text: 'https://example.org' }] },
+            { type: 'text', text: '.' },
+        ]);
+    });
+
+    it('does not link unsafe urls', () => {
+        expect(parseInline('[x](javascript:alert(1))')).toEqual([{ type: 'text', text: '[x](javascript:alert(1))' }]);
+    });
+});
+
+describe('inlineToPlainText', () => {
+    it('drops the markup', () => {
+        expect(inlineToPlainText(parseInline('**a** _b_ `c` [d](https://e.com)'))).toBe('a b c d');
+    });
+});
+
+describe('parseMarkdown', () => {
+    it('parses headings, paragraphs and rules', () => {
+        expect(parseMarkdown('# Title\nfirst line\nsecond line\n\n---\n### Small ###')).toEqual([
+            { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+            { type: 'paragraph', children: [{ type: 'text', text: 'first line\nsecond line' }] },
+            { type: 'rule' },
+            { type: 'heading', level: 3, children: [{ type: 'text', text: 'Small' }] },
+        ]);
+    });
+
+    it('keeps code blocks verbatim, including an unclosed fence', () => {
+        expect(parseMarkdown('```ts\nconst a = **b**;\n```\nafter')).toEqual([
+            { type: 'code', language: 'ts', text: 'const a = **b**;' },
+            { type: 'paragraph', children: [{ type: 'text', text: 'after' }] },
+        ]);
+        expect(parseMarkdown('```\n# not a heading')).toEqual([
+            { type: 'code', language: '', text: '# not a heading' },
+        ]);
+    });
+
+    it('groups quotes', () => {
+        expect(parseMarkdown('> one\n> two')).toEqual([
+            { type: 'quote', children: [{ type: 'text', text: 'one\ntwo' }] },
+        ]);
+    });
+
+    it('parses nested bullet lists and checklists', () => {
+        expect(parseMarkdown('- [ ] todo\n  - [x] done\n- plain')).toEqual([
+            {
+                type: 'list',
+                ordered: false,
+                start: 1,
+                items: [
+                    { children: [{ type: 'text', text: 'todo' }], checked: false, depth: 0, line: 0 },
+                    { children: [{ type: 'text', text: 'done' }], checked: true, depth: 1, line: 1 },
+                    { children: [{ type: 'text', text: 'plain' }], checked: null, depth: 0, line: 2 },
+                ],
+            },
+        ]);
+    });
+
+    it('splits mixed list types into separate lists', () => {
+        const blocks = parseMarkdown('3. third\n4. fourth\n- bullet\n* star');
+        expect(blocks).toHaveLength(2);
+        expect(blocks[0]).toMatchObject({ type: 'list', ordered: true, start: 3 });
+        expect(blocks[1]).toMatchObject({ type: 'list', ordered: false });
+        expect(blocks[1].type === 'list' && blocks[1].items.map(item => item.line)).toEqual([2, 3]);
+    });
+
+    it('normalizes Windows line endings', () => {
+        expect(parseMarkdown('a\r\nb')).toEqual([
+            { type: 'paragraph', children: [{ type: 'text', text: 'a\nb' }] },
+        ]);
+    });
+});
+
+describe('applyMarkdownFormat', () => {
+    it('wraps and unwraps bold', () => {
+        const wrapped = applyMarkdownFormat('make this bold', { start: 5, end: 9 }, 'bold');
+        expect(wrapped).toEqual({ text: 'make **this** bold', selection: { start: 7, end: 11 } });
+
+        expect(applyMarkdownFormat(wrapped.text, wrapped.selection, 'bold')).toEqual({
+            text: 'make this bold',
+            selection: { start: 5, end: 9 },
+        });
+    });
+
+    it('inserts a placeholder when nothing is selected', () => {
+        expect(applyMarkdownFormat('', { start: 0, end: 0 }, 'italic')).toEqual({
+            text: '_italic text_',
+            selection: { start: 1, end: 12 },
+        });
+    });
+
+    it('uses a code span for one line and a block for several', () => {
+        expect(applyMarkdownFormat('x = 1', { start: 0, end: 5 }, 'code').text).toBe('`x = 1`');
+        expect(applyMarkdownFormat('a\nb', { start: 0, end: 3 }, 'code').text).toBe('```\na\nb\n```');
+    });
+
+    it('inserts a link around the selection', () => {
+        expect(applyMarkdownFormat('see docs', { start: 4, end: 8 }, 'link')).toEqual({
+            text: 'see [docs](https://)',
+            selection: { start: 19, end: 19 },
+        });
+    });
+
+    it('cycles heading levels', () => {
+        const once = applyMarkdownFormat('Title', { start: 0, end: 0 }, 'heading');
+        expect(once.text).toBe('# Title');
+        const twice = applyMarkdownFormat(once.text, once.selection, 'heading');
+        expect(twice.text).toBe('## Title');
+        const thrice = applyMarkdownFormat(twice.text, twice.selection, 'heading');
+        expect(applyMarkdownFormat(thrice.text, thrice.selection, 'heading').text).toBe('Title');
+    });
+
+    it('numbers every selected line and toggles the list off again', () => {
+        const numbered = applyMarkdownFormat('one\ntwo', { start: 0, end: 7 }, 'numberedList');
+        expect(numbered.text).toBe('1. one\n2. two');
+        expect(applyMarkdownFormat(numbered.text, numbered.selection, 'numberedList').text).toBe('one\ntwo');
+    });
+
+    it('switches between list styles', () => {
+        expect(applyMarkdownFormat('- item', { start: 0, end: 6 }, 'checkbox').text).toBe('- [ ] item');
+        expect(applyMarkdownFormat('- [x] item', { start: 0, end: 10 }, 'bulletList').text).toBe('- item');
+    });
+});
+
+describe('checklists', () => {
+    const source = '- [ ] milk\n- [x] eggs\n```\n- [ ] not an item\n```\n1. [ ] numbered';
+
+    it('counts items outside code blocks', () => {
+        expect(getChecklistProgress(source)).toEqual({ done: 1, total: 3 });
+    });
+
+    it('toggles only the given line', () => {
+        expect(toggleChecklistItem(source, 0).split('\n')[0]).toBe('- [x] milk');
+        expect(toggleChecklistItem(source, 1).split('\n')[1]).toBe('- [ ] eggs');
+        expect(toggleChecklistItem(source, 5).split('\n')[5]).toBe('1. [x] numbered');
+    });
+
+    it('leaves lines that are not checklist items alone', () => {
+        expect(toggleChecklistItem(source, 3)).toBe(source);
+        expect(toggleChecklistItem(source, 42)).toBe(source);
+    });
+
+    it('tells ticking items off apart from editing', () => {
+        expect(isChecklistOnlyChange(source, toggleChecklistItem(toggleChecklistItem(source, 0), 5))).toBe(true);
+        expect(isChecklistOnlyChange(source, source.replace('milk', 'oat milk'))).toBe(false);
+        expect(isChecklistOnlyChange(source, source)).toBe(false);
+    });
+});
@@ -0,0 +1,75 @@
+import type { Note } from '@/services/notes';
+import { INBOX_FILTER } from '../notebooks';
+import { applyPendingCounts, countNotes } from '../noteCounts';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@/services/supabase', () => ({ supabase: {} }));
+
+const makeNote = (overrides: Partial<Note> = {}): Note => ({
+    id: 'note',
+    user_id: 'user-1',
+    title: 'Note',
+    body: '',
+    tags: null,
+    created_at: '2026-03-01T09:00:00.000Z',
+    updated_at: '2026-03-01T09:00:00.000Z',
+    deleted_at: null,
+    edit_count: 0,
+    notebook_id: null,
+    pinned: false,
+    favorite: false,
+    archived_at: null,
+    ...overrides,
+});
+
+describe('countNotes', () => {
+    it('counts exact tags, tag paths and notebooks', () => {
+        const counts = countNotes([
+            makeNote({ id: 'a', tags: ['clients/acme'], notebook_id: 'book-1' }),
+            makeNote({ id: 'b', tags: ['clients'] }),
+        ]);
+
+        expect(counts).toEqual({
+            tagUsage: { 'clients/acme': 1, clients: 1 },
+            tagRollup: { 'clients/acme': 1, clients: 2 },
+            notebooks: { 'book-1': 1, [INBOX_FILTER]: 1 },
+        });
+    });
+});
+
+describe('applyPendingCounts', () => {
+    const server = countNotes([
+        makeNote({ id: 'a', tags: ['work'], notebook_id: 'book-1' }),
+        makeNote({ id: 'b', tags: ['work'] }),
+    ]);
+
+    it('counts notes with pending changes as they are on the device', () => {
+        const serverCopy = makeNote({ id: 'a', tags: ['work'], notebook_id: 'book-1' });
+        const retagged = { ...serverCopy, tags: ['home'], notebook_id: null };
+        const created = makeNote({ id: 'c', tags: ['home'] });
+
+        const counts = applyPendingCounts(server, [
+            { note: retagged, serverCopy },
+            { note: created, serverCopy: null },
+        ]);
+
+        expect(counts).toEqual({
+            tagUsage: { work: 1, home: 2 },
+            tagRollup: { work: 1, home: 2 },
+            notebooks: { [INBOX_FILTER]: 3 },
+        });
+    });
+
+    it('drops notes deleted or archived on the device', () => {
+        const serverCopy = makeNote({ id: 'b', tags: ['work'] });
+
+        const deleted = applyPendingCounts(server, [{ note: { ...serverCopy, deleted_at: '2026-03-02T00:00:00.000Z' }, serverCopy }]);
+        const archived = { ...serverCopy, archived_at: '2026-03-02T00:00:00.000Z' };
+
+        expect(deleted.tagUsage).toEqual({ work: 1 });
+        expect(applyPendingCounts(server, [{ note: archived, serverCopy }]).tagUsage).toEqual({ work: 1 });
+        expect(applyPendingCounts(server, [{ note: archived, serverCopy }], true).tagUsage).toEqual({ work: 2 });
+    });
+});
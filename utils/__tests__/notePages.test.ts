@@ -0,0 +1,218 @@
+import type { FilterOptions } from '@/components/FilterModal';
+import type { Note } from '@/services/notes';
+import { INBOX_FILTER } from '../notebooks';
+import { createCursor, matchesNoteFilters, mergePendingPage, paginateNotes } from '../notePages';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@/services/supabase', () => ({ supabase: {} }));
+
+// Same as DEFAULT_FILTERS, without loading the modal
+const NO_FILTERS: FilterOptions = {
+    notebook: null,
+    sortBy: 'recent',
+    dateFilter: 'all',
+    dateField: 'created_at',
+    dateRange: { start: null, end: null },
+    selectedTags: [],
+    tagMatch: 'any',
+    excludedTags: [],
+    withTagsOnly: false,
+    longNotesOnly: false,
+    favoritesOnly: false,
+    includeArchived: false,
+};
+
+const makeNote = (overrides: Partial<Note> = {}): Note => ({
+    id: 'note',
+    user_id: 'user-1',
+    title: 'Note',
+    body: '',
+    tags: null,
+    created_at: '2026-03-01T09:00:00.000Z',
+    updated_at: '2026-03-01T09:00:00.000Z',
+    deleted_at: null,
+    edit_count: 0,
+    notebook_id: null,
+    pinned: false,
+    favorite: false,
+    archived_at: null,
+    ...overrides,
+});
+
+const withFilters = (overrides: Partial<FilterOptions> = {}): FilterOptions => ({ ...NO_FILTERS, ...overrides });
+
+const ids = (notes: Note[]) => notes.map(note => note.id);
+
+// Follows nextCursor to the end, the way the list loads more
+function readAllPages(notes: Note[], filters: FilterOptions, limit: number) {
+    const seen: string[] = [];
+    let page = paginateNotes(notes, filters, null, limit);
+    seen.push(...ids(page.notes));
+    while (page.nextCursor) {
+        page = paginateNotes(notes, filters, page.nextCursor, limit);
+        seen.push(...ids(page.notes));
+    }
+    return seen;
+}
+
+describe('paginateNotes', () => {
+    it('puts pinned notes first, then the newest', () => {
+        const notes = [
+            makeNote({ id: 'a', updated_at: '2026-03-03T09:00:00.000Z' }),
+            makeNote({ id: 'b', updated_at: '2026-03-01T09:00:00.000Z', pinned: true }),
+            makeNote({ id: 'c', updated_at: '2026-03-02T09:00:00.000Z' }),
+        ];
+
+        expect(ids(paginateNotes(notes, withFilters(), null).notes)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('keeps pinned notes first in every order', () => {
+        const notes = [
+            makeNote({ id: 'a', title: 'Apple', created_at: '2026-01-01T00:00:00.000Z', edit_count: 9 }),
+            makeNote({ id: 'z', title: 'Zebra', created_at: '2026-02-01T00:00:00.000Z', edit_count: 1, pinned: true }),
+            makeNote({ id: 'm', title: 'Mango', created_at: '2026-03-01T00:00:00.000Z', edit_count: 5 }),
+        ];
+
+        expect(ids(paginateNotes(notes, withFilters({ sortBy: 'alphabetical' }), null).notes)).toEqual(['z', 'a', 'm']);
+        expect(ids(paginateNotes(notes, withFilters({ sortBy: 'oldest' }), null).notes)).toEqual(['z', 'a', 'm']);
+        expect(ids(paginateNotes(notes, withFilters({ sortBy: 'mostEdited' }), null).notes)).toEqual(['z', 'a', 'm']);
+    });
+
+    it('breaks ties on updated_at by id, so no note is skipped or repeated across pages', () => {
+        const notes = ['c', 'e', 'a', 'd', 'b'].map(id => makeNote({ id }));
+
+        expect(readAllPages(notes, withFilters(), 2)).toEqual(['e', 'd', 'c', 'b', 'a']);
+        expect(readAllPages(notes, withFilters({ sortBy: 'oldest' }), 2)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('treats device and server timestamps for the same moment as equal', () => {
+        const notes = [
+            makeNote({ id: 'a', updated_at: '2026-03-01T09:00:00.000Z' }),
+            makeNote({ id: 'b', updated_at: '2026-03-01T09:00:00+00:00' }),
+            makeNote({ id: 'c', updated_at: '2026-03-01T09:00:00.000000+00:00' }),
+        ];
+
+        expect(readAllPages(notes, withFilters(), 1)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('continues after the cursor even when that note has since gone', () => {
+        const notes = ['a', 'b', 'c', 'd'].map(id => makeNote({ id }));
+        const cursor = createCursor(notes[2], 'recent'); // after c, with c removed below
+
+        const page = paginateNotes(notes.filter(note => note.id !== 'c'), withFilters(), cursor);
+
+        expect(ids(page.notes)).toEqual(['b', 'a']);
+    });
+
+    it('starts over when the cursor belongs to another order', () => {
+        const notes = ['a', 'b', 'c'].map(id => makeNote({ id }));
+        const cursor = createCursor(notes[1], 'alphabetical');
+
+        expect(ids(paginateNotes(notes, withFilters(), cursor).notes)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('counts every matching note and has no cursor on the last page', () => {
+        const notes = ['a', 'b', 'c'].map(id => makeNote({ id }));
+
+        const first = paginateNotes(notes, withFilters(), null, 2);
+        const last = paginateNotes(notes, withFilters(), first.nextCursor, 2);
+
+        expect(first).toMatchObject({ total: 3, nextCursor: expect.any(Object) });
+        expect(last).toMatchObject({ notes: [expect.objectContaining({ id: 'a' })], nextCursor: null });
+    });
+});
+
+describe('matchesNoteFilters', () => {
+    const now = new Date(2026, 2, 10, 15, 0);
+
+    it('hides archived notes unless asked for them', () => {
+        const archived = makeNote({ archived_at: '2026-03-02T00:00:00.000Z' });
+
+        expect(matchesNoteFilters(archived, withFilters(), now)).toBe(false);
+        expect(matchesNoteFilters(archived, withFilters({ includeArchived: true }), now)).toBe(true);
+    });
+
+    it('matches a notebook, or the Inbox for notes outside any notebook', () => {
+        const inNotebook = makeNote({ notebook_id: 'book-1' });
+        const inInbox = makeNote();
+
+        expect(matchesNoteFilters(inNotebook, withFilters({ notebook: 'book-1' }), now)).toBe(true);
+        expect(matchesNoteFilters(inInbox, withFilters({ notebook: 'book-1' }), now)).toBe(false);
+        expect(matchesNoteFilters(inInbox, withFilters({ notebook: INBOX_FILTER }), now)).toBe(true);
+        expect(matchesNoteFilters(inNotebook, withFilters({ notebook: INBOX_FILTER }), now)).toBe(false);
+    });
+
+    it('applies the favorite, tagged and long note switches', () => {
+        expect(matchesNoteFilters(makeNote(), withFilters({ favoritesOnly: true }), now)).toBe(false);
+        expect(matchesNoteFilters(makeNote({ favorite: true }), withFilters({ favoritesOnly: true }), now)).toBe(true);
+        expect(matchesNoteFilters(makeNote({ tags: [] }), withFilters({ withTagsOnly: true }), now)).toBe(false);
+        expect(matchesNoteFilters(makeNote({ tags: ['work'] }), withFilters({ withTagsOnly: true }), now)).toBe(true);
+        expect(matchesNoteFilters(makeNote({ body: 'short' }), withFilters({ longNotesOnly: true }), now)).toBe(false);
+        expect(matchesNoteFilters(makeNote({ body: 'x'.repeat(100) }), withFilters({ longNotesOnly: true }), now)).toBe(true);
+    });
+
+    it('checks the chosen date field against the date filter', () => {
+        const note = makeNote({
+            created_at: new Date(2026, 0, 5).toISOString(),
+            updated_at: new Date(2026, 2, 10, 9, 0).toISOString(),
+        });
+
+        expect(matchesNoteFilters(note, withFilters({ dateFilter: 'today', dateField: 'created_at' }), now)).toBe(false);
+        expect(matchesNoteFilters(note, withFilters({ dateFilter: 'today', dateField: 'updated_at' }), now)).toBe(true);
+    });
+
+    it('applies the tag filter', () => {
+        const note = makeNote({ tags: ['work/acme', 'urgent'] });
+
+        expect(matchesNoteFilters(note, withFilters({ selectedTags: ['work'] }), now)).toBe(true);
+        expect(matchesNoteFilters(note, withFilters({ selectedTags: ['work'], excludedTags: ['urgent'] }), now)).toBe(false);
+    });
+});
+
+describe('mergePendingPage', () => {
+    // The server's notes a to f, newest first, in pages of two
+    const server = ['a', 'b', 'c', 'd', 'e', 'f'].map((id, index) =>
+        makeNote({ id, updated_at: new Date(Date.UTC(2026, 2, 10 - index)).toISOString() })
+    );
+    const serverPage = (cursor: ReturnType<typeof createCursor> | null) => paginateNotes(server, withFilters(), cursor, 2);
+
+    it('puts a local edit where it sorts now, on the page that covers that place', () => {
+        // e was edited on the device between b and c
+        const edited = { ...server[4], updated_at: '2026-03-08T12:00:00.000Z' };
+        const pending = [{ note: edited, serverCopy: server[4] }];
+
+        const first = mergePendingPage(serverPage(null), pending, withFilters(), null);
+        const second = mergePendingPage(serverPage(first.nextCursor), pending, withFilters(), first.nextCursor);
+        const third = mergePendingPage(serverPage(second.nextCursor), pending, withFilters(), second.nextCursor);
+
+        expect(ids(first.notes)).toEqual(['a', 'b']);
+        expect(ids(second.notes)).toEqual(['e', 'c', 'd']);
+        expect(second.notes[0]).toBe(edited);
+        expect(ids(third.notes)).toEqual(['f']);
+        expect(first.total).toBe(6);
+    });
+
+    it('adds notes the server has not seen and leaves out ones deleted or filtered away on the device', () => {
+        const created = makeNote({ id: 'new', updated_at: '2026-03-11T00:00:00.000Z' });
+        const deleted = { ...server[1], deleted_at: '2026-03-11T00:00:00.000Z' };
+        const archived = { ...server[0], archived_at: '2026-03-11T00:00:00.000Z' };
+        const pending = [
+            { note: created, serverCopy: null },
+            { note: deleted, serverCopy: server[1] },
+            { note: archived, serverCopy: server[0] },
+        ];
+
+        const page = mergePendingPage(serverPage(null), pending, withFilters(), null);
+
+        expect(ids(page.notes)).toEqual(['new']);
+        expect(page.total).toBe(5);
+    });
+
+    it('returns the page as it is without pending notes', () => {
+        const page = serverPage(null);
+
+        expect(mergePendingPage(page, [], withFilters(), null)).toBe(page);
+    });
+});
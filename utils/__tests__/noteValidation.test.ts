@@ -0,0 +1,87 @@
+import {
+    MAX_BODY_LENGTH,
+    MAX_TAGS_PER_NOTE,
+    MAX_TITLE_LENGTH,
+    NoteValidationError,
+    getNoteErrors,
+    normalizeNoteInput,
+    validateBody,
+    validateTags,
+    validateTitle,
+} from '../noteValidation';
+
+const tags = (count: number) => Array.from({ length: count }, (_, i) => `tag${i}`);
+
+describe('validateTitle', () => {
+    it.each([
+        ['', 'Title is required'],
+        ['   ', 'Title is required'],
+        ['x'.repeat(MAX_TITLE_LENGTH), null],
+        [`  ${'x'.repeat(MAX_TITLE_LENGTH)}  `, null],
+        ['x'.repeat(MAX_TITLE_LENGTH + 1), 'Titles must be 100 characters or less'],
+    ])('%j', (title, expected) => {
+        expect(validateTitle(title)).toBe(expected);
+    });
+});
+
+describe('validateBody', () => {
+    it('allows an empty body and one at the limit, not past it', () => {
+        expect(validateBody('')).toBeNull();
+        expect(validateBody(`${'x'.repeat(MAX_BODY_LENGTH)}\n\n`)).toBeNull();
+        expect(validateBody('x'.repeat(MAX_BODY_LENGTH + 1))).toBe('Notes must be 50,000 characters or less');
+    });
+});
+
+describe('validateTags', () => {
+    it.each([
+        ['up to the limit', tags(MAX_TAGS_PER_NOTE), null],
+        ['past the limit', tags(MAX_TAGS_PER_NOTE + 1), 'Notes can have up to 10 tags'],
+        ['repeats ignoring case count once', [...tags(MAX_TAGS_PER_NOTE), 'TAG0', '#tag1'], null],
+        ['a nested tag', ['work/acme/q3'], null],
+        ['an empty tag', ['work', '  '], '#: Tag name is required'],
+        ['a long part', [`work/${'x'.repeat(21)}`], `#work/${'x'.repeat(21)}: Each part of a tag must be 20 characters or less`],
+        ['a long path', [Array.from({ length: 4 }, () => 'x'.repeat(20)).join('/')], expect.stringContaining('Tags must be 60 characters or less')],
+        ['a comma', ['a,b'], '#a,b: Tags can\'t contain commas'],
+    ])('%s', (_label, input, expected) => {
+        expect(validateTags(input)).toEqual(expected);
+    });
+});
+
+describe('getNoteErrors', () => {
+    it('only checks the fields it is given', () => {
+        expect(getNoteErrors({ body: 'x'.repeat(MAX_BODY_LENGTH + 1) })).toEqual({
+            body: 'Notes must be 50,000 characters or less',
+        });
+        expect(getNoteErrors({ tags: null })).toEqual({});
+    });
+});
+
+describe('normalizeNoteInput', () => {
+    it('trims text and tidies tags, keeping the first spelling of a repeat', () => {
+        expect(normalizeNoteInput({ title: '  Plan  ', body: '\nbody\n', tags: [' #Work ', 'work', 'home / garden'] })).toEqual({
+            title: 'Plan',
+            body: 'body',
+            tags: ['Work', 'home/garden'],
+        });
+    });
+
+    it('leaves fields it was not given alone', () => {
+        expect(normalizeNoteInput({ pinned: true, title: 'Plan ' })).toEqual({ pinned: true, title: 'Plan' });
+    });
+
+    it('throws with an error for each field that breaks the rules', () => {
+        let caught: unknown;
+        try {
+            normalizeNoteInput({ title: '', tags: tags(MAX_TAGS_PER_NOTE + 1) });
+        } catch (error) {
+            caught = error;
+        }
+
+        expect(caught).toBeInstanceOf(NoteValidationError);
+        expect((caught as NoteValidationError).message).toBe('Title is required');
+        expect((caught as NoteValidationError).errors).toEqual({
+            title: 'Title is required',
+            tags: 'Notes can have up to 10 tags',
+        });
+    });
+});
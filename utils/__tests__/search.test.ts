@@ -0,0 +1,88 @@
+import type { Note, NoteSearchHit } from '@/services/notes';
+import { mergePendingHits, splitHighlights } from '../search';
+import { parseSearchQuery } from '../searchQuery';
+
+const note = (overrides: Partial<Note> = {}): Note => ({
+    id: 'note-1',
+    user_id: 'user-1',
+    title: 'Weekly meeting',
+    body: 'Planning the quarter',
+    tags: ['work'],
+    created_at: '2026-03-10T09:00:00.000Z',
+    updated_at: '2026-03-12T09:00:00.000Z',
+    deleted_at: null,
+    edit_count: 0,
+    notebook_id: null,
+    pinned: false,
+    favorite: false,
+    archived_at: null,
+    ...overrides,
+});
+
+const hit = (searched: Note, rank = 0.5): NoteSearchHit => ({
+    id: searched.id,
+    rank,
+    title_highlight: searched.title,
+    body_snippet: searched.body,
+    note: searched,
+});
+
+const ids = (hits: NoteSearchHit[]) => hits.map(item => item.id);
+
+describe('splitHighlights', () => {
+    it('splits out the marked words', () => {
+        expect(splitHighlights('Weekly ⟦meeting⟧ notes')).toEqual([
+            { text: 'Weekly ', highlighted: false },
+            { text: 'meeting', highlighted: true },
+            { text: ' notes', highlighted: false },
+        ]);
+    });
+});
+
+describe('mergePendingHits', () => {
+    const query = parseSearchQuery('planning');
+
+    it('keeps server hits for notes without pending changes as they are', () => {
+        const hits = [hit(note({ id: 'a' }), 0.9), hit(note({ id: 'b' }), 0.4)];
+
+        expect(mergePendingHits(hits, [], query)).toEqual(hits);
+    });
+
+    it('adds notes edited on the device that the server has not seen match yet', () => {
+        const hits = [hit(note({ id: 'a' }))];
+        const edited = note({ id: 'b', body: 'Planning offline' });
+        const unrelated = note({ id: 'c', body: 'Groceries' });
+
+        const merged = mergePendingHits(hits, [edited, unrelated], query);
+
+        expect(ids(merged)).toEqual(['a', 'b']);
+        expect(merged[1]).toMatchObject({ note: edited, body_snippet: '⟦Planning⟧ offline' });
+    });
+
+    it('drops a hit whose pending edit no longer matches, or that was deleted', () => {
+        const hits = [hit(note({ id: 'a' })), hit(note({ id: 'b' })), hit(note({ id: 'c' }))];
+        const rewritten = note({ id: 'a', body: 'Nothing to see' });
+        const deleted = note({ id: 'b', deleted_at: '2026-03-13T09:00:00.000Z' });
+
+        expect(ids(mergePendingHits(hits, [rewritten, deleted], query))).toEqual(['c']);
+    });
+
+    it('keeps the rank and shows the local copy when the pending edit still matches', () => {
+        const hits = [hit(note({ id: 'a' }), 0.9)];
+        const edited = note({ id: 'a', body: 'Planning, now with dates' });
+
+        expect(mergePendingHits(hits, [edited], query)).toEqual([
+            expect.objectContaining({ id: 'a', rank: 0.9, note: edited }),
+        ]);
+    });
+
+    it('trusts the server match when only something other than the text changed', () => {
+        // The server matched "plans" to "planning" by stem, which the device can't check
+        const searched = note({ id: 'a', body: 'Our plans' });
+        const pinned = { ...searched, pinned: true };
+
+        expect(mergePendingHits([hit(searched)], [pinned], query)).toEqual([
+            expect.objectContaining({ id: 'a', note: pinned }),
+        ]);
+    });
+});
@@ -0,0 +1,168 @@
+import type { Note } from '@/services/notes';
+import {
+    getHighlightTerms,
+    matchesSearchQuery,
+    parseSearchQuery,
+    SearchQueryError,
+    toFullTextQuery,
+    type SearchTerm,
+} from '../searchQuery';
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+const note = (overrides: Partial<Note> = {}): Note => ({
+    id: 'note-1',
+    user_id: 'user-1',
+    title: 'Weekly meeting',
+    body: 'Project plan for the quarter',
+    tags: ['work', 'clients/acme'],
+    created_at: day(2026, 3, 10).toISOString(),
+    updated_at: day(2026, 3, 12).toISOString(),
+    deleted_at: null,
+    edit_count: 0,
+    notebook_id: null,
+    pinned: false,
+    favorite: false,
+    archived_at: null,
+    ...overrides,
+});
+
+describe('parseSearchQuery', () => {
+    const cases: [string, string, SearchTerm[][]][] = [
+        ['empty input', '   ', []],
+        ['plain words', 'meeting notes', [[
+            { type: 'text', value: 'meeting', phrase: false, negated: false },
+            { type: 'text', value: 'notes', phrase: false, negated: false },
+        ]]],
+        ['a quoted phrase', '"project plan"', [[
+            { type: 'text', value: 'project plan', phrase: true, negated: false },
+        ]]],
+        ['a negated phrase', '-"old plan"', [[
+            { type: 'text', value: 'old plan', phrase: true, negated: true },
+        ]]],
+        ['tag:', 'tag:work', [[{ type: 'tag', value: 'work', negated: false }]]],
+        ['-tag:', '-tag:draft', [[{ type: 'tag', value: 'draft', negated: true }]]],
+        ['a nested tag with #', 'tag:#clients/acme', [[{ type: 'tag', value: 'clients/acme', negated: false }]]],
+        ['a quoted tag value', 'tag:"client work"', [[{ type: 'tag', value: 'client work', negated: false }]]],
+        ['before:', 'before:2026-01-01', [[
+            { type: 'date', field: 'created_at', comparison: 'before', date: day(2026, 1, 1), negated: false },
+        ]]],
+        ['after:', 'after:2025-06-30', [[
+            { type: 'date', field: 'created_at', comparison: 'after', date: day(2025, 6, 30), negated: false },
+        ]]],
+        ['updated:', 'updated:2026-03-01', [[
+            { type: 'date', field: 'updated_at', comparison: 'on', date: day(2026, 3, 1), negated: false },
+        ]]],
+        ['updated:>', 'updated:>2026-03-01', [[
+            { type: 'date', field: 'updated_at', comparison: 'after', date: day(2026, 3, 1), negated: false },
+        ]]],
+        ['updated:<', 'updated:<2026-03-01', [[
+            { type: 'date', field: 'updated_at', comparison: 'before', date: day(2026, 3, 1), negated: false },
+        ]]],
+        ['is: flags', 'is:long -is:tagged IS:Pinned is:favorite', [[
+            { type: 'is', value: 'long', negated: false },
+            { type: 'is', value: 'tagged', negated: true },
+            { type: 'is', value: 'pinned', negated: false },
+            { type: 'is', value: 'favorite', negated: false },
+        ]]],
+        ['OR between groups', 'tag:work OR tag:home | urgent', [
+            [{ type: 'tag', value: 'work', negated: false }],
+            [{ type: 'tag', value: 'home', negated: false }],
+            [{ type: 'text', value: 'urgent', phrase: false, negated: false }],
+        ]],
+        ['unknown operators as text', 'http://example.com', [[
+            { type: 'text', value: 'http://example.com', phrase: false, negated: false },
+        ]]],
+        ['a lone dash as text', '- done', [[
+            { type: 'text', value: '-', phrase: false, negated: false },
+            { type: 'text', value: 'done', phrase: false, negated: false },
+        ]]],
+    ];
+
+    it.each(cases)('parses %s', (_label, input, expected) => {
+        expect(parseSearchQuery(input)).toEqual(expected);
+    });
+
+    it('parses today and yesterday', () => {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+
+        expect(parseSearchQuery('updated:today before:yesterday')).toEqual([[
+            { type: 'date', field: 'updated_at', comparison: 'on', date: today, negated: false },
+            { type: 'date', field: 'created_at', comparison: 'before', date: yesterday, negated: false },
+        ]]);
+    });
+
+    const errors: [string, string, string][] = [
+        ['an unclosed quote', '"project plan', 'A quote is missing its closing " mark.'],
+        ['an unclosed quoted value', 'tag:"client work', 'A quote is missing its closing " mark.'],
+        ['empty quotes', '""', 'Put some words between the quotes, e.g. "project plan".'],
+        ['tag: without a value', 'tag:', '"tag:" needs a value, e.g. tag:work.'],
+        ['before: without a value', 'before:', '"before:" needs a value, e.g. before:2026-01-01.'],
+        ['after: without a value', 'after:', '"after:" needs a value, e.g. after:2026-01-01.'],
+        ['updated: without a value', 'updated:', '"updated:" needs a value, e.g. updated:today.'],
+        ['is: without a value', 'is:', '"is:" needs a value, e.g. is:long.'],
+        ['an unknown is: flag', 'is:shared', '"is:shared" isn\'t supported. Try is:long or is:tagged or is:pinned or is:favorite.'],
+        ['a malformed date', 'before:01/02/2026', '"01/02/2026" isn\'t a date. Use YYYY-MM-DD, "today" or "yesterday".'],
+        ['an impossible date', 'after:2026-02-30', '"2026-02-30" isn\'t a date. Use YYYY-MM-DD, "today" or "yesterday".'],
+        ['a leading OR', 'OR work', 'OR needs something to search for on both sides.'],
+        ['a trailing OR', 'work OR', 'OR needs something to search for on both sides.'],
+        ['a doubled OR', 'work OR OR home', 'OR needs something to search for on both sides.'],
+        ['a negated OR', 'work -OR home', 'OR can\'t be negated. Put the "-" on the word after it instead.'],
+    ];
+
+    it.each(errors)('explains %s', (_label, input, message) => {
+        expect(() => parseSearchQuery(input)).toThrow(new SearchQueryError(message));
+    });
+});
+
+describe('matchesSearchQuery', () => {
+    const cases: [string, string, boolean][] = [
+        ['an empty query', '', true],
+        ['text in the body', 'quarter', true],
+        ['text case-insensitively', 'WEEKLY', true],
+        ['a missing word', 'budget', false],
+        ['a negated word', '-meeting', false],
+        ['a phrase', '"plan for the"', true],
+        ['a parent tag', 'tag:clients', true],
+        ['a tag case-insensitively', 'tag:WORK', true],
+        ['a partial tag name', 'tag:wor', false],
+        ['an excluded tag', '-tag:work', false],
+        ['created before', 'before:2026-03-11', true],
+        ['created on the day is not before it', 'before:2026-03-10', false],
+        ['created after', 'after:2026-03-09', true],
+        ['updated on the day', 'updated:2026-03-12', true],
+        ['updated after', 'updated:>2026-03-12', false],
+        ['is:tagged', 'is:tagged', true],
+        ['is:long', 'is:long', false],
+        ['is:pinned', 'is:pinned', false],
+        ['either side of OR', 'budget OR tag:work', true],
+        ['neither side of OR', 'budget OR tag:home', false],
+    ];
+
+    it.each(cases)('matches %s', (_label, input, expected) => {
+        expect(matchesSearchQuery(note(), parseSearchQuery(input))).toBe(expected);
+    });
+
+    it('can leave text terms to the server', () => {
+        expect(matchesSearchQuery(note(), parseSearchQuery('budget tag:work'), { skipText: true })).toBe(true);
+    });
+});
+
+describe('toFullTextQuery', () => {
+    it('keeps the text terms of a single group', () => {
+        expect(toFullTextQuery(parseSearchQuery('plan "next steps" -draft tag:work'))).toBe('plan "next steps" -draft');
+    });
+
+    it('gives up on OR and on purely negated text', () => {
+        expect(toFullTextQuery(parseSearchQuery('plan OR budget'))).toBeNull();
+        expect(toFullTextQuery(parseSearchQuery('-draft tag:work'))).toBeNull();
+    });
+});
+
+describe('getHighlightTerms', () => {
+    it('returns the words and phrases that were searched for', () => {
+        expect(getHighlightTerms(parseSearchQuery('plan -draft OR "next steps" tag:work'))).toEqual(['plan', 'next steps']);
+    });
+});
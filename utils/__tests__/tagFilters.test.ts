@@ -0,0 +1,43 @@
+import type { TagMatchMode } from '@/components/FilterModal';
+import { describeTagFilter, matchesTagFilter } from '../tagFilters';
+
+const filter = (selectedTags: string[], tagMatch: TagMatchMode = 'any', excludedTags: string[] = []) => ({
+    selectedTags,
+    tagMatch,
+    excludedTags,
+});
+
+describe('matchesTagFilter', () => {
+    const cases: [string, string[] | null, ReturnType<typeof filter>, boolean][] = [
+        ['any: one of the tags is enough', ['work'], filter(['work', 'home']), true],
+        ['any: none of the tags', ['travel'], filter(['work', 'home']), false],
+        ['all: every tag is needed', ['work', 'home'], filter(['work', 'home'], 'all'), true],
+        ['all: a missing tag', ['work'], filter(['work', 'home'], 'all'), false],
+        ['none: a selected tag rules it out', ['work'], filter(['work', 'home'], 'none'), false],
+        ['none: no selected tag', ['travel'], filter(['work', 'home'], 'none'), true],
+        ['none: an untagged note', null, filter(['work'], 'none'), true],
+        ['any: an untagged note', null, filter(['work']), false],
+        ['a parent matches its nested tags', ['work/acme'], filter(['work']), true],
+        ['a nested tag does not match its parent', ['work'], filter(['work/acme']), false],
+        ['a shared prefix is not a parent', ['workshop'], filter(['work']), false],
+        ['an excluded tag rules it out', ['work', 'draft'], filter(['work'], 'any', ['draft']), false],
+        ['an excluded tag wins over all', ['work', 'home', 'draft'], filter(['work', 'home'], 'all', ['draft']), false],
+        ['an excluded parent rules out nested tags', ['draft/old'], filter([], 'any', ['draft']), false],
+        ['only exclusions: other notes match', ['work'], filter([], 'any', ['draft']), true],
+        ['only exclusions: untagged notes match', null, filter([], 'any', ['draft']), true],
+    ];
+
+    it.each(cases)('%s', (_label, tags, tagFilter, expected) => {
+        expect(matchesTagFilter(tags, tagFilter)).toBe(expected);
+    });
+});
+
+describe('describeTagFilter', () => {
+    it('describes the selected and excluded tags', () => {
+        expect(describeTagFilter(filter([]))).toBeNull();
+        expect(describeTagFilter(filter(['work']))).toBe('#work');
+        expect(describeTagFilter(filter(['work'], 'none'))).toBe('none of #work');
+        expect(describeTagFilter(filter(['work', 'urgent'], 'all', ['draft']))).toBe('all of #work, #urgent, not #draft');
+        expect(describeTagFilter(filter(['a', 'b', 'c', 'd', 'e']))).toBe('any of #a, #b, #c +2');
+    });
+});
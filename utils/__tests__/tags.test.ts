@@ -0,0 +1,25 @@
+import { applyTagChange, isAffectedByTagChange, type TagChange } from '../tags';
+
+describe('applyTagChange', () => {
+    const cases: [string, string[], TagChange, string[]][] = [
+        ['renames a tag', ['work', 'home'], { type: 'replace', from: ['work'], to: 'job' }, ['job', 'home']],
+        ['renames nested tags with their parent', ['work', 'work/acme', 'work/acme/q3'], { type: 'replace', from: ['work'], to: 'job' }, ['job', 'job/acme', 'job/acme/q3']],
+        ['renames nested tags without the parent on the note', ['work/acme'], { type: 'replace', from: ['work'], to: 'clients' }, ['clients/acme']],
+        ['leaves tags that only share a prefix', ['workshop'], { type: 'replace', from: ['work'], to: 'job' }, ['workshop']],
+        ['moves by the closest parent when merging', ['a/b/c'], { type: 'replace', from: ['a', 'a/b'], to: 'x' }, ['x/c']],
+        ['keeps one copy after a merge', ['work/acme', 'job/acme'], { type: 'replace', from: ['work'], to: 'job' }, ['job/acme']],
+        ['removes only the exact tag', ['work', 'work/acme'], { type: 'remove', tags: ['work'] }, ['work/acme']],
+    ];
+
+    it.each(cases)('%s', (_label, tags, change, expected) => {
+        expect(applyTagChange(tags, change)).toEqual(expected);
+    });
+});
+
+describe('isAffectedByTagChange', () => {
+    it('counts notes that only have a nested tag', () => {
+        expect(isAffectedByTagChange(['work/acme'], { type: 'replace', from: ['work'], to: 'job' })).toBe(true);
+        expect(isAffectedByTagChange(['workshop'], { type: 'replace', from: ['work'], to: 'job' })).toBe(false);
+        expect(isAffectedByTagChange(['work/acme'], { type: 'remove', tags: ['work'] })).toBe(false);
+    });
+});
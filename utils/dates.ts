@@ -0,0 +1,123 @@
+import type { DateFilter, DateRange } from '@/components/FilterModal';
+
+// 0 = Sunday … 6 = Saturday, like Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Regions whose week starts on Sunday or Saturday; everywhere else starts on Monday (ISO 8601)
+const SUNDAY_START_REGIONS = [
+    'AG', 'AS', 'BD', 'BR', 'BS', 'BT', 'BW', 'BZ', 'CA', 'CN', 'CO', 'DM', 'DO', 'ET', 'GT', 'GU', 'HK',
+    'HN', 'ID', 'IL', 'IN', 'JM', 'JP', 'KE', 'KH', 'KR', 'LA', 'MH', 'MM', 'MO', 'MT', 'MX', 'MZ', 'NI',
+    'NP', 'PA', 'PE', 'PH', 'PK', 'PR', 'PT', 'PY', 'SA', 'SG', 'SV', 'TH', 'TT', 'TW', 'UM', 'US', 'VE',
+    'VI', 'WS', 'YE', 'ZA', 'ZW',
+];
+const SATURDAY_START_REGIONS = ['AE', 'AF', 'BH', 'DJ', 'DZ', 'EG', 'IQ', 'IR', 'JO', 'KW', 'LY', 'OM', 'QA', 'SD', 'SY'];
+
+export function getDeviceLocale() {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().locale;
+    } catch {
+        return 'en-US';
+    }
+}
+
+export function getFirstDayOfWeek(locale = getDeviceLocale()): Weekday {
+    try {
+        // getWeekInfo() is the current API, weekInfo the older one; both use 1 = Monday … 7 = Sunday
+        const intlLocale = new Intl.Locale(locale) as Intl.Locale & {
+            getWeekInfo?: () => { firstDay: number };
+            weekInfo?: { firstDay: number };
+        };
+        const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+        if (weekInfo) {
+            return (weekInfo.firstDay % 7) as Weekday;
+        }
+
+        const region = intlLocale.maximize().region ?? '';
+        if (SUNDAY_START_REGIONS.includes(region)) return 0;
+        if (SATURDAY_START_REGIONS.includes(region)) return 6;
+    } catch {
+        // Unknown locale tag, fall through to Monday
+    }
+    return 1;
+}
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const startOfWeek = (date: Date, firstDay: Weekday) =>
+    addDays(date, -((date.getDay() - firstDay + 7) % 7));
+
+export const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const addMonths = (date: Date, months: number) => new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+// Local calendar day as YYYY-MM-DD, which is what saved filters store
+export function toDayKey(date: Date) {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDayKey(key: string) {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+export type DateBounds = {
+    start: Date | null; // inclusive
+    end: Date | null; // exclusive
+};
+
+// Calendar boundaries for a date filter; weeks start on the locale's first day
+export function getDateFilterBounds(
+    dateFilter: DateFilter,
+    dateRange: DateRange,
+    now = new Date(),
+    firstDay = getFirstDayOfWeek()
+): DateBounds {
+    const today = startOfDay(now);
+
+    switch (dateFilter) {
+        case 'today':
+            return { start: today, end: addDays(today, 1) };
+        case 'thisWeek': {
+            const start = startOfWeek(today, firstDay);
+            return { start, end: addDays(start, 7) };
+        }
+        case 'thisMonth':
+            return { start: startOfMonth(today), end: addMonths(today, 1) };
+        case 'custom':
+            return {
+                start: dateRange.start ? parseDayKey(dateRange.start) : null,
+                end: dateRange.end ? addDays(parseDayKey(dateRange.end), 1) : null,
+            };
+        default:
+            return { start: null, end: null };
+    }
+}
+
+export function isWithinBounds(value: string | Date, bounds: DateBounds) {
+    const time = new Date(value).getTime();
+    return (!bounds.start || time >= bounds.start.getTime()) && (!bounds.end || time < bounds.end.getTime());
+}
+
+// e.g. "Mar 3 – Mar 9, 2026", "From Mar 3, 2026", "Until Mar 9, 2026"
+export function formatDateRange(range: DateRange, locale = getDeviceLocale()) {
+    const format = (key: string, withYear: boolean) =>
+        parseDayKey(key).toLocaleDateString(locale, {
+            month: 'short',
+            day: 'numeric',
+            ...(withYear && { year: 'numeric' }),
+        });
+
+    if (range.start && range.end) {
+        const sameYear = range.start.slice(0, 4) === range.end.slice(0, 4);
+        if (range.start === range.end) return format(range.start, true);
+        return `${format(range.start, !sameYear)} – ${format(range.end, true)}`;
+    }
+    if (range.start) return `From ${format(range.start, true)}`;
+    if (range.end) return `Until ${format(range.end, true)}`;
+    return 'Any date';
+}
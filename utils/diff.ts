@@ -0,0 +1,246 @@
+export type DiffLine = {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+};
+
+// Line-level diff from `before` to `after` (Myers' algorithm: O((n + m) · d) time, O(n + m) space)
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const result: DiffLine[] = [];
+
+    diffRange(a, 0, a.length, b, 0, b.length, result);
+    return result;
+}
+
+function diffRange(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number, result: DiffLine[]) {
+    // ✅ Lines shared at either end need no searching
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        result.push({ type: 'equal', text: a[aStart] });
+        aStart++;
+        bStart++;
+    }
+    let suffix = 0;
+    while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+        suffix++;
+    }
+    aEnd -= suffix;
+    bEnd -= suffix;
+
+    if (aStart === aEnd) {
+        for (let j = bStart; j < bEnd; j++) result.push({ type: 'added', text: b[j] });
+    } else if (bStart === bEnd) {
+        for (let i = aStart; i < aEnd; i++) result.push({ type: 'removed', text: a[i] });
+    } else {
+        const split = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+        if (split) {
+            diffRange(a, aStart, split[0], b, bStart, split[1], result);
+            diffRange(a, split[0], aEnd, b, split[1], bEnd, result);
+        } else {
+            for (let i = aStart; i < aEnd; i++) result.push({ type: 'removed', text: a[i] });
+            for (let j = bStart; j < bEnd; j++) result.push({ type: 'added', text: b[j] });
+        }
+    }
+
+    for (let i = aEnd; i < aEnd + suffix; i++) {
+        result.push({ type: 'equal', text: a[i] });
+    }
+}
+
+// Searches from both corners of the edit graph at once and returns the point where the paths meet,
+// which lies on a shortest edit script. Both ranges are non-empty and differ in their first and
+// last lines, so the point splits the work into two strictly smaller halves.
+function findMiddleSnake(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number): [number, number] | null {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const maxD = Math.ceil((n + m) / 2);
+    const offset = maxD;
+    const size = 2 * maxD + 2;
+
+    // forward[k] / reverse[k]: furthest x reached on diagonal k, counted from the start / from the end
+    const forward = new Array<number>(size).fill(-1);
+    const reverse = new Array<number>(size).fill(-1);
+    forward[offset + 1] = 0;
+    reverse[offset + 1] = 0;
+
+    const delta = n - m;
+    const checkForward = delta % 2 !== 0;
+    let forwardStartTrim = 0;
+    let forwardEndTrim = 0;
+    let reverseStartTrim = 0;
+    let reverseEndTrim = 0;
+
+    for (let d = 0; d < maxD; d++) {
+        for (let k = -d + forwardStartTrim; k <= d - forwardEndTrim; k += 2) {
+            let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+                ? forward[offset + k + 1]
+                : forward[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x++;
+                y++;
+            }
+            forward[offset + k] = x;
+
+            if (x > n) {
+                forwardEndTrim += 2; // ran off the right of the graph
+            } else if (y > m) {
+                forwardStartTrim += 2; // ran off the bottom
+            } else if (checkForward) {
+                const reverseIndex = offset + delta - k;
+                if (reverseIndex >= 0 && reverseIndex < size && reverse[reverseIndex] !== -1 && x >= n - reverse[reverseIndex]) {
+                    return [aStart + x, bStart + y];
+                }
+            }
+        }
+
+        for (let k = -d + reverseStartTrim; k <= d - reverseEndTrim; k += 2) {
+            let x = k === -d || (k !== d && reverse[offset + k - 1] < reverse[offset + k + 1])
+                ? reverse[offset + k + 1]
+                : reverse[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+                x++;
+                y++;
+            }
+            reverse[offset + k] = x;
+
+            if (x > n) {
+                reverseEndTrim += 2;
+            } else if (y > m) {
+                reverseStartTrim += 2;
+            } else if (!checkForward) {
+                const forwardIndex = offset + delta - k;
+                if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+                    const forwardX = forward[forwardIndex];
+                    if (forwardX >= n - x) {
+                        return [aStart + forwardX, bStart + forwardX - (forwardIndex - offset)];
+                    }
+                }
+            }
+        }
+    }
+
+    // No line in common
+    return null;
+}
+
+type Hunk = {
+    start: number; // range of base lines replaced
+    end: number;
+    lines: string[];
+};
+
+// The stretches of `base` that `version` changed, in order
+function getHunks(base: string, version: string) {
+    const hunks: Hunk[] = [];
+    let index = 0;
+    let open: Hunk | null = null;
+
+    for (const line of diffLines(base, version)) {
+        if (line.type === 'equal') {
+            open = null;
+            index++;
+            continue;
+        }
+        if (!open) {
+            open = { start: index, end: index, lines: [] };
+            hunks.push(open);
+        }
+        if (line.type === 'removed') {
+            index++;
+            open.end = index;
+        } else {
+            open.lines.push(line.text);
+        }
+    }
+    return hunks;
+}
+
+// The base lines in [start, end) with the given hunks applied
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]) {
+    const lines: string[] = [];
+    let index = start;
+    for (const hunk of hunks) {
+        lines.push(...baseLines.slice(index, hunk.start), ...hunk.lines);
+        index = hunk.end;
+    }
+    lines.push(...baseLines.slice(index, end));
+    return lines;
+}
+
+export const CONFLICT_MARKERS = {
+    theirs: '<<<<<<< Their version',
+    separator: '=======',
+    mine: '>>>>>>> Your version',
+};
+
+export type MergeResult = {
+    text: string;
+    conflicts: number; // sections both versions changed differently, left marked for the user
+};
+
+// Three-way merge of two versions that started from `base`. Changes made on one side only are
+// taken as they are; where both sides changed the same lines, both are kept between conflict markers.
+// Without a base the whole text is one marked section.
+export function mergeLines(base: string | null, theirs: string, mine: string): MergeResult {
+    if (theirs === mine) return { text: mine, conflicts: 0 };
+
+    const source = base ?? '';
+    const baseLines = source.split('\n');
+    const theirHunks = getHunks(source, theirs);
+    const myHunks = getHunks(source, mine);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let index = 0;
+
+    while (theirHunks.length > 0 || myHunks.length > 0) {
+        // ✅ Grow a section from the next hunk until no hunk on either side overlaps or touches it
+        const theirsInSection: Hunk[] = [];
+        const mineInSection: Hunk[] = [];
+        const first = !myHunks.length || (theirHunks.length > 0 && theirHunks[0].start <= myHunks[0].start)
+            ? theirHunks
+            : myHunks;
+        const start = first[0].start;
+        let end = first[0].end;
+
+        let grew = true;
+        while (grew) {
+            grew = false;
+            for (const [hunks, taken] of [[theirHunks, theirsInSection], [myHunks, mineInSection]] as const) {
+                // Overlapping, starting at the same line, or (from the other side) right after it
+                while (hunks.length > 0 && (hunks[0].start < end || hunks[0].start === start || (taken.length === 0 && hunks[0].start === end))) {
+                    const hunk = hunks.shift()!;
+                    taken.push(hunk);
+                    end = Math.max(end, hunk.end);
+                    grew = true;
+                }
+            }
+        }
+
+        output.push(...baseLines.slice(index, start));
+        const theirLines = applyHunks(baseLines, start, end, theirsInSection);
+        const myLines = applyHunks(baseLines, start, end, mineInSection);
+
+        if (theirsInSection.length === 0 || theirLines.join('\n') === myLines.join('\n')) {
+            output.push(...myLines);
+        } else if (mineInSection.length === 0) {
+            output.push(...theirLines);
+        } else {
+            output.push(CONFLICT_MARKERS.theirs, ...theirLines, CONFLICT_MARKERS.separator, ...myLines, CONFLICT_MARKERS.mine);
+            conflicts++;
+        }
+        index = end;
+    }
+    output.push(...baseLines.slice(index));
+
+    return { text: output.join('\n'), conflicts };
+}
+
+// True while a merged text still has sections the user has to settle
+export function hasConflictMarkers(text: string) {
+    return text.split('\n').some(line =>
+        line === CONFLICT_MARKERS.theirs || line === CONFLICT_MARKERS.separator || line === CONFLICT_MARKERS.mine
+    );
+}
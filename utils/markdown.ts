@@ -0,0 +1,406 @@
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'bold'; children: MarkdownInline[] }
+    | { type: 'italic'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownListItem = {
+    children: MarkdownInline[];
+    checked: boolean | null; // null for plain list items
+    depth: number;
+    line: number; // index of the source line, for editing items in place
+};
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+    | { type: 'code'; language: string; text: string }
+    | { type: 'quote'; children: MarkdownInline[] }
+    | { type: 'rule' };
+
+export type MarkdownFormat = 'heading' | 'bold' | 'italic' | 'bulletList' | 'numberedList' | 'checkbox' | 'code' | 'link';
+
+export type TextSelection = { start: number; end: number };
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\](?:\s+(.*))?$/;
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?]/;
+const ESCAPABLE = '\\`*_[]()#+-.!>';
+
+// Only web and mail links are rendered as tappable
+export function isSafeUrl(href: string) {
+    return /^(https?:\/\/|mailto:)\S+$/i.test(href);
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+    let i = 0;
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+            paragraph = [];
+        }
+    };
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            flushParagraph();
+            const code: string[] = [];
+            i++;
+            // An unclosed fence runs to the end of the note
+            while (i < lines.length && !FENCE.test(lines[i])) {
+                code.push(lines[i]);
+                i++;
+            }
+            blocks.push({ type: 'code', language: fence[1], text: code.join('\n') });
+            i++;
+            continue;
+        }
+
+        if (!line.trim()) {
+            flushParagraph();
+            i++;
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            flushParagraph();
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            flushParagraph();
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            flushParagraph();
+            const quoted: string[] = [];
+            let match: RegExpExecArray | null;
+            while (i < lines.length && (match = QUOTE.exec(lines[i]))) {
+                quoted.push(match[1]);
+                i++;
+            }
+            blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) });
+            continue;
+        }
+
+        const listItem = LIST_ITEM.exec(line);
+        if (listItem) {
+            flushParagraph();
+            const ordered = /\d/.test(listItem[2]);
+            const items: MarkdownListItem[] = [];
+            let match: RegExpExecArray | null;
+
+            // Consecutive items of the same kind form one list; nesting is kept as depth
+            while (i < lines.length && (match = LIST_ITEM.exec(lines[i])) && /\d/.test(match[2]) === ordered) {
+                const checkbox = CHECKBOX.exec(match[3]);
+                items.push({
+                    children: parseInline(checkbox ? checkbox[2] ?? '' : match[3]),
+                    checked: checkbox ? checkbox[1] !== ' ' : null,
+                    depth: Math.floor(match[1].replace(/\t/g, '  ').length / 2),
+                    line: i,
+                });
+                i++;
+            }
+
+            blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+            continue;
+        }
+
+        paragraph.push(line);
+        i++;
+    }
+
+    flushParagraph();
+    return blocks;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+// Index of the marker that closes an emphasis span opened at `start`, or -1
+function findClosingMarker(text: string, start: number, marker: string) {
+    const contentStart = start + marker.length;
+    if (contentStart >= text.length || /\s/.test(text[contentStart])) return -1;
+    // Underscores inside words (snake_case) are not emphasis
+    if (marker[0] === '_' && isWordChar(text[start - 1])) return -1;
+
+    let i = contentStart;
+    while ((i = text.indexOf(marker, i)) !== -1) {
+        const closes = i > contentStart && !/\s/.test(text[i - 1]) && text[i - 1] !== '\\';
+
+        if (marker.length === 1 && text[i + 1] === marker) {
+            i += 2; // a nested bold marker, opening or closing
+        } else if (!closes) {
+            i += marker.length;
+        } else if (marker[0] === '_' && isWordChar(text[i + marker.length])) {
+            i += marker.length;
+        } else {
+            // ***text*** closes the inner italic first
+            return marker.length === 2 && text[i + 2] === marker[0] ? i + 1 : i;
+        }
+    }
+
+    return -1;
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+    const nodes: MarkdownInline[] = [];
+    let buffer = '';
+    let i = 0;
+
+    const flush = () => {
+        if (buffer) {
+            nodes.push({ type: 'text', text: buffer });
+            buffer = '';
+        }
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+
+        if (char === '\\' && ESCAPABLE.includes(text[i + 1] ?? '')) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (char === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end > i + 1) {
+                flush();
+                nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+                i = end + 1;
+                continue;
+            }
+        }
+
+        if (char === '[') {
+            const link = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(text.slice(i));
+            if (link && isSafeUrl(link[2])) {
+                flush();
+                nodes.push({ type: 'link', href: link[2], children: parseInline(link[1]) });
+                i += link[0].length;
+                continue;
+            }
+        }
+
+        if (char === '*' || char === '_') {
+            const marker = text[i + 1] === char ? char + char : char;
+            const end = findClosingMarker(text, i, marker);
+            if (end !== -1) {
+                flush();
+                nodes.push({
+                    type: marker.length === 2 ? 'bold' : 'italic',
+                    children: parseInline(text.slice(i + marker.length, end)),
+                });
+                i = end + marker.length;
+                continue;
+            }
+        }
+
+        if (char === 'h' && !isWordChar(text[i - 1])) {
+            const url = BARE_URL.exec(text.slice(i));
+            if (url) {
+                flush();
+                nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+                i += url[0].length;
+                continue;
+            }
+        }
+
+        buffer += char;
+        i++;
+    }
+
+    flush();
+    return nodes;
+}
+
+// Plain text of inline nodes, e.g. for previews and accessibility labels
+export function inlineToPlainText(nodes: MarkdownInline[]): string {
+    return nodes
+        .map(node => (node.type === 'text' || node.type === 'code' ? node.text : inlineToPlainText(node.children)))
+        .join('');
+}
+
+const LIST_MARKER = /^(\s*)(?:[-*+]\s+\[[ xX]\]\s+|[-*+]\s+|\d+[.)]\s+)/;
+const LINE_FORMATS = {
+    bulletList: { matcher: /^(\s*)[-*+]\s+(?!\s|\[[ xX]\])/, prefix: () => '- ' },
+    checkbox: { matcher: /^(\s*)[-*+]\s+\[[ xX]\]\s+/, prefix: () => '- [ ] ' },
+    numberedList: { matcher: /^(\s*)\d+[.)]\s+/, prefix: (index: number) => `${index + 1}. ` },
+};
+
+// Applies a line-level format to every line the selection touches
+function formatLines(text: string, selection: TextSelection, format: 'heading' | keyof typeof LINE_FORMATS) {
+    const lineStart = text.lastIndexOf('\n', selection.start - 1) + 1;
+    const lineEndIndex = text.indexOf('\n', selection.end);
+    const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+    const lines = text.slice(lineStart, lineEnd).split('\n');
+
+    let replaced: string[];
+
+    if (format === 'heading') {
+        // Cycles # → ## → ### → plain text
+        replaced = lines.map(line => {
+            const heading = /^(#{1,6})\s+/.exec(line);
+            if (!heading) return `# ${line}`;
+            return heading[1].length >= 3 ? line.slice(heading[0].length) : `#${line}`;
+        });
+    } else {
+        const { matcher, prefix } = LINE_FORMATS[format];
+        const contentLines = lines.filter(line => line.trim());
+        const alreadyFormatted = contentLines.length > 0 && contentLines.every(line => matcher.test(line));
+        let index = 0;
+
+        replaced = lines.map(line => {
+            if (alreadyFormatted) return line.replace(matcher, '$1');
+            if (!line.trim() && lines.length > 1) return line;
+
+            // Switching list styles replaces the old marker
+            const existing = LIST_MARKER.exec(line);
+            const indent = existing ? existing[1] : /^\s*/.exec(line)![0];
+            const content = line.slice(existing ? existing[0].length : indent.length);
+            return `${indent}${prefix(index++)}${content}`;
+        });
+    }
+
+    const block = replaced.join('\n');
+    const nextText = text.slice(0, lineStart) + block + text.slice(lineEnd);
+
+    if (selection.start === selection.end && lines.length === 1) {
+        const cursor = Math.max(lineStart, selection.start + block.length - (lineEnd - lineStart));
+        return { text: nextText, selection: { start: cursor, end: cursor } };
+    }
+
+    return { text: nextText, selection: { start: lineStart, end: lineStart + block.length } };
+}
+
+// Wraps the selection in an inline marker, or unwraps it when already wrapped
+function wrapSelection(text: string, selection: TextSelection, marker: string, placeholder: string) {
+    const { start, end } = selection;
+    const selected = text.slice(start, end);
+
+    if (text.slice(start - marker.length, start) === marker && text.slice(end, end + marker.length) === marker) {
+        return {
+            text: text.slice(0, start - marker.length) + selected + text.slice(end + marker.length),
+            selection: { start: start - marker.length, end: end - marker.length },
+        };
+    }
+
+    if (selected.length > marker.length * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+        const inner = selected.slice(marker.length, -marker.length);
+        return {
+            text: text.slice(0, start) + inner + text.slice(end),
+            selection: { start, end: start + inner.length },
+        };
+    }
+
+    // With nothing selected, insert a placeholder the user can type over
+    const inner = selected || placeholder;
+    return {
+        text: text.slice(0, start) + marker + inner + marker + text.slice(end),
+        selection: { start: start + marker.length, end: start + marker.length + inner.length },
+    };
+}
+
+function insertCodeBlock(text: string, selection: TextSelection) {
+    const { start, end } = selection;
+    const inner = text.slice(start, end);
+    const before = start > 0 && text[start - 1] !== '\n' ? '\n' : '';
+    const after = end < text.length && text[end] !== '\n' ? '\n' : '';
+    const opening = `${before}\`\`\`\n`;
+
+    return {
+        text: `${text.slice(0, start)}${opening}${inner}\n\`\`\`${after}${text.slice(end)}`,
+        selection: { start: start + opening.length, end: start + opening.length + inner.length },
+    };
+}
+
+function insertLink(text: string, selection: TextSelection) {
+    const { start, end } = selection;
+    const label = text.slice(start, end) || 'link text';
+    const url = 'https://';
+    const link = `[${label}](${url})`;
+    const nextText = text.slice(0, start) + link + text.slice(end);
+
+    // Select whatever the user still has to fill in
+    if (start !== end) {
+        const cursor = start + label.length + 3 + url.length;
+        return { text: nextText, selection: { start: cursor, end: cursor } };
+    }
+    return { text: nextText, selection: { start: start + 1, end: start + 1 + label.length } };
+}
+
+export function applyMarkdownFormat(text: string, selection: TextSelection, format: MarkdownFormat) {
+    const range = {
+        start: Math.max(0, Math.min(selection.start, selection.end, text.length)),
+        end: Math.min(text.length, Math.max(selection.start, selection.end)),
+    };
+
+    switch (format) {
+        case 'bold':
+            return wrapSelection(text, range, '**', 'bold text');
+        case 'italic':
+            return wrapSelection(text, range, '_', 'italic text');
+        case 'code':
+            return text.slice(range.start, range.end).includes('\n')
+                ? insertCodeBlock(text, range)
+                : wrapSelection(text, range, '`', 'code');
+        case 'link':
+            return insertLink(text, range);
+        default:
+            return formatLines(text, range, format);
+    }
+}
+
+// Checklist items outside code blocks, as found by the parser
+function listChecklistItems(source: string) {
+    return parseMarkdown(source)
+        .flatMap(block => (block.type === 'list' ? block.items : []))
+        .filter(item => item.checked !== null);
+}
+
+export function getChecklistProgress(source: string) {
+    const items = listChecklistItems(source);
+    return {
+        done: items.filter(item => item.checked).length,
+        total: items.length,
+    };
+}
+
+// Flips the checkbox on the given source line; other lines are left untouched
+export function toggleChecklistItem(source: string, line: number) {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const item = listChecklistItems(source).find(candidate => candidate.line === line);
+    if (!item) return source;
+
+    lines[line] = lines[line].replace(/^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/, (_, marker) =>
+        `${marker}[${item.checked ? ' ' : 'x'}]`
+    );
+    return lines.join('\n');
+}
+
+// True when the bodies differ only in which checklist items are ticked. Ticking items off isn't an edit:
+// the database makes the same comparison before counting one or saving a revision.
+export function isChecklistOnlyChange(before: string, after: string) {
+    const untick = (source: string) => source.replace(/^(\s*(?:[-*+]|\d+[.)])\s+)\[[ xX]\]/gm, '$1[ ]');
+    return before !== after && untick(before) === untick(after);
+}
@@ -0,0 +1,47 @@
+import type { PendingNote } from '@/services/localNotes';
+import type { Note } from '@/services/notes';
+import { countNotesByNotebook } from '@/utils/notebooks';
+import { calculateTagRollup, calculateTagUsage } from '@/utils/tags';
+
+export type NoteCounts = {
+    tagUsage: Record<string, number>; // notes per exact tag
+    tagRollup: Record<string, number>; // notes per tag path, nested tags included
+    notebooks: Record<string, number>; // keyed by notebook id, with INBOX_FILTER for the Inbox
+};
+
+// Counts over notes on the device, for when the server can't be asked
+export function countNotes(notes: Note[]): NoteCounts {
+    return {
+        tagUsage: calculateTagUsage(notes),
+        tagRollup: calculateTagRollup(notes),
+        notebooks: countNotesByNotebook(notes),
+    };
+}
+
+function adjust(base: Record<string, number>, remove: Record<string, number>, add: Record<string, number>) {
+    const result = { ...base };
+    Object.entries(remove).forEach(([key, count]) => {
+        result[key] = (result[key] ?? 0) - count;
+    });
+    Object.entries(add).forEach(([key, count]) => {
+        result[key] = (result[key] ?? 0) + count;
+    });
+    Object.keys(result).forEach(key => {
+        if (result[key] <= 0) delete result[key];
+    });
+    return result;
+}
+
+// ✅ The server only counts what was pushed: notes with pending changes are counted as the server
+// has them, so that copy is taken off and the device's copy added instead
+export function applyPendingCounts(counts: NoteCounts, pending: PendingNote[], includeArchived = false): NoteCounts {
+    const counted = (note: Note | null): note is Note => !!note && !note.deleted_at && (includeArchived || !note.archived_at);
+    const before = countNotes(pending.map(item => item.serverCopy).filter(counted));
+    const after = countNotes(pending.map(item => item.note).filter(counted));
+
+    return {
+        tagUsage: adjust(counts.tagUsage, before.tagUsage, after.tagUsage),
+        tagRollup: adjust(counts.tagRollup, before.tagRollup, after.tagRollup),
+        notebooks: adjust(counts.notebooks, before.notebooks, after.notebooks),
+    };
+}
@@ -0,0 +1,176 @@
+import type { FilterOptions, SortOption } from '@/components/FilterModal';
+import type { PendingNote } from '@/services/localNotes';
+import type { Note } from '@/services/notes';
+import { getDateFilterBounds, isWithinBounds } from '@/utils/dates';
+import { matchesNotebookFilter } from '@/utils/notebooks';
+import { LONG_NOTE_LENGTH } from '@/utils/searchQuery';
+import { matchesTagFilter } from '@/utils/tagFilters';
+
+export const NOTES_PAGE_SIZE = 30;
+
+export type SortColumn = 'pinned' | 'updated_at' | 'created_at' | 'title' | 'edit_count' | 'id';
+export type SortKey = { column: SortColumn; ascending: boolean };
+export type SortValue = string | number | boolean;
+
+// Pinned notes lead every order; the id breaks ties so each note has exactly one place in it
+const SORT_KEYS: Record<SortOption, SortKey[]> = {
+    recent: [
+        { column: 'pinned', ascending: false },
+        { column: 'updated_at', ascending: false },
+        { column: 'id', ascending: false },
+    ],
+    alphabetical: [
+        { column: 'pinned', ascending: false },
+        { column: 'title', ascending: true },
+        { column: 'id', ascending: true },
+    ],
+    oldest: [
+        { column: 'pinned', ascending: false },
+        { column: 'created_at', ascending: true },
+        { column: 'id', ascending: true },
+    ],
+    mostEdited: [
+        { column: 'pinned', ascending: false },
+        { column: 'edit_count', ascending: false },
+        { column: 'updated_at', ascending: false },
+        { column: 'id', ascending: false },
+    ],
+};
+
+export function getSortKeys(sortBy: SortOption) {
+    return SORT_KEYS[sortBy] ?? SORT_KEYS.recent;
+}
+
+// Keyset cursor: the sort values of the last note on the previous page
+export type NotesCursor = {
+    sortBy: SortOption;
+    values: SortValue[];
+};
+
+export type NotesPage = {
+    notes: Note[];
+    nextCursor: NotesCursor | null; // null on the last page
+    total: number | null; // notes matching the filters; only counted for the first page
+};
+
+export function getSortValues(note: Note, sortBy: SortOption): SortValue[] {
+    return getSortKeys(sortBy).map(({ column }) => {
+        switch (column) {
+            case 'pinned':
+                return !!note.pinned;
+            case 'edit_count':
+                return note.edit_count ?? 0;
+            default:
+                return note[column];
+        }
+    });
+}
+
+export function createCursor(note: Note, sortBy: SortOption): NotesCursor {
+    return { sortBy, values: getSortValues(note, sortBy) };
+}
+
+// Timestamps from the device and the server differ in format, so they are compared as times
+function compareColumn(column: SortColumn, a: SortValue, b: SortValue) {
+    switch (column) {
+        case 'pinned':
+            return Number(a) - Number(b);
+        case 'edit_count':
+            return Number(a) - Number(b);
+        case 'updated_at':
+        case 'created_at':
+            return new Date(a as string).getTime() - new Date(b as string).getTime();
+        case 'title':
+            return String(a).localeCompare(String(b));
+        default:
+            return a < b ? -1 : a > b ? 1 : 0;
+    }
+}
+
+function compareSortValues(a: SortValue[], b: SortValue[], sortBy: SortOption) {
+    const keys = getSortKeys(sortBy);
+    for (let i = 0; i < keys.length; i++) {
+        const diff = compareColumn(keys[i].column, a[i], b[i]);
+        if (diff !== 0) {
+            return keys[i].ascending ? diff : -diff;
+        }
+    }
+    return 0;
+}
+
+export function compareNotes(a: Note, b: Note, sortBy: SortOption) {
+    return compareSortValues(getSortValues(a, sortBy), getSortValues(b, sortBy), sortBy);
+}
+
+// Same rules the server applies in listNotesPage (services/notes.ts)
+export function matchesNoteFilters(note: Note, filters: FilterOptions, now = new Date()) {
+    if (!filters.includeArchived && note.archived_at) return false;
+    if (filters.notebook !== null && !matchesNotebookFilter(note, filters.notebook)) return false;
+    if (filters.favoritesOnly && !note.favorite) return false;
+    if (filters.withTagsOnly && !(note.tags && note.tags.length > 0)) return false;
+    if (filters.longNotesOnly && (note.body?.length ?? 0) < LONG_NOTE_LENGTH) return false;
+
+    if (filters.dateFilter !== 'all') {
+        const bounds = getDateFilterBounds(filters.dateFilter, filters.dateRange, now);
+        if (!isWithinBounds(note[filters.dateField], bounds)) return false;
+    }
+
+    if (filters.selectedTags.length > 0 || filters.excludedTags.length > 0) {
+        return matchesTagFilter(note.tags, filters);
+    }
+    return true;
+}
+
+// Pages over notes already on the device, in the same order and with the same cursors as the server
+export function paginateNotes(notes: Note[], filters: FilterOptions, cursor: NotesCursor | null, limit = NOTES_PAGE_SIZE): NotesPage {
+    const { sortBy } = filters;
+    const matching = notes
+        .filter(note => matchesNoteFilters(note, filters))
+        .sort((a, b) => compareNotes(a, b, sortBy));
+
+    let start = 0;
+    if (cursor && cursor.sortBy === sortBy) {
+        const index = matching.findIndex(note => compareSortValues(getSortValues(note, sortBy), cursor.values, sortBy) > 0);
+        start = index === -1 ? matching.length : index;
+    }
+
+    const page = matching.slice(start, start + limit);
+    const hasMore = start + limit < matching.length;
+
+    return {
+        notes: page,
+        nextCursor: hasMore ? createCursor(page[page.length - 1], sortBy) : null,
+        total: matching.length,
+    };
+}
+
+// ✅ Lays the device's unpushed edits over a server page: their server rows make way for the local
+// copies, each placed where it sorts now, and the total is corrected for what the server counted
+export function mergePendingPage(page: NotesPage, pending: PendingNote[], filters: FilterOptions, cursor: NotesCursor | null): NotesPage {
+    if (pending.length === 0) return page;
+
+    const { sortBy } = filters;
+    const after = cursor && cursor.sortBy === sortBy ? cursor.values : null;
+    const until = page.nextCursor ? page.nextCursor.values : null;
+    const matches = (note: Note | null): note is Note => !!note && !note.deleted_at && matchesNoteFilters(note, filters);
+
+    // A local copy belongs on this page when it sorts after the previous page and up to the next one
+    const onPage = (note: Note) => {
+        const values = getSortValues(note, sortBy);
+        return (!after || compareSortValues(values, after, sortBy) > 0) &&
+            (!until || compareSortValues(values, until, sortBy) <= 0);
+    };
+
+    const pendingIds = new Set(pending.map(item => item.note.id));
+    const local = pending.map(item => item.note).filter(matches);
+    const notes = [...page.notes.filter(note => !pendingIds.has(note.id)), ...local.filter(onPage)]
+        .sort((a, b) => compareNotes(a, b, sortBy));
+
+    const countedByServer = pending.filter(item => matches(item.serverCopy)).length;
+
+    return {
+        notes,
+        nextCursor: page.nextCursor,
+        total: page.total === null ? null : page.total - countedByServer + local.length,
+    };
+}
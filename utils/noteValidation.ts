@@ -0,0 +1,85 @@
+import { dedupeTags, normalizeTagName } from '@/utils/tags';
+
+// ✅ The rules every editor and both note services check; the notes table enforces the same
+// ones with check constraints (supabase/migrations/014_note_validation.sql)
+export const MAX_TITLE_LENGTH = 100;
+export const MAX_BODY_LENGTH = 50000;
+export const MAX_TAGS_PER_NOTE = 10;
+
+export type NoteValidationField = 'title' | 'body' | 'tags';
+export type NoteFieldErrors = Partial<Record<NoteValidationField, string>>;
+
+export class NoteValidationError extends Error {
+    errors: NoteFieldErrors;
+
+    constructor(errors: NoteFieldErrors) {
+        super(Object.values(errors)[0] ?? 'Invalid note');
+        this.name = 'NoteValidationError';
+        this.errors = errors;
+    }
+}
+
+type NoteInput = {
+    title?: string;
+    body?: string;
+    tags?: string[] | null;
+};
+
+export function validateTitle(title: string) {
+    const trimmed = title.trim();
+    if (!trimmed) return 'Title is required';
+    if (trimmed.length > MAX_TITLE_LENGTH) return `Titles must be ${MAX_TITLE_LENGTH} characters or less`;
+    return null;
+}
+
+export function validateBody(body: string) {
+    if (body.trim().length > MAX_BODY_LENGTH) {
+        return `Notes must be ${MAX_BODY_LENGTH.toLocaleString('en-US')} characters or less`;
+    }
+    return null;
+}
+
+export function validateTags(tags: string[]) {
+    for (const tag of tags) {
+        try {
+            normalizeTagName(tag);
+        } catch (error) {
+            return `#${tag.trim()}: ${error instanceof Error ? error.message : 'Invalid tag'}`;
+        }
+    }
+    if (dedupeTags(tags.map(tag => normalizeTagName(tag))).length > MAX_TAGS_PER_NOTE) {
+        return `Notes can have up to ${MAX_TAGS_PER_NOTE} tags`;
+    }
+    return null;
+}
+
+// Errors for the fields present in `input`; empty when it can be saved
+export function getNoteErrors(input: NoteInput) {
+    const errors: NoteFieldErrors = {};
+
+    const titleError = input.title !== undefined ? validateTitle(input.title) : null;
+    const bodyError = input.body !== undefined ? validateBody(input.body) : null;
+    const tagsError = input.tags ? validateTags(input.tags) : null;
+
+    if (titleError) errors.title = titleError;
+    if (bodyError) errors.body = bodyError;
+    if (tagsError) errors.tags = tagsError;
+
+    return errors;
+}
+
+// The input as it is stored: title and body trimmed, tags normalized and de-duplicated.
+// Throws NoteValidationError when a field breaks the rules.
+export function normalizeNoteInput<T extends NoteInput>(input: T): T {
+    const errors = getNoteErrors(input);
+    if (Object.keys(errors).length > 0) {
+        throw new NoteValidationError(errors);
+    }
+
+    return {
+        ...input,
+        ...(input.title !== undefined && { title: input.title.trim() }),
+        ...(input.body !== undefined && { body: input.body.trim() }),
+        ...(input.tags && { tags: dedupeTags(input.tags.map(tag => normalizeTagName(tag))) }),
+    };
+}
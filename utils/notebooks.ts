@@ -0,0 +1,32 @@
+import { INBOX_NAME, type Note, type Notebook } from '@/services/notes';
+
+// FilterOptions.notebook value for notes that aren't in any notebook
+export const INBOX_FILTER = 'inbox';
+
+// null matches every notebook
+export function matchesNotebookFilter(note: Pick<Note, 'notebook_id'>, filter: string | null) {
+    if (filter === null) return true;
+    if (filter === INBOX_FILTER) return !note.notebook_id;
+    return note.notebook_id === filter;
+}
+
+// Until a pull brings the notebook in, a note that points at an unknown one reads as Inbox
+export function getNotebookName(notebookId: string | null | undefined, notebooks: Notebook[]) {
+    return notebooks.find(notebook => notebook.id === notebookId)?.name ?? INBOX_NAME;
+}
+
+export function describeNotebookFilter(filter: string | null, notebooks: Notebook[]) {
+    if (filter === null) return null;
+    if (filter === INBOX_FILTER) return INBOX_NAME;
+    return notebooks.find(notebook => notebook.id === filter)?.name ?? 'Deleted notebook';
+}
+
+// Keyed by notebook id, with INBOX_FILTER for notes outside any notebook
+export function countNotesByNotebook(notes: Note[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    notes.forEach(note => {
+        const key = note.notebook_id || INBOX_FILTER;
+        counts[key] = (counts[key] || 0) + 1;
+    });
+    return counts;
+}
@@ -0,0 +1,91 @@
+import type { Note, NoteSearchHit } from '@/services/notes';
+import { getHighlightTerms, matchesSearchQuery, type SearchQuery } from './searchQuery';
+
+// Markers the search_notes function puts around matched words
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_END = '⟧';
+
+export type HighlightSegment = {
+    text: string;
+    highlighted: boolean;
+};
+
+export function splitHighlights(text: string): HighlightSegment[] {
+    const segments: HighlightSegment[] = [];
+    let rest = text;
+
+    while (rest) {
+        const start = rest.indexOf(HIGHLIGHT_START);
+        const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_END, start);
+
+        if (start === -1 || end === -1) {
+            segments.push({ text: rest, highlighted: false });
+            break;
+        }
+        if (start > 0) {
+            segments.push({ text: rest.slice(0, start), highlighted: false });
+        }
+        segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+        rest = rest.slice(end + HIGHLIGHT_END.length);
+    }
+
+    return segments.filter(segment => segment.text);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function highlightTerms(text: string, terms: string[]) {
+    if (terms.length === 0) return text;
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    return text.replace(pattern, `${HIGHLIGHT_START}$1${HIGHLIGHT_END}`);
+}
+
+// Same shape as a server hit, built from the local copy when the server isn't used
+export function buildLocalSearchHit(note: Note, searchTerms: string[]): NoteSearchHit {
+    const terms = searchTerms.map(term => term.toLowerCase());
+    const body = note.body ?? '';
+    const lowerBody = body.toLowerCase();
+    const firstMatch = Math.min(...terms.map(term => {
+        const index = lowerBody.indexOf(term);
+        return index === -1 ? Infinity : index;
+    }));
+
+    // Start the snippet a little before the first match
+    const start = Number.isFinite(firstMatch) ? Math.max(0, firstMatch - 40) : 0;
+    const excerpt = body.slice(start, start + 160);
+
+    return {
+        id: note.id,
+        note,
+        rank: 0,
+        title_highlight: highlightTerms(note.title, terms),
+        body_snippet: `${start > 0 ? '… ' : ''}${highlightTerms(excerpt, terms)}`,
+    };
+}
+
+const sameContent = (a: Note, b: Note) =>
+    a.title === b.title && a.body === b.body && JSON.stringify(a.tags ?? []) === JSON.stringify(b.tags ?? []);
+
+// ✅ The server only knows what has been pushed. Hits for notes edited on the device since are
+// checked again against the local copy, and local notes the server hasn't seen are added after the ranked ones.
+export function mergePendingHits(hits: NoteSearchHit[], pendingNotes: Note[], query: SearchQuery) {
+    const terms = getHighlightTerms(query);
+    const pendingById = new Map(pendingNotes.map(note => [note.id, note]));
+
+    const merged = hits.flatMap((hit): NoteSearchHit[] => {
+        const local = pendingById.get(hit.id);
+        if (!local) return [hit];
+        pendingById.delete(hit.id);
+
+        if (local.deleted_at) return [];
+        // Text the server matched by word stem still matches; only changed text is checked locally
+        if (sameContent(local, hit.note)) return [{ ...hit, note: local }];
+        return matchesSearchQuery(local, query) ? [{ ...buildLocalSearchHit(local, terms), rank: hit.rank }] : [];
+    });
+
+    const added = [...pendingById.values()]
+        .filter(note => !note.deleted_at && matchesSearchQuery(note, query))
+        .map(note => buildLocalSearchHit(note, terms));
+
+    return [...merged, ...added];
+}
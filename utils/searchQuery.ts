@@ -0,0 +1,253 @@
+import type { Note } from '@/services/notes';
+import { tagMatches } from '@/utils/tags';
+
+// Query language for the home search box:
+//   meeting "exact phrase" tag:work -tag:draft tag:clients/acme before:2026-01-01 after:2025-06-30
+//   updated:2026-03-01 updated:>2026-03-01 is:long is:tagged is:pinned is:favorite
+//   plus OR between alternatives.
+// Terms next to each other must all match; OR binds looser than that.
+
+export type SearchTerm =
+    | { type: 'text'; value: string; phrase: boolean; negated: boolean }
+    | { type: 'tag'; value: string; negated: boolean }
+    | { type: 'date'; field: 'created_at' | 'updated_at'; comparison: 'before' | 'after' | 'on'; date: Date; negated: boolean }
+    | { type: 'is'; value: typeof IS_VALUES[number]; negated: boolean };
+
+// Alternatives joined by OR; each one is a list of terms that must all match
+export type SearchQuery = SearchTerm[][];
+
+export class SearchQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SearchQueryError';
+    }
+}
+
+// Same threshold as the "long notes only" filter
+export const LONG_NOTE_LENGTH = 100;
+
+const OPERATORS = ['tag', 'before', 'after', 'updated', 'is'] as const;
+const IS_VALUES = ['long', 'tagged', 'pinned', 'favorite'] as const;
+
+type Token = { text: string; quoted: boolean; negated: boolean };
+
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        if (/\s/.test(input[i])) {
+            i++;
+            continue;
+        }
+
+        const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+        if (negated) i++;
+
+        if (input[i] === '"') {
+            const end = input.indexOf('"', i + 1);
+            if (end === -1) {
+                throw new SearchQueryError('A quote is missing its closing " mark.');
+            }
+            const phrase = input.slice(i + 1, end).trim();
+            if (!phrase) {
+                throw new SearchQueryError('Put some words between the quotes, e.g. "project plan".');
+            }
+            tokens.push({ text: phrase, quoted: true, negated });
+            i = end + 1;
+            continue;
+        }
+
+        // An operator value may be quoted too: tag:"client work"
+        const start = i;
+        while (i < input.length && !/\s/.test(input[i]) && input[i] !== '"') i++;
+        let text = input.slice(start, i);
+
+        if (text.endsWith(':') && input[i] === '"') {
+            const end = input.indexOf('"', i + 1);
+            if (end === -1) {
+                throw new SearchQueryError('A quote is missing its closing " mark.');
+            }
+            text += input.slice(i + 1, end);
+            i = end + 1;
+        }
+
+        tokens.push({ text, quoted: false, negated });
+    }
+
+    return tokens;
+}
+
+function parseDay(value: string) {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (value === 'today') return today;
+    if (value === 'yesterday') return new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (match) {
+        const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        const date = new Date(year, month - 1, day);
+        // Rejects dates like 2026-02-30 that roll over into the next month
+        if (date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) {
+            return date;
+        }
+    }
+
+    return null;
+}
+
+function parseOperator(operator: typeof OPERATORS[number], rawValue: string, negated: boolean): SearchTerm {
+    const value = rawValue.trim();
+    if (!value) {
+        const examples: Record<typeof operator, string> = {
+            tag: 'tag:work',
+            before: 'before:2026-01-01',
+            after: 'after:2026-01-01',
+            updated: 'updated:today',
+            is: 'is:long',
+        };
+        throw new SearchQueryError(`"${operator}:" needs a value, e.g. ${examples[operator]}.`);
+    }
+
+    switch (operator) {
+        case 'tag':
+            return { type: 'tag', value: value.replace(/^#/, ''), negated };
+        case 'is': {
+            const kind = value.toLowerCase();
+            if (!(IS_VALUES as readonly string[]).includes(kind)) {
+                throw new SearchQueryError(`"is:${value}" isn't supported. Try ${IS_VALUES.map(item => `is:${item}`).join(' or ')}.`);
+            }
+            return { type: 'is', value: kind as typeof IS_VALUES[number], negated };
+        }
+        default: {
+            let comparison: 'before' | 'after' | 'on' = operator === 'updated' ? 'on' : operator;
+            let dateText = value.toLowerCase();
+
+            if (operator === 'updated' && /^[<>]/.test(dateText)) {
+                comparison = dateText[0] === '<' ? 'before' : 'after';
+                dateText = dateText.slice(1);
+            }
+
+            const date = parseDay(dateText);
+            if (!date) {
+                throw new SearchQueryError(`"${value}" isn't a date. Use YYYY-MM-DD, "today" or "yesterday".`);
+            }
+
+            return {
+                type: 'date',
+                field: operator === 'updated' ? 'updated_at' : 'created_at',
+                comparison,
+                date,
+                negated,
+            };
+        }
+    }
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+    const query: SearchQuery = [[]];
+
+    for (const token of tokenize(input)) {
+        const current = query[query.length - 1];
+
+        if (!token.quoted && (token.text === 'OR' || token.text === '|')) {
+            if (token.negated) {
+                throw new SearchQueryError('OR can\'t be negated. Put the "-" on the word after it instead.');
+            }
+            if (current.length === 0) {
+                throw new SearchQueryError('OR needs something to search for on both sides.');
+            }
+            query.push([]);
+            continue;
+        }
+
+        if (token.quoted) {
+            current.push({ type: 'text', value: token.text, phrase: true, negated: token.negated });
+            continue;
+        }
+
+        const separator = token.text.indexOf(':');
+        const operator = token.text.slice(0, separator).toLowerCase();
+        if (separator > 0 && (OPERATORS as readonly string[]).includes(operator)) {
+            current.push(parseOperator(operator as typeof OPERATORS[number], token.text.slice(separator + 1), token.negated));
+            continue;
+        }
+
+        current.push({ type: 'text', value: token.text, phrase: false, negated: token.negated });
+    }
+
+    if (query.length > 1 && query[query.length - 1].length === 0) {
+        throw new SearchQueryError('OR needs something to search for on both sides.');
+    }
+
+    return query[0].length === 0 ? [] : query;
+}
+
+const startOfNextDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+function matchesTerm(note: Note, term: SearchTerm) {
+    switch (term.type) {
+        case 'text': {
+            const haystack = [note.title, note.body, ...(note.tags ?? [])].join('\n').toLowerCase();
+            return haystack.includes(term.value.toLowerCase());
+        }
+        case 'tag': {
+            const tag = term.value.toLowerCase();
+            return (note.tags ?? []).some(noteTag => tagMatches(noteTag.toLowerCase(), tag));
+        }
+        case 'is':
+            switch (term.value) {
+                case 'long':
+                    return (note.body?.length ?? 0) >= LONG_NOTE_LENGTH;
+                case 'pinned':
+                    return !!note.pinned;
+                case 'favorite':
+                    return !!note.favorite;
+                default:
+                    return (note.tags ?? []).length > 0;
+            }
+        case 'date': {
+            const time = new Date(note[term.field]).getTime();
+            const dayStart = term.date.getTime();
+            const dayEnd = startOfNextDay(term.date).getTime();
+
+            if (term.comparison === 'before') return time < dayStart;
+            if (term.comparison === 'after') return time >= dayEnd;
+            return time >= dayStart && time < dayEnd;
+        }
+    }
+}
+
+// `skipText` leaves free-text terms to a full-text search that already ran
+export function matchesSearchQuery(note: Note, query: SearchQuery, options: { skipText?: boolean } = {}) {
+    if (query.length === 0) return true;
+
+    return query.some(group =>
+        group.every(term => {
+            if (options.skipText && term.type === 'text') return true;
+            return matchesTerm(note, term) !== term.negated;
+        })
+    );
+}
+
+// Free-text part for the server's full-text search, or null when it can't express the query
+export function toFullTextQuery(query: SearchQuery) {
+    if (query.length !== 1) return null;
+
+    const textTerms = query[0].filter(term => term.type === 'text');
+    if (!textTerms.some(term => !term.negated)) return null;
+
+    return textTerms
+        .map(term => `${term.negated ? '-' : ''}${term.phrase ? `"${term.value}"` : term.value}`)
+        .join(' ');
+}
+
+// Words and phrases to highlight in results
+export function getHighlightTerms(query: SearchQuery) {
+    return query
+        .flat()
+        .filter((term): term is Extract<SearchTerm, { type: 'text' }> => term.type === 'text' && !term.negated)
+        .map(term => term.value);
+}
@@ -0,0 +1,54 @@
+import type { FilterOptions, TagMatchMode } from '@/components/FilterModal';
+import { tagMatches } from '@/utils/tags';
+
+type TagFilter = Pick<FilterOptions, 'selectedTags' | 'tagMatch' | 'excludedTags'>;
+
+// Selected tags are matched by the mode; excluded tags always rule a note out.
+// A parent tag also matches the tags nested under it.
+export function matchesTagFilter(noteTags: string[] | null | undefined, { selectedTags, tagMatch, excludedTags }: TagFilter) {
+    const tags = noteTags ?? [];
+    const hasTag = (filterTag: string) => tags.some(tag => tagMatches(tag, filterTag));
+
+    if (excludedTags.some(hasTag)) {
+        return false;
+    }
+    if (selectedTags.length === 0) {
+        return true;
+    }
+
+    switch (tagMatch) {
+        case 'all':
+            return selectedTags.every(hasTag);
+        case 'none':
+            return !selectedTags.some(hasTag);
+        default:
+            return selectedTags.some(hasTag);
+    }
+}
+
+const MATCH_LABELS: Record<TagMatchMode, string> = {
+    any: 'any of',
+    all: 'all of',
+    none: 'none of',
+};
+
+const listTags = (tags: string[], limit: number) => {
+    const shown = tags.slice(0, limit).map(tag => `#${tag}`).join(', ');
+    return tags.length > limit ? `${shown} +${tags.length - limit}` : shown;
+};
+
+// e.g. "all of #work, #urgent, not #draft"; null when no tag filter applies
+export function describeTagFilter({ selectedTags, tagMatch, excludedTags }: TagFilter, limit = 3) {
+    const parts: string[] = [];
+
+    if (selectedTags.length === 1 && tagMatch !== 'none') {
+        parts.push(`#${selectedTags[0]}`);
+    } else if (selectedTags.length > 0) {
+        parts.push(`${MATCH_LABELS[tagMatch]} ${listTags(selectedTags, limit)}`);
+    }
+    if (excludedTags.length > 0) {
+        parts.push(`not ${listTags(excludedTags, limit)}`);
+    }
+
+    return parts.length > 0 ? parts.join(', ') : null;
+}
@@ -0,0 +1,191 @@
+import type { Note } from '@/services/notes';
+
+// Tags can be nested with "/", e.g. clients/acme/billing
+export const TAG_SEPARATOR = '/';
+
+// Each level of a tag is limited like a flat tag used to be; the whole path gets more room
+export const MAX_TAG_LENGTH = 20;
+export const MAX_TAG_PATH_LENGTH = 60;
+
+// Notes per exact tag
+export function calculateTagUsage(notes: Note[]): Record<string, number> {
+    const tagUsage: Record<string, number> = {};
+
+    notes.forEach(note => {
+        if (note.tags && Array.isArray(note.tags)) {
+            note.tags.forEach(tag => {
+                tagUsage[tag] = (tagUsage[tag] || 0) + 1;
+            });
+        }
+    });
+
+    return tagUsage;
+}
+
+// clients/acme/billing → ['clients', 'clients/acme']
+export function getTagAncestors(tag: string) {
+    const segments = tag.split(TAG_SEPARATOR);
+    return segments.slice(1).map((_, index) => segments.slice(0, index + 1).join(TAG_SEPARATOR));
+}
+
+// A parent tag matches itself and everything nested under it
+export function tagMatches(tag: string, filterTag: string) {
+    return tag === filterTag || tag.startsWith(filterTag + TAG_SEPARATOR);
+}
+
+// Notes per tag path, counting each note once under every parent of its tags
+export function calculateTagRollup(notes: Note[]): Record<string, number> {
+    const rollup: Record<string, number> = {};
+
+    notes.forEach(note => {
+        const paths = new Set<string>();
+        (note.tags ?? []).forEach(tag => {
+            paths.add(tag);
+            getTagAncestors(tag).forEach(parent => paths.add(parent));
+        });
+        paths.forEach(path => {
+            rollup[path] = (rollup[path] || 0) + 1;
+        });
+    });
+
+    return rollup;
+}
+
+export type TagTreeNode = {
+    path: string;
+    name: string; // last segment of the path
+    depth: number;
+    children: TagTreeNode[];
+};
+
+// Parents that only exist through their children still get a node
+export function buildTagTree(tags: string[], counts: Record<string, number> = {}): TagTreeNode[] {
+    const nodes = new Map<string, TagTreeNode>();
+    const roots: TagTreeNode[] = [];
+
+    const getNode = (path: string): TagTreeNode => {
+        const existing = nodes.get(path);
+        if (existing) return existing;
+
+        const segments = path.split(TAG_SEPARATOR);
+        const node: TagTreeNode = { path, name: segments[segments.length - 1], depth: segments.length - 1, children: [] };
+        nodes.set(path, node);
+
+        if (segments.length === 1) {
+            roots.push(node);
+        } else {
+            getNode(segments.slice(0, -1).join(TAG_SEPARATOR)).children.push(node);
+        }
+        return node;
+    };
+
+    tags.forEach(getNode);
+
+    const sortNodes = (list: TagTreeNode[]) => {
+        list.sort((a, b) => (counts[b.path] || 0) - (counts[a.path] || 0) || a.name.localeCompare(b.name));
+        list.forEach(node => sortNodes(node.children));
+        return list;
+    };
+
+    return sortNodes(roots);
+}
+
+// Existing tag paths (and their parents) that start with what was typed, or whose last segment does
+export function getTagSuggestions(input: string, existingTags: string[], exclude: string[] = [], limit = 8) {
+    const query = input.trim().replace(/^#+/, '').toLowerCase();
+    if (!query) return [];
+
+    const paths = new Set<string>();
+    existingTags.forEach(tag => {
+        paths.add(tag);
+        getTagAncestors(tag).forEach(parent => paths.add(parent));
+    });
+
+    const rank = (path: string) => {
+        const lower = path.toLowerCase();
+        if (lower.startsWith(query)) return 0;
+        const name = lower.split(TAG_SEPARATOR).pop() ?? '';
+        return name.startsWith(query) ? 1 : -1;
+    };
+
+    return Array.from(paths)
+        .filter(path => !exclude.includes(path) && path.toLowerCase() !== query && rank(path) >= 0)
+        .sort((a, b) => rank(a) - rank(b) || a.length - b.length || a.localeCompare(b))
+        .slice(0, limit);
+}
+
+// For comma-separated tag inputs: the tag being typed is the text after the last comma
+export function getTypedTag(input: string) {
+    return input.slice(input.lastIndexOf(',') + 1);
+}
+
+export function completeTypedTag(input: string, tag: string) {
+    const prefix = input.slice(0, input.lastIndexOf(',') + 1);
+    return `${prefix}${prefix ? ' ' : ''}${tag}, `;
+}
+
+// Trims a user-typed tag name and throws if it can't be stored
+export function normalizeTagName(input: string) {
+    const tag = input
+        .trim()
+        .replace(/^#+/, '')
+        .split(TAG_SEPARATOR)
+        .map(segment => segment.trim())
+        .filter(segment => segment.length > 0)
+        .join(TAG_SEPARATOR);
+
+    if (!tag) {
+        throw new Error('Tag name is required');
+    }
+    if (tag.split(TAG_SEPARATOR).some(segment => segment.length > MAX_TAG_LENGTH)) {
+        throw new Error(`Each part of a tag must be ${MAX_TAG_LENGTH} characters or less`);
+    }
+    if (tag.length > MAX_TAG_PATH_LENGTH) {
+        throw new Error(`Tags must be ${MAX_TAG_PATH_LENGTH} characters or less`);
+    }
+    if (tag.includes(',')) {
+        throw new Error('Tags can\'t contain commas');
+    }
+
+    return tag;
+}
+
+// Repeats are dropped ignoring case; the first spelling wins
+export function dedupeTags(tags: string[]) {
+    const seen = new Set<string>();
+    return tags.filter(tag => {
+        const key = tag.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+export type TagChange =
+    | { type: 'replace'; from: string[]; to: string } // rename and merge
+    | { type: 'remove'; tags: string[] };
+
+// The new path of `tag` when one of `from` is the tag or one of its parents, e.g. renaming
+// work to job turns work/acme into job/acme. The closest parent wins; null when none matches.
+function getRenamedTag(tag: string, from: string[], to: string) {
+    const source = from
+        .filter(item => tagMatches(tag, item))
+        .reduce<string | null>((longest, item) => (!longest || item.length > longest.length ? item : longest), null);
+
+    return source === null ? null : to + tag.slice(source.length);
+}
+
+// Mirrors replace_note_tags / remove_note_tags so changes can be previewed locally
+export function applyTagChange(tags: string[], change: TagChange) {
+    const next = change.type === 'replace'
+        ? tags.map(tag => getRenamedTag(tag, change.from, change.to) ?? tag)
+        : tags.filter(tag => !change.tags.includes(tag));
+
+    return dedupeTags(next);
+}
+
+export function isAffectedByTagChange(tags: string[], change: TagChange) {
+    return change.type === 'replace'
+        ? tags.some(tag => getRenamedTag(tag, change.from, change.to) !== null)
+        : tags.some(tag => change.tags.includes(tag));
+}